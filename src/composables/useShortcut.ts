@@ -0,0 +1,152 @@
+import { onBeforeUnmount, onMounted } from 'vue'
+import { useShortcutsStore } from '@/stores/shortcutsStore'
+import { eventToStroke, isTypingStroke, parseShortcut, type ShortcutScope } from '@/lib/keymap'
+
+/**
+ * Keyboard shortcuts from the user's keymap.
+ *
+ * Components register a handler for a command id and a single capture-phase
+ * listener on the document dispatches key presses to them, so rebinding a
+ * command in settings takes effect everywhere at once.
+ */
+
+type ShortcutHandler = (event: KeyboardEvent) => void
+
+interface ShortcutOptions {
+  // Return false to let the key through, e.g. when another instance should handle it
+  when?: (event: KeyboardEvent) => boolean
+}
+
+interface Registration {
+  handler: ShortcutHandler
+  when?: (event: KeyboardEvent) => boolean
+}
+
+const CHORD_TIMEOUT = 1500
+// Emacs chord prefixes still copy and cut when there is a selection
+const CLIPBOARD_STROKES = ['Ctrl+C', 'Ctrl+X']
+
+const registry = new Map<string, Registration[]>()
+let pendingStrokes: string[] = []
+let chordTimer: ReturnType<typeof setTimeout> | null = null
+let isListening = false
+
+const resetChord = () => {
+  pendingStrokes = []
+  if (chordTimer) clearTimeout(chordTimer)
+  chordTimer = null
+}
+
+/**
+ * The scope a key press happens in: code cells, the nota editor or elsewhere
+ */
+export function getShortcutScope(target: EventTarget | null): ShortcutScope {
+  if (!(target instanceof Element)) return 'global'
+  if (target.closest('.cm-editor')) return 'code'
+  if (target.closest('.ProseMirror')) return 'editor'
+  return 'global'
+}
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+
+const hasSelection = () => {
+  const selection = document.getSelection()
+  return !!selection && !selection.isCollapsed
+}
+
+const runHandler = (id: string, event: KeyboardEvent) => {
+  // The most recently mounted handler that accepts the event wins
+  const registrations = registry.get(id) ?? []
+  for (let i = registrations.length - 1; i >= 0; i--) {
+    const { handler, when } = registrations[i]
+    if (when && !when(event)) continue
+    handler(event)
+    return true
+  }
+  return false
+}
+
+const handleKeyDown = (event: KeyboardEvent) => {
+  if (event.isComposing || event.defaultPrevented) return
+  // Key recorders in settings need every key press
+  if (event.target instanceof Element && event.target.closest('[data-shortcut-recorder]')) return
+  const stroke = eventToStroke(event)
+  if (!stroke) return
+
+  const scope = getShortcutScope(event.target)
+  const typing = isTextField(event.target)
+  const store = useShortcutsStore()
+
+  const candidates = store.shortcuts
+    .filter(shortcut => registry.has(shortcut.id))
+    .filter(shortcut => shortcut.scope === 'global' || shortcut.scope === scope)
+    .map(shortcut => ({ id: shortcut.id, strokes: parseShortcut(shortcut.key) }))
+    .filter(shortcut => shortcut.strokes.length > 0)
+
+  const match = (sequence: string[]) => {
+    const exact = candidates.filter(c =>
+      c.strokes.length === sequence.length && c.strokes.every((s, i) => s === sequence[i])
+    )
+    const longer = candidates.some(c =>
+      c.strokes.length > sequence.length && sequence.every((s, i) => c.strokes[i] === s)
+    )
+    return { exact, longer }
+  }
+
+  let sequence = [...pendingStrokes, stroke]
+  let result = match(sequence)
+  // A stroke that does not continue the chord may still start a new one
+  if (pendingStrokes.length > 0 && result.exact.length === 0 && !result.longer) {
+    sequence = [stroke]
+    result = match(sequence)
+  }
+  resetChord()
+
+  // Plain keys are for typing while a text field has focus
+  if (sequence.length === 1 && typing && isTypingStroke(stroke)) return
+
+  for (const candidate of result.exact) {
+    if (runHandler(candidate.id, event)) {
+      event.preventDefault()
+      event.stopPropagation()
+      return
+    }
+  }
+
+  if (result.longer) {
+    if (sequence.length === 1 && CLIPBOARD_STROKES.includes(stroke) && hasSelection()) return
+    event.preventDefault()
+    event.stopPropagation()
+    pendingStrokes = sequence
+    chordTimer = setTimeout(resetChord, CHORD_TIMEOUT)
+  }
+}
+
+/**
+ * Run a handler when the key bound to a command is pressed. The binding
+ * comes from the shortcuts store, so it follows the user's keymap.
+ * @param id Command id from `SHORTCUT_COMMANDS`
+ * @param handler Called with the key event
+ */
+export function useShortcut(id: string, handler: ShortcutHandler, options: ShortcutOptions = {}) {
+  const registration: Registration = { handler, when: options.when }
+
+  onMounted(() => {
+    const store = useShortcutsStore()
+    if (!store.isLoaded) store.loadShortcuts()
+
+    if (!isListening) {
+      document.addEventListener('keydown', handleKeyDown, true)
+      isListening = true
+    }
+    registry.set(id, [...(registry.get(id) ?? []), registration])
+  })
+
+  onBeforeUnmount(() => {
+    const remaining = (registry.get(id) ?? []).filter(r => r !== registration)
+    if (remaining.length > 0) registry.set(id, remaining)
+    else registry.delete(id)
+  })
+}
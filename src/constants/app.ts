@@ -97,7 +97,8 @@ export const FILE_EXTENSIONS = {
   nota: '.nota',
   json: '.json',
   markdown: '.md',
-  text: '.txt'
+  text: '.txt',
+  ipynb: '.ipynb'
 } as const
 
 // API Endpoints (if needed)
@@ -4,6 +4,7 @@ import { aiService } from '@/features/ai/services'
 import { webLLMDefaultModelService } from '@/features/ai/services/webLLMDefaultModelService'
 import type {
   GeminiModelInfo,
+  ModelInfo,
   WebLLMModelInfo,
   ProviderConfig,
   GenerationOptions,
@@ -27,6 +28,8 @@ export function useAIProviders() {
   const webLLMModels = ref<WebLLMModelInfo[]>([])
   const isLoadingGeminiModels = ref(false)
   const isLoadingWebLLMModels = ref(false)
+  const openAICompatibleModels = ref<ModelInfo[]>([])
+  const isLoadingOpenAICompatibleModels = ref(false)
   
   // WebLLM specific state
   const isWebLLMSupported = ref(false)
@@ -116,6 +119,24 @@ export function useAIProviders() {
     }
   }
   
+  /**
+   * Fetch the models served by the configured OpenAI-compatible server
+   */
+  const fetchOpenAICompatibleModels = async () => {
+    try {
+      isLoadingOpenAICompatibleModels.value = true
+      const models = await aiService.getOpenAICompatibleModels()
+      openAICompatibleModels.value = models
+      return models
+    } catch (error) {
+      logger.error('Error fetching OpenAI-compatible models:', error)
+      openAICompatibleModels.value = []
+      return []
+    } finally {
+      isLoadingOpenAICompatibleModels.value = false
+    }
+  }
+  
   /**
    * Load a WebLLM model
    */
@@ -190,6 +211,8 @@ export function useAIProviders() {
       // Save to settings store
       if (providerId === 'gemini') {
         aiSettings.updateSettings({ geminiModel: modelId })
+      } else if (providerId === 'openai-compatible') {
+        aiSettings.updateSettings({ openaiCompatibleModel: modelId })
       }
       
       return true
@@ -286,6 +309,11 @@ export function useAIProviders() {
             continue;
           }
           
+          // Same for self-hosted OpenAI-compatible servers
+          if (provider.id === 'openai-compatible' && provider.id !== aiSettings.settings.preferredProviderId) {
+            continue;
+          }
+          
           const isAvailable = await checkProviderAvailability(provider.id)
           if (isAvailable) {
             availableProviders.value.push(provider.id)
@@ -599,6 +627,8 @@ export function useAIProviders() {
     webLLMModels,
     isLoadingGeminiModels,
     isLoadingWebLLMModels,
+    openAICompatibleModels,
+    isLoadingOpenAICompatibleModels,
     isWebLLMSupported,
     webLLMProgress,
     webLLMError,
@@ -610,6 +640,7 @@ export function useAIProviders() {
     checkWebLLMSupport,
     fetchGeminiModels,
     fetchWebLLMModels,
+    fetchOpenAICompatibleModels,
     loadWebLLMModel,
     setDefaultModel,
     getDefaultGenerationOptions,
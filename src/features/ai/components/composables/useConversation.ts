@@ -4,12 +4,25 @@ import { useAISettingsStore } from '@/features/ai/stores/aiSettingsStore'
 import { logger } from '@/services/logger'
 import { useConversationManager } from './useConversationManager'
 import { aiConversationService } from '@/features/ai/services/aiConversationService'
+import type { AgentStep } from '@/features/ai/services/agentService'
 
 export interface ConversationMessage {
   id: string
   role: 'user' | 'assistant' | 'system'
   content: string
   timestamp?: Date
+  toolSteps?: AgentStep[] // Tools called by the agent before this reply
+  sources?: MessageSource[] // Nota blocks a workspace answer was based on
+}
+
+// A retrieved block cited in a workspace answer as [index]
+export interface MessageSource {
+  index: number
+  notaId: string
+  notaTitle: string
+  blockOrder: number
+  blockType: string
+  text: string
 }
 
 export interface ChatHistoryItem {
@@ -0,0 +1,407 @@
+import { ref, type Ref } from 'vue'
+import type { Editor } from '@tiptap/vue-3'
+import { logger } from '@/services/logger'
+import type { AIChatMessage, AIToolCall } from '@/features/ai/services'
+import {
+  runAgentLoop,
+  type AgentProposal,
+  type AgentTool,
+} from '@/features/ai/services/agentService'
+import { useAISettingsStore } from '@/features/ai/stores/aiSettingsStore'
+import { useBlockStore } from '@/features/nota/stores/blockStore'
+import { useNotaStore } from '@/features/nota/stores/nota'
+import { useCodeExecutionStore } from '@/features/editor/stores/codeExecutionStore'
+import { searchIndexService } from '@/features/nota/services/searchIndexService'
+import { markdownParserService } from '@/features/editor/services/MarkdownParserService'
+import { serializeBlock, textContent } from '@/features/editor/services/export/markdownSerializer'
+import { useConversationManager } from './useConversationManager'
+import type { ConversationMessage } from './useConversation'
+
+// A proposed change waiting for the user to accept or reject it
+export interface PendingAgentChange {
+  call: AIToolCall
+  proposal: AgentProposal
+  resolve: (accepted: boolean) => void
+}
+
+const CODE_TYPES = ['executableCodeBlock', 'codeBlock']
+
+const SYSTEM_PROMPT = `You are an assistant working inside a nota: a document made of blocks such as paragraphs, headings, lists and executable code cells.
+Use the tools to look at the nota before answering questions about it or changing it. Blocks are addressed by their 0-based index as shown by list_blocks; indexes shift after an insert, so list the blocks again when unsure.
+Every change and every cell run is shown to the user, who can accept or reject it. If a change is rejected, do not repeat it.
+When you are done, reply with a short summary of what you did.`
+
+const stripHtml = (html: string) => html.replace(/<[^>]+>/g, '').trim()
+
+const blockSource = (node: any): string =>
+  CODE_TYPES.includes(node.type) ? textContent(node) : serializeBlock(node)
+
+/**
+ * Tool-calling agent for the AI sidebar. The tools read the open nota,
+ * propose edits and run cells; every edit and run waits for the user to
+ * accept it through `pendingChange`.
+ */
+export function useNotaAgent(editor: Ref<Editor | null>, notaId: string) {
+  const aiSettings = useAISettingsStore()
+  const blockStore = useBlockStore()
+  const notaStore = useNotaStore()
+  const codeExecutionStore = useCodeExecutionStore()
+  const conversationManager = useConversationManager(editor.value, notaId)
+
+  const isRunning = ref(false)
+  const pendingChange = ref<PendingAgentChange | null>(null)
+  let controller: AbortController | null = null
+
+  // The live editor document, or the saved blocks when the editor is not mounted
+  const getBlocks = (): any[] =>
+    (editor.value?.getJSON() ?? blockStore.getTiptapContent(notaId))?.content || []
+
+  const blockAt = (index: number) => {
+    const blocks = getBlocks()
+    if (!Number.isInteger(index) || index < 0 || index >= blocks.length) {
+      throw new Error(`There is no block ${index}; the nota has ${blocks.length} blocks (0-${blocks.length - 1})`)
+    }
+    return blocks[index]
+  }
+
+  const codeBlockAt = (index: number) => {
+    const node = blockAt(index)
+    if (!CODE_TYPES.includes(node.type)) {
+      throw new Error(`Block ${index} is a ${node.type}, not a code block`)
+    }
+    return node
+  }
+
+  const requireEditor = (): Editor => {
+    if (!editor.value) {
+      throw new Error('The nota must be open in the editor to change it')
+    }
+    return editor.value
+  }
+
+  // Document position of a top-level block
+  const positionOf = (instance: Editor, index: number) => {
+    let pos = 0
+    for (let i = 0; i < index; i++) {
+      pos += instance.state.doc.child(i).nodeSize
+    }
+    return pos
+  }
+
+  const newBlocks = (type: string, content: string, language?: string): any[] => {
+    if (type === 'code') {
+      return [{
+        type: 'executableCodeBlock',
+        attrs: { id: crypto.randomUUID(), language: language || 'python' },
+        content: content ? [{ type: 'text', text: content }] : undefined,
+      }]
+    }
+
+    const parsed = markdownParserService.parseMarkdown(content).blocks.filter(block => block.metadata.isValid)
+    return markdownParserService.convertToTiptap(parsed).map((node: any) =>
+      node.type === 'executableCodeBlock' && !node.attrs?.id
+        ? { ...node, attrs: { ...node.attrs, id: crypto.randomUUID() } }
+        : node,
+    )
+  }
+
+  const runCell = async (index: number): Promise<string> => {
+    const instance = requireEditor()
+    const node = codeBlockAt(index)
+    if (node.type !== 'executableCodeBlock' || !node.attrs?.id) {
+      throw new Error(`Block ${index} is not an executable cell`)
+    }
+
+    const cellId = node.attrs.id
+    const code = textContent(node)
+    const existing = codeExecutionStore.getCellById(cellId)
+    if (existing) {
+      existing.code = code
+    } else {
+      codeExecutionStore.addCell({
+        id: cellId,
+        code,
+        kernelName: node.attrs.kernelName || '',
+        sessionId: node.attrs.sessionId || 'default',
+        output: '',
+      })
+    }
+
+    await codeExecutionStore.executeCell(cellId)
+    const cell = codeExecutionStore.getCellById(cellId)
+    if (!cell) {
+      throw new Error('The cell could not be executed')
+    }
+
+    // Keep the output on the block, as running it from the cell would
+    instance.state.doc.descendants((child, pos) => {
+      if (child.type.name !== 'executableCodeBlock' || child.attrs.id !== cellId) return true
+      instance.view.dispatch(
+        instance.state.tr.setNodeMarkup(pos, undefined, {
+          ...child.attrs,
+          output: cell.output || '',
+          outputs: cell.outputs ?? null,
+          executionCount: cell.executionCount ?? null,
+        }),
+      )
+      return false
+    })
+
+    const output = stripHtml(cell.output || '')
+    if (cell.hasError) {
+      return `The cell raised an error:\n${output}`
+    }
+    return output ? `Output:\n${output}` : 'The cell ran without output.'
+  }
+
+  const tools: AgentTool[] = [
+    {
+      definition: {
+        name: 'list_blocks',
+        description: 'List the blocks of the open nota with their index, type and a short preview.',
+        parameters: { type: 'object', properties: {} },
+      },
+      execute: () => {
+        const blocks = getBlocks()
+        if (blocks.length === 0) return 'The nota is empty.'
+        return blocks
+          .map((node, index) => {
+            const language = node.attrs?.language ? ` (${node.attrs.language})` : ''
+            const preview = blockSource(node).replace(/\s+/g, ' ').trim().slice(0, 80)
+            return `${index}. ${node.type}${language}: ${preview}`
+          })
+          .join('\n')
+      },
+    },
+    {
+      definition: {
+        name: 'read_block',
+        description: 'Read the full content of a block. For code cells the last output is included.',
+        parameters: {
+          type: 'object',
+          properties: { index: { type: 'integer', description: 'Block index from list_blocks' } },
+          required: ['index'],
+        },
+      },
+      execute: ({ index }) => {
+        const node = blockAt(Number(index))
+        const source = blockSource(node)
+        const output = node.attrs?.output ? stripHtml(String(node.attrs.output)) : ''
+        return output ? `${source}\n\nLast output:\n${output}` : source
+      },
+    },
+    {
+      definition: {
+        name: 'insert_block_after',
+        description: 'Insert new content after a block. Use type "code" for an executable cell and "markdown" for any other content.',
+        parameters: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer', description: 'Block index to insert after; -1 inserts at the start' },
+            type: { type: 'string', enum: ['markdown', 'code'] },
+            content: { type: 'string', description: 'Markdown text or source code' },
+            language: { type: 'string', description: 'Language of a code cell, python by default' },
+          },
+          required: ['index', 'type', 'content'],
+        },
+      },
+      requiresReview: true,
+      propose: ({ index, type, content, language }) => {
+        if (Number(index) !== -1) blockAt(Number(index))
+        return {
+          title: Number(index) === -1 ? 'Insert at the start' : `Insert after block ${index}`,
+          after: String(content ?? ''),
+          language: type === 'code' ? language || 'python' : undefined,
+        }
+      },
+      execute: ({ index, type, content, language }) => {
+        const instance = requireEditor()
+        const after = Number(index)
+        const nodes = newBlocks(type, String(content ?? ''), language)
+        if (nodes.length === 0) {
+          throw new Error('The content did not produce any blocks')
+        }
+        const pos = after === -1 ? 0 : positionOf(instance, after + 1)
+        instance.chain().insertContentAt(pos, nodes, { updateSelection: false }).run()
+        return `Inserted ${nodes.length} block(s) starting at index ${after + 1}.`
+      },
+    },
+    {
+      definition: {
+        name: 'replace_code_in_block',
+        description: 'Replace the whole source of a code block.',
+        parameters: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer', description: 'Block index of the code block' },
+            code: { type: 'string', description: 'The new source code' },
+          },
+          required: ['index', 'code'],
+        },
+      },
+      requiresReview: true,
+      propose: ({ index, code }) => {
+        const node = codeBlockAt(Number(index))
+        return {
+          title: `Replace code in block ${index}`,
+          before: textContent(node),
+          after: String(code ?? ''),
+          language: node.attrs?.language,
+        }
+      },
+      execute: ({ index, code }) => {
+        const instance = requireEditor()
+        const node = codeBlockAt(Number(index))
+        const from = positionOf(instance, Number(index))
+        const text = String(code ?? '')
+        instance
+          .chain()
+          .insertContentAt(
+            { from, to: from + instance.state.doc.child(Number(index)).nodeSize },
+            { ...node, content: text ? [{ type: 'text', text }] : undefined },
+            { updateSelection: false },
+          )
+          .run()
+        return `Replaced the code in block ${index}.`
+      },
+    },
+    {
+      definition: {
+        name: 'run_cell',
+        description: 'Run an executable code cell on its kernel and return the output.',
+        parameters: {
+          type: 'object',
+          properties: { index: { type: 'integer', description: 'Block index of the cell' } },
+          required: ['index'],
+        },
+      },
+      requiresReview: true,
+      propose: ({ index }) => {
+        const node = codeBlockAt(Number(index))
+        return { title: `Run cell ${index}`, after: textContent(node), language: node.attrs?.language }
+      },
+      execute: ({ index }) => runCell(Number(index)),
+    },
+    {
+      definition: {
+        name: 'search_notas',
+        description: 'Full-text search across all notas. Returns matching notas with snippets.',
+        parameters: {
+          type: 'object',
+          properties: { query: { type: 'string', description: 'Search terms' } },
+          required: ['query'],
+        },
+      },
+      execute: async ({ query }) => {
+        await searchIndexService.ensureIndexed(notaStore.items.map(nota => nota.id))
+        const results = searchIndexService.search(String(query ?? ''), notaStore.items, 5)
+        if (results.length === 0) return 'No matching notas.'
+        return results
+          .map(({ nota, matches }) => {
+            const snippets = matches.slice(0, 2).map(match => `  - ${match.snippet.text}`)
+            return [`${nota.title} (id ${nota.id})`, ...snippets].join('\n')
+          })
+          .join('\n')
+      },
+    },
+  ]
+
+  const review = (call: AIToolCall, proposal: AgentProposal) =>
+    new Promise<boolean>((resolve) => {
+      pendingChange.value = { call, proposal, resolve }
+    })
+
+  const resolveChange = (accepted: boolean) => {
+    const pending = pendingChange.value
+    pendingChange.value = null
+    pending?.resolve(accepted)
+  }
+
+  const cancel = () => {
+    controller?.abort()
+    resolveChange(false)
+  }
+
+  /**
+   * Run one user prompt through the agent and store the exchange with the AI block
+   */
+  const runAgent = async (
+    block: any,
+    prompt: string,
+    conversationHistory: ConversationMessage[],
+    providerId: string,
+  ): Promise<ConversationMessage[] | undefined> => {
+    if (!block || !prompt.trim() || isRunning.value) return
+
+    const blockId = conversationManager.getOrCreateBlockId(block)
+    const userMessage: ConversationMessage = {
+      id: `user-${Date.now()}`,
+      role: 'user',
+      content: prompt,
+      timestamp: new Date(),
+    }
+    await conversationManager.addMessage(blockId, userMessage)
+
+    const messages: AIChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...conversationHistory
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role, content: message.content })),
+      { role: 'user', content: prompt },
+    ]
+
+    isRunning.value = true
+    controller = new AbortController()
+
+    try {
+      const result = await runAgentLoop({
+        providerId,
+        apiKey: aiSettings.getApiKey(providerId),
+        messages,
+        tools,
+        generation: {
+          maxTokens: aiSettings.settings.maxTokens,
+          temperature: aiSettings.settings.temperature,
+          ...(providerId === 'gemini' && aiSettings.settings.geminiModel
+            ? { modelId: aiSettings.settings.geminiModel }
+            : {}),
+        },
+        review,
+        signal: controller.signal,
+      })
+
+      const assistantMessage: ConversationMessage = {
+        id: `assistant-${Date.now()}`,
+        role: 'assistant',
+        content: result.text,
+        timestamp: new Date(),
+        toolSteps: result.steps,
+      }
+      await conversationManager.addMessage(blockId, assistantMessage)
+
+      editor.value?.commands.updateAttributes('aiGeneration', {
+        result: result.text,
+        loading: false,
+        lastUpdated: new Date().toISOString(),
+      })
+
+      return [...conversationHistory, userMessage, assistantMessage]
+    } catch (error) {
+      logger.error('Agent run failed:', error)
+      throw error
+    } finally {
+      isRunning.value = false
+      pendingChange.value = null
+      controller = null
+    }
+  }
+
+  return {
+    isRunning,
+    pendingChange,
+    runAgent,
+    acceptChange: () => resolveChange(true),
+    rejectChange: () => resolveChange(false),
+    cancel,
+  }
+}
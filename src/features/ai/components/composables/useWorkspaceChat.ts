@@ -0,0 +1,168 @@
+import { ref, type Ref } from 'vue'
+import type { Editor } from '@tiptap/vue-3'
+import { logger } from '@/services/logger'
+import { aiService } from '@/features/ai/services'
+import {
+  embeddingIndexService,
+  type Embedder,
+  type IndexProgress,
+  type RetrievedChunk,
+} from '@/features/ai/services/embeddingIndexService'
+import { useAISettingsStore } from '@/features/ai/stores/aiSettingsStore'
+import { useNotaStore } from '@/features/nota/stores/nota'
+import { useConversationManager } from './useConversationManager'
+import type { ConversationMessage, MessageSource } from './useConversation'
+
+// Providers that can embed notas. Ollama and WebLLM run on this machine; an
+// OpenAI-compatible server may be remote, which the settings warn about.
+export const EMBEDDING_PROVIDERS = ['ollama', 'webllm', 'openai-compatible']
+
+const SYSTEM_PROMPT = `You answer questions about the user's notas (notebook documents) using the numbered sources below, which are excerpts from those notas.
+Base the answer on the sources. After each statement that uses a source, cite it as [n] with the source number. If the sources do not contain the answer, say so instead of guessing.`
+
+const MAX_HISTORY_MESSAGES = 6
+
+/**
+ * Link to a block of a nota; the editor scrolls to `block` when it opens
+ */
+export const sourceLink = (source: Pick<MessageSource, 'notaId' | 'blockOrder'>) =>
+  `/nota/${source.notaId}?block=${source.blockOrder}`
+
+/**
+ * Chat over every nota in the workspace. Questions are answered from the
+ * blocks closest to them in the local embedding index, and the answer cites
+ * those blocks.
+ */
+export function useWorkspaceChat(editor: Ref<Editor | null>, notaId: string) {
+  const aiSettings = useAISettingsStore()
+  const notaStore = useNotaStore()
+  const conversationManager = useConversationManager(editor.value, notaId)
+
+  const isIndexing = ref(false)
+  const indexProgress = ref<IndexProgress | null>(null)
+
+  const getEmbedder = (): Embedder => {
+    const providerId = aiSettings.settings.embeddingProviderId || 'ollama'
+    if (!EMBEDDING_PROVIDERS.includes(providerId)) {
+      throw new Error(`${providerId} cannot be used for embeddings; choose a local provider`)
+    }
+    const modelId = aiSettings.settings.embeddingModel || undefined
+    return {
+      model: `${providerId}/${modelId || 'default'}`,
+      embed: (texts) => aiService.embed(providerId, texts, modelId, aiSettings.getApiKey(providerId)),
+    }
+  }
+
+  /**
+   * Bring the index up to date with all notas
+   */
+  const updateIndex = async (embedder = getEmbedder()) => {
+    isIndexing.value = true
+    try {
+      await embeddingIndexService.ensureIndexed(notaStore.items, embedder, (progress) => {
+        indexProgress.value = progress
+      })
+    } finally {
+      isIndexing.value = false
+      indexProgress.value = null
+    }
+  }
+
+  const toSources = (chunks: RetrievedChunk[]): MessageSource[] =>
+    chunks.map((chunk, index) => ({
+      index: index + 1,
+      notaId: chunk.notaId,
+      notaTitle: notaStore.getItem(chunk.notaId)?.title || 'Untitled',
+      blockOrder: chunk.blockOrder,
+      blockType: chunk.blockType,
+      text: chunk.text,
+    }))
+
+  const buildPrompt = (question: string, sources: MessageSource[], history: ConversationMessage[]) => {
+    const context = sources
+      .map((source) => `[${source.index}] From "${source.notaTitle}" (${source.blockType}):\n${source.text}`)
+      .join('\n\n')
+    const earlier = history
+      .filter((message) => message.role !== 'system')
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n\n')
+
+    return [
+      SYSTEM_PROMPT,
+      `Sources:\n${context || '(no matching content)'}`,
+      earlier ? `Conversation so far:\n${earlier}` : '',
+      `Question: ${question}`,
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+  }
+
+  /**
+   * Answer a question from the workspace and store the exchange with the AI block
+   */
+  const askWorkspace = async (
+    block: any,
+    question: string,
+    conversationHistory: ConversationMessage[],
+    providerId: string,
+  ): Promise<ConversationMessage[] | undefined> => {
+    if (!block || !question.trim()) return
+
+    const blockId = conversationManager.getOrCreateBlockId(block)
+    const userMessage: ConversationMessage = {
+      id: `user-${Date.now()}`,
+      role: 'user',
+      content: question,
+      timestamp: new Date(),
+    }
+    await conversationManager.addMessage(blockId, userMessage)
+
+    try {
+      const embedder = getEmbedder()
+      await updateIndex(embedder)
+      const chunks = await embeddingIndexService.search(question, embedder, aiSettings.settings.ragTopK || 6)
+      const sources = toSources(chunks)
+
+      const result = await aiService.generateText(
+        providerId,
+        {
+          prompt: buildPrompt(question, sources, conversationHistory),
+          maxTokens: aiSettings.settings.maxTokens,
+          temperature: aiSettings.settings.temperature,
+          ...(providerId === 'gemini' && aiSettings.settings.geminiModel
+            ? { modelId: aiSettings.settings.geminiModel }
+            : {}),
+        },
+        aiSettings.getApiKey(providerId),
+      )
+
+      const assistantMessage: ConversationMessage = {
+        id: `assistant-${Date.now()}`,
+        role: 'assistant',
+        content: result.text,
+        timestamp: new Date(),
+        sources,
+      }
+      await conversationManager.addMessage(blockId, assistantMessage)
+
+      editor.value?.commands.updateAttributes('aiGeneration', {
+        result: result.text,
+        loading: false,
+        lastUpdated: new Date().toISOString(),
+      })
+
+      return [...conversationHistory, userMessage, assistantMessage]
+    } catch (error) {
+      logger.error('Workspace chat failed:', error)
+      throw error
+    }
+  }
+
+  return {
+    isIndexing,
+    indexProgress,
+    updateIndex,
+    askWorkspace,
+  }
+}
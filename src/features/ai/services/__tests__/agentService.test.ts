@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { runAgentLoop, type AgentTool } from '../agentService'
+import { parseToolCalls } from '../toolCalling'
+import { aiService } from '../aiService'
+
+vi.mock('../aiService', () => ({
+  aiService: {
+    generateWithTools: vi.fn(),
+  },
+}))
+
+// Mock logger
+vi.mock('@/services/logger', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+const generateWithTools = vi.mocked(aiService.generateWithTools)
+
+const reply = (text: string, toolCalls: Array<{ id: string; name: string; arguments?: Record<string, any> }> = []) => ({
+  text,
+  provider: 'test',
+  tokens: 10,
+  toolCalls: toolCalls.map((call) => ({ arguments: {}, ...call })),
+})
+
+describe('runAgentLoop', () => {
+  const blocks = ['# Title', 'x = 1']
+
+  const tools: AgentTool[] = [
+    {
+      definition: { name: 'read_block', description: 'Read a block', parameters: { type: 'object', properties: {} } },
+      execute: ({ index }) => blocks[index],
+    },
+    {
+      definition: { name: 'replace_code', description: 'Replace code', parameters: { type: 'object', properties: {} } },
+      requiresReview: true,
+      propose: ({ index, code }) => ({ title: `Replace block ${index}`, before: blocks[index], after: code }),
+      execute: ({ index, code }) => {
+        blocks[index] = code
+        return 'replaced'
+      },
+    },
+  ]
+
+  beforeEach(() => {
+    generateWithTools.mockReset()
+    blocks[1] = 'x = 1'
+  })
+
+  it('feeds tool results back until the model answers', async () => {
+    generateWithTools
+      .mockResolvedValueOnce(reply('', [{ id: 'a', name: 'read_block', arguments: { index: 1 } }]))
+      .mockResolvedValueOnce(reply('Block 1 sets x to 1.'))
+
+    const result = await runAgentLoop({
+      providerId: 'ollama',
+      messages: [{ role: 'user', content: 'What does block 1 do?' }],
+      tools,
+      review: vi.fn(),
+    })
+
+    expect(result.text).toBe('Block 1 sets x to 1.')
+    expect(result.tokens).toBe(20)
+    expect(result.steps).toEqual([
+      { id: 'a', tool: 'read_block', arguments: { index: 1 }, status: 'done', result: 'x = 1' },
+    ])
+    const secondTurn = generateWithTools.mock.calls[1][1].messages
+    expect(secondTurn.slice(1)).toEqual([
+      { role: 'assistant', content: '', toolCalls: [{ id: 'a', name: 'read_block', arguments: { index: 1 } }] },
+      { role: 'tool', toolCallId: 'a', name: 'read_block', content: 'x = 1' },
+    ])
+  })
+
+  it('only applies mutations the user accepts', async () => {
+    generateWithTools
+      .mockResolvedValueOnce(reply('', [{ id: 'a', name: 'replace_code', arguments: { index: 1, code: 'x = 2' } }]))
+      .mockResolvedValueOnce(reply('', [{ id: 'b', name: 'replace_code', arguments: { index: 1, code: 'x = 3' } }]))
+      .mockResolvedValueOnce(reply('Done.'))
+
+    const review = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true)
+    const result = await runAgentLoop({
+      providerId: 'ollama',
+      messages: [{ role: 'user', content: 'Change x' }],
+      tools,
+      review,
+    })
+
+    expect(review).toHaveBeenNthCalledWith(1, expect.objectContaining({ id: 'a' }), {
+      title: 'Replace block 1',
+      before: 'x = 1',
+      after: 'x = 2',
+    })
+    expect(result.steps.map((step) => step.status)).toEqual(['rejected', 'done'])
+    expect(blocks[1]).toBe('x = 3')
+  })
+
+  it('reports unknown tools and failures to the model instead of throwing', async () => {
+    generateWithTools
+      .mockResolvedValueOnce(reply('', [{ id: 'a', name: 'delete_everything' }]))
+      .mockResolvedValueOnce(reply('Sorry.'))
+
+    const result = await runAgentLoop({
+      providerId: 'ollama',
+      messages: [{ role: 'user', content: 'Clean up' }],
+      tools,
+      review: vi.fn(),
+    })
+
+    expect(result.steps[0]).toMatchObject({ status: 'error', result: 'Error: Unknown tool "delete_everything"' })
+  })
+
+  it('hands the abort signal to the request in flight', async () => {
+    const controller = new AbortController()
+    generateWithTools.mockImplementation(
+      (_provider, options) =>
+        new Promise((_, reject) => options.signal?.addEventListener('abort', () => reject(new Error('canceled'))))
+    )
+
+    const run = runAgentLoop({
+      providerId: 'ollama',
+      messages: [{ role: 'user', content: 'Take your time' }],
+      tools,
+      review: vi.fn(),
+      signal: controller.signal,
+    })
+    controller.abort()
+
+    await expect(run).rejects.toThrow('Agent run cancelled')
+    expect(generateWithTools.mock.calls[0][1].signal).toBe(controller.signal)
+  })
+
+  it('stops after the turn limit', async () => {
+    generateWithTools.mockResolvedValue(reply('', [{ id: 'a', name: 'read_block', arguments: { index: 0 } }]))
+
+    const result = await runAgentLoop({
+      providerId: 'ollama',
+      messages: [{ role: 'user', content: 'Loop' }],
+      tools,
+      review: vi.fn(),
+      maxTurns: 3,
+    })
+
+    expect(generateWithTools).toHaveBeenCalledTimes(3)
+    expect(result.text).toContain('Stopped after 3')
+  })
+})
+
+describe('parseToolCalls', () => {
+  it('extracts fenced and tagged tool calls and keeps the rest of the reply', () => {
+    const { text, toolCalls } = parseToolCalls(
+      'Let me look.\n```tool_call\n{"name": "read_block", "arguments": {"index": 2}}\n```\n' +
+        '<tool_call>{"name": "list_blocks"}</tool_call>\n```tool_call\n{"name": "unknown"}\n```',
+      ['read_block', 'list_blocks'],
+    )
+
+    expect(toolCalls.map(({ name, arguments: args }) => ({ name, args }))).toEqual([
+      { name: 'read_block', args: { index: 2 } },
+      { name: 'list_blocks', args: {} },
+    ])
+    expect(text).toBe('Let me look.\n\n\n```tool_call\n{"name": "unknown"}\n```')
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { buildFimPrefix, cleanCompletion, renderCompletionPrompt } from '../codeCompletion'
+
+const request = {
+  prefix: 'df = load()\nsummary = df.',
+  suffix: '\nprint(summary)',
+  language: 'python',
+  precedingCells: ['import pandas as pd', 'def load():\n    return pd.read_csv("data.csv")'],
+  variables: ['df: DataFrame, shape (10, 2), columns [a, b]'],
+}
+
+describe('codeCompletion', () => {
+  it('puts earlier cells and kernel variables ahead of the cell for fill-in-the-middle models', () => {
+    expect(buildFimPrefix(request)).toBe(
+      'import pandas as pd\n\ndef load():\n    return pd.read_csv("data.csv")\n\n' +
+        '# Variables in the running kernel:\n#   df: DataFrame, shape (10, 2), columns [a, b]\n\n' +
+        'df = load()\nsummary = df.',
+    )
+    expect(buildFimPrefix({ ...request, language: 'javascript', precedingCells: [] })).toContain('// Variables')
+  })
+
+  it('marks the cursor in the prompt for chat models', () => {
+    const prompt = renderCompletionPrompt(request)
+
+    expect(prompt).toContain('```python\ndf = load()\nsummary = df.<CURSOR>\nprint(summary)\n```')
+    expect(prompt).toContain('- df: DataFrame')
+    expect(renderCompletionPrompt({ ...request, precedingCells: [], variables: [] })).not.toContain('Earlier cells')
+  })
+
+  it('strips fences, cursor markers and echoed code from replies', () => {
+    expect(cleanCompletion('```python\ndescribe()\n```', request)).toBe('describe()')
+    expect(cleanCompletion('summary = df.describe()<CURSOR>', request)).toBe('describe()')
+    expect(cleanCompletion('describe()\nprint(summary)\nmore()', request)).toBe('describe()')
+    // A short suffix may legitimately appear in the completion
+    expect(cleanCompletion('f(x))', { prefix: 'print(', suffix: ')' })).toBe('f(x))')
+    expect(cleanCompletion(Array.from({ length: 20 }, (_, i) => `line${i}`).join('\n'), request).split('\n')).toHaveLength(12)
+  })
+})
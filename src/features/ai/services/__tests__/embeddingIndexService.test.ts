@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { EmbeddingIndexService, chunkText, type Embedder } from '../embeddingIndexService'
+
+const { getAllBlocksForNota, blockStructureFor } = vi.hoisted(() => ({
+  getAllBlocksForNota: vi.fn(),
+  blockStructureFor: vi.fn(),
+}))
+vi.mock('@/db', () => ({
+  db: {
+    getAllBlocksForNota,
+    blockStructures: {
+      where: () => ({ equals: (notaId: string) => ({ first: () => blockStructureFor(notaId) }) }),
+    },
+  },
+}))
+
+vi.mock('@/services/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+const VOCABULARY = ['pandas', 'parquet', 'citation', 'paper', 'kernel']
+
+// One dimension per vocabulary word, so similarity follows shared words
+const embedder = (model = 'test/default'): Embedder & { embed: ReturnType<typeof vi.fn> } => ({
+  model,
+  embed: vi.fn(async (texts: string[]) =>
+    texts.map((text) => VOCABULARY.map((word) => (text.toLowerCase().includes(word) ? 1 : 0))),
+  ),
+})
+
+const block = (notaId: string, id: number, type: string, content: string, order = 0) =>
+  ({ id, notaId, type, content, order, version: 1, createdAt: new Date(), updatedAt: new Date() }) as any
+
+const etl = { id: 'etl', title: 'ETL', updatedAt: '2024-03-01T00:00:00Z' }
+const paper = { id: 'paper', title: 'Draft', updatedAt: '2024-03-01T00:00:00Z' }
+
+describe('chunkText', () => {
+  it('keeps short text whole and splits long text with overlap at line breaks', () => {
+    expect(chunkText('  short  ')).toEqual(['short'])
+    expect(chunkText('')).toEqual([])
+
+    const lines = Array.from({ length: 40 }, (_, i) => `line ${i} `.repeat(5).trim())
+    const chunks = chunkText(lines.join('\n'), 400, 100)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.every((chunk) => chunk.length <= 400)).toBe(true)
+    expect(chunks.every((chunk) => lines.includes(chunk.split('\n').pop()!))).toBe(true)
+    // The start of each chunk repeats the end of the one before
+    expect(chunks[0]).toContain(chunks[1].split('\n')[0])
+  })
+})
+
+describe('EmbeddingIndexService', () => {
+  let index: EmbeddingIndexService
+
+  beforeEach(() => {
+    index = new EmbeddingIndexService(false)
+    getAllBlocksForNota.mockReset()
+    blockStructureFor.mockReset()
+  })
+
+  it('ranks chunks by similarity to the query', async () => {
+    const model = embedder()
+    await index.indexNota(etl, [block('etl', 1, 'executableCodeBlock', "pd.read_parquet('events.parquet')  # pandas")], model)
+    await index.indexNota(paper, [block('paper', 2, 'text', 'Every citation in the paper is numbered.', 3)], model)
+
+    const results = await index.search('Which paper uses a citation?', model, 2)
+
+    expect(results.map((result) => result.notaId)).toEqual(['paper', 'etl'])
+    expect(results[0]).toMatchObject({ blockId: 'text:2', blockType: 'text', blockOrder: 3 })
+    expect(results[0]).not.toHaveProperty('vector')
+    expect(await index.search('citation', model, 5, ['etl'])).toHaveLength(1)
+    expect(await index.search('citation', embedder('other/model'))).toEqual([])
+  })
+
+  it('only embeds chunks that changed and drops removed blocks', async () => {
+    const model = embedder()
+    await index.indexNota(etl, [block('etl', 1, 'text', 'pandas'), block('etl', 2, 'text', 'parquet', 1)], model)
+    model.embed.mockClear()
+
+    await index.indexNota(etl, [block('etl', 2, 'text', 'parquet', 0), block('etl', 3, 'text', 'kernel', 1)], model)
+
+    expect(model.embed).toHaveBeenCalledTimes(1)
+    expect(model.embed.mock.calls[0][0]).toEqual(['ETL\nkernel'])
+    const results = await index.search('pandas parquet kernel', model, 10)
+    expect(results.map((result) => [result.blockId, result.blockOrder])).toEqual([
+      ['text:2', 0],
+      ['text:3', 1],
+    ])
+  })
+
+  it('re-indexes notas that changed or were embedded with another model, in block order', async () => {
+    getAllBlocksForNota.mockImplementation(async (notaId: string) =>
+      notaId === 'etl'
+        ? [block('etl', 1, 'text', 'pandas', 5), block('etl', 2, 'text', 'orphan parquet', 6)]
+        : [block('paper', 3, 'text', 'paper')],
+    )
+    blockStructureFor.mockImplementation(async (notaId: string) =>
+      notaId === 'etl' ? { blockOrder: ['heading:9', 'text:1'] } : undefined,
+    )
+    const model = embedder()
+    const progress = vi.fn()
+
+    await index.ensureIndexed([etl, paper], model, progress)
+    expect(progress).toHaveBeenLastCalledWith({ done: 2, total: 2 })
+    // Blocks missing from the block order are not indexed
+    const results = await index.search('pandas parquet', model, 10, ['etl'])
+    expect(results.map((result) => [result.blockId, result.blockOrder])).toEqual([['text:1', 1]])
+
+    getAllBlocksForNota.mockClear()
+    await index.ensureIndexed([etl, paper], model)
+    expect(getAllBlocksForNota).not.toHaveBeenCalled()
+
+    await index.ensureIndexed([{ ...etl, updatedAt: new Date(Date.now() + 60_000) }, paper], model)
+    expect(getAllBlocksForNota.mock.calls.map(([notaId]) => notaId)).toEqual(['etl'])
+
+    getAllBlocksForNota.mockClear()
+    await index.ensureIndexed([etl, paper], embedder('other/model'))
+    expect(getAllBlocksForNota).toHaveBeenCalledTimes(2)
+  })
+
+  it('forgets removed notas', async () => {
+    const model = embedder()
+    await index.indexNota(etl, [block('etl', 1, 'text', 'pandas')], model)
+    await index.removeNota('etl')
+
+    expect(await index.search('pandas', model)).toEqual([])
+  })
+})
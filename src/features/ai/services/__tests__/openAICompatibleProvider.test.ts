@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { OpenAICompatibleProvider } from '../providers/openAICompatibleProvider'
+
+// Mock logger
+vi.mock('@/services/logger', () => ({
+  logger: {
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+// A response body that delivers the given strings as separate chunks
+const streamOf = (chunks: string[]) => {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+}
+
+describe('OpenAICompatibleProvider', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('normalizes the base URL to a versioned API root', () => {
+    expect(OpenAICompatibleProvider.normalizeBaseUrl('http://localhost:8080')).toBe('http://localhost:8080/v1')
+    expect(OpenAICompatibleProvider.normalizeBaseUrl('http://localhost:8080/v1/')).toBe('http://localhost:8080/v1')
+    expect(OpenAICompatibleProvider.normalizeBaseUrl('https://gateway.example/openai/v2')).toBe(
+      'https://gateway.example/openai/v2',
+    )
+  })
+
+  it('tells local base URLs from remote ones', () => {
+    expect(OpenAICompatibleProvider.isLocalBaseUrl('http://localhost:8080/v1')).toBe(true)
+    expect(OpenAICompatibleProvider.isLocalBaseUrl('http://127.0.0.1:1234')).toBe(true)
+    expect(OpenAICompatibleProvider.isLocalBaseUrl('http://[::1]:8080')).toBe(true)
+    expect(OpenAICompatibleProvider.isLocalBaseUrl('https://gateway.example/openai/v1')).toBe(false)
+    expect(OpenAICompatibleProvider.isLocalBaseUrl('not a url')).toBe(false)
+  })
+
+  it('streams chat completion deltas over SSE, including events split across chunks', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        streamOf([
+          'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+          'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+          'ta":{"content":"lo"}}]}\n\n: keep-alive\n\n',
+          'data: {"choices":[],"usage":{"total_tokens":12}}\n\ndata: [DONE]\n\n',
+        ]),
+        { status: 200 },
+      ),
+    )
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:8080',
+      apiKey: 'secret',
+      headers: { 'X-Team': 'research' },
+      defaultModel: 'qwen2.5',
+    })
+    const onChunk = vi.fn()
+    const onComplete = vi.fn()
+
+    await provider.generateTextStream({ prompt: 'Say hello' }, { onChunk, onComplete })
+
+    expect(onChunk.mock.calls.map(([text]) => text)).toEqual(['Hel', 'lo'])
+    expect(onComplete).toHaveBeenCalledOnce()
+    expect(onComplete).toHaveBeenCalledWith({ text: 'Hello', provider: 'openai-compatible', tokens: 12 })
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('http://localhost:8080/v1/chat/completions')
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret', 'X-Team': 'research' })
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'qwen2.5',
+      stream: true,
+      messages: [{ role: 'user', content: 'Say hello' }],
+    })
+  })
+
+  it('sends images as image_url parts', async () => {
+    fetchMock.mockResolvedValue(new Response(streamOf(['data: [DONE]\n\n']), { status: 200 }))
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:1234/v1', defaultModel: 'llava' })
+    await provider.generateMultimodal(
+      { prompt: 'Describe this plot', images: ['iVBORw0KGgo', 'https://example.com/plot.png'] },
+      { onChunk: vi.fn(), onComplete: vi.fn() },
+    )
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.messages[0].content).toEqual([
+      { type: 'text', text: 'Describe this plot' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo' } },
+      { type: 'image_url', image_url: { url: 'https://example.com/plot.png' } },
+    ])
+  })
+
+  it('reports HTTP errors through onError', async () => {
+    fetchMock.mockResolvedValue(new Response('model not found', { status: 404 }))
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', defaultModel: 'missing' })
+    const onError = vi.fn()
+
+    await expect(
+      provider.generateTextStream({ prompt: 'Hi' }, { onChunk: vi.fn(), onComplete: vi.fn(), onError }),
+    ).rejects.toThrow('404')
+    expect(onError).toHaveBeenCalledOnce()
+  })
+})
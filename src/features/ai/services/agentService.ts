@@ -0,0 +1,148 @@
+import { logger } from '@/services/logger';
+import { aiService } from './aiService';
+import type { AIChatMessage, AIToolCall, AIToolDefinition, GenerationOptions } from './types';
+
+// A change shown to the user before a mutating tool runs
+export interface AgentProposal {
+  title: string;
+  before?: string;
+  after?: string;
+  language?: string;
+}
+
+// A tool the agent can call
+export interface AgentTool {
+  definition: AIToolDefinition;
+  // Mutating tools only run after the user accepts the proposal
+  requiresReview?: boolean;
+  // Describe the change for review; throwing fails the call without asking the user
+  propose?: (args: Record<string, any>) => AgentProposal | Promise<AgentProposal>;
+  // Returns the text handed back to the model
+  execute: (args: Record<string, any>) => string | Promise<string>;
+}
+
+export type AgentStepStatus = 'done' | 'rejected' | 'error';
+
+// Record of one tool call, kept with the assistant message for display
+export interface AgentStep {
+  id: string;
+  tool: string;
+  arguments: Record<string, any>;
+  status: AgentStepStatus;
+  result: string;
+  proposal?: AgentProposal;
+}
+
+export interface AgentRunOptions {
+  providerId: string;
+  apiKey?: string;
+  messages: AIChatMessage[];
+  tools: AgentTool[];
+  generation?: Omit<GenerationOptions, 'prompt'>;
+  maxTurns?: number;
+  // Resolves to true when the user accepts the proposed change
+  review: (call: AIToolCall, proposal: AgentProposal) => Promise<boolean>;
+  onStep?: (step: AgentStep) => void;
+  signal?: AbortSignal;
+}
+
+export interface AgentRunResult {
+  text: string;
+  steps: AgentStep[];
+  messages: AIChatMessage[];
+  tokens: number;
+}
+
+const DEFAULT_MAX_TURNS = 8;
+
+// Tool output beyond this is cut before it goes back to the model
+const MAX_RESULT_CHARS = 6000;
+
+const truncate = (text: string) =>
+  text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}\n… (truncated)` : text;
+
+/**
+ * Let the model call tools until it answers without one. Each turn the tool
+ * calls are run in order and their results appended to the conversation;
+ * tools that change anything wait for `review` first.
+ */
+export async function runAgentLoop(options: AgentRunOptions): Promise<AgentRunResult> {
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+  const toolsByName = new Map(options.tools.map((tool) => [tool.definition.name, tool]));
+  const definitions = options.tools.map((tool) => tool.definition);
+  const messages = [...options.messages];
+  const steps: AgentStep[] = [];
+  let tokens = 0;
+
+  const throwIfAborted = () => {
+    if (options.signal?.aborted) {
+      throw new Error('Agent run cancelled');
+    }
+  };
+
+  const runTool = async (call: AIToolCall): Promise<AgentStep> => {
+    const step: AgentStep = { id: call.id, tool: call.name, arguments: call.arguments, status: 'done', result: '' };
+    const tool = toolsByName.get(call.name);
+
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool "${call.name}"`);
+      }
+
+      if (tool.requiresReview) {
+        step.proposal = tool.propose ? await tool.propose(call.arguments) : { title: call.name };
+        throwIfAborted();
+        if (!(await options.review(call, step.proposal))) {
+          step.status = 'rejected';
+          step.result = 'The user rejected this change. Do not retry it unless asked.';
+          return step;
+        }
+      }
+
+      throwIfAborted();
+      step.result = truncate(await tool.execute(call.arguments));
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      logger.warn(`Agent tool ${call.name} failed:`, error);
+      step.status = 'error';
+      step.result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    return step;
+  };
+
+  for (let turn = 0; turn < maxTurns; turn++) {
+    throwIfAborted();
+
+    // An aborted request fails like any other, so it is reported as the cancel it was
+    const result = await aiService
+      .generateWithTools(
+        options.providerId,
+        { ...options.generation, messages: [...messages], tools: definitions, signal: options.signal },
+        options.apiKey
+      )
+      .catch((error) => {
+        throwIfAborted();
+        throw error;
+      });
+    tokens += result.tokens;
+
+    if (result.toolCalls.length === 0) {
+      messages.push({ role: 'assistant', content: result.text });
+      return { text: result.text, steps, messages, tokens };
+    }
+
+    messages.push({ role: 'assistant', content: result.text, toolCalls: result.toolCalls });
+
+    for (const call of result.toolCalls) {
+      const step = await runTool(call);
+      steps.push(step);
+      options.onStep?.(step);
+      messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content: step.result });
+    }
+  }
+
+  const text = `Stopped after ${maxTurns} rounds of tool calls without a final answer.`;
+  messages.push({ role: 'assistant', content: text });
+  return { text, steps, messages, tokens };
+}
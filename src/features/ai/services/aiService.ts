@@ -1,6 +1,7 @@
 import { DefaultProviderFactory } from './providerFactory';
 import type { 
   AIProvider, 
+  CodeCompletionRequest,
   GenerationOptions, 
   GenerationResult, 
   ModelInfo,
@@ -10,9 +11,15 @@ import type {
   WebLLMModelInfo,
   GeminiModelInfo,
   WebLLMProgressCallback,
+  OpenAICompatibleConfig,
+  ToolGenerationOptions,
+  ToolGenerationResult,
 } from './types';
+import { parseToolCalls, renderToolPrompt } from './toolCalling';
+import { cleanCompletion, renderCompletionPrompt } from './codeCompletion';
 import { WebLLMProvider } from './providers/webLLMProvider';
 import { GeminiProvider } from './providers/geminiProvider';
+import { OpenAICompatibleProvider } from './providers/openAICompatibleProvider';
 import { logger } from '@/services/logger';
 
 /**
@@ -170,6 +177,88 @@ export class AIService {
     }
   }
   
+  /**
+   * Run one tool-calling turn. Providers without native function calling get
+   * the tools described in the prompt and their reply parsed for tool calls.
+   */
+  async generateWithTools(
+    providerId: string,
+    options: ToolGenerationOptions,
+    apiKey?: string
+  ): Promise<ToolGenerationResult> {
+    // Use provided ID or default
+    const targetProviderId = providerId || this.defaultProviderId;
+    
+    try {
+      // Get or create the provider
+      const provider = this.getProvider(targetProviderId, apiKey);
+      
+      if (provider.generateWithTools) {
+        return await provider.generateWithTools(options);
+      }
+      
+      const { messages, tools, ...generation } = options;
+      const result = await provider.generateText({
+        ...generation,
+        prompt: renderToolPrompt(messages, tools)
+      });
+      const parsed = parseToolCalls(result.text, tools.map(tool => tool.name));
+      
+      return { ...result, text: parsed.text, toolCalls: parsed.toolCalls };
+    } catch (error) {
+      logger.error(`Error generating with tools using provider ${targetProviderId}:`, error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Complete code at the cursor. Providers without their own completion
+   * support are asked with an instruction prompt. Errors are not logged here,
+   * as cancelled requests are routine while the user types.
+   */
+  async completeCode(
+    providerId: string,
+    request: CodeCompletionRequest,
+    apiKey?: string
+  ): Promise<string> {
+    const provider = this.getProvider(providerId, apiKey);
+    
+    if (provider.completeCode) {
+      return provider.completeCode(request);
+    }
+    
+    const result = await provider.generateText({
+      prompt: renderCompletionPrompt(request),
+      maxTokens: request.maxTokens || 128,
+      temperature: 0.2,
+      modelId: request.modelId
+    });
+    return request.signal?.aborted ? '' : cleanCompletion(result.text, request);
+  }
+  
+  /**
+   * Embed texts with a provider that supports embeddings
+   */
+  async embed(
+    providerId: string,
+    texts: string[],
+    modelId?: string,
+    apiKey?: string
+  ): Promise<number[][]> {
+    try {
+      const provider = this.getProvider(providerId, apiKey);
+      
+      if (!provider.embed) {
+        throw new Error(`Provider ${providerId} does not support embeddings`);
+      }
+      
+      return await provider.embed(texts, modelId);
+    } catch (error) {
+      logger.error(`Error embedding text with provider ${providerId}:`, error);
+      throw error;
+    }
+  }
+  
   /**
    * Check if a provider supports multimodal inputs
    */
@@ -182,7 +271,7 @@ export class AIService {
       }
       
       // For providers we haven't created yet, use hardcoded knowledge
-      return providerId === 'gemini'; // Currently only Gemini supports multimodal
+      return providerId === 'gemini' || providerId === 'openai-compatible';
     } catch (error) {
       logger.error(`Error checking if provider ${providerId} supports multimodal:`, error);
       return false;
@@ -272,6 +361,26 @@ export class AIService {
     }
   }
   
+  /**
+   * Get the models exposed by the configured OpenAI-compatible server
+   */
+  async getOpenAICompatibleModels(apiKey?: string): Promise<ModelInfo[]> {
+    try {
+      const provider = this.getProvider('openai-compatible', apiKey) as OpenAICompatibleProvider;
+      return await provider.getAvailableModels();
+    } catch (error) {
+      logger.error('Error getting OpenAI-compatible models:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Drop a cached provider so it is recreated with the latest saved settings
+   */
+  resetProvider(providerId: string): void {
+    this.providerFactory.removeProvider(providerId);
+  }
+  
   /**
    * Set the default model for a provider
    */
@@ -292,6 +401,11 @@ export class AIService {
           // For WebLLM, we don't set a default model - it needs to be explicitly initialized
           break;
         }
+        case 'openai-compatible': {
+          const provider = this.getProvider('openai-compatible', apiKey) as OpenAICompatibleProvider;
+          provider.setDefaultModel(modelId);
+          break;
+        }
         default:
           throw new Error(`Unknown provider: ${providerId}`);
       }
@@ -312,8 +426,30 @@ export class AIService {
       config.apiKey = apiKey;
     }
     
+    if (providerId === 'openai-compatible' && !this.providerFactory.hasProvider(providerId)) {
+      Object.assign(config, this.getOpenAICompatibleConfig(apiKey));
+    }
+    
     return this.providerFactory.createProvider(providerId, config);
   }
+  
+  /**
+   * Read the OpenAI-compatible connection settings saved by the AI settings store
+   */
+  private getOpenAICompatibleConfig(apiKey?: string): Partial<OpenAICompatibleConfig> {
+    try {
+      const settings = JSON.parse(localStorage.getItem('ai-settings') || '{}');
+      return {
+        baseUrl: settings.openaiCompatibleBaseUrl,
+        apiKey: apiKey || settings.apiKeys?.['openai-compatible'] || undefined,
+        headers: settings.openaiCompatibleHeaders,
+        defaultModel: settings.openaiCompatibleModel
+      };
+    } catch (error) {
+      logger.error('Error loading OpenAI-compatible settings:', error);
+      return {};
+    }
+  }
 }
 
 // Export a singleton instance
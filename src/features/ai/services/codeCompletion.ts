@@ -0,0 +1,102 @@
+import type { CodeCompletionRequest } from './types';
+
+/**
+ * Prompts for inline code completion. Models with native fill-in-the-middle
+ * support get the context as code before the cursor; chat models get an
+ * instruction prompt with a cursor marker, and their reply is cleaned up into
+ * the text to insert.
+ */
+
+const CURSOR = '<CURSOR>';
+
+// Context is cut to these sizes so small local models stay fast
+const MAX_PREFIX_CHARS = 4000;
+const MAX_SUFFIX_CHARS = 1000;
+const MAX_CONTEXT_CHARS = 6000;
+const MAX_VARIABLES = 40;
+const MAX_COMPLETION_LINES = 12;
+const MIN_ECHO_CHARS = 4;
+
+const LINE_COMMENTS: Record<string, string> = {
+  javascript: '//',
+  typescript: '//',
+  js: '//',
+  ts: '//',
+  java: '//',
+  c: '//',
+  cpp: '//',
+  go: '//',
+  rust: '//',
+  sql: '--',
+  haskell: '--'
+};
+
+const lineComment = (language: string) => LINE_COMMENTS[language.toLowerCase()] ?? '#';
+
+const tail = (text: string, max: number) => (text.length > max ? text.slice(text.length - max) : text);
+
+// Earlier cells, keeping the nearest ones when they do not all fit
+const precedingCode = (request: CodeCompletionRequest): string =>
+  tail((request.precedingCells || []).filter((cell) => cell.trim()).join('\n\n'), MAX_CONTEXT_CHARS);
+
+const variableList = (request: CodeCompletionRequest): string[] => (request.variables || []).slice(0, MAX_VARIABLES);
+
+/**
+ * Code before the cursor for fill-in-the-middle models: earlier cells, the
+ * kernel's variables as comments, then the current cell
+ */
+export function buildFimPrefix(request: CodeCompletionRequest): string {
+  const comment = lineComment(request.language);
+  const variables = variableList(request);
+  const header = variables.length
+    ? [`${comment} Variables in the running kernel:`, ...variables.map((variable) => `${comment}   ${variable}`)].join('\n')
+    : '';
+  return [precedingCode(request), header, tail(request.prefix, MAX_PREFIX_CHARS)].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Instruction prompt for chat models without fill-in-the-middle support
+ */
+export function renderCompletionPrompt(request: CodeCompletionRequest): string {
+  const fence = '```' + request.language;
+  const earlier = precedingCode(request);
+  const variables = variableList(request);
+
+  return [
+    `You are a code completion engine. Complete the ${request.language} code at ${CURSOR} in the current cell.`,
+    `Reply with only the code to insert at ${CURSOR}: no explanation, no code fences, and do not repeat the code before or after it. Prefer short completions, such as the rest of the line or statement.`,
+    earlier ? `Earlier cells in the notebook:\n${fence}\n${earlier}\n\`\`\`` : '',
+    variables.length ? `Variables in the running kernel:\n${variables.map((variable) => `- ${variable}`).join('\n')}` : '',
+    `Current cell:\n${fence}\n${tail(request.prefix, MAX_PREFIX_CHARS)}${CURSOR}${request.suffix.slice(0, MAX_SUFFIX_CHARS)}\n\`\`\``
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Turn a model reply into the text to insert: drop code fences, cursor
+ * markers and any echo of the code around the cursor
+ */
+export function cleanCompletion(text: string, request: Pick<CodeCompletionRequest, 'prefix' | 'suffix'>): string {
+  let completion = text.replace(/\r\n/g, '\n');
+
+  const fenced = completion.match(/```[\w+-]*\n([\s\S]*?)(?:```|$)/);
+  if (fenced) completion = fenced[1];
+  completion = completion.split(CURSOR).join('');
+
+  // Models often repeat the start of the current line
+  const currentLine = request.prefix.slice(request.prefix.lastIndexOf('\n') + 1);
+  if (currentLine.trim() && completion.startsWith(currentLine)) {
+    completion = completion.slice(currentLine.length);
+  }
+
+  // Or run on into the code after the cursor. Short suffixes such as `)` are
+  // left alone, as the completion may well need its own closing bracket.
+  const nextLine = request.suffix.split('\n').find((line) => line.trim())?.trim() ?? '';
+  if (nextLine.length >= MIN_ECHO_CHARS) {
+    const index = completion.indexOf(nextLine);
+    if (index >= 0) completion = completion.slice(0, index);
+  }
+
+  return completion.split('\n').slice(0, MAX_COMPLETION_LINES).join('\n').trimEnd();
+}
@@ -0,0 +1,289 @@
+import Dexie, { type Table } from 'dexie';
+import { db } from '@/db';
+import { logger } from '@/services/logger';
+import { getBlockText } from '@/features/nota/services/searchIndexService';
+import type { Block } from '@/features/nota/types/blocks';
+
+/**
+ * One embedded piece of a block. Long blocks are split into several chunks.
+ */
+export interface EmbeddingChunk {
+  id: string; // `${blockId}#${part}`
+  notaId: string;
+  blockId: string; // Block store composite id (`type:id`)
+  blockType: string;
+  blockOrder: number;
+  text: string;
+  hash: string; // Of the embedded input, so unchanged chunks are not embedded again
+  model: string; // Vectors of different models cannot be compared
+  vector: number[];
+}
+
+export type RetrievedChunk = Omit<EmbeddingChunk, 'vector' | 'hash'> & { score: number };
+
+// Turns texts into vectors; `model` identifies the provider and model used
+export interface Embedder {
+  model: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface IndexProgress {
+  done: number;
+  total: number;
+}
+
+// Notas are identified with their title so chunks carry some context
+type IndexableNota = { id: string; title: string; updatedAt?: Date | string };
+
+// The index lives in its own database so the versioned notaDB schema stays untouched
+class EmbeddingIndexDB extends Dexie {
+  chunks!: Table<EmbeddingChunk, string>;
+  indexedNotas!: Table<{ id: string; model: string; indexedAt: Date }, string>;
+
+  constructor() {
+    super('notaEmbeddingIndex');
+    this.version(1).stores({
+      chunks: 'id, notaId',
+      indexedNotas: 'id'
+    });
+  }
+}
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * Split text into overlapping windows, preferring to break at blank lines,
+ * then line ends, then spaces
+ */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const trimmed = text.trim();
+  if (trimmed.length <= size) return trimmed ? [trimmed] : [];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < trimmed.length) {
+    let end = Math.min(start + size, trimmed.length);
+    if (end < trimmed.length) {
+      const window = trimmed.slice(start, end);
+      const minBreak = Math.floor(size / 2);
+      const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf(' ')].find(
+        (index) => index > minBreak
+      );
+      if (breakAt !== undefined) end = start + breakAt;
+    }
+    chunks.push(trimmed.slice(start, end).trim());
+    if (end >= trimmed.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+  return chunks.filter(Boolean);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Blocks no longer in the nota's block order are left behind in the block
+// tables, so only ordered blocks are indexed, numbered by their position
+function orderBlocks(blocks: Block[], blockOrder?: string[]): Block[] {
+  if (!blockOrder) return [...blocks].sort((a, b) => a.order - b.order);
+  const byId = new Map(blocks.map((block) => [`${block.type}:${String(block.id)}`, block]));
+  return blockOrder.flatMap((id, order) => {
+    const block = byId.get(id);
+    return block ? [{ ...block, order }] : [];
+  });
+}
+
+// FNV-1a; only used to notice changed chunks
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Vector index over the text and code of every nota, for retrieval-augmented
+ * chat. Embeddings come from a local provider and are stored in IndexedDB;
+ * notas are re-embedded lazily, and only their changed chunks.
+ */
+export class EmbeddingIndexService {
+  private store: EmbeddingIndexDB | null = null;
+  private chunks = new Map<string, EmbeddingChunk>();
+  private indexedNotas = new Map<string, { model: string; indexedAt: Date }>();
+  private loading: Promise<void> | null = null;
+
+  constructor(private persist = true) {}
+
+  /**
+   * Load the stored index into memory (once)
+   */
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Embed the notas that changed since they were last indexed with this model
+   */
+  async ensureIndexed(
+    notas: IndexableNota[],
+    embedder: Embedder,
+    onProgress?: (progress: IndexProgress) => void
+  ): Promise<void> {
+    await this.initialize();
+
+    const stale = notas.filter((nota) => {
+      const entry = this.indexedNotas.get(nota.id);
+      return !entry || entry.model !== embedder.model || (!!nota.updatedAt && new Date(nota.updatedAt) > entry.indexedAt);
+    });
+
+    for (const [done, nota] of stale.entries()) {
+      onProgress?.({ done, total: stale.length });
+      try {
+        const [blocks, structure] = await Promise.all([
+          db.getAllBlocksForNota(nota.id),
+          db.blockStructures.where('notaId').equals(nota.id).first()
+        ]);
+        await this.indexNota(nota, orderBlocks(blocks, structure?.blockOrder), embedder);
+      } catch (error) {
+        // Leave the nota stale so it is retried next time
+        logger.error(`Failed to embed nota ${nota.id}:`, error);
+      }
+    }
+    onProgress?.({ done: stale.length, total: stale.length });
+  }
+
+  /**
+   * Replace the chunks of one nota, embedding only those whose text changed.
+   * `block.order` is taken as the block's position in the nota.
+   */
+  async indexNota(nota: IndexableNota, blocks: Block[], embedder: Embedder): Promise<void> {
+    await this.initialize();
+
+    const wanted: Omit<EmbeddingChunk, 'vector'>[] = [];
+    for (const block of blocks) {
+      const blockId = `${block.type}:${String(block.id)}`;
+      chunkText(getBlockText(block)).forEach((text, part) => {
+        wanted.push({
+          id: `${blockId}#${part}`,
+          notaId: nota.id,
+          blockId,
+          blockType: block.type,
+          blockOrder: block.order,
+          text,
+          hash: hashText(`${nota.title}\n${text}`),
+          model: embedder.model
+        });
+      });
+    }
+
+    const changed = wanted.filter((chunk) => {
+      const existing = this.chunks.get(chunk.id);
+      return !existing || existing.hash !== chunk.hash || existing.model !== chunk.model;
+    });
+
+    const updated: EmbeddingChunk[] = [];
+    for (let start = 0; start < changed.length; start += EMBED_BATCH_SIZE) {
+      const batch = changed.slice(start, start + EMBED_BATCH_SIZE);
+      const vectors = await embedder.embed(batch.map((chunk) => `${nota.title}\n${chunk.text}`));
+      if (vectors.length !== batch.length) {
+        throw new Error(`Expected ${batch.length} embeddings, got ${vectors.length}`);
+      }
+      batch.forEach((chunk, index) => updated.push({ ...chunk, vector: vectors[index] }));
+    }
+
+    // Unchanged chunks may still have moved within the nota
+    for (const chunk of wanted) {
+      const existing = this.chunks.get(chunk.id);
+      if (existing && existing.hash === chunk.hash && existing.blockOrder !== chunk.blockOrder) {
+        updated.push({ ...existing, blockOrder: chunk.blockOrder });
+      }
+    }
+
+    const wantedIds = new Set(wanted.map((chunk) => chunk.id));
+    const removed = [...this.chunks.values()]
+      .filter((chunk) => chunk.notaId === nota.id && !wantedIds.has(chunk.id))
+      .map((chunk) => chunk.id);
+
+    updated.forEach((chunk) => this.chunks.set(chunk.id, chunk));
+    removed.forEach((id) => this.chunks.delete(id));
+    const entry = { model: embedder.model, indexedAt: new Date() };
+    this.indexedNotas.set(nota.id, entry);
+
+    try {
+      await this.store?.chunks.bulkPut(updated);
+      await this.store?.chunks.bulkDelete(removed);
+      await this.store?.indexedNotas.put({ id: nota.id, ...entry });
+    } catch (error) {
+      logger.error('Failed to persist embeddings:', error);
+    }
+  }
+
+  /**
+   * The chunks most similar to the query, best first
+   */
+  async search(query: string, embedder: Embedder, limit = 6, notaIds?: string[]): Promise<RetrievedChunk[]> {
+    await this.initialize();
+
+    const [queryVector] = await embedder.embed([query]);
+    if (!queryVector) return [];
+
+    const allowed = notaIds ? new Set(notaIds) : null;
+    const scored: RetrievedChunk[] = [];
+    for (const chunk of this.chunks.values()) {
+      if (chunk.model !== embedder.model || (allowed && !allowed.has(chunk.notaId))) continue;
+      const { vector, hash: _hash, ...rest } = chunk;
+      scored.push({ ...rest, score: cosineSimilarity(queryVector, vector) });
+    }
+
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async removeNota(notaId: string): Promise<void> {
+    await this.initialize();
+    for (const chunk of [...this.chunks.values()]) {
+      if (chunk.notaId === notaId) this.chunks.delete(chunk.id);
+    }
+    this.indexedNotas.delete(notaId);
+    try {
+      await this.store?.chunks.where('notaId').equals(notaId).delete();
+      await this.store?.indexedNotas.delete(notaId);
+    } catch (error) {
+      logger.error('Failed to remove nota from embedding index:', error);
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (!this.persist) return;
+    try {
+      this.store = new EmbeddingIndexDB();
+      const [chunks, indexedNotas] = await Promise.all([
+        this.store.chunks.toArray(),
+        this.store.indexedNotas.toArray()
+      ]);
+      chunks.forEach((chunk) => this.chunks.set(chunk.id, chunk));
+      indexedNotas.forEach(({ id, ...entry }) => this.indexedNotas.set(id, entry));
+      logger.info(`Loaded embedding index with ${chunks.length} chunks`);
+    } catch (error) {
+      // Fall back to an in-memory index that is rebuilt each session
+      logger.error('Failed to load embedding index:', error);
+      this.store = null;
+    }
+  }
+}
+
+export const embeddingIndexService = new EmbeddingIndexService();
@@ -14,13 +14,25 @@ export type {
   GeminiModelInfo,
   GeminiSafetySettings,
   WebLLMInitProgressReport,
-  WebLLMProgressCallback
+  WebLLMProgressCallback,
+  OpenAICompatibleConfig,
+  AIToolDefinition,
+  AIToolCall,
+  AIChatMessage,
+  ToolGenerationOptions,
+  ToolGenerationResult,
+  CodeCompletionRequest
 } from './types';
 
 // Export provider implementations (if needed directly)
 export { GeminiProvider } from './providers/geminiProvider';
 export { WebLLMProvider } from './providers/webLLMProvider';
 export { OllamaProvider } from './providers/ollamaProvider';
+export { OpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+
+// Export the prompt-based tool calling fallback
+export { renderToolPrompt, parseToolCalls } from './toolCalling';
+export { buildFimPrefix, renderCompletionPrompt, cleanCompletion } from './codeCompletion';
 
 // Export utility functions
 export { imageToBase64, handleApiError } from './utils'; 
@@ -2,6 +2,7 @@ import type { AIProvider, AIProviderFactory, ProviderConfig } from './types';
 import { GeminiProvider } from './providers/geminiProvider';
 import { OllamaProvider } from './providers/ollamaProvider';
 import { WebLLMProvider } from './providers/webLLMProvider';
+import { OpenAICompatibleProvider } from './providers/openAICompatibleProvider';
 import { logger } from '@/services/logger';
 
 export class DefaultProviderFactory implements AIProviderFactory {
@@ -39,6 +40,13 @@ export class DefaultProviderFactory implements AIProviderFactory {
         provider = new WebLLMProvider();
         break;
         
+      case 'openai-compatible':
+        if (!config?.baseUrl) {
+          throw new Error('Base URL is required for OpenAI-compatible provider');
+        }
+        provider = new OpenAICompatibleProvider(config);
+        break;
+        
       default:
         throw new Error(`Unknown provider: ${providerId}`);
     }
@@ -91,6 +99,14 @@ export class DefaultProviderFactory implements AIProviderFactory {
         requiresApiKey: false,
         maxTokens: 4096,
         defaultPrompt: 'You are a helpful AI assistant running locally in the browser.'
+      },
+      {
+        id: 'openai-compatible',
+        name: 'OpenAI-Compatible',
+        apiEndpoint: 'http://localhost:8080/v1',
+        requiresApiKey: false,
+        maxTokens: 4096,
+        defaultPrompt: 'You are a helpful AI assistant.'
       }
     ];
   }
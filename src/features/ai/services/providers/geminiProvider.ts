@@ -1,11 +1,15 @@
 import { logger } from '@/services/logger';
 import type {
+  AIChatMessage,
   AIProvider,
+  AIToolCall,
   GeminiModelInfo,
   GenerationOptions,
   GenerationResult,
   MultimodalGenerationOptions,
-  StreamCallbacks
+  StreamCallbacks,
+  ToolGenerationOptions,
+  ToolGenerationResult
 } from '@/features/ai/services/types';
 import { handleApiError, imageToBase64, requestWithRetry } from '@/features/ai/services/utils';
 
@@ -116,6 +120,52 @@ export class GeminiProvider implements AIProvider {
     return true;
   }
 
+  /**
+   * One turn with function declarations; tool results are sent back as functionResponse parts
+   */
+  async generateWithTools(options: ToolGenerationOptions): Promise<ToolGenerationResult> {
+    try {
+      const modelId = options.modelId || this.defaultModel;
+      const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:generateContent?key=${this.apiKey}`;
+
+      const { messages, tools, signal, ...generation } = options;
+      const system = messages.filter((message) => message.role === 'system');
+      const payload = {
+        ...this.buildPayload({ ...generation, prompt: '' }),
+        contents: this.toContents(messages.filter((message) => message.role !== 'system')),
+        tools: [{ functionDeclarations: tools }],
+        ...(system.length
+          ? { systemInstruction: { parts: [{ text: system.map((message) => message.content).join('\n\n') }] } }
+          : {})
+      };
+
+      const response = await requestWithRetry<any>({
+        url: endpoint,
+        method: 'POST',
+        data: payload,
+        signal
+      });
+
+      const parts: any[] = response.data.candidates?.[0]?.content?.parts || [];
+      const toolCalls: AIToolCall[] = parts
+        .filter((part) => part.functionCall)
+        .map((part, index) => ({
+          id: `call_${index}_${Date.now().toString(36)}`,
+          name: part.functionCall.name,
+          arguments: part.functionCall.args || {}
+        }));
+
+      return {
+        text: this.extractTextFromResponse(response.data),
+        provider: 'gemini',
+        tokens: response.data.usageMetadata?.totalTokenCount || 0,
+        toolCalls
+      };
+    } catch (error) {
+      throw handleApiError(error, 'Gemini');
+    }
+  }
+
   async generateMultimodal(
     options: MultimodalGenerationOptions,
     callbacks?: StreamCallbacks
@@ -215,6 +265,34 @@ export class GeminiProvider implements AIProvider {
     this.defaultModel = modelId;
   }
 
+  // Gemini has no tool role: results go back as user turns, and consecutive turns of one role are merged
+  private toContents(messages: AIChatMessage[]): any[] {
+    const contents: any[] = [];
+
+    for (const message of messages) {
+      const role = message.role === 'assistant' ? 'model' : 'user';
+      const parts: any[] = [];
+
+      if (message.role === 'tool') {
+        parts.push({ functionResponse: { name: message.name, response: { content: message.content } } });
+      } else {
+        if (message.content) parts.push({ text: message.content });
+        for (const call of message.toolCalls || []) {
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
+      }
+
+      const last = contents[contents.length - 1];
+      if (last?.role === role) {
+        last.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return contents;
+  }
+
   private buildPayload(options: GenerationOptions): any {
     const payload: any = {
       contents: [
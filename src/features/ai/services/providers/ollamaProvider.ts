@@ -1,17 +1,25 @@
 import { logger } from '@/services/logger';
 import type {
   AIProvider,
+  AIToolCall,
+  CodeCompletionRequest,
   GenerationOptions,
   GenerationResult,
-  StreamCallbacks
+  StreamCallbacks,
+  ToolGenerationOptions,
+  ToolGenerationResult
 } from '@/features/ai/services/types';
 import { handleApiError, requestWithRetry } from '@/features/ai/services/utils';
+import { buildFimPrefix, cleanCompletion, renderCompletionPrompt } from '@/features/ai/services/codeCompletion';
 
 export class OllamaProvider implements AIProvider {
   id: string = 'ollama';
   name: string = 'Ollama (Local)';
   private apiEndpoint: string;
   private defaultModel: string = 'llama3';
+  private defaultEmbeddingModel: string = 'nomic-embed-text';
+  // Models whose template has no fill-in-the-middle support
+  private modelsWithoutInsert = new Set<string>();
 
   constructor(apiEndpoint: string = 'http://localhost:11434/api') {
     this.apiEndpoint = apiEndpoint;
@@ -111,6 +119,105 @@ export class OllamaProvider implements AIProvider {
     return false;
   }
 
+  /**
+   * One chat turn with tools through `/api/chat`; models without tool support
+   * are rejected by Ollama with an error
+   */
+  async generateWithTools(options: ToolGenerationOptions): Promise<ToolGenerationResult> {
+    try {
+      const payload = {
+        model: options.modelId || this.defaultModel,
+        messages: options.messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+          ...(message.toolCalls?.length
+            ? { tool_calls: message.toolCalls.map((call) => ({ function: { name: call.name, arguments: call.arguments } })) }
+            : {})
+        })),
+        tools: options.tools.map((tool) => ({ type: 'function', function: tool })),
+        options: {
+          temperature: options.temperature || 0.7,
+          top_p: options.topP || 0.95,
+          max_tokens: options.maxTokens || 2048,
+        },
+        stream: false
+      };
+
+      const response = await requestWithRetry<any>({
+        url: `${this.apiEndpoint}/chat`,
+        method: 'POST',
+        data: payload,
+        signal: options.signal
+      });
+
+      const message = response.data.message || {};
+      const toolCalls: AIToolCall[] = (message.tool_calls || []).map((call: any, index: number) => ({
+        id: `call_${index}_${Date.now().toString(36)}`,
+        name: call.function?.name,
+        arguments: call.function?.arguments || {}
+      }));
+
+      return {
+        text: message.content || '',
+        provider: 'ollama',
+        tokens: response.data.eval_count || 0,
+        toolCalls
+      };
+    } catch (error) {
+      throw handleApiError(error, 'Ollama');
+    }
+  }
+
+  /**
+   * Embed texts with `/api/embed`; the model must have been pulled, e.g. `ollama pull nomic-embed-text`
+   */
+  async embed(texts: string[], modelId?: string): Promise<number[][]> {
+    try {
+      const response = await requestWithRetry<any>({
+        url: `${this.apiEndpoint}/embed`,
+        method: 'POST',
+        data: {
+          model: modelId || this.defaultEmbeddingModel,
+          input: texts
+        }
+      });
+
+      return response.data.embeddings || [];
+    } catch (error) {
+      throw handleApiError(error, 'Ollama');
+    }
+  }
+
+  async completeCode(request: CodeCompletionRequest): Promise<string> {
+    const model = request.modelId || this.defaultModel;
+    const options = { temperature: 0.2, num_predict: request.maxTokens || 128 };
+    const generate = (data: Record<string, any>) =>
+      requestWithRetry<any>({
+        url: `${this.apiEndpoint}/generate`,
+        method: 'POST',
+        data: { model, stream: false, options, ...data },
+        signal: request.signal
+      });
+
+    try {
+      // Code models (codellama:code, qwen2.5-coder, ...) fill in between prefix and suffix
+      if (!this.modelsWithoutInsert.has(model)) {
+        try {
+          const response = await generate({ prompt: buildFimPrefix(request), suffix: request.suffix });
+          return cleanCompletion(response.data.response || '', request);
+        } catch (error: any) {
+          if (!String(error?.response?.data?.error || '').includes('does not support insert')) throw error;
+          this.modelsWithoutInsert.add(model);
+        }
+      }
+
+      const response = await generate({ prompt: renderCompletionPrompt(request) });
+      return cleanCompletion(response.data.response || '', request);
+    } catch (error) {
+      throw handleApiError(error, 'Ollama');
+    }
+  }
+
   async getAvailableModels(): Promise<{ id: string, name: string, description: string }[]> {
     try {
       const endpoint = `${this.apiEndpoint}/tags`;
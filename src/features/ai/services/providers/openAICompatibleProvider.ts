@@ -0,0 +1,382 @@
+import { logger } from '@/services/logger';
+import type {
+  AIChatMessage,
+  AIProvider,
+  AIToolCall,
+  GenerationOptions,
+  GenerationResult,
+  ModelInfo,
+  MultimodalGenerationOptions,
+  OpenAICompatibleConfig,
+  StreamCallbacks,
+  ToolGenerationOptions,
+  ToolGenerationResult
+} from '@/features/ai/services/types';
+import { handleApiError, requestWithRetry } from '@/features/ai/services/utils';
+
+type MessageContent =
+  | string
+  | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+
+/**
+ * Provider for any server that speaks the OpenAI chat completions API,
+ * such as llama.cpp server, vLLM, LM Studio or an API gateway.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  id: string = 'openai-compatible';
+  name: string = 'OpenAI-Compatible';
+  private baseUrl: string;
+  private apiKey?: string;
+  private headers: Record<string, string>;
+  private defaultModel: string;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.baseUrl = OpenAICompatibleProvider.normalizeBaseUrl(config.baseUrl);
+    this.apiKey = config.apiKey;
+    this.headers = config.headers || {};
+    this.defaultModel = config.defaultModel || '';
+  }
+
+  /**
+   * Strip trailing slashes and add `/v1` unless the URL already ends with a version segment
+   */
+  static normalizeBaseUrl(baseUrl: string): string {
+    const trimmed = baseUrl.trim().replace(/\/+$/, '');
+    return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+  }
+
+  /**
+   * Whether the base URL points at this machine, so requests to it stay on the device
+   */
+  static isLocalBaseUrl(baseUrl: string): boolean {
+    try {
+      const { hostname } = new URL(baseUrl.trim());
+      return hostname === 'localhost' || hostname.endsWith('.localhost') || hostname === '[::1]' || /^127\./.test(hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await requestWithRetry({
+        url: `${this.baseUrl}/models`,
+        method: 'GET',
+        headers: this.requestHeaders(),
+        timeout: 3000 // Short timeout to check availability
+      });
+      return true;
+    } catch (error) {
+      logger.error('OpenAI-compatible API not available:', error);
+      return false;
+    }
+  }
+
+  async generateText(options: GenerationOptions): Promise<GenerationResult> {
+    try {
+      const response = await requestWithRetry<any>({
+        url: `${this.baseUrl}/chat/completions`,
+        method: 'POST',
+        headers: this.requestHeaders(),
+        data: this.buildPayload(options, options.prompt, false)
+      });
+
+      return {
+        text: response.data.choices?.[0]?.message?.content || '',
+        provider: this.id,
+        tokens: response.data.usage?.total_tokens || 0
+      };
+    } catch (error) {
+      throw handleApiError(error, this.name);
+    }
+  }
+
+  async generateTextStream(
+    options: GenerationOptions,
+    callbacks: StreamCallbacks
+  ): Promise<void> {
+    await this.streamCompletion(options, options.prompt, callbacks);
+  }
+
+  supportsMultimodal(): boolean {
+    // Whether images are understood depends on the model the server runs
+    return true;
+  }
+
+  async generateMultimodal(
+    options: MultimodalGenerationOptions,
+    callbacks?: StreamCallbacks
+  ): Promise<GenerationResult> {
+    const content: MessageContent = [
+      { type: 'text', text: options.prompt },
+      ...(options.images || []).map((image) => ({
+        type: 'image_url' as const,
+        image_url: { url: OpenAICompatibleProvider.toImageUrl(image) }
+      }))
+    ];
+
+    // Use streaming if callbacks are provided
+    if (callbacks) {
+      await this.streamCompletion(options, content, callbacks);
+      return { text: '', provider: this.id, tokens: 0 }; // The actual result is provided through callbacks
+    }
+
+    try {
+      const response = await requestWithRetry<any>({
+        url: `${this.baseUrl}/chat/completions`,
+        method: 'POST',
+        headers: this.requestHeaders(),
+        data: this.buildPayload(options, content, false)
+      });
+
+      return {
+        text: response.data.choices?.[0]?.message?.content || '',
+        provider: this.id,
+        tokens: response.data.usage?.total_tokens || 0
+      };
+    } catch (error) {
+      throw handleApiError(error, this.name);
+    }
+  }
+
+  /**
+   * One chat turn with `tools`; the server decides whether the model supports them
+   */
+  async generateWithTools(options: ToolGenerationOptions): Promise<ToolGenerationResult> {
+    try {
+      const { messages, tools, signal, ...generation } = options;
+      const response = await requestWithRetry<any>({
+        url: `${this.baseUrl}/chat/completions`,
+        method: 'POST',
+        headers: this.requestHeaders(),
+        data: {
+          ...this.buildPayload({ ...generation, prompt: '' }, '', false),
+          messages: messages.map(OpenAICompatibleProvider.toApiMessage),
+          tools: tools.map((tool) => ({ type: 'function', function: tool }))
+        },
+        signal
+      });
+
+      const message = response.data.choices?.[0]?.message || {};
+      const toolCalls: AIToolCall[] = (message.tool_calls || []).map((call: any, index: number) => ({
+        id: call.id || `call_${index}`,
+        name: call.function?.name,
+        arguments: OpenAICompatibleProvider.parseArguments(call.function?.arguments)
+      }));
+
+      return {
+        text: message.content || '',
+        provider: this.id,
+        tokens: response.data.usage?.total_tokens || 0,
+        toolCalls
+      };
+    } catch (error) {
+      throw handleApiError(error, this.name);
+    }
+  }
+
+  /**
+   * Embed texts with `/embeddings`, falling back to the chat model when no embedding model is given
+   */
+  async embed(texts: string[], modelId?: string): Promise<number[][]> {
+    const model = modelId || this.defaultModel;
+    if (!model) {
+      throw new Error('No embedding model selected for the OpenAI-compatible provider');
+    }
+
+    try {
+      const response = await requestWithRetry<any>({
+        url: `${this.baseUrl}/embeddings`,
+        method: 'POST',
+        headers: this.requestHeaders(),
+        data: { model, input: texts }
+      });
+
+      return [...(response.data.data || [])]
+        .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+        .map((item: any) => item.embedding);
+    } catch (error) {
+      throw handleApiError(error, this.name);
+    }
+  }
+
+  /**
+   * List the models the server exposes at `/models`
+   */
+  async getAvailableModels(): Promise<ModelInfo[]> {
+    try {
+      const response = await requestWithRetry<any>({
+        url: `${this.baseUrl}/models`,
+        method: 'GET',
+        headers: this.requestHeaders()
+      });
+
+      return (response.data?.data || []).map((model: any) => ({
+        id: model.id,
+        name: model.id,
+        description: model.owned_by ? `${model.id} (${model.owned_by})` : model.id
+      }));
+    } catch (error) {
+      logger.error('Error fetching OpenAI-compatible models:', error);
+      throw handleApiError(error, this.name);
+    }
+  }
+
+  setDefaultModel(modelId: string): void {
+    this.defaultModel = modelId;
+  }
+
+  private async streamCompletion(
+    options: GenerationOptions,
+    content: MessageContent,
+    callbacks: StreamCallbacks
+  ): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.requestHeaders(),
+        body: JSON.stringify(this.buildPayload(options, content, true))
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${this.name} API error: ${response.status} ${errorText}`);
+      }
+
+      if (!response.body) {
+        throw new Error('Response body is null');
+      }
+
+      await this.processStream(response.body, callbacks);
+    } catch (error) {
+      if (callbacks.onError) {
+        callbacks.onError(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw handleApiError(error, this.name);
+    }
+  }
+
+  private buildPayload(options: GenerationOptions, content: MessageContent, stream: boolean) {
+    const model = options.modelId || this.defaultModel;
+    if (!model) {
+      throw new Error('No model selected for the OpenAI-compatible provider');
+    }
+
+    return {
+      model,
+      messages: [{ role: 'user', content }],
+      max_tokens: options.maxTokens || 2048,
+      temperature: options.temperature ?? 0.7,
+      top_p: options.topP ?? 0.95,
+      ...(options.frequencyPenalty !== undefined ? { frequency_penalty: options.frequencyPenalty } : {}),
+      ...(options.presencePenalty !== undefined ? { presence_penalty: options.presencePenalty } : {}),
+      stream
+    };
+  }
+
+  private requestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      ...this.headers
+    };
+  }
+
+  private static toApiMessage(message: AIChatMessage) {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+    return { role: message.role, content: message.content };
+  }
+
+  // Arguments arrive as a JSON string, though some servers send an object
+  private static parseArguments(value: unknown): Record<string, any> {
+    if (value && typeof value === 'object') return value as Record<string, any>;
+    try {
+      return JSON.parse(String(value || '{}'));
+    } catch {
+      return {};
+    }
+  }
+
+  // Image parts must be URLs; bare base64 is wrapped in a data URI
+  private static toImageUrl(image: string): string {
+    if (image.startsWith('data:') || /^https?:\/\//.test(image)) return image;
+    return `data:image/png;base64,${image}`;
+  }
+
+  private async processStream(
+    stream: ReadableStream<Uint8Array>,
+    callbacks: StreamCallbacks
+  ): Promise<void> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullText = '';
+    let totalTokens = 0;
+
+    const complete = () => {
+      callbacks.onComplete({
+        text: fullText,
+        provider: this.id,
+        tokens: totalTokens
+      });
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          complete();
+          return;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Server-sent events are separated by newlines; keep the last, possibly partial, line
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') {
+            complete();
+            return;
+          }
+
+          try {
+            const chunk = JSON.parse(data);
+            const text = chunk.choices?.[0]?.delta?.content;
+            if (text) {
+              fullText += text;
+              callbacks.onChunk(text);
+            }
+
+            // Track token usage if the server reports it
+            if (chunk.usage?.total_tokens) {
+              totalTokens = chunk.usage.total_tokens;
+            }
+          } catch (error) {
+            logger.warn('Error parsing OpenAI-compatible stream chunk:', error);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
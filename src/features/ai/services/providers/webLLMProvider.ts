@@ -1,8 +1,10 @@
 import * as webllm from '@mlc-ai/web-llm';
 import { logger } from '@/services/logger';
 import { webLLMDefaultModelService } from '../webLLMDefaultModelService';
+import { cleanCompletion, renderCompletionPrompt } from '../codeCompletion';
 import type {
   AIProvider,
+  CodeCompletionRequest,
   GenerationOptions,
   GenerationResult,
   StreamCallbacks,
@@ -20,6 +22,12 @@ export class WebLLMProvider implements AIProvider {
   private isModelLoading: boolean = false;
   private modelLoadingError: string | null = null;
   
+  // Embedding models run in their own engine so the chat model stays loaded
+  private embeddingEngine: webllm.MLCEngine | null = null;
+  private embeddingModel: string | null = null;
+  private static readonly DEFAULT_EMBEDDING_MODEL = 'snowflake-arctic-embed-m-q0f32-MLC-b32';
+  private static readonly EMBEDDING_BATCH_SIZE = 32;
+  
   constructor() {
     // No constructor parameters needed
   }
@@ -299,6 +307,56 @@ export class WebLLMProvider implements AIProvider {
     return false;
   }
   
+  // Inline completion only uses a model that is already loaded; starting a
+  // download while the user types would be a surprise
+  async completeCode(request: CodeCompletionRequest): Promise<string> {
+    if (!this.engine) {
+      throw new Error('No WebLLM model is loaded');
+    }
+    
+    const engine = this.engine;
+    const interrupt = () => engine.interruptGenerate();
+    request.signal?.addEventListener('abort', interrupt, { once: true });
+    
+    try {
+      const response = await engine.chat.completions.create({
+        messages: [{ role: 'user', content: renderCompletionPrompt(request) }],
+        temperature: 0.2,
+        max_tokens: request.maxTokens || 128,
+        stream: false
+      });
+      if (request.signal?.aborted) return '';
+      return cleanCompletion(response.choices[0].message.content || '', request);
+    } finally {
+      request.signal?.removeEventListener('abort', interrupt);
+    }
+  }
+  
+  /**
+   * Embed texts in the browser, loading the embedding model on first use
+   */
+  async embed(texts: string[], modelId?: string): Promise<number[][]> {
+    const model = modelId || WebLLMProvider.DEFAULT_EMBEDDING_MODEL;
+    
+    if (!this.embeddingEngine || this.embeddingModel !== model) {
+      logger.info(`Loading WebLLM embedding model: ${model}`);
+      await this.embeddingEngine?.unload();
+      this.embeddingEngine = await webllm.CreateMLCEngine(model);
+      this.embeddingModel = model;
+    }
+    
+    // The "-b32"/"-b4" suffix is the largest batch the compiled model accepts
+    const batchSize = Number(model.match(/-b(\d+)$/)?.[1]) || WebLLMProvider.EMBEDDING_BATCH_SIZE;
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += batchSize) {
+      const response = await this.embeddingEngine.embeddings.create({
+        input: texts.slice(start, start + batchSize)
+      });
+      vectors.push(...response.data.map(item => item.embedding));
+    }
+    return vectors;
+  }
+  
   async initializeModel(modelId: string, progressCallback?: WebLLMProgressCallback): Promise<void> {
     logger.info(`WebLLM initializeModel called with modelId: ${modelId}. Current state: engine=${!!this.engine}, model=${this.currentModel}, loading=${this.isModelLoading}`);
     
@@ -0,0 +1,80 @@
+import type { AIChatMessage, AIToolCall, AIToolDefinition } from './types';
+
+/**
+ * Prompt-based tool calling for providers without a native function calling
+ * API, such as WebLLM. The tools are described in the prompt and the model is
+ * asked to answer with fenced `tool_call` blocks, which are parsed back into
+ * tool calls.
+ */
+
+const TOOL_CALL_PATTERN = /```tool_call\s*\n([\s\S]*?)```|<tool_call>([\s\S]*?)<\/tool_call>/g;
+
+const ROLE_LABELS: Record<AIChatMessage['role'], string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool result'
+};
+
+const formatToolCall = (call: Pick<AIToolCall, 'name' | 'arguments'>): string =>
+  '```tool_call\n' + JSON.stringify({ name: call.name, arguments: call.arguments }) + '\n```';
+
+/**
+ * Flatten a tool-calling conversation into a single prompt
+ */
+export function renderToolPrompt(messages: AIChatMessage[], tools: AIToolDefinition[]): string {
+  const toolList = tools
+    .map((tool) => `- ${tool.name}: ${tool.description}\n  Arguments (JSON schema): ${JSON.stringify(tool.parameters)}`)
+    .join('\n');
+
+  const transcript = messages
+    .map((message) => {
+      const label = message.role === 'tool' && message.name ? `${ROLE_LABELS.tool} (${message.name})` : ROLE_LABELS[message.role];
+      const calls = (message.toolCalls || []).map(formatToolCall);
+      return `${label}: ${[message.content, ...calls].filter(Boolean).join('\n')}`;
+    })
+    .join('\n\n');
+
+  return [
+    'You can use the following tools:',
+    toolList,
+    '',
+    'To call a tool, reply with one or more blocks of exactly this form and nothing else:',
+    formatToolCall({ name: '<tool name>', arguments: { '<argument>': '<value>' } }),
+    'The results will be sent back to you. When you no longer need a tool, answer the user normally without any tool_call block.',
+    '',
+    transcript,
+    '',
+    'Assistant:'
+  ].join('\n');
+}
+
+/**
+ * Extract tool calls from a model reply. Returns the remaining text and the
+ * calls; blocks that are not valid JSON for a known tool are left in the text.
+ */
+export function parseToolCalls(
+  text: string,
+  toolNames?: string[]
+): { text: string; toolCalls: AIToolCall[] } {
+  const toolCalls: AIToolCall[] = [];
+
+  const remaining = text.replace(TOOL_CALL_PATTERN, (match, fenced?: string, tagged?: string) => {
+    try {
+      const parsed = JSON.parse((fenced ?? tagged ?? '').trim());
+      if (typeof parsed?.name !== 'string' || (toolNames && !toolNames.includes(parsed.name))) {
+        return match;
+      }
+      toolCalls.push({
+        id: `call_${toolCalls.length}_${Date.now().toString(36)}`,
+        name: parsed.name,
+        arguments: parsed.arguments && typeof parsed.arguments === 'object' ? parsed.arguments : {}
+      });
+      return '';
+    } catch {
+      return match;
+    }
+  });
+
+  return { text: remaining.trim(), toolCalls };
+}
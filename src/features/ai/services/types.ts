@@ -23,6 +23,12 @@ export interface AIProvider {
     options: MultimodalGenerationOptions,
     callbacks?: StreamCallbacks
   ): Promise<GenerationResult>;
+  // Native function calling; providers without it go through the text protocol in toolCalling.ts
+  generateWithTools?(options: ToolGenerationOptions): Promise<ToolGenerationResult>;
+  // One embedding vector per input text, in input order
+  embed?(texts: string[], modelId?: string): Promise<number[][]>;
+  // Fill-in-the-middle code completion; other providers go through the prompt in codeCompletion.ts
+  completeCode?(request: CodeCompletionRequest): Promise<string>;
 }
 
 // Provider configuration
@@ -35,6 +41,14 @@ export interface ProviderConfig {
   defaultPrompt: string;
 }
 
+// Connection settings for OpenAI-compatible servers
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:8080/v1; `/v1` is added when no version segment is given
+  apiKey?: string;
+  headers?: Record<string, string>; // Extra headers sent with every request
+  defaultModel?: string;
+}
+
 // Options for text generation
 export interface GenerationOptions {
   prompt: string;
@@ -47,6 +61,18 @@ export interface GenerationOptions {
   safetyThreshold?: string;
 }
 
+// Code to complete at the cursor, with the surrounding context
+export interface CodeCompletionRequest {
+  prefix: string; // Cell text before the cursor
+  suffix: string; // Cell text after the cursor
+  language: string;
+  precedingCells?: string[]; // Code of the cells above, nearest last
+  variables?: string[]; // Variables known to the kernel, one description each
+  modelId?: string;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
 // Options for multimodal generation
 export interface MultimodalGenerationOptions extends GenerationOptions {
   images?: string[]; // Base64 encoded images or URLs
@@ -65,6 +91,46 @@ export interface GenerationResult {
   tokens: number;
 }
 
+// A function the model may call, described with a JSON schema for its arguments
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+// A tool invocation requested by the model
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+// A message in a tool-calling conversation
+export interface AIChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: AIToolCall[]; // Calls requested by an assistant message
+  toolCallId?: string; // The call a tool message answers
+  name?: string; // Tool name, for tool messages
+}
+
+// Options for a tool-calling turn; `prompt` is unused, the conversation is in `messages`
+export interface ToolGenerationOptions extends Omit<GenerationOptions, 'prompt'> {
+  messages: AIChatMessage[];
+  tools: AIToolDefinition[];
+  // Aborts the request in flight; only native function calling honours it
+  signal?: AbortSignal;
+}
+
+// Result of a tool-calling turn; `toolCalls` is empty when the model answered directly
+export interface ToolGenerationResult extends GenerationResult {
+  toolCalls: AIToolCall[];
+}
+
 // Callbacks for streaming responses
 export interface StreamCallbacks {
   onChunk: (text: string) => void;
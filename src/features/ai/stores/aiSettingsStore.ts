@@ -17,14 +17,31 @@ export interface AISettings {
   sidebarWidth?: number // Width of the AI assistant sidebar
   ollamaServerUrl?: string // Ollama server URL
   ollamaModel?: string // The selected Ollama model
+  openaiCompatibleBaseUrl?: string // Base URL of an OpenAI-compatible server
+  openaiCompatibleModel?: string // The selected OpenAI-compatible model
+  openaiCompatibleHeaders?: Record<string, string> // Extra headers for the OpenAI-compatible server
   webllmModel?: string // The selected WebLLM model
   webllmDefaultModel?: string // The default WebLLM model to auto-load
   webllmAutoLoad?: boolean // Whether to auto-load WebLLM model on request
   webllmAutoLoadStrategy?: 'default' | 'smallest' | 'fastest' | 'balanced' | 'none' // Auto-load strategy
   autoSelectProvider?: boolean // Whether to auto-select the best available provider
   requestTimeout?: number // Request timeout in seconds
+  embeddingProviderId?: string // Local provider that embeds notas for workspace chat
+  embeddingModel?: string // Embedding model; empty uses the provider's default
+  ragTopK?: number // Number of nota chunks given to workspace chat
+  inlineCompletionEnabled?: boolean // Ghost-text completion in code blocks
+  completionProviderId?: string // Provider used for inline completion
+  completionModel?: string // Completion model; empty uses the provider's default
 }
 
+// Settings the OpenAI-compatible provider is created from
+const OPENAI_COMPATIBLE_SETTINGS: Array<keyof AISettings> = [
+  'openaiCompatibleBaseUrl',
+  'openaiCompatibleModel',
+  'openaiCompatibleHeaders',
+  'apiKeys',
+]
+
 export const useAISettingsStore = defineStore('aiSettings', () => {
   const settings = ref<AISettings>({
     preferredProviderId: 'gemini',
@@ -37,11 +54,20 @@ export const useAISettingsStore = defineStore('aiSettings', () => {
     sidebarWidth: 350, // Default sidebar width
     ollamaServerUrl: 'http://localhost:11434', // Default Ollama server URL
     ollamaModel: 'llama2', // Default Ollama model
+    openaiCompatibleBaseUrl: 'http://localhost:8080/v1', // Default llama.cpp server URL
+    openaiCompatibleModel: '',
+    openaiCompatibleHeaders: {},
     webllmModel: '', // Current WebLLM model
     webllmDefaultModel: '', // Default WebLLM model to auto-load
     webllmAutoLoad: true, // Auto-load default model on request
     webllmAutoLoadStrategy: 'smallest', // Default to smallest model for better UX
-    autoSelectProvider: true // Default to auto-selecting the best available provider
+    autoSelectProvider: true, // Default to auto-selecting the best available provider
+    embeddingProviderId: 'ollama',
+    embeddingModel: '',
+    ragTopK: 6,
+    inlineCompletionEnabled: false,
+    completionProviderId: 'ollama',
+    completionModel: ''
   })
 
   const providers = computed(() => aiService.getProviderConfigs())
@@ -60,6 +86,10 @@ export const useAISettingsStore = defineStore('aiSettings', () => {
       [providerId]: apiKey
     }
     saveSettings()
+
+    if (providerId === 'openai-compatible') {
+      aiService.resetProvider(providerId)
+    }
   }
 
   const setPreferredProvider = (providerId: string) => {
@@ -80,6 +110,10 @@ export const useAISettingsStore = defineStore('aiSettings', () => {
       ...newSettings
     }
     saveSettings()
+
+    if (OPENAI_COMPATIBLE_SETTINGS.some(key => key in newSettings)) {
+      aiService.resetProvider('openai-compatible')
+    }
   }
 
   const loadSettings = () => {
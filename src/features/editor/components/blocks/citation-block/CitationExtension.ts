@@ -5,6 +5,7 @@ import Citation from './Citation.vue'
 import Bibliography from './Bibliography.vue'
 import type { CitationEntry } from '@/features/nota/types/nota'
 import { updateCitationNumbers } from '@/features/editor/services/citationService'
+import { DEFAULT_CITATION_STYLE } from '@/features/editor/services/csl'
 
 // Citation inline node
 export const CitationExtension = Node.create({
@@ -127,7 +128,13 @@ export const BibliographyExtension = Node.create({
   addAttributes() {
     return {
       style: {
-        default: 'apa',
+        default: DEFAULT_CITATION_STYLE,
+      },
+      // CSL of a user-supplied style, kept with the document so it renders anywhere
+      styleXml: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-style-xml'),
+        renderHTML: attributes => attributes.styleXml ? { 'data-style-xml': attributes.styleXml } : {}
       },
       title: {
         default: 'References',
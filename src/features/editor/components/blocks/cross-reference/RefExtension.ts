@@ -0,0 +1,132 @@
+import { Node, mergeAttributes, nodeInputRule } from '@tiptap/core'
+import { VueNodeViewRenderer } from '@tiptap/vue-3'
+import CrossReference from './CrossReference.vue'
+import {
+  updateCrossReferences,
+  type CrossRefForm,
+  type CrossRefNumbering,
+} from '@/features/editor/services/crossRefService'
+
+export interface RefStorage {
+  numbering: CrossRefNumbering
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    ref: {
+      /**
+       * Insert a reference to a labelled block
+       */
+      insertRef: (options?: { label?: string; form?: CrossRefForm }) => ReturnType
+    }
+  }
+}
+
+// Typing \ref{label} or \eqref{label} inserts a reference
+const REF_INPUT = /\\(ref|eqref)\{([^}\s]+)\}$/
+
+/**
+ * Inline reference to a labelled theorem, figure, subfigure, table, equation
+ * or code output. The text ("Theorem 3") is rewritten whenever the numbering
+ * changes; references whose label no longer exists are marked missing.
+ */
+export const RefExtension = Node.create<Record<string, never>, RefStorage>({
+  name: 'ref',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addStorage() {
+    return {
+      numbering: 'document',
+    }
+  },
+
+  addAttributes() {
+    return {
+      label: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-label') || '',
+        renderHTML: attributes => ({ 'data-label': attributes.label }),
+      },
+      form: {
+        default: 'full',
+        parseHTML: element => element.getAttribute('data-form') || 'full',
+        renderHTML: attributes => ({ 'data-form': attributes.form }),
+      },
+      text: {
+        default: '??',
+        parseHTML: element => element.textContent || '??',
+        renderHTML: () => ({}),
+      },
+      missing: {
+        default: false,
+        parseHTML: element => element.hasAttribute('data-missing'),
+        renderHTML: attributes => (attributes.missing ? { 'data-missing': '' } : {}),
+      },
+    }
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'a[data-type="ref"]',
+        // Ahead of the link mark, which would otherwise read it as a link
+        priority: 60,
+      },
+    ]
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'a',
+      mergeAttributes(HTMLAttributes, {
+        'data-type': 'ref',
+        class: node.attrs.missing ? 'cross-ref cross-ref-missing' : 'cross-ref',
+        href: `#ref-${node.attrs.label}`,
+      }),
+      node.attrs.text || '??',
+    ]
+  },
+
+  renderText({ node }) {
+    return node.attrs.text || '??'
+  },
+
+  addNodeView() {
+    return VueNodeViewRenderer(CrossReference as any)
+  },
+
+  addInputRules() {
+    return [
+      nodeInputRule({
+        find: REF_INPUT,
+        type: this.type,
+        getAttributes: match => ({ label: match[2], form: match[1] === 'eqref' ? 'number' : 'full' }),
+      }),
+    ]
+  },
+
+  addCommands() {
+    return {
+      insertRef: (options = {}) => ({ commands }) => {
+        return commands.insertContent({
+          type: this.name,
+          attrs: options,
+        })
+      },
+    }
+  },
+
+  // Read-only views show the numbers saved with the content
+  onCreate() {
+    if (this.editor.isEditable) updateCrossReferences(this.editor)
+  },
+
+  onUpdate() {
+    if (this.editor.isEditable) updateCrossReferences(this.editor)
+  },
+})
+
+export default RefExtension
@@ -0,0 +1,11 @@
+import CrossReference from './CrossReference.vue'
+import RefLabelEditor from './RefLabelEditor.vue'
+import RefExtension from './RefExtension'
+
+export {
+  CrossReference,
+  RefLabelEditor,
+  RefExtension,
+}
+
+export default RefExtension
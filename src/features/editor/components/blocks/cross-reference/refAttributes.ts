@@ -0,0 +1,17 @@
+import type { Attribute } from '@tiptap/core'
+
+/**
+ * Attributes of blocks that can be referenced: the label chosen by the user
+ * and the number written by `updateCrossReferences`
+ */
+export const refLabelAttribute = (): Attribute => ({
+  default: '',
+  parseHTML: element => element.getAttribute('data-ref-label') || '',
+  renderHTML: attributes => (attributes.refLabel ? { 'data-ref-label': attributes.refLabel } : {}),
+})
+
+export const refNumberAttribute = (): Attribute => ({
+  default: null,
+  parseHTML: element => element.getAttribute('data-ref-number'),
+  renderHTML: attributes => (attributes.refNumber ? { 'data-ref-number': attributes.refNumber } : {}),
+})
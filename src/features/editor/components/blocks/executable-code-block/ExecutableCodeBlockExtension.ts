@@ -2,6 +2,7 @@ import CodeBlock from '@tiptap/extension-code-block'
 import { VueNodeViewRenderer } from '@tiptap/vue-3'
 import { mergeAttributes } from '@tiptap/core'
 import ExecutableCodeBlock from './ExecutableCodeBlock.vue'
+import { refLabelAttribute, refNumberAttribute } from '../cross-reference/refAttributes'
 
 export const ExecutableCodeBlockExtension = CodeBlock.extend({
   name: 'executableCodeBlock',
@@ -19,6 +20,13 @@ export const ExecutableCodeBlockExtension = CodeBlock.extend({
       output: {
         default: null,
       },
+      // Raw kernel outputs with full MIME bundles, the rendered `output` is derived from these
+      outputs: {
+        default: null,
+      },
+      executionCount: {
+        default: null,
+      },
       kernelName: {
         default: null,
       },
@@ -31,6 +39,9 @@ export const ExecutableCodeBlockExtension = CodeBlock.extend({
       id: {
         default: null,
       },
+      // Lets the output be referenced as "Output 2"
+      refLabel: refLabelAttribute(),
+      refNumber: refNumberAttribute(),
     }
   },
 
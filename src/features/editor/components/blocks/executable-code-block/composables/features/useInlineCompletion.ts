@@ -0,0 +1,275 @@
+import { inject, ref, type InjectionKey } from 'vue'
+import {
+  Decoration,
+  EditorView,
+  ViewPlugin,
+  WidgetType,
+  keymap,
+  type ViewUpdate,
+} from '@codemirror/view'
+import { Prec, StateEffect, StateField, type EditorState, type Extension } from '@codemirror/state'
+import { aiService } from '@/features/ai/services'
+import { useAISettingsStore } from '@/features/ai/stores/aiSettingsStore'
+import type { KernelVariable } from '@/features/jupyter/types/jupyter'
+import { logger } from '@/services/logger'
+
+// Context from the surrounding nota, provided by the code block
+export interface CodeCompletionContext {
+  getPrecedingCells: () => string[]
+  getVariables: () => Promise<string[]>
+}
+
+export const CODE_COMPLETION_CONTEXT_KEY: InjectionKey<CodeCompletionContext> = Symbol('codeCompletionContext')
+
+export interface InlineCompletionOptions {
+  getLanguage: () => string
+}
+
+interface Suggestion {
+  pos: number
+  text: string
+}
+
+const DEBOUNCE_MS = 400
+const MAX_COMPLETION_TOKENS = 128
+
+// Only complete at the end of a line, or before closing brackets and quotes
+const COMPLETABLE_LINE_END = /^[\s)\]}'"`:;,]*$/
+
+/**
+ * One-line description of a kernel variable for the completion prompt
+ */
+export const describeKernelVariable = (variable: KernelVariable): string =>
+  [
+    `${variable.name}: ${variable.type}`,
+    variable.shape ? `shape ${variable.shape}` : '',
+    variable.columns?.length ? `columns [${variable.columns.join(', ')}]` : '',
+  ]
+    .filter(Boolean)
+    .join(', ')
+
+const setSuggestion = StateEffect.define<Suggestion | null>()
+
+class GhostTextWidget extends WidgetType {
+  constructor(readonly text: string) {
+    super()
+  }
+
+  eq(other: GhostTextWidget) {
+    return other.text === this.text
+  }
+
+  toDOM() {
+    const span = document.createElement('span')
+    span.className = 'cm-ghost-text'
+    span.textContent = this.text
+    return span
+  }
+}
+
+const suggestionField = StateField.define<Suggestion | null>({
+  create: () => null,
+  update(suggestion, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setSuggestion)) return effect.value
+    }
+    if (!suggestion || (!tr.docChanged && !tr.selection)) return suggestion
+
+    // Typing the start of the suggestion keeps the rest of it
+    const changes: Array<{ from: number; to: number; text: string }> = []
+    tr.changes.iterChanges((from, to, _fromB, _toB, inserted) => {
+      changes.push({ from, to, text: inserted.toString() })
+    })
+    const [change] = changes
+    if (
+      changes.length === 1 &&
+      change.from === suggestion.pos &&
+      change.to === change.from &&
+      change.text &&
+      change.text.length < suggestion.text.length &&
+      suggestion.text.startsWith(change.text)
+    ) {
+      return { pos: suggestion.pos + change.text.length, text: suggestion.text.slice(change.text.length) }
+    }
+    return null
+  },
+  provide: (field) =>
+    EditorView.decorations.from(field, (suggestion) =>
+      suggestion
+        ? Decoration.set([Decoration.widget({ widget: new GhostTextWidget(suggestion.text), side: 1 }).range(suggestion.pos)])
+        : Decoration.none,
+    ),
+})
+
+const acceptSuggestion = (view: EditorView): boolean => {
+  const suggestion = view.state.field(suggestionField, false)
+  if (!suggestion) return false
+  view.dispatch({
+    changes: { from: suggestion.pos, insert: suggestion.text },
+    selection: { anchor: suggestion.pos + suggestion.text.length },
+    effects: setSuggestion.of(null),
+    userEvent: 'input.complete',
+  })
+  return true
+}
+
+const dismissSuggestion = (view: EditorView): boolean => {
+  if (!view.state.field(suggestionField, false)) return false
+  view.dispatch({ effects: setSuggestion.of(null) })
+  return true
+}
+
+const canComplete = (state: EditorState): boolean => {
+  const selection = state.selection.main
+  if (!selection.empty) return false
+  const line = state.doc.lineAt(selection.head)
+  return (
+    COMPLETABLE_LINE_END.test(line.text.slice(selection.head - line.from)) &&
+    state.doc.sliceString(0, selection.head).trim().length > 0
+  )
+}
+
+/**
+ * Inline AI completion shown as ghost text after the cursor. Requests go out
+ * when typing pauses and are cancelled by the next keystroke; Tab accepts the
+ * suggestion and Esc dismisses it. Uses the provider chosen for inline
+ * completion, so with Ollama or WebLLM nothing leaves the machine.
+ */
+export function useInlineCompletion(options: InlineCompletionOptions) {
+  const aiSettings = useAISettingsStore()
+  const context = inject(CODE_COMPLETION_CONTEXT_KEY, null)
+  const isCompleting = ref(false)
+  let lastError = ''
+
+  const fetchCompletion = async (view: EditorView, signal: AbortSignal): Promise<Suggestion | null> => {
+    const { doc, selection } = view.state
+    const pos = selection.main.head
+    const providerId = aiSettings.settings.completionProviderId || 'ollama'
+
+    const [precedingCells, variables] = await Promise.all([
+      context?.getPrecedingCells() ?? [],
+      context?.getVariables().catch(() => []) ?? [],
+    ])
+    if (signal.aborted) return null
+
+    const text = await aiService.completeCode(
+      providerId,
+      {
+        prefix: doc.sliceString(0, pos),
+        suffix: doc.sliceString(pos),
+        language: options.getLanguage(),
+        precedingCells,
+        variables,
+        modelId:
+          aiSettings.settings.completionModel ||
+          (providerId === 'ollama' ? aiSettings.settings.ollamaModel : undefined),
+        maxTokens: MAX_COMPLETION_TOKENS,
+        signal,
+      },
+      aiSettings.getApiKey(providerId),
+    )
+
+    // Drop answers that arrive after the user moved on
+    if (signal.aborted || view.state.doc !== doc || view.state.selection.main.head !== pos || !text.trim()) {
+      return null
+    }
+    return { pos, text }
+  }
+
+  const completionPlugin = ViewPlugin.fromClass(
+    class {
+      private timer: ReturnType<typeof setTimeout> | null = null
+      private controller: AbortController | null = null
+
+      constructor(private readonly view: EditorView) {}
+
+      update(update: ViewUpdate) {
+        if (update.focusChanged && !update.view.hasFocus) {
+          this.cancel()
+          // Dispatching is not allowed during an update
+          queueMicrotask(() => dismissSuggestion(this.view))
+          return
+        }
+        if (!update.docChanged && !update.selectionSet) return
+
+        this.cancel()
+        const typed = update.transactions.some((tr) => tr.isUserEvent('input.type'))
+        if (
+          typed &&
+          aiSettings.settings.inlineCompletionEnabled &&
+          !update.state.field(suggestionField, false) &&
+          canComplete(update.state)
+        ) {
+          this.timer = setTimeout(() => this.request(), DEBOUNCE_MS)
+        }
+      }
+
+      async request() {
+        this.timer = null
+        const controller = new AbortController()
+        this.controller = controller
+        isCompleting.value = true
+
+        try {
+          const suggestion = await fetchCompletion(this.view, controller.signal)
+          if (suggestion) {
+            this.view.dispatch({ effects: setSuggestion.of(suggestion) })
+          }
+          lastError = ''
+        } catch (error) {
+          // A provider that is not running would otherwise log on every pause
+          const message = error instanceof Error ? error.message : String(error)
+          if (!controller.signal.aborted && message !== lastError) {
+            lastError = message
+            logger.warn('Inline completion failed:', error)
+          }
+        } finally {
+          if (this.controller === controller) {
+            this.controller = null
+            isCompleting.value = false
+          }
+        }
+      }
+
+      cancel() {
+        if (this.timer) {
+          clearTimeout(this.timer)
+          this.timer = null
+        }
+        if (this.controller) {
+          this.controller.abort()
+          this.controller = null
+          isCompleting.value = false
+        }
+      }
+
+      destroy() {
+        this.cancel()
+      }
+    },
+  )
+
+  const getCompletionExtensions = (): Extension[] => [
+    suggestionField,
+    completionPlugin,
+    // Ahead of indent-with-tab and other Tab/Esc bindings
+    Prec.highest(
+      keymap.of([
+        { key: 'Tab', run: acceptSuggestion },
+        { key: 'Escape', run: dismissSuggestion },
+      ]),
+    ),
+    EditorView.theme({
+      '.cm-ghost-text': {
+        opacity: '0.45',
+        whiteSpace: 'pre',
+        pointerEvents: 'none',
+      },
+    }),
+  ]
+
+  return {
+    isCompleting,
+    getCompletionExtensions,
+  }
+}
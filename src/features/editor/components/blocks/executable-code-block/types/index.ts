@@ -1,12 +1,18 @@
+import type { KernelOutput } from '@/features/jupyter/types/jupyter'
+
 export interface CodeBlockNode {
   attrs: {
     id: string
     executable: boolean
     language: string
     output: string | null
+    outputs: KernelOutput[] | null
+    executionCount: number | null
     kernelName: string | null
     serverID: string | null
     sessionId: string | null
+    refLabel?: string | null
+    refNumber?: string | null
   }
   textContent: string
   nodeSize: number
@@ -1,6 +1,7 @@
 import { Node, mergeAttributes } from '@tiptap/core'
 import { VueNodeViewRenderer } from '@tiptap/vue-3'
 import MathBlock from './MathBlock.vue'
+import { refLabelAttribute, refNumberAttribute } from '../cross-reference/refAttributes'
 
 export interface MathOptions {
   HTMLAttributes: Record<string, any>
@@ -44,7 +45,9 @@ export const MathExtension = Node.create<MathOptions>({
             'data-latex': attributes.latex,
           }
         },
-      }
+      },
+      refLabel: refLabelAttribute(),
+      refNumber: refNumberAttribute(),
     }
   },
 
@@ -0,0 +1,9 @@
+import MermaidBlock from './MermaidBlock.vue'
+import MermaidExtension from './mermaid-extension'
+
+export {
+  MermaidBlock,
+  MermaidExtension,
+}
+
+export default MermaidExtension
@@ -0,0 +1,91 @@
+import { Node, mergeAttributes } from '@tiptap/core'
+import { VueNodeViewRenderer } from '@tiptap/vue-3'
+import MermaidBlock from './MermaidBlock.vue'
+import { DEFAULT_MERMAID_DIAGRAM } from '@/features/editor/services/mermaidService'
+
+export interface MermaidOptions {
+  HTMLAttributes: Record<string, any>
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    mermaid: {
+      /**
+       * Add a Mermaid diagram block
+       */
+      setMermaid: (options?: { content?: string; title?: string; theme?: string }) => ReturnType
+    }
+  }
+}
+
+export const MermaidExtension = Node.create<MermaidOptions>({
+  name: 'mermaid',
+
+  group: 'block',
+
+  atom: true,
+
+  draggable: true,
+
+  isolating: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    }
+  },
+
+  addAttributes() {
+    return {
+      content: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-content') || '',
+        renderHTML: attributes => ({ 'data-content': attributes.content }),
+      },
+      title: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-title'),
+        renderHTML: attributes => (attributes.title ? { 'data-title': attributes.title } : {}),
+      },
+      // "default" follows the app's light or dark mode
+      theme: {
+        default: 'default',
+        parseHTML: element => element.getAttribute('data-theme') || 'default',
+        renderHTML: attributes => ({ 'data-theme': attributes.theme }),
+      },
+      config: {
+        default: null,
+        rendered: false,
+      },
+    }
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-type="mermaid"]',
+      },
+    ]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, { 'data-type': 'mermaid' })]
+  },
+
+  addCommands() {
+    return {
+      setMermaid: (options = {}) => ({ commands }) => {
+        return commands.insertContent({
+          type: this.name,
+          attrs: { content: DEFAULT_MERMAID_DIAGRAM, ...options },
+        })
+      },
+    }
+  },
+
+  addNodeView() {
+    return VueNodeViewRenderer(MermaidBlock)
+  },
+})
+
+export default MermaidExtension
@@ -1,6 +1,8 @@
 import { Node } from '@tiptap/core'
 import { VueNodeViewRenderer } from '@tiptap/vue-3'
 import PipelineNode from './PipelineNode.vue'
+import { DEFAULT_MAX_CONCURRENCY } from '@/features/editor/services/pipeline/scheduler'
+import type { PipelineCacheEntry, PipelineRunRecord } from '@/features/editor/types/pipeline'
 
 export interface PipelineAttributes {
   id: string
@@ -12,6 +14,10 @@ export interface PipelineAttributes {
   sharedKernelName: string
   executionOrder: 'topological' | 'sequential' | 'parallel'
   stopOnError: boolean
+  maxConcurrency: number
+  useCache: boolean
+  cache: Record<string, PipelineCacheEntry>
+  runHistory: PipelineRunRecord[]
 }
 
 declare module '@tiptap/core' {
@@ -60,6 +66,18 @@ export const PipelineExtension = Node.create({
       stopOnError: {
         default: true,
       },
+      maxConcurrency: {
+        default: DEFAULT_MAX_CONCURRENCY,
+      },
+      useCache: {
+        default: true,
+      },
+      cache: {
+        default: {},
+      },
+      runHistory: {
+        default: [],
+      },
     }
   },
 
@@ -104,6 +122,8 @@ export const PipelineExtension = Node.create({
             sharedKernelName: '',
             executionOrder: 'topological',
             stopOnError: true,
+            maxConcurrency: DEFAULT_MAX_CONCURRENCY,
+            useCache: true,
             ...attributes,
           },
         })
@@ -2,6 +2,7 @@ import { Node, mergeAttributes } from '@tiptap/core'
 import { VueNodeViewRenderer } from '@tiptap/vue-3'
 import { NodeSelection } from '@tiptap/pm/state'
 import SubfigureBlock from './SubfigureBlock.vue'
+import { refLabelAttribute, refNumberAttribute } from '../cross-reference/refAttributes'
 import type { ImageFit } from '@/features/editor/components/extensions/types'
 
 // Constants for validation
@@ -13,6 +14,8 @@ const MAX_GRID_COLUMNS = 4
 export interface SubFigure {
   src: string
   caption?: string
+  // Cross-reference label of this subfigure, referenced as e.g. "Figure 2b"
+  refLabel?: string
 }
 
 export interface SubfigureOptions {
@@ -28,6 +31,8 @@ export interface SubfigureAttributes {
   caption: string
   label: string
   gridColumns: number
+  refLabel: string
+  refNumber: string | null
 }
 
 // Validation functions
@@ -133,6 +138,8 @@ export const SubfigureExtension = Node.create<SubfigureOptions>({
           return validateGridColumns(columns) ? columns : 2
         },
       },
+      refLabel: refLabelAttribute(),
+      refNumber: refNumberAttribute(),
     }
   },
 
@@ -153,6 +160,7 @@ export const SubfigureExtension = Node.create<SubfigureOptions>({
             caption: el.querySelector('.subfigure-main-caption')?.textContent || '',
             label: el.querySelector('.subfigure-main-label')?.textContent || '',
             gridColumns: parseInt(el.getAttribute('data-grid-columns') || '2', 10),
+            refLabel: el.getAttribute('data-ref-label') || '',
           }
         },
       },
@@ -210,7 +218,7 @@ export const SubfigureExtension = Node.create<SubfigureOptions>({
     const subfigureItems = (subfigures || []).map((subfig: SubFigure) => {
       return [
         'div', 
-        { class: 'subfigure-item' }, 
+        subfig.refLabel ? { class: 'subfigure-item', 'data-ref-label': subfig.refLabel } : { class: 'subfigure-item' }, 
         ['img', { src: subfig.src, style: `object-fit: ${objectFit || 'contain'}` }],
         subfig.caption ? ['div', { class: 'subfigure-caption' }, subfig.caption] : '',
       ]
@@ -240,7 +248,9 @@ export const SubfigureExtension = Node.create<SubfigureOptions>({
         },
         ...subfigureItems,
       ],
-      label ? ['div', { class: 'subfigure-main-label' }, label] : '',
+      label
+        ? ['div', { class: 'subfigure-main-label' }, label]
+        : rest['data-ref-number'] ? ['div', { class: 'subfigure-number' }, `Figure ${rest['data-ref-number']}`] : '',
       caption ? ['div', { class: 'subfigure-main-caption' }, caption] : '',
     ]
   },
@@ -2,12 +2,18 @@ import { Node, mergeAttributes } from '@tiptap/core'
 import { VueNodeViewRenderer } from '@tiptap/vue-3'
 import TableBlock from '@/features/editor/components/blocks/table-block/TableBlock.vue'
 import { v4 as uuidv4 } from 'uuid'
+import { refLabelAttribute, refNumberAttribute } from '../cross-reference/refAttributes'
+import type { TableAggregate } from '@/features/editor/services/tableFormulaService'
 
 export interface TableColumn {
   id: string
   title: string
-  type: 'text' | 'number' | 'select' | 'date'
+  type: 'text' | 'number' | 'select' | 'date' | 'formula'
   options?: string[]
+  // Expression computing the cells of a formula column, e.g. {Price} * {Quantity}
+  formula?: string
+  // Shown in the footer row under the column
+  aggregate?: TableAggregate
 }
 
 export interface TableData {
@@ -45,7 +51,9 @@ export const TableExtension = Node.create({
           columns: [],
           rows: []
         }
-      }
+      },
+      refLabel: refLabelAttribute(),
+      refNumber: refNumberAttribute(),
     }
   },
 
@@ -1,7 +1,8 @@
 import { ref, type Ref, watch } from 'vue'
-import type { TableData } from '@/features/editor/components/blocks/table-block/TableExtension'
+import type { TableData, TableColumn } from '@/features/editor/components/blocks/table-block/TableExtension'
+import { uniqueColumnTitle } from '@/features/editor/services/tableFormulaService'
 
-export type ColumnType = 'text' | 'number' | 'select' | 'date'
+export type ColumnType = 'text' | 'number' | 'select' | 'date' | 'formula'
 
 export interface ColumnTypeOption {
   value: ColumnType
@@ -92,7 +93,8 @@ export function useTableOperations(tableData: Ref<TableData>) {
       // Create a new column with default values
       const newColumn = {
         id: newColumnId,
-        title: newColumnTitle.value.trim() || `Column ${tableData.value.columns.length + 1}`,
+        // Formulas refer to columns by title, so titles stay unique
+        title: uniqueColumnTitle(newColumnTitle.value.trim() || `Column ${tableData.value.columns.length + 1}`, tableData.value.columns),
         type: newColumnType.value,
       }
       
@@ -337,6 +339,22 @@ export function useTableOperations(tableData: Ref<TableData>) {
     }
   }
 
+  // Update a column's formula, or its footer aggregate
+  const updateColumn = (columnId: string, changes: Pick<TableColumn, 'formula' | 'aggregate'>) => {
+    tableData.value = {
+      ...tableData.value,
+      columns: tableData.value.columns.map((col) => (col.id === columnId ? { ...col, ...changes } : col))
+    }
+  }
+
+  const updateColumnFormula = (columnId: string, formula: string) => {
+    updateColumn(columnId, { formula })
+  }
+
+  const updateColumnAggregate = (columnId: string, aggregate: TableColumn['aggregate']) => {
+    updateColumn(columnId, { aggregate })
+  }
+
   return {
     isAddingColumn,
     newColumnTitle,
@@ -353,7 +371,9 @@ export function useTableOperations(tableData: Ref<TableData>) {
     deleteRow,
     deleteColumn,
     toggleTypeDropdown,
-    updateColumnType
+    updateColumnType,
+    updateColumnFormula,
+    updateColumnAggregate
   }
 } 
 
@@ -1,4 +1,4 @@
-import { Text, Hash, List, Calendar } from 'lucide-vue-next'
+import { Text, Hash, List, Calendar, Sigma } from 'lucide-vue-next'
 import type { ColumnType } from '@/features/editor/components/blocks/table-block/composables/useTableOperations'
 
 export const COLUMN_TYPES = [
@@ -6,6 +6,7 @@ export const COLUMN_TYPES = [
   { value: 'number' as ColumnType, label: 'Number', icon: Hash },
   { value: 'select' as ColumnType, label: 'Select', icon: List },
   { value: 'date' as ColumnType, label: 'Date', icon: Calendar },
+  { value: 'formula' as ColumnType, label: 'Formula', icon: Sigma },
 ] as const
 
 export const getColumnTypeLabel = (type: string): string => {
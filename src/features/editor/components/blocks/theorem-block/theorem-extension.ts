@@ -1,11 +1,21 @@
 import { Node, mergeAttributes } from '@tiptap/core'
 import { VueNodeViewRenderer } from '@tiptap/vue-3'
 import TheoremBlock from './TheoremBlock.vue'
+import { refLabelAttribute } from '../cross-reference/refAttributes'
+import {
+  BUILTIN_THEOREM_ENVIRONMENTS,
+  type TheoremEnvironment,
+} from '@/features/editor/services/theoremService'
 
 export interface TheoremOptions {
   HTMLAttributes: Record<string, any>
 }
 
+export interface TheoremStorage {
+  // The nota's environments, set by the editor from its config
+  environments: readonly TheoremEnvironment[]
+}
+
 declare module '@tiptap/core' {
   interface Commands<ReturnType> {
     theorem: {
@@ -16,14 +26,15 @@ declare module '@tiptap/core' {
         title?: string,
         content?: string,
         proof?: string,
-        type?: 'theorem' | 'lemma' | 'proposition' | 'corollary' | 'definition',
-        number?: number
+        // Name of a built-in or nota-defined environment
+        type?: string,
+        number?: string
       }) => ReturnType
     }
   }
 }
 
-export const TheoremExtension = Node.create<TheoremOptions>({
+export const TheoremExtension = Node.create<TheoremOptions, TheoremStorage>({
   name: 'theorem',
 
   group: 'block',
@@ -40,6 +51,12 @@ export const TheoremExtension = Node.create<TheoremOptions>({
     }
   },
 
+  addStorage() {
+    return {
+      environments: BUILTIN_THEOREM_ENVIRONMENTS,
+    }
+  },
+
   addAttributes() {
     return {
       title: {
@@ -78,16 +95,15 @@ export const TheoremExtension = Node.create<TheoremOptions>({
           }
         },
       },
+      // Written by the cross-reference numbering, e.g. "3" or "2.1"
       number: {
         default: null,
-        parseHTML: element => {
-          const num = element.getAttribute('data-number')
-          return num ? parseInt(num, 10) : null
-        },
+        parseHTML: element => element.getAttribute('data-number'),
         renderHTML: attributes => {
           return attributes.number ? { 'data-number': attributes.number } : {}
         },
-      }
+      },
+      refLabel: refLabelAttribute(),
     }
   },
 
@@ -103,9 +119,8 @@ export const TheoremExtension = Node.create<TheoremOptions>({
             content: element.getAttribute('data-content') || '',
             proof: element.getAttribute('data-proof') || '',
             type: element.getAttribute('data-theorem-type') || 'theorem',
-            number: element.getAttribute('data-number')
-              ? parseInt(element.getAttribute('data-number') || '0', 10)
-              : null
+            number: element.getAttribute('data-number'),
+            refLabel: element.getAttribute('data-ref-label') || ''
           }
         },
       },
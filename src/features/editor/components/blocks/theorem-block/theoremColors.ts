@@ -0,0 +1,86 @@
+import type { TheoremColor } from '@/features/editor/services/theoremService'
+
+interface TheoremColorClasses {
+  card: string
+  badge: string
+  border: string
+  text: string
+  dot: string
+}
+
+// Written out in full so Tailwind keeps every class
+export const THEOREM_COLOR_CLASSES: Record<TheoremColor, TheoremColorClasses> = {
+  primary: {
+    card: 'border-primary/20 bg-primary/5',
+    badge: 'bg-primary/10 text-primary hover:bg-primary/20',
+    border: 'border-primary/30',
+    text: 'text-primary',
+    dot: 'bg-primary',
+  },
+  blue: {
+    card: 'border-blue-500/20 bg-blue-500/5',
+    badge: 'bg-blue-500/10 text-blue-500 hover:bg-blue-500/20',
+    border: 'border-blue-500/30',
+    text: 'text-blue-500',
+    dot: 'bg-blue-500',
+  },
+  amber: {
+    card: 'border-amber-500/20 bg-amber-500/5',
+    badge: 'bg-amber-500/10 text-amber-500 hover:bg-amber-500/20',
+    border: 'border-amber-500/30',
+    text: 'text-amber-500',
+    dot: 'bg-amber-500',
+  },
+  emerald: {
+    card: 'border-emerald-500/20 bg-emerald-500/5',
+    badge: 'bg-emerald-500/10 text-emerald-500 hover:bg-emerald-500/20',
+    border: 'border-emerald-500/30',
+    text: 'text-emerald-500',
+    dot: 'bg-emerald-500',
+  },
+  violet: {
+    card: 'border-violet-500/20 bg-violet-500/5',
+    badge: 'bg-violet-500/10 text-violet-500 hover:bg-violet-500/20',
+    border: 'border-violet-500/30',
+    text: 'text-violet-500',
+    dot: 'bg-violet-500',
+  },
+  cyan: {
+    card: 'border-cyan-500/20 bg-cyan-500/5',
+    badge: 'bg-cyan-500/10 text-cyan-500 hover:bg-cyan-500/20',
+    border: 'border-cyan-500/30',
+    text: 'text-cyan-500',
+    dot: 'bg-cyan-500',
+  },
+  slate: {
+    card: 'border-slate-500/20 bg-slate-500/5',
+    badge: 'bg-slate-500/10 text-slate-500 hover:bg-slate-500/20',
+    border: 'border-slate-500/30',
+    text: 'text-slate-500',
+    dot: 'bg-slate-500',
+  },
+  rose: {
+    card: 'border-rose-500/20 bg-rose-500/5',
+    badge: 'bg-rose-500/10 text-rose-500 hover:bg-rose-500/20',
+    border: 'border-rose-500/30',
+    text: 'text-rose-500',
+    dot: 'bg-rose-500',
+  },
+  orange: {
+    card: 'border-orange-500/20 bg-orange-500/5',
+    badge: 'bg-orange-500/10 text-orange-500 hover:bg-orange-500/20',
+    border: 'border-orange-500/30',
+    text: 'text-orange-500',
+    dot: 'bg-orange-500',
+  },
+  teal: {
+    card: 'border-teal-500/20 bg-teal-500/5',
+    badge: 'bg-teal-500/10 text-teal-500 hover:bg-teal-500/20',
+    border: 'border-teal-500/30',
+    text: 'text-teal-500',
+    dot: 'bg-teal-500',
+  },
+}
+
+export const theoremColorClasses = (color: string): TheoremColorClasses =>
+  THEOREM_COLOR_CLASSES[color as TheoremColor] ?? THEOREM_COLOR_CLASSES.primary
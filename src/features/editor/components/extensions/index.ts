@@ -43,6 +43,12 @@ import {
 import {
   TheoremExtension
 } from '@/features/editor/components/blocks/theorem-block'
+import {
+  MermaidExtension
+} from '@/features/editor/components/blocks/mermaid-block'
+import {
+  RefExtension
+} from '@/features/editor/components/blocks/cross-reference'
 import {
   ConfusionMatrixExtension
 } from '@/features/editor/components/blocks/confusion-matrix'
@@ -138,6 +144,8 @@ export function getEditorExtensions() {
     CitationExtension,
     BibliographyExtension,
     TheoremExtension,
+    RefExtension,
+    MermaidExtension,
     ConfusionMatrixExtension,
     PipelineExtension,
     SubNotaLink,
@@ -206,6 +214,8 @@ export function getViewerExtensions() {
       },
     }),
     TheoremExtension,
+    RefExtension,
+    MermaidExtension,
     ConfusionMatrixExtension,
     PipelineExtension,
     SubNotaLink,
@@ -29,9 +29,11 @@ import {
   SparklesIcon,
   BookIcon,
   FileText,
+  Hash,
 } from 'lucide-vue-next'
 import { toast } from 'vue-sonner'
 import { logger } from '@/services/logger'
+import { getTheoremEnvironments } from '@/features/editor/services/theoremService'
 
 declare module '@tiptap/core' {
   interface EditorEvents {
@@ -412,10 +414,40 @@ function createBasicCommands(): CommandItem[] {
   ];
 }
 
+/**
+ * One command per theorem environment of the nota, built-in or defined in its config
+ */
+function createTheoremCommands(editor: Editor): CommandItem[] {
+  return getTheoremEnvironments(editor).map((environment) => ({
+    title: environment.label,
+    category: 'Math & Academic',
+    icon: FunctionSquare,
+    keywords: [environment.name, 'theorem', 'environment', 'proof', 'math'],
+    description: environment.name === 'theorem'
+      ? 'Structured theorem with proof section'
+      : `${environment.label} environment, like \\begin{${environment.name}}`,
+    command: ({ editor, range }: CommandArgs) => {
+      editor
+        .chain()
+        .focus()
+        .deleteRange(range)
+        .setTheorem({
+          title: '',
+          content: environment.name === 'theorem'
+            ? 'Let $f: \\mathbb{R} \\to \\mathbb{R}$ be a function. Then...'
+            : `Write the ${environment.label.toLowerCase()} here...`,
+          proof: environment.name === 'theorem' ? 'We can prove this by...' : '',
+          type: environment.name,
+        })
+        .run();
+    },
+  }));
+}
+
 /**
  * Creates advanced content commands (images, media, etc.)
  */
-function createAdvancedCommands(): CommandItem[] {
+function createAdvancedCommands(editor: Editor): CommandItem[] {
   return [
     // Math & Academic Content
     {
@@ -435,23 +467,19 @@ function createAdvancedCommands(): CommandItem[] {
           .run();
       },
     },
+    ...createTheoremCommands(editor),
     {
-      title: 'Theorem',
+      title: 'Cross-reference',
       category: 'Math & Academic',
-      icon: FunctionSquare,
-      keywords: ['theorem', 'lemma', 'proposition', 'corollary', 'definition', 'proof', 'math'],
-      description: 'Structured theorem with proof section',
+      icon: Hash,
+      keywords: ['ref', 'reference', 'cross', 'label', 'see', 'eqref'],
+      description: 'Refer to a labelled theorem, figure, table or equation by its number',
       command: ({ editor, range }: CommandArgs) => {
         editor
           .chain()
           .focus()
           .deleteRange(range)
-          .setTheorem({
-            title: '',
-            content: 'Let $f: \\mathbb{R} \\to \\mathbb{R}$ be a function. Then...',
-            proof: 'We can prove this by...',
-            type: 'theorem',
-          })
+          .insertRef()
           .run();
       },
     },
@@ -589,6 +617,7 @@ function createAdvancedCommands(): CommandItem[] {
           .chain()
           .focus()
           .deleteRange(range)
+          .setMermaid()
           .run();
       },
     },
@@ -757,11 +786,11 @@ function createAdvancedCommands(): CommandItem[] {
  * Combines all commands and filters by query
  */
 export default {
-  items: ({ query }: { query: string }) => {
+  items: ({ query, editor }: { query: string; editor: Editor }) => {
     // Combine all commands
     const commands: CommandItem[] = [
       ...createBasicCommands(),
-      ...createAdvancedCommands(),
+      ...createAdvancedCommands(editor),
     ];
 
     // Return all items if no query
@@ -0,0 +1,48 @@
+import { computed, onMounted, onUnmounted, ref } from 'vue'
+import type { Editor } from '@tiptap/core'
+import {
+  getCrossRefIndex,
+  CROSS_REF_LABEL_PATTERN,
+  type CrossRefIndex,
+  type CrossRefTarget,
+} from '@/features/editor/services/crossRefService'
+
+/**
+ * The labelled blocks of an editor's document, kept current as it changes
+ */
+export function useCrossRefIndex(getEditor: () => Editor | null | undefined) {
+  const version = ref(0)
+  const bump = () => version.value++
+
+  onMounted(() => getEditor()?.on('update', bump))
+  onUnmounted(() => getEditor()?.off('update', bump))
+
+  const index = computed<CrossRefIndex | null>(() => {
+    version.value
+    const editor = getEditor()
+    return editor && !editor.isDestroyed ? getCrossRefIndex(editor) : null
+  })
+
+  const targets = computed<CrossRefTarget[]>(() =>
+    [...(index.value?.targets.values() ?? [])].sort((a, b) => a.pos - b.pos),
+  )
+
+  /**
+   * Why a label cannot be given to the block at `pos`, or '' when it can
+   */
+  const validateLabel = (label: string, pos: number | undefined): string => {
+    if (!label) return ''
+    if (!CROSS_REF_LABEL_PATTERN.test(label)) {
+      return 'Start with a letter; use letters, digits and : . _ -'
+    }
+    const target = index.value?.targets.get(label)
+    if (target && target.pos !== pos) return 'Another block already uses this label'
+    return ''
+  }
+
+  return {
+    index,
+    targets,
+    validateLabel,
+  }
+}
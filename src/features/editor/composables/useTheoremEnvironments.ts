@@ -0,0 +1,44 @@
+import { computed } from 'vue'
+import { useRoute } from 'vue-router'
+import { useNotaStore } from '@/features/nota/stores/nota'
+import {
+  customTheoremEnvironments,
+  getTheoremEnvironment,
+  resolveTheoremEnvironments,
+  type TheoremEnvironment,
+} from '@/features/editor/services/theoremService'
+
+/**
+ * The theorem environments of the nota open in the current route: the
+ * built-in ones and those defined in its config
+ */
+export function useTheoremEnvironments() {
+  const route = useRoute()
+  const notaStore = useNotaStore()
+
+  const notaId = computed(() => route.params.id as string | undefined)
+
+  const environments = computed(() =>
+    resolveTheoremEnvironments(notaId.value ? notaStore.getItem(notaId.value)?.config?.theoremEnvironments : undefined),
+  )
+
+  const environmentFor = (name: string) => getTheoremEnvironment(name, environments.value)
+
+  /**
+   * Store the nota's environments, keeping only what differs from the built-ins
+   */
+  const saveEnvironments = async (list: TheoremEnvironment[]) => {
+    if (!notaId.value) return
+    const custom = customTheoremEnvironments(list).map(env => ({ ...env }))
+    await notaStore.updateNotaConfig(notaId.value, config => {
+      config.theoremEnvironments = custom.length > 0 ? custom : undefined
+    })
+  }
+
+  return {
+    notaId,
+    environments,
+    environmentFor,
+    saveEnvironments,
+  }
+}
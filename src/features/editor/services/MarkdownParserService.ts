@@ -1,5 +1,6 @@
 import { logger } from '@/services/logger'
 import type { Block } from '@/features/nota/types/blocks'
+import { BUILTIN_THEOREM_ENVIRONMENTS } from './theoremService'
 
 export interface ParsedBlock {
   type: string
@@ -72,7 +73,7 @@ export class MarkdownParserService {
       // Code blocks
       {
         name: 'codeBlock',
-        pattern: /^```(\w+)?\n([\s\S]*?)\n```$/gm,
+        pattern: /^```(?!(?:mermaid|ai|pipeline|drawio)\s*\n)(\w+)?\n([\s\S]*?)\n```$/gm,
         blockType: 'code',
         attributes: (match) => ({
           language: match[1] || 'text',
@@ -116,19 +117,28 @@ export class MarkdownParserService {
          }
        },
 
-      // Tables
+      // Tables, optionally after the `<!-- nota-table -->` comment that
+      // markdownSerializer writes with the column settings
       {
         name: 'table',
-        pattern: /^(\|.*\|)\n(\|[\s\-:|]+\|)\n((?:\|.*\|\n?)*)$/gm,
+        pattern: /^(?:<!-- nota-table (.*) -->\n)?(\|.*\|)\n(\|[\s\-:|]+\|)\n((?:\|.*\|\n?)*)$/gm,
         blockType: 'table',
         attributes: (match) => {
-          const rows = match[0].split('\n').filter(row => row.trim())
-          const headers = this.parseTableRow(rows[0])
-          const dataRows = rows.slice(2).map(row => this.parseTableRow(row))
-          
+          const headers = this.parseTableRow(match[2])
+          const dataRows = match[4].split('\n').filter(row => row.trim()).map(row => this.parseTableRow(row))
+          const columns = match[1] ? this.parseJsonObject(match[1])?.columns : undefined
+          if (!Array.isArray(columns)) {
+            return { headers, rows: dataRows }
+          }
+
+          // The last row is the aggregates footer, which is computed again
+          if (columns.some(column => column?.aggregate)) {
+            dataRows.pop()
+          }
           return {
             headers,
-            rows: dataRows
+            rows: dataRows,
+            columns
           }
         },
         validate: (block) => {
@@ -206,10 +216,22 @@ export class MarkdownParserService {
 
 
 
-      // Links
+      // Sub-nota links (written with a "subnota" link title on their own line)
+      {
+        name: 'subNotaLink',
+        pattern: /^\[([^\]]+)\]\(\/nota\/([^)\s]+)\s+"subnota"\)$/gm,
+        blockType: 'subNotaLink',
+        attributes: (match) => ({
+          title: match[1],
+          notaId: match[2]
+        }),
+        validate: () => ({ isValid: true, errors: [], warnings: [] })
+      },
+
+      // Links on their own line; page links are kept for inline conversion
       {
         name: 'link',
-        pattern: /\[([^\]]+)\]\(([^)]+)\)/g,
+        pattern: /^\[([^\]]+)\]\((?!\/nota\/)([^)]+)\)$/gm,
         blockType: 'link',
         attributes: (match) => ({
           text: match[1],
@@ -240,7 +262,7 @@ export class MarkdownParserService {
              // Images - support both single and multiple images for subfigure
        {
          name: 'image',
-         pattern: /!\[([^\]]*)\]\(([^)]+)(?:\s+"([^"]+)")?\)/g,
+         pattern: /^!\[(?!youtube\])([^\]]*)\]\(([^)\s]+)(?:\s+"([^"]+)")?\)$/gm,
          blockType: 'image',
          attributes: (match) => ({
            alt: match[1] || '',
@@ -266,10 +288,10 @@ export class MarkdownParserService {
        // Multiple images for subfigure (consecutive image lines)
        {
          name: 'multipleImages',
-         pattern: /(?:!\[([^\]]*)\]\(([^)]+)(?:\s+"([^"]+)")?\)\s*\n?)+/g,
+         pattern: /^(?:!\[(?!youtube\])[^\]]*\]\([^)\s]+(?:\s+"[^"]+")?\)[ \t]*)+$/gm,
          blockType: 'multipleImages',
          attributes: (match) => {
-           const imageMatches = match[0].matchAll(/!\[([^\]]*)\]\(([^)]+)(?:\s+"([^"]+)")?\)/g)
+           const imageMatches = match[0].matchAll(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"([^"]+)")?\)/g)
            const images: Array<{alt: string; src: string; title: string}> = []
            for (const imgMatch of imageMatches) {
              images.push({
@@ -352,7 +374,7 @@ export class MarkdownParserService {
              // Citations
        {
          name: 'citation',
-         pattern: /@([a-zA-Z0-9_-]+)/g,
+         pattern: /^@([a-zA-Z0-9_-]+)$/gm,
          blockType: 'citation',
          attributes: (match) => ({
            citationKey: match[1]
@@ -369,10 +391,23 @@ export class MarkdownParserService {
          }
        },
 
+       // Reference list: the pandoc refs div written for a bibliography block.
+       // The list inside is generated from the nota's citations, so only the
+       // div's attributes are kept.
+       {
+         name: 'referenceList',
+         pattern: /^::: \{#refs([^}\n]*)\}\n(?:[\s\S]*?\n)?:::$/gm,
+         blockType: 'bibliography',
+         attributes: (match) => Object.fromEntries(
+           [...match[1].matchAll(/(\w+)="([^"]*)"/g)].map(([, name, value]) => [name, value])
+         ),
+         validate: () => ({ isValid: true, errors: [], warnings: [] })
+       },
+
        // Bibliography (multiple citations together)
        {
          name: 'bibliography',
-         pattern: /(?:@([a-zA-Z0-9_-]+)\s*)+/g,
+         pattern: /^(?:@[a-zA-Z0-9_-]+[ \t]*)+$/gm,
          blockType: 'bibliography',
          attributes: (match) => {
            const citationMatches = match[0].matchAll(/@([a-zA-Z0-9_-]+)/g)
@@ -404,6 +439,7 @@ export class MarkdownParserService {
          pattern: /^!\[youtube\]\(([^)]+)\)$/gm,
          blockType: 'youtube',
          attributes: (match) => ({
+           url: match[1],
            videoId: this.extractYouTubeId(match[1])
          }),
          validate: (block) => {
@@ -421,11 +457,13 @@ export class MarkdownParserService {
        // Theorem blocks
        {
          name: 'theorem',
-         pattern: /^\\begin\{theorem\}(?:\[([^\]]+)\])?\s*\n([\s\S]*?)\n\\end\{theorem\}$/gm,
+         pattern: this.theoremPattern(),
          blockType: 'theorem',
          attributes: (match) => ({
-           title: match[1] || 'Theorem',
-           content: match[2].trim()
+           type: match[1],
+           title: match[2] || '',
+           content: match[3].trim(),
+           proof: match[4]?.trim() || ''
          }),
          validate: (block) => {
            const errors: string[] = []
@@ -466,16 +504,20 @@ export class MarkdownParserService {
          name: 'confusionMatrix',
          pattern: /^```confusion-matrix\s*\n([\s\S]*?)\n```$/gm,
          blockType: 'confusionMatrix',
-         attributes: (match) => ({
-           matrixData: match[1].trim(),
-           title: 'Confusion Matrix',
-           source: 'markdown'
-         }),
+         // Exported matrices are their node attributes as JSON
+         attributes: (match) => {
+           const attributes = this.parseJsonObject(match[1])
+           return attributes ?? {
+             matrixData: match[1].trim(),
+             title: 'Confusion Matrix',
+             source: 'markdown'
+           }
+         },
          validate: (block) => {
            const errors: string[] = []
            const warnings: string[] = []
            
-           if (!block.attributes.matrixData) {
+           if (!block.attributes.matrixData && !block.attributes.data) {
              errors.push('Confusion matrix data cannot be empty')
            }
            
@@ -488,17 +530,21 @@ export class MarkdownParserService {
          name: 'pipeline',
          pattern: /^```pipeline\s*\n([\s\S]*?)\n```$/gm,
          blockType: 'pipeline',
-         attributes: (match) => ({
-           description: match[1].trim(),
-           title: 'Pipeline',
-           nodes: [],
-           edges: []
-         }),
+         // Exported pipelines are their node attributes as JSON
+         attributes: (match) => {
+           const attributes = this.parseJsonObject(match[1])
+           return attributes ?? {
+             description: match[1].trim(),
+             title: 'Pipeline',
+             nodes: [],
+             edges: []
+           }
+         },
          validate: (block) => {
            const errors: string[] = []
            const warnings: string[] = []
            
-           if (!block.attributes.description) {
+           if (!block.attributes.description && !block.attributes.nodes?.length) {
              errors.push('Pipeline description cannot be empty')
            }
            
@@ -532,9 +578,9 @@ export class MarkdownParserService {
 
   private parseTableRow(row: string): string[] {
     return row
-      .split('|')
+      .split(/(?<!\\)\|/) // Escaped pipes belong to the cell
       .slice(1, -1) // Remove first and last empty cells
-      .map(cell => cell.trim())
+      .map(cell => cell.trim().replace(/\\\|/g, '|'))
   }
 
   private parseOptions(optionsString: string): Record<string, any> {
@@ -567,6 +613,22 @@ export class MarkdownParserService {
     return ''
   }
 
+  // Theorem environments: the built-in ones and the names front matter declares
+  private theoremPattern(declared: string[] = []): RegExp {
+    const names = new Set([...BUILTIN_THEOREM_ENVIRONMENTS.map(env => env.name), ...declared])
+    return new RegExp(String.raw`^\\begin\{(${[...names].join('|')})\}(?:\[([^\]]+)\])?\s*\n([\s\S]*?)\n\\end\{\1\}(?:\n\\begin\{proof\}\s*\n([\s\S]*?)\n\\end\{proof\})?$`, 'gm')
+  }
+
+  // A JSON object, or null when the text is not one
+  private parseJsonObject(text: string): Record<string, any> | null {
+    try {
+      const value = JSON.parse(text)
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null
+    } catch {
+      return null
+    }
+  }
+
   private generateId(): string {
     return Math.random().toString(36).substring(2) + Date.now().toString(36)
   }
@@ -681,6 +743,11 @@ export class MarkdownParserService {
    * Parse markdown content and extract all blocks
    */
   parseMarkdown(content: string): ParsingResult {
+    // Front matter, such as the theorem declarations of exported markdown, is not content
+    const frontMatter = content.match(/^---\n[\w-]+:[\s\S]*?\n---\n+/)?.[0] || ''
+    content = content.slice(frontMatter.length)
+    // Environments it declares with \newtheorem are theorem blocks too
+    const declared = [...frontMatter.matchAll(/\\newtheorem\*?\{([A-Za-z]+)\}/g)].map(match => match[1])
     const lines = content.split('\n')
     const blocks: ParsedBlock[] = []
     const errors: string[] = []
@@ -689,7 +756,8 @@ export class MarkdownParserService {
     try {
       // Process each block pattern
       for (const pattern of this.blockPatterns) {
-        const matches = content.matchAll(pattern.pattern)
+        const regex = pattern.name === 'theorem' && declared.length ? this.theoremPattern(declared) : pattern.pattern
+        const matches = content.matchAll(regex)
         
         for (const match of matches) {
           try {
@@ -788,9 +856,10 @@ export class MarkdownParserService {
   }
 
   /**
-   * Convert text content that may contain inline math to Tiptap format
+   * Convert text content that may contain inline math to Tiptap format.
+   * Paragraphs are separated by blank lines.
    */
-  private convertTextWithInlineMath(content: string): any {
+  private convertTextWithInlineMath(content: string): any[] {
     // Ensure content is a valid string and not empty
     const sanitizedContent = content && typeof content === 'string' ? content.trim() : ''
     
@@ -799,21 +868,47 @@ export class MarkdownParserService {
     if (!sanitizedContent) {
       // Return empty paragraph if no content
       logger.info('Empty content, returning empty paragraph')
-      return {
+      return [{
         type: 'paragraph',
         content: [{ type: 'text', text: ' ' }]
-      }
+      }]
     }
     
-    // For now, just return a simple paragraph with the text content
-    // Tiptap will handle inline math rendering naturally when the content is inserted
-    const result = {
+    // Inline markdown and $math$ stay as text; the editor renders them in place
+    return sanitizedContent.split(/\n[ \t]*\n+/).map(paragraph => ({
       type: 'paragraph',
-      content: [{ type: 'text', text: sanitizedContent }]
+      content: this.convertInline(paragraph.trim())
+    }))
+  }
+
+  /**
+   * Convert `[@key]` citations, `[title](/nota/id)` page links and
+   * `\ref{label}` or `\eqref{label}` cross-references to their inline nodes
+   */
+  private convertInline(text: string): any[] {
+    const nodes: any[] = []
+    const pattern = /\[@([a-zA-Z0-9_-]+)\]|\[([^\]]+)\]\((\/nota\/[^)\s]+)\)|\\(ref|eqref)\{([^}\s]+)\}/g
+    let lastIndex = 0
+
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index || 0
+      if (index > lastIndex) {
+        nodes.push({ type: 'text', text: text.slice(lastIndex, index) })
+      }
+      if (match[1]) {
+        nodes.push({ type: 'citation', attrs: { citationKey: match[1] } })
+      } else if (match[4]) {
+        nodes.push({ type: 'ref', attrs: { label: match[5], form: match[4] === 'eqref' ? 'number' : 'full' } })
+      } else {
+        nodes.push({ type: 'pageLink', attrs: { href: match[3], title: match[2] } })
+      }
+      lastIndex = index + match[0].length
     }
-    
-    logger.info('Generated paragraph:', result)
-    return result
+
+    if (lastIndex < text.length) {
+      nodes.push({ type: 'text', text: text.slice(lastIndex) })
+    }
+    return nodes
   }
 
   /**
@@ -821,14 +916,14 @@ export class MarkdownParserService {
    */
   convertToTiptap(blocks: ParsedBlock[]): any[] {
     logger.info('Converting blocks to Tiptap format:', blocks.length)
-    return blocks.map(block => {
+    return blocks.flatMap(block => {
       logger.info('Converting block:', block.type, block.attributes)
       switch (block.type) {
                           case 'heading':
            return {
              type: 'heading',
              attrs: { level: block.attributes.level },
-             content: [{ type: 'text', text: block.attributes.content }]
+             content: this.convertInline(block.attributes.content)
            }
         
          case 'text':
@@ -852,36 +947,46 @@ export class MarkdownParserService {
             }
           }
         
-        case 'table':
-          // Use the custom notaTable extension
+        case 'table': {
+          // Use the custom notaTable extension; cells are keyed by column id
+          const settings: Record<string, any>[] = block.attributes.columns || []
+          const columns = block.attributes.headers.map((header: string, index: number) => {
+            const { type = 'text', options, formula, aggregate } = settings[index] || {}
+            return {
+              id: this.generateId(),
+              title: header,
+              type,
+              ...(options && { options }),
+              ...(formula && { formula }),
+              ...(aggregate && { aggregate })
+            }
+          })
           return {
             type: 'notaTable',
             attrs: {
               tableData: {
                 id: this.generateId(),
                 name: 'Markdown Table',
-                columns: block.attributes.headers.map((header: string) => ({
-                  id: this.generateId(),
-                  title: header,
-                  type: 'text'
-                })),
+                columns,
                 rows: block.attributes.rows.map((row: string[]) => ({
                   id: this.generateId(),
+                  // Formula cells hold their computed values, so they are not kept
                   cells: Object.fromEntries(
-                    block.attributes.headers.map((header: string, index: number) => [
-                      header,
-                      row[index] || ''
-                    ])
+                    columns
+                      .map((column: { id: string; type: string }, index: number) => [column, row[index] || ''] as const)
+                      .filter(([column]) => column.type !== 'formula')
+                      .map(([column, value]) => [column.id, value])
                   )
                 }))
               }
             }
           }
+        }
         
         case 'quote':
           return {
             type: 'blockquote',
-            content: [{ type: 'paragraph', content: [{ type: 'text', text: block.attributes.content }] }]
+            content: this.convertTextWithInlineMath(block.attributes.content)
           }
         
         case 'list':
@@ -889,13 +994,22 @@ export class MarkdownParserService {
             type: block.attributes.listType === 'ordered' ? 'orderedList' : 'bulletList',
             content: block.attributes.items.map((item: string) => ({
               type: 'listItem',
-              content: [{ type: 'paragraph', content: [{ type: 'text', text: item }] }]
+              content: [{ type: 'paragraph', content: this.convertInline(item) }]
             }))
           }
         
         case 'horizontalRule':
           return { type: 'horizontalRule' }
         
+        case 'subNotaLink':
+          return {
+            type: 'subNotaLink',
+            attrs: {
+              targetNotaId: block.attributes.notaId,
+              targetNotaTitle: block.attributes.title
+            }
+          }
+        
         case 'link':
           return {
             type: 'paragraph',
@@ -911,10 +1025,9 @@ export class MarkdownParserService {
           return {
             type: 'subfigure',
             attrs: { 
-              images: [{
+              subfigures: [{
                 src: block.attributes.src,
-                alt: block.attributes.alt,
-                title: block.attributes.title
+                caption: block.attributes.alt
               }],
               layout: 'horizontal'
             }
@@ -925,7 +1038,10 @@ export class MarkdownParserService {
           return {
             type: 'subfigure',
             attrs: { 
-              images: block.attributes.images,
+              subfigures: block.attributes.images.map((image: { src: string; alt: string }) => ({
+                src: image.src,
+                caption: image.alt
+              })),
               layout: 'horizontal'
             }
           }
@@ -951,28 +1067,29 @@ export class MarkdownParserService {
           }
         
         case 'citation':
+          // Citations are inline nodes, so they need a paragraph around them
           return {
-            type: 'citation',
-            attrs: { 
-              citationKey: block.attributes.citationKey,
-              citationData: {}
-            }
+            type: 'paragraph',
+            content: [{
+              type: 'citation',
+              attrs: { 
+                citationKey: block.attributes.citationKey
+              }
+            }]
           }
         
         case 'bibliography':
           return {
             type: 'bibliography',
-            attrs: { 
-              citations: block.attributes.citations
-            }
+            attrs: { ...block.attributes }
           }
         
         case 'youtube':
           return {
             type: 'youtube',
             attrs: { 
-              videoId: block.attributes.videoId,
-              title: ''
+              url: block.attributes.url,
+              videoId: block.attributes.videoId
             }
           }
         
@@ -980,10 +1097,10 @@ export class MarkdownParserService {
           return {
             type: 'theorem',
             attrs: { 
+              type: block.attributes.type,
               title: block.attributes.title,
               content: block.attributes.content,
-              theoremType: 'theorem',
-              tags: []
+              proof: block.attributes.proof
             }
           }
         
@@ -1001,22 +1118,13 @@ export class MarkdownParserService {
         case 'confusionMatrix':
           return {
             type: 'confusionMatrix',
-            attrs: { 
-              matrixData: block.attributes.matrixData,
-              title: block.attributes.title,
-              source: block.attributes.source
-            }
+            attrs: { ...block.attributes }
           }
         
         case 'pipeline':
           return {
             type: 'pipeline',
-            attrs: { 
-              title: block.attributes.title,
-              description: block.attributes.description,
-              nodes: block.attributes.nodes,
-              edges: block.attributes.edges
-            }
+            attrs: { ...block.attributes }
           }
         
         case 'drawio':
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { updateCitationNumbers, getOrderedCitationKeys } from '../citationService'
+import { updateCitationNumbers, getOrderedCitationKeys, getDocumentCitationStyle } from '../citationService'
 
 describe('citationService', () => {
     describe('updateCitationNumbers', () => {
@@ -64,6 +64,41 @@ describe('citationService', () => {
             expect(tr.setNodeMarkup).toHaveBeenCalledWith(5, undefined, expect.objectContaining({ citationNumber: 1 }))
             expect(tr.setNodeMarkup).toHaveBeenCalledWith(20, undefined, expect.objectContaining({ citationNumber: 2 }))
         })
+
+        it('should give repeated citations of a reference the same number', () => {
+            const tr = { setNodeMarkup: vi.fn() }
+            const mockEditor = {
+                state: {
+                    doc: {
+                        descendants: (callback: any) => {
+                            callback({ type: { name: 'citation' }, attrs: { citationKey: 'ref-a', citationNumber: null } }, 0)
+                            callback({ type: { name: 'citation' }, attrs: { citationKey: 'ref-b', citationNumber: null } }, 10)
+                            callback({ type: { name: 'citation' }, attrs: { citationKey: 'ref-a', citationNumber: 3 } }, 20)
+                        }
+                    }
+                },
+                commands: { command: (fn: any) => fn({ tr }) }
+            }
+
+            updateCitationNumbers(mockEditor as any)
+
+            expect(tr.setNodeMarkup).toHaveBeenCalledWith(10, undefined, expect.objectContaining({ citationNumber: 2 }))
+            expect(tr.setNodeMarkup).toHaveBeenCalledWith(20, undefined, expect.objectContaining({ citationNumber: 1 }))
+        })
+    })
+
+    describe('getDocumentCitationStyle', () => {
+        it('should use the bibliography style and keep numbers without a bibliography', () => {
+            const editorWith = (nodes: any[]) => ({
+                state: { doc: { descendants: (callback: any) => { nodes.some((node, pos) => callback(node, pos) === false) } } }
+            })
+
+            expect(getDocumentCitationStyle(editorWith([
+                { type: { name: 'paragraph' }, attrs: {} },
+                { type: { name: 'bibliography' }, attrs: { style: 'harvard', styleXml: null } }
+            ]) as any)).toEqual({ id: 'harvard', xml: null })
+            expect(getDocumentCitationStyle(editorWith([]) as any)).toEqual({ id: 'ieee', xml: null })
+        })
     })
 
     describe('getOrderedCitationKeys', () => {
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import { Schema, type Node as ProseMirrorNode } from '@tiptap/pm/model'
+import { EditorState } from '@tiptap/pm/state'
+import {
+    buildCrossRefIndex,
+    formatCrossRef,
+    subfigureLetter,
+    updateCrossReferences,
+} from '../crossRefService'
+import { resolveTheoremEnvironments } from '../theoremService'
+
+const blockAttrs = { refLabel: { default: '' }, refNumber: { default: null } }
+
+const schema = new Schema({
+    nodes: {
+        doc: { content: 'block+' },
+        text: { group: 'inline' },
+        paragraph: { group: 'block', content: 'inline*' },
+        heading: { group: 'block', content: 'inline*', attrs: { level: { default: 1 } } },
+        theorem: { group: 'block', attrs: { type: { default: 'theorem' }, number: { default: null }, refLabel: { default: '' } } },
+        math: { group: 'block', attrs: { latex: { default: '' }, ...blockAttrs } },
+        subfigure: { group: 'block', attrs: { subfigures: { default: [] }, ...blockAttrs } },
+        notaTable: { group: 'block', attrs: blockAttrs },
+        ref: {
+            group: 'inline',
+            inline: true,
+            attrs: { label: { default: '' }, form: { default: 'full' }, text: { default: '??' }, missing: { default: false } },
+        },
+    },
+})
+
+const p = (...content: ProseMirrorNode[]) => schema.nodes.paragraph.create(null, content)
+const h = (level: number, text: string) => schema.nodes.heading.create({ level }, schema.text(text))
+const thm = (refLabel = '', type = 'theorem') => schema.nodes.theorem.create({ type, refLabel })
+const eq = (refLabel = '') => schema.nodes.math.create({ refLabel })
+const table = (refLabel = '') => schema.nodes.notaTable.create({ refLabel })
+const ref = (label: string, form = 'full') => schema.nodes.ref.create({ label, form })
+const doc = (...content: ProseMirrorNode[]) => schema.nodes.doc.create(null, content)
+
+// Just enough of an editor for updateCrossReferences
+const createEditor = (document: ProseMirrorNode) => {
+    const editor = {
+        isDestroyed: false,
+        storage: { ref: { numbering: 'document' } },
+        state: EditorState.create({ schema, doc: document }),
+        view: {
+            dispatch: (tr: any) => {
+                editor.state = editor.state.apply(tr)
+            },
+        },
+    }
+    return editor
+}
+
+const refTexts = (document: ProseMirrorNode) => {
+    const texts: string[] = []
+    document.descendants(node => {
+        if (node.type.name === 'ref') texts.push(node.attrs.missing ? `missing:${node.attrs.text}` : node.attrs.text)
+    })
+    return texts
+}
+
+describe('crossRefService', () => {
+    it('numbers each kind with its own counter and only labelled tables', () => {
+        const index = buildCrossRefIndex(doc(
+            thm('thm:a'),
+            eq('eq:a'),
+            thm('lem:a', 'lemma'),
+            table(),
+            table('tab:a'),
+            thm('thm:b'),
+        ))
+
+        expect(index.targets.get('thm:a')?.number).toBe('1')
+        expect(index.targets.get('lem:a')?.number).toBe('1')
+        expect(index.targets.get('thm:b')?.number).toBe('2')
+        expect(index.targets.get('tab:a')?.number).toBe('1')
+        expect(formatCrossRef(index.targets.get('eq:a')!)).toBe('Equation (1)')
+        expect(formatCrossRef(index.targets.get('lem:a')!, 'number')).toBe('1')
+    })
+
+    it('numbers environments sharing a counter together and names them by their label', () => {
+        const environments = resolveTheoremEnvironments([
+            { name: 'lemma', label: 'Lemma', style: 'plain', color: 'blue', counter: 'theorem', prefix: 'lem:' },
+            { name: 'claim', label: 'Claim', style: 'plain', color: 'rose', counter: 'lemma', prefix: 'clm:' },
+        ])
+        const index = buildCrossRefIndex(doc(
+            thm('thm:a'),
+            thm('lem:a', 'lemma'),
+            thm('clm:a', 'claim'),
+            thm('rem:a', 'remark'),
+            thm('ax:a', 'axiom'),
+        ), 'document', environments)
+
+        expect(index.targets.get('lem:a')?.number).toBe('2')
+        expect(formatCrossRef(index.targets.get('clm:a')!)).toBe('Claim 3')
+        expect(formatCrossRef(index.targets.get('rem:a')!)).toBe('Remark 1')
+        // Blocks of an environment the nota no longer defines keep their own counter
+        expect(formatCrossRef(index.targets.get('ax:a')!)).toBe('Axiom 1')
+    })
+
+    it('restarts numbering in each top-level section', () => {
+        const index = buildCrossRefIndex(doc(
+            thm('thm:intro'),
+            h(2, 'Background'),
+            thm('thm:a'),
+            h(3, 'Details'),
+            thm('thm:b'),
+            h(2, 'Results'),
+            thm('thm:c'),
+        ), 'section')
+
+        expect(index.targets.get('thm:intro')?.number).toBe('1')
+        expect(index.targets.get('thm:a')?.number).toBe('1.1')
+        expect(index.targets.get('thm:b')?.number).toBe('1.2')
+        expect(index.targets.get('thm:c')?.number).toBe('2.1')
+    })
+
+    it('letters labelled subfigures after their figure and reports duplicate labels', () => {
+        const figure = schema.nodes.subfigure.create({
+            refLabel: 'fig:main',
+            subfigures: [{ src: 'a.png', refLabel: 'fig:left' }, { src: 'b.png' }, { src: 'c.png', refLabel: 'fig:right' }],
+        })
+        const index = buildCrossRefIndex(doc(schema.nodes.subfigure.create(), figure, thm('fig:main')))
+
+        expect(index.targets.get('fig:main')?.number).toBe('2')
+        expect(index.targets.get('fig:left')?.number).toBe('2a')
+        expect(index.targets.get('fig:right')?.number).toBe('2c')
+        expect(index.duplicates.has('fig:main')).toBe(true)
+        expect(subfigureLetter(27)).toBe('ab')
+    })
+
+    it('renumbers references after reordering and marks them missing after deletion', () => {
+        const editor = createEditor(doc(
+            thm('thm:a'),
+            thm('thm:b'),
+            p(schema.text('See '), ref('thm:b'), schema.text(' and '), ref('thm:a', 'number')),
+        ))
+
+        updateCrossReferences(editor as any)
+        expect(refTexts(editor.state.doc)).toEqual(['Theorem 2', '1'])
+        expect(editor.state.doc.firstChild?.attrs.number).toBe('1')
+
+        // Move thm:b in front of thm:a
+        const first = editor.state.doc.child(0)
+        editor.view.dispatch(editor.state.tr.delete(0, first.nodeSize).insert(first.nodeSize, first))
+        updateCrossReferences(editor as any)
+        expect(refTexts(editor.state.doc)).toEqual(['Theorem 1', '2'])
+
+        // Delete thm:b
+        editor.view.dispatch(editor.state.tr.delete(0, editor.state.doc.child(0).nodeSize))
+        updateCrossReferences(editor as any)
+        expect(refTexts(editor.state.doc)).toEqual(['missing:??', '1'])
+    })
+})
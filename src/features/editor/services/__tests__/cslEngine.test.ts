@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { CitationProcessor, CslStyle, loadCitationStyle, parseCustomStyle, parseName, toCslItem } from '../csl'
+
+const entry = (key: string, fields: Record<string, any>) =>
+    ({ id: key, key, title: '', authors: [], year: '', createdAt: '', ...fields }) as any
+
+const doe = entry('doe2023', {
+    title: 'Test citation of things',
+    authors: ['John Ronald Doe', 'Bob Smith'],
+    year: '2023',
+    journal: 'Journal of Tests',
+    volume: '3',
+    number: '2',
+    pages: '10-20',
+    doi: '10.1000/xyz'
+})
+const lee = entry('lee2020', { title: 'A book about data', authors: ['Lee, Ann'], year: '2020', publisher: 'Data Press' })
+
+const processor = (style: string, entries: any[], cited: string[] = []) =>
+    new CitationProcessor(loadCitationStyle(style), entries.map(toCslItem), cited)
+
+describe('CSL citation engine', () => {
+    it('parses stored author names into CSL names', () => {
+        expect(parseName('Ada Lovelace')).toEqual({ given: 'Ada', family: 'Lovelace' })
+        expect(parseName('Lovelace, Ada King')).toEqual({ family: 'Lovelace', given: 'Ada King' })
+        expect(parseName('Vincent van Gogh')).toMatchObject({ given: 'Vincent', family: 'Gogh', 'non-dropping-particle': 'van' })
+        expect(parseName('{World Health Organization}')).toEqual({ literal: 'World Health Organization' })
+    })
+
+    it('renders numeric styles in citation order', () => {
+        const ieee = processor('ieee', [doe, lee], ['lee2020', 'doe2023'])
+
+        expect(ieee.citation('lee2020', 'text')).toBe('[1]')
+        expect(ieee.citation('doe2023', 'text')).toBe('[2]')
+        expect(ieee.bibliography().map(e => e.text)).toEqual([
+            '[1] A. Lee, A book about data. Data Press, 2020.',
+            '[2] J. R. Doe and B. Smith, “Test citation of things,” Journal of Tests, vol. 3, no. 2, pp. 10–20, 2023, doi: 10.1000/xyz.'
+        ])
+        expect(ieee.bibliography()[1].html).toContain('<i>Journal of Tests</i>')
+
+        expect(processor('nature', [doe], ['doe2023']).citation('doe2023')).toBe('<sup>1</sup>')
+        expect(processor('vancouver', [doe], ['doe2023']).bibliography()[0].text)
+            .toBe('1. Doe JR, Smith B. Test citation of things. Journal of Tests. 2023;3(2):10–20. doi:10.1000/xyz')
+    })
+
+    it('numbers sorted numeric styles in bibliography order', () => {
+        const acm = processor('acm', [lee, doe], ['lee2020', 'doe2023'])
+
+        expect(acm.citation('doe2023', 'text')).toBe('[1]')
+        expect(acm.citation('lee2020', 'text')).toBe('[2]')
+        expect(acm.bibliography()[1].text).toBe('[2] Ann Lee. 2020. A book about data. Data Press.')
+    })
+
+    it('renders author-date styles and tells apart same-author years', () => {
+        const doeLater = entry('doe2023b', { ...doe, key: 'doe2023b', title: 'A follow-up' })
+        const apa = processor('apa', [doe, doeLater, lee], ['doe2023', 'doe2023b'])
+
+        expect(apa.citation('lee2020', 'text')).toBe('(Lee, 2020)')
+        expect(apa.citation('doe2023', 'text')).toBe('(Doe & Smith, 2023b)')
+        expect(apa.citation('doe2023b', 'text')).toBe('(Doe & Smith, 2023a)')
+        expect(apa.bibliography().map(e => e.text)).toEqual([
+            'Doe, J. R., & Smith, B. (2023a). A follow-up. Journal of Tests, 3(2), 10–20. https://doi.org/10.1000/xyz',
+            'Doe, J. R., & Smith, B. (2023b). Test citation of things. Journal of Tests, 3(2), 10–20. https://doi.org/10.1000/xyz',
+            'Lee, A. (2020). A book about data. Data Press.'
+        ])
+
+        const harvard = processor('harvard', [doe], ['doe2023'])
+        expect(harvard.bibliography()[0].text).toBe(
+            'Doe, J.R. and Smith, B. (2023) ‘Test citation of things’, Journal of Tests, 3(2), pp. 10–20. Available at: https://doi.org/10.1000/xyz.'
+        )
+        expect(processor('chicago', [doe]).bibliography()[0].text).toBe(
+            'Doe, John Ronald, and Bob Smith. 2023. “Test Citation of Things.” Journal of Tests 3 (2): 10–20. https://doi.org/10.1000/xyz.'
+        )
+    })
+
+    it('substitutes the title for missing authors without repeating it', () => {
+        const anonymous = entry('anon', { title: 'Style guide', url: 'https://example.com' })
+        const apa = processor('apa', [anonymous], ['anon'])
+
+        expect(apa.citation('anon', 'text')).toBe('(Style guide, n.d.)')
+        expect(apa.bibliography()[0].text).toBe('Style guide. (n.d.). https://example.com')
+    })
+
+    it('loads user-supplied styles and rejects files that are not styles', () => {
+        const xml = `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>Key Style</title><id>http://example.org/styles/key-style</id></info>
+  <citation><layout prefix="&lt;" suffix="&gt;"><text variable="citation-key" text-case="uppercase"/></layout></citation>
+  <bibliography><layout><text variable="title" font-weight="bold"/></layout></bibliography>
+</style>`
+        const custom = parseCustomStyle(xml)
+        expect(custom).toMatchObject({ id: 'custom:key-style', title: 'Key Style' })
+
+        const keyStyle = new CitationProcessor(loadCitationStyle(custom.id, custom.xml), [toCslItem(doe)])
+        expect(keyStyle.citation('doe2023')).toBe('&lt;DOE2023&gt;')
+        expect(keyStyle.bibliography()[0].html).toBe('<b>Test citation of things</b>')
+
+        expect(() => CslStyle.parse('<style><info><title>Child</title></info></style>')).toThrow(/no citation layout/)
+        expect(() => CslStyle.parse('not xml')).toThrow()
+        // A broken custom style falls back to the default instead of breaking the document
+        expect(loadCitationStyle('custom:broken', '<nope').title).toBe('APA 7th edition')
+    })
+})
@@ -20,6 +20,13 @@ vi.mock('file-saver', () => ({
     saveAs: vi.fn()
 }))
 
+vi.mock('../mermaidService', () => ({
+    resolveMermaidTheme: () => 'default',
+    renderMermaid: vi.fn(async (source: string) => source.includes('-->')
+        ? { svg: `<svg class="diagram">${source}</svg>`, error: null }
+        : { svg: null, error: { message: 'Parse error', line: 1 } })
+}))
+
 vi.mock('katex', () => ({
     default: {
         renderToString: vi.fn((latex) => `<span class="katex">${latex}</span>`)
@@ -132,8 +139,9 @@ vi.mock('@/features/editor/components/extensions', async () => {
                 name: 'mermaid',
                 group: 'block',
                 atom: true,
-                renderHTML() {
-                    return ['div', { 'data-type': 'mermaid' }]
+                addAttributes() { return { content: { default: '' }, title: { default: null } } },
+                renderHTML({ node }) {
+                    return ['div', { 'data-type': 'mermaid', 'data-content': node.attrs.content, 'data-title': node.attrs.title }]
                 }
             }),
             Node.create({
@@ -273,19 +281,23 @@ describe('Export Service', () => {
         expect(indexHtmlCall[1]).not.toContain('data-type="youtube"') // Should replace the div
     })
 
-    it('should generate mermaid placeholder', async () => {
+    it('should render mermaid diagrams as inline SVG', async () => {
         const content = {
             type: 'doc',
             content: [
-                { type: 'mermaid', attrs: {} }
+                { type: 'mermaid', attrs: { content: 'flowchart LR\nA --> B', title: 'Flow' } },
+                { type: 'mermaid', attrs: { content: 'flowchart LR\nA ->' } }
             ]
         }
 
         await exportNotaToHtml({ title: 'Mermaid Doc', content, fetchNota: vi.fn() as any })
 
         const indexHtmlCall = zipMock.file.mock.calls.find((c: any) => c[0] === 'index.html')
-        expect(indexHtmlCall[1]).toContain('class="mermaid-placeholder"')
-        expect(indexHtmlCall[1]).toContain('Interactive Only')
+        expect(indexHtmlCall[1]).toContain('<svg class="diagram">')
+        expect(indexHtmlCall[1]).toContain('<figcaption>Flow</figcaption>')
+        // A diagram that does not parse keeps its source
+        expect(indexHtmlCall[1]).toContain('<pre class="mermaid-source">flowchart LR\nA -&gt;</pre>')
+        expect(indexHtmlCall[1]).not.toContain('data-type="mermaid"')
     })
 
     it('should transform theorem and math blocks correctly', async () => {
@@ -77,4 +77,22 @@ describe('exportService', () => {
         expect(html).toContain('document.body.addEventListener(\'mouseover\',')
         expect(html).toContain('document.body.addEventListener(\'mouseout\',')
     })
+
+    it('should anchor labelled blocks and keep their numbers', async () => {
+        ; (generateHTML as any).mockReturnValue(`
+      <div data-type-theorem data-theorem-type="lemma" data-title="Key" data-number="2" data-ref-label="lem:key"></div>
+      <div data-type="math" class="math-block" data-latex="x^2" data-ref-label="eq:sq" data-ref-number="3"></div>
+      <p>By <a data-type="ref" class="cross-ref" href="#ref-lem:key">Lemma 2</a></p>
+    `)
+
+        await exportNotaToHtml({ title: 'Refs', content: { type: 'doc', content: [] }, citations: [] })
+
+        const html = mockZipFile.mock.calls.find(call => call[0] === 'index.html')![1]
+        expect(html).toContain('id="ref-lem:key"')
+        expect(html).toContain('id="ref-eq:sq"')
+        expect(html.match(/id="ref-eq:sq"/g)).toHaveLength(1)
+        expect(html).toContain('Lemma 2: Key')
+        expect(html).toContain('<span class="equation-number">(3)</span>')
+        expect(html).toContain('href="#ref-lem:key">Lemma 2</a>')
+    })
 })
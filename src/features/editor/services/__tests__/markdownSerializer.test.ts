@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest'
+import { serializeMarkdown } from '../export/markdownSerializer'
+import { markdownParserService } from '../MarkdownParserService'
+
+vi.mock('@/services/logger', () => ({
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+const parse = (markdown: string) => {
+    const { blocks } = markdownParserService.parseMarkdown(markdown)
+    return { type: 'doc', content: markdownParserService.convertToTiptap(blocks) }
+}
+
+const doc = {
+    type: 'doc',
+    content: [
+        { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: 'Results' }] },
+        {
+            type: 'paragraph',
+            content: [
+                { type: 'text', text: 'As shown in ' },
+                { type: 'citation', attrs: { citationKey: 'smith2020' } },
+                { type: 'text', text: ', see ' },
+                { type: 'pageLink', attrs: { href: '/nota/abc123', title: 'Methods' } },
+                { type: 'text', text: ' and $x^2$.' },
+            ],
+        },
+        { type: 'math', attrs: { latex: '\\int_0^1 f(x)\\,dx' } },
+        {
+            type: 'executableCodeBlock',
+            attrs: { language: 'python' },
+            content: [{ type: 'text', text: '# fit\nmodel.fit(x, y)' }],
+        },
+        {
+            type: 'theorem',
+            attrs: { type: 'lemma', title: 'Bound', content: 'For all $x$, $f(x) < 1$.', proof: 'Direct.' },
+        },
+        {
+            type: 'subfigure',
+            attrs: { subfigures: [{ src: 'a.png', caption: 'A' }, { src: 'b.png', caption: 'B' }] },
+        },
+        {
+            type: 'notaTable',
+            attrs: {
+                tableData: {
+                    id: 't1',
+                    name: 'Scores',
+                    columns: [
+                        { id: 'c1', title: 'Model', type: 'text' },
+                        { id: 'c2', title: 'F1', type: 'number' },
+                    ],
+                    rows: [{ id: 'r1', cells: { c1: 'a|b', c2: 0.9 } }],
+                },
+            },
+        },
+        { type: 'youtube', attrs: { url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', videoId: 'dQw4w9WgXcQ' } },
+        { type: 'subNotaLink', attrs: { targetNotaId: 'child-1', targetNotaTitle: 'Appendix' } },
+        {
+            type: 'pipeline',
+            attrs: {
+                id: 'p1',
+                title: 'Train',
+                nodes: [{ id: 'n1', type: 'code', position: { x: 0, y: 0 }, data: { id: 'n1', title: 'Fit', code: 'print("```")', output: '```', status: 'completed' } }],
+                edges: [],
+                cache: { n1: { hash: 'h' } },
+            },
+        },
+        { type: 'confusionMatrix', attrs: { title: 'Errors', labels: ['cat', 'dog'], data: [[5, 1], [2, 7]], source: 'upload' } },
+        { type: 'bibliography', attrs: { title: 'Works cited', style: 'apa' } },
+        { type: 'paragraph', content: [{ type: 'text', text: 'The end.' }] },
+    ],
+}
+
+describe('markdownSerializer', () => {
+    it('writes custom blocks in the syntax the parser reads', () => {
+        expect(serializeMarkdown(doc)).toBe(
+            [
+                '# Results',
+                'As shown in [@smith2020], see [Methods](/nota/abc123) and $x^2$.',
+                '$$\n\\int_0^1 f(x)\\,dx\n$$',
+                '```{python}\n# fit\nmodel.fit(x, y)\n```',
+                '\\begin{lemma}[Bound]\nFor all $x$, $f(x) < 1$.\n\\end{lemma}\n\\begin{proof}\nDirect.\n\\end{proof}',
+                '![A](a.png) ![B](b.png)',
+                '<!-- nota-table {"columns":[{"type":"text"},{"type":"number"}]} -->\n| Model | F1 |\n| --- | --- |\n| a\\|b | 0.9 |',
+                '![youtube](https://www.youtube.com/watch?v=dQw4w9WgXcQ)',
+                '[Appendix](/nota/child-1 "subnota")',
+                '```pipeline\n' + JSON.stringify({
+                    title: 'Train',
+                    nodes: [{ id: 'n1', type: 'code', position: { x: 0, y: 0 }, data: { id: 'n1', title: 'Fit', code: 'print("```")' } }],
+                    edges: [],
+                }, null, 2).replace(/`/g, '\\u0060') + '\n```',
+                '```confusion-matrix\n' + JSON.stringify(doc.content[10].attrs, null, 2) + '\n```',
+                '::: {#refs title="Works cited" style="apa"}\n:::',
+                'The end.',
+            ].join('\n\n') + '\n',
+        )
+    })
+
+    it('round-trips through MarkdownParserService', () => {
+        const markdown = serializeMarkdown(doc)
+        const parsed = parse(markdown)
+
+        expect(parsed.content.map((node: any) => node.type)).toEqual(doc.content.map((node) => node.type))
+        expect(parsed.content[1].content).toEqual(doc.content[1].content)
+        expect(parsed.content[4].attrs).toMatchObject(doc.content[4].attrs!)
+        expect(parsed.content[9].attrs.nodes[0].data.code).toBe('print("```")')
+        expect(parsed.content[10].attrs).toEqual(doc.content[10].attrs)
+        expect(parsed.content[11].attrs).toEqual(doc.content[11].attrs)
+        expect(serializeMarkdown(parsed)).toBe(markdown)
+    })
+
+    it('writes cross-references by label and reads them back', () => {
+        const paragraph = {
+            type: 'paragraph',
+            content: [
+                { type: 'text', text: 'By ' },
+                { type: 'ref', attrs: { label: 'thm:bound', form: 'full', text: 'Theorem 2', missing: false } },
+                { type: 'text', text: ' and ' },
+                { type: 'ref', attrs: { label: 'eq:loss', form: 'number', text: '??', missing: true } },
+                { type: 'text', text: '.' },
+            ],
+        }
+        const markdown = serializeMarkdown({ type: 'doc', content: [paragraph] })
+        expect(markdown).toBe('By \\ref{thm:bound} and \\eqref{eq:loss}.\n')
+
+        const parsed = parse(markdown).content[0].content
+        expect(parsed[1]).toEqual({ type: 'ref', attrs: { label: 'thm:bound', form: 'full' } })
+        expect(parsed[3]).toEqual({ type: 'ref', attrs: { label: 'eq:loss', form: 'number' } })
+        expect(serializeMarkdown({ type: 'doc', content: [{ type: 'paragraph', content: parsed }] })).toBe(markdown)
+    })
+
+    it('keeps table formulas and aggregates out of the parsed rows', () => {
+        const tableData = {
+            id: 't2',
+            name: 'Orders',
+            columns: [
+                { id: 'c1', title: 'Price', type: 'number', aggregate: 'sum' },
+                { id: 'c2', title: 'Quantity', type: 'select', options: ['1', '2'] },
+                { id: 'c3', title: 'Total', type: 'formula', formula: 'IF({Price} > 2, "big--", {Price} * {Quantity})', aggregate: 'count' },
+            ],
+            rows: [
+                { id: 'r1', cells: { c1: '2', c2: '2' } },
+                { id: 'r2', cells: { c1: '3', c2: '1' } },
+            ],
+        }
+        const markdown = serializeMarkdown({ type: 'doc', content: [{ type: 'notaTable', attrs: { tableData } }] })
+        expect(markdown).toContain('| 2 | 2 | 4 |\n| 3 | 1 | big-- |\n| Sum: 5 |  | Count: 2 |')
+        // The formula's `--` is escaped inside the comment
+        expect(markdown.slice(4, markdown.indexOf(' -->'))).not.toContain('--')
+
+        const parsed = parse(markdown).content[0].attrs.tableData
+        expect(parsed.columns.map(({ id: _id, ...column }: any) => column)).toEqual(
+            tableData.columns.map(({ id: _id, ...column }) => column),
+        )
+        expect(parsed.rows.map((row: any) => Object.values(row.cells))).toEqual([['2', '2'], ['3', '1']])
+        expect(serializeMarkdown(parse(markdown))).toBe(markdown)
+    })
+
+    it('reads custom theorem environments back from the front matter', () => {
+        const theoremEnvironments = [
+            { name: 'claim', label: 'Claim', style: 'plain' as const, color: 'rose' as const, prefix: 'clm:' },
+        ]
+        const claim = { type: 'theorem', attrs: { type: 'claim', title: 'Bound', content: '$x < 1$', proof: '' } }
+        const markdown = serializeMarkdown({ type: 'doc', content: [claim] }, { theoremEnvironments })
+
+        expect(markdown).toContain('\\newtheorem{claim}{Claim}')
+        expect(parse(markdown).content[0]).toMatchObject(claim)
+        // Undeclared environments stay text
+        expect(parse(markdown.slice(markdown.indexOf('\\begin'))).content[0].type).toBe('paragraph')
+    })
+
+    it('lists the cited references in the bibliography block', () => {
+        const citations = [
+            { id: '1', key: 'smith2020', title: 'Deep nets', authors: ['Jane Smith'], year: '2020', createdAt: new Date() },
+            { id: '2', key: 'unused', title: 'Not cited', authors: ['Bo Lee'], year: '2019', createdAt: new Date() },
+        ]
+        const markdown = serializeMarkdown(
+            { type: 'doc', content: [doc.content[1], { type: 'bibliography', attrs: { title: 'References', style: 'apa' } }] },
+            { citations: citations as any },
+        )
+
+        const references = markdown.slice(markdown.indexOf('::: {#refs'))
+        expect(references).toMatch(/^::: \{#refs title="References" style="apa"\}\n- Smith, J\..*Deep nets.*\n:::\n$/)
+        expect(references).not.toContain('Not cited')
+        // The list is generated again on export, so it is not read back
+        expect(parse(markdown).content[1]).toEqual({ type: 'bibliography', attrs: { title: 'References', style: 'apa' } })
+    })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest'
+import { renderMermaid, resolveMermaidTheme, toMermaidSyntaxError } from '../mermaidService'
+
+const mermaid = vi.hoisted(() => ({
+    initialize: vi.fn(),
+    parse: vi.fn(async (source: string) => {
+        if (source.includes('oops')) {
+            throw Object.assign(new Error("Parse error on line 2:\n...A --> oops\n----^\nExpecting 'SEMI'"), {
+                hash: { loc: { first_line: 2 } }
+            })
+        }
+        return { diagramType: 'flowchart' }
+    }),
+    render: vi.fn(async (id: string) => ({ svg: `<svg id="${id}"></svg>` }))
+}))
+
+vi.mock('mermaid', () => ({ default: mermaid }))
+
+describe('mermaidService', () => {
+    it('follows the app theme unless the diagram picks one', () => {
+        expect(resolveMermaidTheme('default', false)).toBe('default')
+        expect(resolveMermaidTheme('default', true)).toBe('dark')
+        expect(resolveMermaidTheme(null, true)).toBe('dark')
+        expect(resolveMermaidTheme('forest', true)).toBe('forest')
+        expect(resolveMermaidTheme('unknown', false)).toBe('default')
+    })
+
+    it('reads the line from parser errors', () => {
+        expect(toMermaidSyntaxError(new Error('Parse error on line 4:\nfoo'))).toEqual({ message: 'Parse error on line 4:', line: 4 })
+        expect(toMermaidSyntaxError({ message: 'Lexical error', hash: { line: 0 } })).toEqual({ message: 'Lexical error', line: 1 })
+        expect(toMermaidSyntaxError('No diagram type detected').line).toBeNull()
+    })
+
+    it('renders with the requested theme and reports syntax errors', async () => {
+        const [ok, broken] = await Promise.all([
+            renderMermaid('flowchart LR\nA --> B', 'dark'),
+            renderMermaid('flowchart LR\nA --> oops', 'default')
+        ])
+
+        expect(ok.svg).toMatch(/^<svg id="nota-mermaid-\d+">/)
+        expect(broken).toEqual({ svg: null, error: { message: 'Parse error on line 2:', line: 2 } })
+        // Each render configures its own theme before running
+        expect(mermaid.initialize.mock.calls.map(([config]) => config.theme)).toEqual(['dark', 'default'])
+    })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { buildNotebook } from '../export/notebook'
+import { serializeBlocks } from '../export/markdownSerializer'
+
+const content = {
+    type: 'doc',
+    content: [
+        { type: 'paragraph', content: [{ type: 'text', text: 'Intro with $x^2$' }] },
+        { type: 'math', attrs: { latex: 'E = mc^2' } },
+        {
+            type: 'executableCodeBlock',
+            attrs: {
+                id: 'cell-1',
+                language: 'python',
+                executionCount: 2,
+                outputs: [
+                    { output_type: 'stream', name: 'stdout', text: 'a\nb\n' },
+                    { output_type: 'execute_result', data: { 'text/plain': '42', 'application/json': { a: 1 } }, metadata: {} },
+                ],
+            },
+            content: [{ type: 'text', text: 'print("a")\nprint("b")\n42' }],
+        },
+        { type: 'executableCodeBlock', attrs: { id: 'cell-2', language: 'python', output: 'legacy' } },
+        { type: 'theorem', attrs: { type: 'lemma', number: 1, title: 'Bound', content: 'x < y', proof: 'Trivial.' } },
+    ],
+}
+
+describe('buildNotebook', () => {
+    it('merges prose into markdown cells around code cells', () => {
+        const notebook = buildNotebook({ title: 'Demo', content })
+
+        expect(notebook.nbformat).toBe(4)
+        expect(notebook.cells.map((cell) => cell.cell_type)).toEqual(['markdown', 'code', 'code', 'markdown'])
+        expect(notebook.cells[0].source).toEqual(['# Demo\n', '\n', 'Intro with $x^2$\n', '\n', '$$\n', 'E = mc^2\n', '$$'])
+        expect(notebook.cells[3].source).toEqual(['**Lemma 1 (Bound).** x < y\n', '\n', '*Proof.* Trivial. $\\blacksquare$'])
+    })
+
+    it('keeps cell ids, execution counts and outputs', () => {
+        const [, code, legacy] = buildNotebook({ title: 'Demo', content }).cells
+
+        expect(code).toMatchObject({ id: 'cell-1', execution_count: 2, source: ['print("a")\n', 'print("b")\n', '42'] })
+        expect(code.outputs).toEqual([
+            { output_type: 'stream', name: 'stdout', text: ['a\n', 'b\n'] },
+            {
+                output_type: 'execute_result',
+                execution_count: 2,
+                metadata: {},
+                data: { 'text/plain': ['42'], 'application/json': { a: 1 } },
+            },
+        ])
+        expect(legacy.outputs).toEqual([{ output_type: 'stream', name: 'stdout', text: ['legacy'] }])
+    })
+
+    it('uses the most common kernel preference as kernelspec', () => {
+        const notebook = buildNotebook({
+            title: 'Demo',
+            content,
+            kernelPreferences: {
+                'cell-1': { blockId: 'cell-1', kernelName: 'ir', serverId: '', lastUsed: '' },
+                'cell-2': { blockId: 'cell-2', kernelName: 'ir', serverId: '', lastUsed: '' },
+            },
+        })
+
+        expect(notebook.metadata.kernelspec).toMatchObject({ name: 'ir' })
+        expect(buildNotebook({ title: 'Demo', content }).metadata.kernelspec?.name).toBe('python3')
+    })
+})
+
+describe('serializeBlocks', () => {
+    it('writes lists, marks and tables as GFM', () => {
+        const markdown = serializeBlocks([
+            {
+                type: 'bulletList',
+                content: [
+                    { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'bold', marks: [{ type: 'bold' }] }] }] },
+                    { type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'link', marks: [{ type: 'link', attrs: { href: 'https://x.y' } }] }] }] },
+                ],
+            },
+            {
+                type: 'table',
+                content: [
+                    { type: 'tableRow', content: [{ type: 'tableHeader', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'a|b' }] }] }] },
+                    { type: 'tableRow', content: [{ type: 'tableCell', content: [{ type: 'paragraph', content: [{ type: 'text', text: '1' }] }] }] },
+                ],
+            },
+        ])
+
+        expect(markdown).toBe('- **bold**\n- [link](https://x.y)\n\n| a\\|b |\n| --- |\n| 1 |')
+    })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import type { PipelineCacheEntry } from '@/features/editor/types/pipeline'
+import type { SchedulableNode } from '../pipeline/scheduler'
+import { dirtyPipelineNodes, pipelineNodeHashes, withUnrestorableInputs } from '../pipeline/cache'
+
+const node = (id: string, code = `print("${id}")`): SchedulableNode => ({ id, data: { id, title: id, code } })
+const edge = (source: string, target: string) => ({ source, target })
+
+// extract -> a -> a2 -> load, extract -> b -> load
+const nodes = [node('extract'), node('a'), node('a2'), node('b'), node('load')]
+const edges = [edge('extract', 'a'), edge('a', 'a2'), edge('extract', 'b'), edge('a2', 'load'), edge('b', 'load')]
+
+describe('pipeline cache', () => {
+    const kernelOf = () => 'python3'
+    const hashesOf = (pipeline: SchedulableNode[]) => pipelineNodeHashes(pipeline, edges, kernelOf)
+
+    it('changes the hash of an edited node and everything downstream', () => {
+        const before = hashesOf(nodes)
+        const after = hashesOf(nodes.map(n => (n.id === 'a' ? node('a', 'print("edited")') : n)))
+
+        const changed = nodes.filter(n => before.get(n.id) !== after.get(n.id)).map(n => n.id)
+        expect(changed).toEqual(['a', 'a2', 'load'])
+        expect(hashesOf(nodes)).toEqual(before)
+        expect(pipelineNodeHashes(nodes, edges, n => (n.id === 'b' ? 'R' : 'python3')).get('b')).not.toBe(before.get('b'))
+    })
+
+    it('marks stale and forced nodes dirty along with their descendants', () => {
+        const hashes = hashesOf(nodes)
+        const cache = Object.fromEntries([...hashes].map(([id, hash]) => [id, { hash, output: null, timestamp: 0 }]))
+
+        expect([...dirtyPipelineNodes(nodes, edges, hashes, cache)]).toEqual([])
+        expect([...dirtyPipelineNodes(nodes, edges, hashes, cache, ['b'])].sort()).toEqual(['b', 'load'])
+
+        delete cache.a2
+        expect([...dirtyPipelineNodes(nodes, edges, hashes, cache)].sort()).toEqual(['a2', 'load'])
+    })
+
+    it('reruns cached inputs whose value can be neither unpickled nor found in the kernel', () => {
+        const hashes = hashesOf(nodes)
+        const cache: Record<string, PipelineCacheEntry> = Object.fromEntries(
+            [...hashes].map(([id, hash]) => [id, { hash, output: null, pickled: 'gAN9cQA=', timestamp: 0 }])
+        )
+        delete cache.a2.pickled
+        delete cache.a.pickled
+        const inKernel = (source: SchedulableNode) => source.id === 'a'
+
+        // load reads a2, which has no pickle; a2 reads a, which is still in the kernel
+        expect([...withUnrestorableInputs(nodes, edges, new Set(['load']), cache, inKernel)].sort()).toEqual(['a2', 'load'])
+        expect([...withUnrestorableInputs(nodes, edges, new Set(['load']), cache, () => false)].sort()).toEqual(['a', 'a2', 'load'])
+        expect([...withUnrestorableInputs(nodes, edges, new Set(['b']), cache, () => false)]).toEqual(['b'])
+    })
+})
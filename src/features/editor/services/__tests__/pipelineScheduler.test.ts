@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest'
+import { runPipeline, type PipelineRunOptions, type SchedulableNode } from '../pipeline/scheduler'
+import { inputPreludeCode, parseCapturedValue, pipelineVariableName } from '../pipeline/variables'
+import { conditionCode, parseConditionResult, validateCondition } from '../pipeline/conditions'
+
+const node = (id: string, code = `print("${id}")`): SchedulableNode => ({ id, data: { id, title: id, code } })
+const edge = (source: string, target: string) => ({ source, target })
+
+// extract -> a -> a2 -> load, extract -> b -> load
+const nodes = [node('extract'), node('a'), node('a2'), node('b'), node('load')]
+const edges = [edge('extract', 'a'), edge('a', 'a2'), edge('extract', 'b'), edge('a2', 'load'), edge('b', 'load')]
+
+const settings: Omit<PipelineRunOptions<SchedulableNode>, 'run'> = {
+    kernelMode: 'isolated',
+    executionOrder: 'parallel',
+    stopOnError: true
+}
+
+describe('runPipeline', () => {
+    it('runs independent branches side by side on separate kernels', async () => {
+        const log: string[] = []
+        let running = 0
+        let mostRunning = 0
+        const run = async ({ node, inputs }: { node: SchedulableNode; inputs: { node: SchedulableNode }[] }) => {
+            log.push(`${node.id}(${inputs.map(input => input.node.id).join(',')})`)
+            mostRunning = Math.max(mostRunning, ++running)
+            await new Promise(resolve => setTimeout(resolve, 1))
+            running--
+        }
+
+        const { nodes: results } = await runPipeline(nodes, edges, { ...settings, run })
+        expect([...results.values()].every(result => result.outcome === 'completed')).toBe(true)
+        expect(log).toEqual(['extract()', 'a(extract)', 'b(extract)', 'a2(a)', 'load(a2,b)'])
+        expect(mostRunning).toBe(2)
+
+        // One shared kernel runs a node at a time
+        running = mostRunning = 0
+        await runPipeline(nodes, edges, { ...settings, kernelMode: 'shared', run })
+        expect(mostRunning).toBe(1)
+
+        running = mostRunning = 0
+        await runPipeline(nodes, edges, { ...settings, maxConcurrency: 1, run })
+        expect(mostRunning).toBe(1)
+    })
+
+    it('skips only the descendants of a failed node', async () => {
+        const ran: string[] = []
+        const tasks: Record<string, boolean> = {}
+        const { nodes: results } = await runPipeline([...nodes, node('notes', '  ')], edges, {
+            ...settings,
+            kernelMode: 'mixed',
+            ownKernel: node => (node.id === 'b' ? 'b-session' : undefined),
+            run: async task => {
+                ran.push(task.node.id)
+                tasks[task.node.id] = task.exportsValue
+                if (task.node.id === 'a') throw new Error('boom')
+            }
+        })
+
+        const outcomes = Object.fromEntries([...results].map(([id, result]) => [id, result.outcome]))
+        expect(results.get('load')?.reason).toBe('"a" failed')
+        expect(outcomes).toEqual({
+            notes: 'empty',
+            extract: 'completed',
+            a: 'error',
+            a2: 'skipped',
+            load: 'skipped',
+            b: 'completed'
+        })
+        expect(ran).toEqual(['extract', 'a', 'b'])
+        // b runs on its own kernel, so extract's value is sent over
+        expect(tasks).toEqual({ extract: true, a: false, b: true })
+
+        await expect(runPipeline(nodes, [...edges, edge('load', 'extract')], { ...settings, run: async () => {} }))
+            .rejects.toThrow('cycle')
+    })
+
+    it('follows only the edges whose condition holds', async () => {
+        // train -> deploy if accuracy > 0.9, train -> tune otherwise; report joins both
+        const branches = [node('train'), node('deploy'), node('tune'), node('report')]
+        const branchEdges = [
+            { id: 'e1', source: 'train', target: 'deploy', data: { condition: 'accuracy > 0.9' } },
+            { id: 'e2', source: 'train', target: 'tune', data: { condition: 'accuracy <= 0.9' } },
+            edge('deploy', 'report'),
+            edge('tune', 'report')
+        ]
+        const ran: string[] = []
+        const { nodes: results, edges: taken } = await runPipeline(branches, branchEdges, {
+            ...settings,
+            run: async ({ node }) => {
+                ran.push(node.id)
+            },
+            evaluate: async (_node, _kernel, expression) => expression === 'accuracy <= 0.9'
+        })
+
+        expect(ran).toEqual(['train', 'tune', 'report'])
+        expect(results.get('deploy')).toMatchObject({ outcome: 'skipped', reason: 'Condition "accuracy > 0.9" of "train" was false' })
+        expect(Object.fromEntries(taken)).toEqual({ e1: false, e2: true, 'deploy->report': false, 'tune->report': true })
+    })
+
+    it('retries with backoff and loops until a condition holds', async () => {
+        const waits: number[] = []
+        const failures: Record<string, number> = { flaky: 2, broken: 5 }
+        let loss = 1
+        const { nodes: results } = await runPipeline(
+            [
+                { id: 'flaky', data: { id: 'flaky', code: 'fetch()', retries: 3, retryDelay: 0.5 } },
+                { id: 'broken', data: { id: 'broken', code: 'fail()', retries: 1 } },
+                { id: 'fit', data: { id: 'fit', code: 'loss /= 2', loopUntil: 'loss < 0.2', maxIterations: 5 } },
+                { id: 'stuck', data: { id: 'stuck', code: 'pass', loopUntil: 'False', maxIterations: 3 } }
+            ],
+            [],
+            {
+                ...settings,
+                sleep: async ms => {
+                    waits.push(ms)
+                },
+                run: async ({ node }) => {
+                    if (node.id === 'fit') loss /= 2
+                    if (failures[node.id]-- > 0) throw new Error(`${node.id} failed`)
+                },
+                evaluate: async (_node, _kernel, expression) => expression === 'loss < 0.2' && loss < 0.2
+            }
+        )
+
+        expect(results.get('flaky')).toMatchObject({ outcome: 'completed', retries: 2 })
+        expect(waits).toEqual([500, 1000, 1000])
+        expect(results.get('broken')).toMatchObject({ outcome: 'error', retries: 1 })
+        expect(results.get('fit')).toMatchObject({ outcome: 'completed', iterations: 3 })
+        expect(results.get('stuck')?.outcome).toBe('error')
+        expect(String(results.get('stuck')?.error)).toMatch('"False" was still false after 3 iterations')
+    })
+
+    it('reuses cached nodes without running them', async () => {
+        const ran: string[] = []
+        const inputs: Record<string, string[]> = {}
+        const { nodes: results, edges: taken } = await runPipeline(
+            nodes,
+            [...edges.slice(0, 4), { id: 'e', source: 'b', target: 'load', data: { condition: 'ok' } }],
+            {
+                ...settings,
+                fromCache: node => (['extract', 'b'].includes(node.id) ? { e: false } : undefined),
+                run: async task => {
+                    ran.push(task.node.id)
+                    inputs[task.node.id] = task.inputs.map(input => input.node.id)
+                }
+            }
+        )
+
+        expect(ran).toEqual(['a', 'a2', 'load'])
+        expect(results.get('b')).toMatchObject({ outcome: 'cached', iterations: 0 })
+        expect(inputs.a).toEqual(['extract'])
+        // The cached condition result decides the edge
+        expect(taken.get('e')).toBe(false)
+        expect(inputs.load).toEqual(['a2'])
+    })
+})
+
+describe('pipeline variables', () => {
+    it('names node values and defines them downstream', () => {
+        expect(pipelineVariableName({ id: '1', data: { id: '1', title: 'Load data (CSV)' } })).toBe('load_data_csv')
+        expect(pipelineVariableName({ id: '1', data: { id: '1', title: '2nd pass' } })).toBe('_2nd_pass')
+        expect(pipelineVariableName({ id: '1', data: { id: '1', title: 'x', outputName: 'df' } })).toBe('df')
+        expect(pipelineVariableName({ id: '1', data: { id: '1', title: 'x', outputName: 'not valid' } })).toBe('x')
+
+        expect(parseCapturedValue('hello\n__bashnota_value__gAN9cQA=__bashnota_value__\n')).toBe('gAN9cQA=')
+        expect(parseCapturedValue('hello')).toBeUndefined()
+
+        expect(inputPreludeCode([
+            { name: 'df', pickled: 'gAN9cQA=', text: '' },
+            { name: 'summary', text: 'rows: 3' }
+        ])).toBe([
+            'import base64 as _bn_base64, pickle as _bn_pickle',
+            'df = _bn_pickle.loads(_bn_base64.b64decode("gAN9cQA="))',
+            'if "summary" not in globals():',
+            '    summary = "rows: 3"',
+            'del _bn_base64, _bn_pickle'
+        ].join('\n'))
+    })
+})
+
+describe('pipeline conditions', () => {
+    it('evaluates a single expression and reads its result back', () => {
+        expect(conditionCode(' accuracy > 0.9 ')).toBe(
+            'print("__bashnota_condition__" + str(bool(accuracy > 0.9)) + "__bashnota_condition__")'
+        )
+        expect(parseConditionResult('__bashnota_condition__False__bashnota_condition__\n')).toBe(false)
+        expect(() => parseConditionResult('')).toThrow('no result')
+        expect(validateCondition('a > 1\nb')).toMatch('single Python expression')
+        expect(validateCondition('import os')).toMatch('not a statement')
+        expect(validateCondition('len(rows) > 0')).toBe('')
+    })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { buildPipelineMakefile, buildPipelineScript, pipelineScriptFileName } from '../pipeline/script'
+
+const edge = (source: string, target: string) => ({ source, target })
+
+describe('pipeline script export', () => {
+    const pipeline = {
+        title: 'ML pipeline',
+        nodes: [
+            { id: 'r', data: { id: 'r', title: 'Report', code: 'print(deploy, tune)' } },
+            { id: 't', data: { id: 't', title: 'Train', code: 'accuracy = 0.5\nif accuracy:\n\tprint(accuracy)', retries: 2 } },
+            { id: 'd', data: { id: 'd', title: 'Deploy', code: 'print(train)' } },
+            { id: 'u', data: { id: 'u', title: 'Tune', code: 'loss = 1', loopUntil: 'loss < 0.2', maxIterations: 5 } },
+            { id: 'n', data: { id: 'n', title: 'Notes', code: '' } }
+        ],
+        edges: [
+            { id: 'e1', source: 't', target: 'd', data: { condition: 'accuracy > 0.9' } },
+            { id: 'e2', source: 't', target: 'u', data: { condition: 'accuracy <= 0.9' } },
+            edge('d', 'r'),
+            edge('u', 'r'),
+            edge('n', 'r')
+        ]
+    }
+
+    it('writes a function per node in topological order and a main following the graph', () => {
+        const script = buildPipelineScript(pipeline)
+        const functions = [...script.matchAll(/^def (step_\w+)\((.*)\):/gm)].map(match => `${match[1]}(${match[2]})`)
+        expect(functions).toEqual(['step_train()', 'step_deploy(train)', 'step_tune(train)', 'step_report(deploy, tune)'])
+
+        expect(script).toContain('@pipeline_step("train", branches={"deploy": "accuracy > 0.9", "tune": "accuracy <= 0.9"}, retries=2, retry_delay=1)')
+        expect(script).toContain('    accuracy = 0.5\n    if accuracy:\n        print(accuracy)\n    return locals()')
+        expect(script).toContain([
+            '    for _iteration in range(5):',
+            '        loss = 1',
+            '        if loss < 0.2:',
+            '            break'
+        ].join('\n'))
+        expect(script).toContain('    "report": [("deploy", False), ("tune", False), ("notes", False)],')
+        expect(script).toContain('    "deploy": [("train", True)],')
+        expect(script).toContain([
+            '    values["notes"], branches["notes"] = None, {}',
+            '    if reached("deploy", values, branches):',
+            '        values["deploy"], branches["deploy"] = step_deploy(values.get("train"))'
+        ].join('\n'))
+        expect(pipelineScriptFileName(pipeline.title)).toBe('ml_pipeline.py')
+    })
+
+    it('writes a Makefile rule per step', () => {
+        const makefile = buildPipelineMakefile(pipeline)
+        expect(makefile).toContain('SCRIPT ?= ml_pipeline.py')
+        expect(makefile).toContain('all: $(OUT)/report.pkl')
+        expect(makefile).toContain([
+            '$(OUT)/report.pkl: $(SCRIPT) $(OUT)/deploy.pkl $(OUT)/tune.pkl $(OUT)/notes.pkl',
+            '\t$(PYTHON) $(SCRIPT) --step report --out $(OUT)'
+        ].join('\n'))
+
+        expect(() => buildPipelineScript({ ...pipeline, edges: [...pipeline.edges, edge('r', 't')] })).toThrow('cycle')
+    })
+})
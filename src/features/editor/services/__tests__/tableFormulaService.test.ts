@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import {
+    computeAggregate,
+    computeTableFormulas,
+    formatFormulaValue,
+    renameColumnReferences,
+    tableAggregateRow,
+    tableDisplayRows,
+    uniqueColumnTitle,
+    validateColumnTitle,
+    validateFormula,
+} from '../tableFormulaService'
+import { serializeMarkdown } from '../export/markdownSerializer'
+import type { TableColumn, TableData } from '@/features/editor/components/blocks/table-block/TableExtension'
+
+const columns: TableColumn[] = [
+    { id: 'name', title: 'Name', type: 'text' },
+    { id: 'price', title: 'Price', type: 'number' },
+    { id: 'qty', title: 'Quantity', type: 'number' },
+    { id: 'start', title: 'Start', type: 'date' },
+]
+
+const table = (formulas: Record<string, string>, extra: Partial<TableColumn>[] = []): TableData => ({
+    id: 'table',
+    name: 'Orders',
+    columns: [
+        ...columns.map(column => ({ ...column })),
+        ...Object.entries(formulas).map(([title, formula]) => ({ id: title.toLowerCase(), title, type: 'formula' as const, formula })),
+        ...(extra as TableColumn[]),
+    ],
+    rows: [
+        { id: 'r1', cells: { name: 'apple', price: '2.5', qty: '4', start: '2026-01-31T00:00:00' } },
+        { id: 'r2', cells: { name: ' Pear ', price: '3', qty: '', start: '' } },
+    ],
+})
+
+// The value of one formula in each row, or its error
+const evaluate = (formula: string) => {
+    const computed = computeTableFormulas(table({ Result: formula }))
+    return ['r1', 'r2'].map(row => computed[row].result.error ?? formatFormulaValue(computed[row].result.value))
+}
+
+describe('tableFormulaService', () => {
+    it('evaluates arithmetic with precedence and blank cells as zero', () => {
+        expect(evaluate('{Price} * {Quantity}')).toEqual(['10', '0'])
+        expect(evaluate('1 + 2 * 3 ^ 2 ^ 0 - -1')).toEqual(['8', '8'])
+        expect(evaluate('({price} + 0.1) / 2')).toEqual(['1.3', '1.55'])
+        expect(evaluate('10 % 4 & "x"')).toEqual(['2x', '2x'])
+        expect(evaluate('{Price} / {Quantity}')).toEqual(['0.625', 'Division by zero'])
+    })
+
+    it('evaluates IF, logic and comparisons lazily', () => {
+        expect(evaluate('IF({Quantity} > 2, "bulk", "single")')).toEqual(['bulk', 'single'])
+        expect(evaluate('IF(ISBLANK({Quantity}), "none")')).toEqual(['', 'none'])
+        // The branch not taken is never evaluated
+        expect(evaluate('IF({Quantity} = 0, 0, {Price} / {Quantity})')).toEqual(['0.625', '0'])
+        expect(evaluate('IFERROR(1 / {Quantity}, -1)')).toEqual(['0.25', '-1'])
+        expect(evaluate('AND({Price} >= 2.5, NOT({Name} <> "APPLE"))')).toEqual(['TRUE', 'FALSE'])
+    })
+
+    it('evaluates string functions', () => {
+        expect(evaluate('UPPER(TRIM({Name})) & "-" & LEN({Name})')).toEqual(['APPLE-5', 'PEAR-6'])
+        expect(evaluate('CONCAT(LEFT({Name}, 2), MID("abcdef", 2, 3), RIGHT("xyz"))')).toEqual(['apbcdz', ' Pbcdz'])
+        expect(evaluate('REPLACE({Name}, "p", "b")')).toEqual(['abble', ' Pear '])
+        expect(evaluate('CONTAINS({Name}, "EA") & TEXT(VALUE("2.50"))')).toEqual(['FALSE2.5', 'TRUE2.5'])
+    })
+
+    it('evaluates date math', () => {
+        expect(evaluate('{Start} + 1')).toEqual(['2026-02-01', '1'])
+        expect(evaluate('DAY({Start})')).toEqual(['31', 'An empty cell is not a date'])
+        expect(evaluate('DATEADD({Start}, 1, "month")')[0]).toBe('2026-02-28')
+        expect(evaluate('DATEADD({Start}, 90, "minutes")')[0]).toBe('2026-01-31 01:30')
+        expect(evaluate('DATEDIFF({Start}, DATE(2026, 3, 30), "months")')[0]).toBe('1')
+        expect(evaluate('DATE(2026, 3, 1) - {Start}')[0]).toBe('29')
+        expect(evaluate('YEAR({Start}) & "/" & MONTH({Start}) & "/" & DAY({Start}) & " " & WEEKDAY({Start})')[0]).toBe('2026/1/31 6')
+        expect(evaluate('DATEDIFF({Start}, {Start}, "fortnights")')[0]).toMatch('Unknown unit')
+    })
+
+    describe('west of UTC', () => {
+        const timeZone = process.env.TZ
+        beforeAll(() => {
+            process.env.TZ = 'America/New_York'
+        })
+        afterAll(() => {
+            if (timeZone === undefined) delete process.env.TZ
+            else process.env.TZ = timeZone
+        })
+
+        it('reads date-only cells and text as local dates', () => {
+            const data = table({
+                Parts: 'YEAR({Start}) & "/" & MONTH({Start}) & "/" & DAY({Start})',
+                Text: 'MONTH("2024-03-01") & "/" & DAY("2024-03-01")',
+                Next: '{Start} + 1',
+            })
+            data.rows[0].cells.start = '2024-03-01'
+            expect(tableDisplayRows(data)[0].slice(4)).toEqual(['2024/3/1', '3/1', '2024-03-02'])
+        })
+    })
+
+    it('lets formulas use other formula columns and reports cycles', () => {
+        const computed = computeTableFormulas(table({ Total: '{Price} * {Quantity}', Taxed: '{Total} * 1.2', Loop: '{Again}', Again: '{Loop} + 1' }))
+
+        expect(computed.r1.total.value).toBe(10)
+        expect(computed.r1.taxed.value).toBe(12)
+        expect(computed.r1.loop.error).toMatch('Circular reference')
+        expect(computed.r1.again.error).toMatch('Circular reference')
+    })
+
+    it('validates formulas against the columns', () => {
+        expect(validateFormula('{price} * 2', columns)).toBe('')
+        expect(validateFormula('{Cost} * 2', columns)).toBe('Unknown column {Cost}')
+        expect(validateFormula('SUMPRODUCT({Price})', columns)).toBe('Unknown function SUMPRODUCT')
+        expect(validateFormula('Price * 2', columns)).toMatch('write columns as {Price}')
+        expect(validateFormula('IF({Price} > 2, "a"', columns)).toMatch('Expected ")"')
+        expect(validateFormula('"open', columns)).toBe('Unclosed string')
+        expect(validateFormula('', columns)).toBe('The formula is empty')
+    })
+
+    it('keeps column titles unique and formulas pointing at renamed columns', () => {
+        expect(validateColumnTitle(' price ', columns, 'qty')).toBe('There is already a column titled "price"')
+        expect(validateColumnTitle('PRICE', columns, 'price')).toBe('')
+        expect(validateColumnTitle(' ', columns, 'price')).toBe('The title cannot be empty')
+        expect(uniqueColumnTitle('Price', [...columns, { title: 'price 2' }])).toBe('Price 3')
+        expect(uniqueColumnTitle('Cost', columns)).toBe('Cost')
+
+        expect(renameColumnReferences('IF({ price } > 2, "{Price}", {Price} * {Quantity})', 'Price', 'Cost')).toBe(
+            'IF({Cost} > 2, "{Price}", {Cost} * {Quantity})'
+        )
+    })
+
+    it('computes aggregates of numbers, dates and any values', () => {
+        const values = [3, 1, null, '4', 1, 'n/a']
+        expect(computeAggregate('sum', values)).toBe(9)
+        expect(computeAggregate('avg', values)).toBe(2.25)
+        expect(computeAggregate('min', values)).toBe(1)
+        expect(computeAggregate('max', values)).toBe(4)
+        expect(computeAggregate('count', values)).toBe(5)
+        expect(computeAggregate('distinct', values)).toBe(4)
+        expect(computeAggregate('max', [new Date(2026, 0, 1), new Date(2026, 5, 1)])).toEqual(new Date(2026, 5, 1))
+        expect(computeAggregate('avg', [])).toBeNull()
+    })
+
+    it('exports computed values and the aggregates row', () => {
+        const data = table({ Total: '{Price} * {Quantity}', Broken: '1 +' })
+        data.columns[1].aggregate = 'avg'
+        data.columns[4].aggregate = 'sum'
+
+        expect(tableDisplayRows(data)).toEqual([
+            ['apple', '2.5', '4', '2026-01-31T00:00:00', '10', '#ERROR'],
+            [' Pear ', '3', '', '', '0', '#ERROR'],
+        ])
+        expect(tableAggregateRow(data)).toEqual(['', 'Average: 2.75', '', '', 'Sum: 10', ''])
+        expect(tableAggregateRow(table({}))).toBeNull()
+
+        const markdown = serializeMarkdown({ type: 'doc', content: [{ type: 'notaTable', attrs: { tableData: data } }] })
+        expect(markdown).toContain('| apple | 2.5 | 4 | 2026-01-31T00:00:00 | 10 | #ERROR |')
+        expect(markdown).toContain('Average: 2.75')
+    })
+})
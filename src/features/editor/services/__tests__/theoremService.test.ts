@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+    BUILTIN_THEOREM_ENVIRONMENTS,
+    customTheoremEnvironments,
+    getTheoremCounter,
+    getTheoremEnvironment,
+    resolveTheoremEnvironments,
+    theoremPreamble,
+    validateTheoremEnvironment,
+    type TheoremEnvironment,
+} from '../theoremService'
+import { serializeMarkdown } from '../export/markdownSerializer'
+
+const claim: TheoremEnvironment = { name: 'claim', label: 'Claim', style: 'plain', color: 'rose', counter: 'theorem', prefix: 'clm:' }
+
+describe('theoremService', () => {
+    it('merges nota definitions into the built-in environments', () => {
+        const environments = resolveTheoremEnvironments([
+            { ...BUILTIN_THEOREM_ENVIRONMENTS[1], counter: 'theorem' },
+            claim,
+        ])
+
+        expect(environments.map(env => env.name)).toEqual([...BUILTIN_THEOREM_ENVIRONMENTS.map(env => env.name), 'claim'])
+        expect(getTheoremCounter('lemma', environments)).toBe('theorem')
+        expect(getTheoremCounter('claim', environments)).toBe('theorem')
+        expect(getTheoremCounter('remark', environments)).toBe('remark')
+        // Only what differs from the built-ins is stored
+        expect(customTheoremEnvironments(environments).map(env => env.name)).toEqual(['lemma', 'claim'])
+        expect(getTheoremEnvironment('axiom', environments)).toMatchObject({ label: 'Axiom', style: 'plain' })
+    })
+
+    it('validates names, labels and shared counters', () => {
+        const environments = resolveTheoremEnvironments([claim])
+        const check = (env: TheoremEnvironment) => validateTheoremEnvironment(env, [...environments, env])
+
+        expect(validateTheoremEnvironment(environments[environments.length - 1], environments)).toBe('')
+        expect(check({ ...claim, name: 'my-claim' })).toMatch('letters only')
+        expect(check({ ...claim, name: 'align' })).toMatch('already a LaTeX environment')
+        expect(check({ ...claim, name: 'claim' })).toMatch('already defined')
+        expect(check({ ...claim, name: 'fact', label: ' ' })).toMatch('label cannot be empty')
+        expect(check({ ...claim, name: 'fact', counter: 'nothing' })).toMatch('no "nothing" environment')
+
+        // theorem -> claim -> theorem
+        const theorem = { ...environments[0], counter: 'claim' }
+        expect(validateTheoremEnvironment(theorem, environments.map(env => (env.name === 'theorem' ? theorem : env))))
+            .toMatch('circle')
+    })
+
+    it('declares used environments for LaTeX, counters first', () => {
+        const environments = resolveTheoremEnvironments([claim])
+
+        expect(theoremPreamble(environments, ['remark', 'claim'])).toEqual([
+            '\\usepackage{amsthm}',
+            '\\theoremstyle{remark}',
+            '\\newtheorem{remark}{Remark}',
+            '\\theoremstyle{plain}',
+            '\\newtheorem{theorem}{Theorem}',
+            '\\newtheorem{claim}[theorem]{Claim}',
+        ])
+        expect(theoremPreamble(environments, ['claim'], true)).toContain('\\newtheorem{theorem}{Theorem}[section]')
+
+        const doc = { type: 'doc', content: [{ type: 'theorem', attrs: { type: 'claim', content: 'x > 0' } }] }
+        expect(serializeMarkdown(doc, { theoremEnvironments: environments })).toBe([
+            '---',
+            'header-includes: |',
+            '  \\usepackage{amsthm}',
+            '  \\theoremstyle{plain}',
+            '  \\newtheorem{theorem}{Theorem}',
+            '  \\newtheorem{claim}[theorem]{Claim}',
+            '---',
+            '',
+            '\\begin{claim}',
+            'x > 0',
+            '\\end{claim}',
+            '',
+        ].join('\n'))
+    })
+})
@@ -1,7 +1,15 @@
 import type { Editor } from '@tiptap/core'
+import type { CitationEntry } from '@/features/nota/types/nota'
+import { CitationProcessor, loadCitationStyle, NUMERIC_CITATION_STYLE, toCslItem } from './csl'
+
+export interface DocumentCitationStyle {
+    id: string
+    xml: string | null
+}
 
 /**
  * Updates citation numbers in the document based on their order.
+ * Repeated citations of a reference keep the number of its first citation.
  * @param editor Tiptap editor instance
  */
 export const updateCitationNumbers = (editor: Editor) => {
@@ -9,25 +17,26 @@ export const updateCitationNumbers = (editor: Editor) => {
 
     const { doc } = editor.state
     const transactions: { pos: number; attrs: any }[] = []
-    let citationIndex = 1
+    const numbers = new Map<string, number>()
 
     // Traverse the document to find citation nodes
     doc.descendants((node, pos) => {
         if (node.type.name === 'citation') {
             const currentNumber = Number(node.attrs.citationNumber)
+            const key = node.attrs.citationKey || `#${pos}`
+            if (!numbers.has(key)) numbers.set(key, numbers.size + 1)
+            const citationNumber = numbers.get(key)
 
             // If the number doesn't match the current index, schedule an update
-            if (currentNumber !== citationIndex) {
+            if (currentNumber !== citationNumber) {
                 transactions.push({
                     pos,
                     attrs: {
                         ...node.attrs,
-                        citationNumber: citationIndex
+                        citationNumber
                     }
                 })
             }
-
-            citationIndex++
         }
         return true
     })
@@ -44,21 +53,71 @@ export const updateCitationNumbers = (editor: Editor) => {
 }
 
 /**
- * Returns the ordered list of citation keys in the document.
+ * Returns the ordered list of citation keys in the document, each key once
+ * at its first citation.
  * @param editor Tiptap editor instance
  */
 export const getOrderedCitationKeys = (editor: Editor): string[] => {
     if (!editor || !editor.state) return []
 
-    const keys: string[] = []
+    const keys = new Set<string>()
     const { doc } = editor.state
 
     doc.descendants((node) => {
         if (node.type.name === 'citation' && node.attrs.citationKey) {
-            keys.push(node.attrs.citationKey)
+            keys.add(node.attrs.citationKey)
         }
         return true
     })
 
-    return keys
+    return [...keys]
+}
+
+/**
+ * Returns the citation style of the document's bibliography block. Documents
+ * without one keep numbered citations.
+ * @param editor Tiptap editor instance
+ */
+export const getDocumentCitationStyle = (editor: Editor): DocumentCitationStyle => {
+    let style: DocumentCitationStyle = { id: NUMERIC_CITATION_STYLE, xml: null }
+    if (!editor || !editor.state) return style
+
+    editor.state.doc.descendants((node) => {
+        if (node.type.name === 'bibliography') {
+            style = { id: node.attrs.style || NUMERIC_CITATION_STYLE, xml: node.attrs.styleXml || null }
+            return false
+        }
+        return true
+    })
+
+    return style
+}
+
+const processors = new WeakMap<Editor, {
+    doc: unknown
+    citations: CitationEntry[]
+    processor: CitationProcessor
+}>()
+
+/**
+ * Returns a citation processor for the document's style, citations and
+ * citation order. It is shared by all citation views of an editor and only
+ * rebuilt when the document or the references change.
+ * @param editor Tiptap editor instance
+ * @param citations References of the nota
+ */
+export const getCitationProcessor = (editor: Editor, citations: CitationEntry[]): CitationProcessor => {
+    const cached = processors.get(editor)
+    if (cached && cached.doc === editor.state?.doc && cached.citations === citations) {
+        return cached.processor
+    }
+
+    const { id, xml } = getDocumentCitationStyle(editor)
+    const processor = new CitationProcessor(
+        loadCitationStyle(id, xml),
+        citations.map(toCslItem),
+        getOrderedCitationKeys(editor)
+    )
+    processors.set(editor, { doc: editor.state?.doc, citations, processor })
+    return processor
 }
@@ -0,0 +1,225 @@
+import type { Editor } from '@tiptap/core'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import {
+    BUILTIN_THEOREM_ENVIRONMENTS,
+    getTheoremCounter,
+    getTheoremEnvironment,
+    getTheoremEnvironments,
+    type TheoremEnvironment
+} from './theoremService'
+
+// Theorem-like blocks are referenced by their environment name, e.g. "conjecture"
+export type CrossRefKind = 'figure' | 'table' | 'equation' | 'output' | (string & {})
+
+// Numbers run through the whole document, or restart in each top-level section as "2.1"
+export type CrossRefNumbering = 'document' | 'section'
+
+// "Theorem 3" or just "3"
+export type CrossRefForm = 'full' | 'number'
+
+export interface CrossRefTarget {
+    label: string
+    kind: CrossRefKind
+    // "Theorem", or the label of the block's environment
+    name: string
+    number: string
+    // Position of the labelled block in the document
+    pos: number
+}
+
+export interface CrossRefIndex {
+    targets: Map<string, CrossRefTarget>
+    // Number of every numbered block by position, labelled or not
+    numbers: Map<number, string>
+    // Labels used by more than one block; references go to the first
+    duplicates: Set<string>
+}
+
+// Names and prefixes of theorem-like kinds come from their environment
+export const CROSS_REF_NAMES: Record<string, string> = {
+    figure: 'Figure',
+    table: 'Table',
+    equation: 'Equation',
+    output: 'Output'
+}
+
+// Suggested label prefixes, as in LaTeX
+export const CROSS_REF_PREFIXES: Record<string, string> = {
+    figure: 'fig:',
+    table: 'tab:',
+    equation: 'eq:',
+    output: 'out:'
+}
+
+export const CROSS_REF_LABEL_PATTERN = /^[A-Za-z][\w:.-]*$/
+
+interface NumberedNodeType {
+    kind: (node: ProseMirrorNode) => CrossRefKind
+    // Attribute the number is written to, so saved content and exports carry it
+    numberAttr: string
+    // Tables and code outputs are only numbered once they have a label
+    labelledOnly: boolean
+}
+
+const NUMBERED_NODES: Record<string, NumberedNodeType> = {
+    theorem: {
+        kind: node => node.attrs.type || 'theorem',
+        numberAttr: 'number',
+        labelledOnly: false
+    },
+    subfigure: { kind: () => 'figure', numberAttr: 'refNumber', labelledOnly: false },
+    math: { kind: () => 'equation', numberAttr: 'refNumber', labelledOnly: false },
+    notaTable: { kind: () => 'table', numberAttr: 'refNumber', labelledOnly: true },
+    executableCodeBlock: { kind: () => 'output', numberAttr: 'refNumber', labelledOnly: true }
+}
+
+export const isNumberedNode = (typeName: string) => typeName in NUMBERED_NODES
+
+// Letter of a subfigure within its figure: a, b, ..., z, aa, ab
+export const subfigureLetter = (index: number): string =>
+    index < 26 ? String.fromCharCode(97 + index) : subfigureLetter(Math.floor(index / 26) - 1) + subfigureLetter(index % 26)
+
+/**
+ * Number every theorem-like block, figure, equation and labelled table or
+ * code output in document order, with one counter per kind. Theorem
+ * environments that share a counter are numbered together. Subfigures with
+ * their own label are numbered after their figure ("2b").
+ */
+export function buildCrossRefIndex(
+    doc: ProseMirrorNode,
+    numbering: CrossRefNumbering = 'document',
+    environments: readonly TheoremEnvironment[] = BUILTIN_THEOREM_ENVIRONMENTS
+): CrossRefIndex {
+    const index: CrossRefIndex = { targets: new Map(), numbers: new Map(), duplicates: new Set() }
+    const counters = new Map<string, number>()
+
+    // Sections are the headings of the highest level the document uses
+    let sectionLevel = Infinity
+    if (numbering === 'section') {
+        doc.descendants(node => {
+            if (node.type.name === 'heading') sectionLevel = Math.min(sectionLevel, node.attrs.level)
+            return true
+        })
+    }
+    let section = 0
+
+    const addTarget = (label: string | null | undefined, kind: CrossRefKind, number: string, pos: number) => {
+        if (!label) return
+        if (index.targets.has(label)) {
+            index.duplicates.add(label)
+            return
+        }
+        const name = CROSS_REF_NAMES[kind] ?? getTheoremEnvironment(kind, environments).label
+        index.targets.set(label, { label, kind, name, number, pos })
+    }
+
+    doc.descendants((node, pos) => {
+        const type = node.type.name
+        if (type === 'heading' && node.attrs.level === sectionLevel) {
+            section++
+            counters.clear()
+            return false
+        }
+
+        const numbered = NUMBERED_NODES[type]
+        if (!numbered) return true
+        if (numbered.labelledOnly && !node.attrs.refLabel) return false
+
+        const kind = numbered.kind(node)
+        const counter = type === 'theorem' ? getTheoremCounter(kind, environments) : kind
+        const count = (counters.get(counter) ?? 0) + 1
+        counters.set(counter, count)
+        const number = numbering === 'section' && section > 0 ? `${section}.${count}` : String(count)
+
+        index.numbers.set(pos, number)
+        addTarget(node.attrs.refLabel, kind, number, pos)
+        if (type === 'subfigure') {
+            ;(node.attrs.subfigures || []).forEach((subfigure: { refLabel?: string }, i: number) => {
+                addTarget(subfigure.refLabel, 'figure', `${number}${subfigureLetter(i)}`, pos)
+            })
+        }
+        return false
+    })
+
+    return index
+}
+
+/**
+ * The text of a reference to a target: "Theorem 3", "Figure 2b" and
+ * "Equation (4)", or only the number
+ */
+export function formatCrossRef(target: Pick<CrossRefTarget, 'kind' | 'name' | 'number'>, form: CrossRefForm = 'full'): string {
+    const number = target.kind === 'equation' ? `(${target.number})` : target.number
+    return form === 'number' ? number : `${target.name} ${number}`
+}
+
+const indexCache = new WeakMap<ProseMirrorNode, {
+    numbering: CrossRefNumbering
+    environments: readonly TheoremEnvironment[]
+    index: CrossRefIndex
+}>()
+
+export const getCrossRefNumbering = (editor: Editor): CrossRefNumbering =>
+    (editor.storage as any).ref?.numbering === 'section' ? 'section' : 'document'
+
+// Suggested label prefix for a new label, e.g. "fig:" or "conj:"
+export const getCrossRefPrefix = (editor: Editor, kind: CrossRefKind): string =>
+    CROSS_REF_PREFIXES[kind] ?? getTheoremEnvironment(kind, getTheoremEnvironments(editor)).prefix
+
+/**
+ * The cross-reference index of the editor's current document, computed once
+ * per document state
+ */
+export function getCrossRefIndex(editor: Editor): CrossRefIndex {
+    const { doc } = editor.state
+    const numbering = getCrossRefNumbering(editor)
+    const environments = getTheoremEnvironments(editor)
+    const cached = indexCache.get(doc)
+    if (cached && cached.numbering === numbering && cached.environments === environments) return cached.index
+
+    const index = buildCrossRefIndex(doc, numbering, environments)
+    indexCache.set(doc, { numbering, environments, index })
+    return index
+}
+
+/**
+ * Write block numbers and reference texts into the document, so they follow
+ * reordering and deletion and are saved with the content for read-only views
+ * and exports. References to labels that no longer exist are marked missing.
+ * @param editor Tiptap editor instance
+ */
+export const updateCrossReferences = (editor: Editor) => {
+    if (!editor || !editor.state || editor.isDestroyed) return
+
+    const index = getCrossRefIndex(editor)
+    const updates: { pos: number; attrs: Record<string, unknown> }[] = []
+
+    editor.state.doc.descendants((node, pos) => {
+        const numbered = NUMBERED_NODES[node.type.name]
+        if (numbered) {
+            const number = index.numbers.get(pos) ?? null
+            if ((node.attrs[numbered.numberAttr] ?? null) !== number) {
+                updates.push({ pos, attrs: { ...node.attrs, [numbered.numberAttr]: number } })
+            }
+            return false
+        }
+
+        if (node.type.name === 'ref') {
+            const target = index.targets.get(node.attrs.label)
+            const text = target ? formatCrossRef(target, node.attrs.form) : '??'
+            const missing = !target
+            if (node.attrs.text !== text || node.attrs.missing !== missing) {
+                updates.push({ pos, attrs: { ...node.attrs, text, missing } })
+            }
+        }
+        return true
+    })
+
+    if (updates.length > 0) {
+        const { tr } = editor.state
+        updates.forEach(({ pos, attrs }) => tr.setNodeMarkup(pos, undefined, attrs))
+        // Numbering follows other edits and should not be undone on its own
+        tr.setMeta('addToHistory', false)
+        editor.view.dispatch(tr)
+    }
+}
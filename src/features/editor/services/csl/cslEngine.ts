@@ -0,0 +1,895 @@
+/**
+ * A CSL 1.0 processor covering the parts of the specification that common
+ * citation styles use: macros, names, dates, numbers, labels, groups,
+ * conditionals, sorting and year-suffix disambiguation. Styles are parsed
+ * with DOMParser, so this runs in the browser and in jsdom tests alike.
+ *
+ * Output is produced as HTML and as plain text at the same time, so the
+ * bibliography block can show formatting while copy and export use text.
+ */
+
+export type CslOutputFormat = 'html' | 'text'
+
+export interface CslName {
+    family?: string
+    given?: string
+    'non-dropping-particle'?: string
+    literal?: string
+}
+
+export interface CslDate {
+    'date-parts'?: (number | string)[][]
+    literal?: string
+}
+
+// A CSL-JSON item; variables follow the CSL variable names
+export interface CslItem {
+    id: string
+    type: string
+    [variable: string]: unknown
+}
+
+export interface BibliographyEntry {
+    id: string
+    html: string
+    text: string
+}
+
+interface Piece {
+    text: string
+    html: string
+}
+
+type TermForms = Partial<Record<string, [string, string]>>
+
+interface Counter {
+    called: number
+    rendered: number
+}
+
+interface RenderContext {
+    item: CslItem
+    inherited: Record<string, string>
+    citationNumber: number | null
+    yearSuffix: string
+    yearSuffixRendered: boolean
+    sorting: boolean
+    suppressed: Set<string>
+    variables: Counter
+}
+
+const EMPTY: Piece = { text: '', html: '' }
+
+const NAME_VARIABLES = ['author', 'editor', 'translator', 'container-author', 'collection-editor', 'composer', 'director', 'interviewer', 'recipient', 'reviewed-author']
+const DATE_VARIABLES = ['issued', 'accessed', 'submitted', 'event-date', 'original-date']
+
+// Options on <style>, <citation> and <bibliography> that <names> and <name> inherit
+const INHERITED_NAME_OPTIONS: Record<string, string> = {
+    'and': 'and',
+    'delimiter-precedes-et-al': 'delimiter-precedes-et-al',
+    'delimiter-precedes-last': 'delimiter-precedes-last',
+    'et-al-min': 'et-al-min',
+    'et-al-use-first': 'et-al-use-first',
+    'initialize': 'initialize',
+    'initialize-with': 'initialize-with',
+    'name-as-sort-order': 'name-as-sort-order',
+    'sort-separator': 'sort-separator',
+    'name-form': 'form',
+    'name-delimiter': 'delimiter',
+    'names-delimiter': 'names-delimiter'
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const SHORT_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'Jun.', 'Jul.', 'Aug.', 'Sep.', 'Oct.', 'Nov.', 'Dec.']
+
+const EN_US_TERMS: Record<string, TermForms> = {
+    'and': { long: ['and', 'and'], symbol: ['&', '&'] },
+    'et-al': { long: ['et al.', 'et al.'] },
+    'and others': { long: ['and others', 'and others'] },
+    'accessed': { long: ['accessed', 'accessed'] },
+    'available at': { long: ['available at', 'available at'] },
+    'from': { long: ['from', 'from'] },
+    'in': { long: ['in', 'in'] },
+    'in press': { long: ['in press', 'in press'] },
+    'no date': { long: ['no date', 'no date'], short: ['n.d.', 'n.d.'] },
+    'online': { long: ['online', 'online'] },
+    'retrieved': { long: ['retrieved', 'retrieved'] },
+    'editor': { long: ['editor', 'editors'], short: ['ed.', 'eds.'], verb: ['edited by', 'edited by'] },
+    'translator': { long: ['translator', 'translators'], short: ['trans.', 'trans.'], verb: ['translated by', 'translated by'] },
+    'page': { long: ['page', 'pages'], short: ['p.', 'pp.'] },
+    'volume': { long: ['volume', 'volumes'], short: ['vol.', 'vols.'] },
+    'issue': { long: ['issue', 'issues'], short: ['no.', 'nos.'] },
+    'number': { long: ['number', 'numbers'], short: ['no.', 'nos.'] },
+    'edition': { long: ['edition', 'editions'], short: ['ed.', 'eds.'] },
+    'chapter': { long: ['chapter', 'chapters'], short: ['chap.', 'chaps.'] },
+    'open-quote': { long: ['“', '“'] },
+    'close-quote': { long: ['”', '”'] },
+    'open-inner-quote': { long: ['‘', '‘'] },
+    'close-inner-quote': { long: ['’', '’'] },
+    'page-range-delimiter': { long: ['–', '–'] },
+    ...Object.fromEntries(MONTHS.map((month, index) => [
+        `month-${String(index + 1).padStart(2, '0')}`,
+        { long: [month, month], short: [SHORT_MONTHS[index], SHORT_MONTHS[index]] }
+    ]))
+}
+
+// Words title case leaves in lower case unless they start the title
+const STOP_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'but', 'by', 'down', 'for', 'from', 'in', 'into', 'nor', 'of', 'on', 'onto', 'or', 'over', 'so', 'the', 'till', 'to', 'up', 'via', 'with', 'yet'])
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const literal = (text: string): Piece => ({ text, html: escapeHtml(text) })
+
+const childElements = (element: Element, name?: string): Element[] =>
+    Array.from(element.children).filter(child => !name || child.localName === name)
+
+const firstChild = (element: Element | null | undefined, name: string): Element | null =>
+    element ? childElements(element, name)[0] ?? null : null
+
+const isNumericValue = (value: string) => /^\s*\d+\s*([-–,&]\s*\d+\s*)*$/.test(value)
+
+/**
+ * Join two pieces, leaving out a period that would follow other end
+ * punctuation and, where the locale asks for it, moving a period or comma
+ * inside closing quotes
+ */
+function append(head: Piece, tail: Piece, punctuationInQuote = true): Piece {
+    if (!head.text) return tail
+    if (!tail.text) return head
+
+    let next = tail
+    if (next.text[0] === '.' && next.html[0] === '.' && /[.!?][”’]?$/.test(head.text)) {
+        next = { text: next.text.slice(1), html: next.html.slice(1) }
+    }
+    let previous = head
+    if (
+        punctuationInQuote &&
+        /^[.,]/.test(next.text) && next.html[0] === next.text[0] &&
+        /”$/.test(previous.text) && /”$/.test(previous.html)
+    ) {
+        const mark = next.text[0]
+        previous = {
+            text: previous.text.slice(0, -1) + mark + '”',
+            html: previous.html.slice(0, -1) + mark + '”'
+        }
+        next = { text: next.text.slice(1), html: next.html.slice(1) }
+    }
+    return { text: previous.text + next.text, html: previous.html + next.html }
+}
+
+function join(pieces: Piece[], delimiter: string, punctuationInQuote = true): Piece {
+    return pieces
+        .filter(piece => piece.text)
+        .reduce<Piece>((joined, piece) => joined.text
+            ? append(append(joined, literal(delimiter), punctuationInQuote), piece, punctuationInQuote)
+            : piece, EMPTY)
+}
+
+// Transform the text of a piece, leaving HTML tags and entities alone
+function mapText(piece: Piece, transform: (text: string, atStart: boolean) => string): Piece {
+    let atStart = true
+    const html = piece.html
+        .split(/(<[^>]*>|&[#\w]+;)/)
+        .map((part, index) => {
+            if (index % 2 === 1 || !part) return part
+            const mapped = transform(part, atStart)
+            atStart = false
+            return mapped
+        })
+        .join('')
+    return { text: transform(piece.text, true), html }
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+
+function applyTextCase(text: string, textCase: string, atStart: boolean): string {
+    switch (textCase) {
+        case 'lowercase':
+            return text.toLowerCase()
+        case 'uppercase':
+            return text.toUpperCase()
+        case 'capitalize-first':
+            return atStart ? text.replace(/^(\W*)(\w)/, (_, lead, letter) => lead + letter.toUpperCase()) : text
+        case 'capitalize-all':
+            return text.replace(/\b(\w)/g, letter => letter.toUpperCase())
+        case 'title': {
+            let first = atStart
+            return text.replace(/[\w'’]+/g, word => {
+                const isFirst = first
+                first = false
+                if (word !== word.toLowerCase()) return word
+                return !isFirst && STOP_WORDS.has(word) ? word : capitalize(word)
+            })
+        }
+        case 'sentence': {
+            const letters = text.replace(/[^A-Za-z]/g, '')
+            const base = letters && letters === letters.toUpperCase() ? text.toLowerCase() : text
+            return atStart ? base.replace(/^(\W*)(\w)/, (_, lead, letter) => lead + letter.toUpperCase()) : base
+        }
+        default:
+            return text
+    }
+}
+
+function toRoman(value: number): string {
+    const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']]
+    let rest = value
+    return numerals.reduce((roman, [amount, numeral]) => {
+        while (rest >= amount) {
+            roman += numeral
+            rest -= amount
+        }
+        return roman
+    }, '')
+}
+
+function toOrdinal(value: number): string {
+    const lastTwo = value % 100
+    if (lastTwo >= 11 && lastTwo <= 13) return `${value}th`
+    return `${value}${['th', 'st', 'nd', 'rd'][value % 10] ?? 'th'}`
+}
+
+// Initials of given names; hyphenated names keep their hyphen ("J.-P.")
+function initialize(given: string, initializeWith: string): string {
+    const mark = initializeWith.trimEnd()
+    const spacer = initializeWith.endsWith(' ') ? ' ' : ''
+    return given
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => word.split('-').filter(Boolean).map(part => part.charAt(0).toUpperCase() + mark).join('-'))
+        .join(spacer)
+}
+
+/**
+ * A parsed CSL style
+ */
+export class CslStyle {
+    readonly id: string
+    readonly title: string
+    readonly citation: Element
+    readonly bibliography: Element | null
+    readonly punctuationInQuote: boolean
+    readonly usesYearSuffix: boolean
+    private readonly root: Element
+    private readonly macros = new Map<string, Element>()
+    private readonly terms: Record<string, TermForms>
+
+    private constructor(root: Element) {
+        this.root = root
+        const info = firstChild(root, 'info')
+        this.id = firstChild(info, 'id')?.textContent?.trim() || ''
+        this.title = firstChild(info, 'title')?.textContent?.trim() || 'Untitled style'
+
+        const citation = firstChild(root, 'citation')
+        if (!citation || !firstChild(citation, 'layout')) {
+            const parent = childElements(info ?? root, 'link').find(link => link.getAttribute('rel') === 'independent-parent')
+            throw new Error(parent
+                ? `"${this.title}" is a dependent style; add its parent style (${parent.getAttribute('href')}) instead`
+                : `"${this.title}" has no citation layout`)
+        }
+        this.citation = citation
+        this.bibliography = firstChild(root, 'bibliography')
+
+        childElements(root, 'macro').forEach(macro => {
+            const name = macro.getAttribute('name')
+            if (name) this.macros.set(name, macro)
+        })
+
+        this.terms = { ...EN_US_TERMS }
+        let punctuationInQuote = true
+        childElements(root, 'locale')
+            .filter(locale => !locale.getAttribute('xml:lang') || locale.getAttribute('xml:lang')!.startsWith('en'))
+            .forEach(locale => {
+                const options = firstChild(locale, 'style-options')
+                if (options?.hasAttribute('punctuation-in-quote')) {
+                    punctuationInQuote = options.getAttribute('punctuation-in-quote') === 'true'
+                }
+                childElements(firstChild(locale, 'terms') ?? locale, 'term').forEach(term => this.defineTerm(term))
+            })
+        this.punctuationInQuote = punctuationInQuote
+        this.usesYearSuffix = Array.from(root.getElementsByTagName('text'))
+            .some(text => text.getAttribute('variable') === 'year-suffix')
+    }
+
+    /**
+     * Parse CSL XML; throws when the XML is malformed or not a usable style
+     */
+    static parse(xml: string): CslStyle {
+        const doc = new DOMParser().parseFromString(xml.trim(), 'application/xml')
+        if (doc.getElementsByTagName('parsererror').length > 0) {
+            throw new Error('The style is not valid XML')
+        }
+        const root = doc.documentElement
+        if (root.localName !== 'style') {
+            throw new Error('Not a CSL style: the root element must be <style>')
+        }
+        return new CslStyle(root)
+    }
+
+    /**
+     * Whether in-text citations are numbers rather than author and date
+     */
+    get isNumeric(): boolean {
+        const category = Array.from(this.root.getElementsByTagName('category'))
+            .find(element => element.hasAttribute('citation-format'))
+        if (category) return category.getAttribute('citation-format') === 'numeric'
+        return Array.from(this.citation.getElementsByTagName('text'))
+            .some(text => text.getAttribute('variable') === 'citation-number')
+    }
+
+    get hangingIndent(): boolean {
+        return this.bibliography?.getAttribute('hanging-indent') === 'true'
+    }
+
+    get secondFieldAlign(): boolean {
+        return !!this.bibliography?.getAttribute('second-field-align')
+    }
+
+    get disambiguateWithYearSuffix(): boolean {
+        return this.citation.getAttribute('disambiguate-add-year-suffix') === 'true'
+    }
+
+    macro(name: string): Element | null {
+        return this.macros.get(name) ?? null
+    }
+
+    term(name: string, form = 'long', plural = false): string {
+        const forms = this.terms[name]
+        if (!forms) return ''
+        const fallbacks: Record<string, string[]> = {
+            'symbol': ['symbol', 'short', 'long'],
+            'verb-short': ['verb-short', 'verb', 'long'],
+            'verb': ['verb', 'long'],
+            'short': ['short', 'long'],
+            'long': ['long']
+        }
+        for (const candidate of fallbacks[form] ?? ['long']) {
+            const term = forms[candidate]
+            if (term) return term[plural ? 1 : 0]
+        }
+        return ''
+    }
+
+    // Name options a <names> element inherits from the given context
+    inheritedNameOptions(context: Element): Record<string, string> {
+        const options: Record<string, string> = {}
+        for (const element of [this.root, context]) {
+            for (const [attribute, option] of Object.entries(INHERITED_NAME_OPTIONS)) {
+                const value = element.getAttribute(attribute)
+                if (value !== null) options[option] = value
+            }
+        }
+        return options
+    }
+
+    private defineTerm(term: Element) {
+        const name = term.getAttribute('name')
+        if (!name) return
+        const single = firstChild(term, 'single')?.textContent ?? term.textContent ?? ''
+        const multiple = firstChild(term, 'multiple')?.textContent ?? single
+        const form = term.getAttribute('form') || 'long'
+        this.terms[name] = { ...this.terms[name], [form]: [single, multiple] }
+    }
+}
+
+/**
+ * Renders citations and a bibliography for a set of items in one style.
+ * Items are numbered in the order they are first cited, followed by items
+ * that are not cited; styles that sort their bibliography are numbered in
+ * bibliography order instead.
+ */
+export class CitationProcessor {
+    private readonly items = new Map<string, CslItem>()
+    private readonly numbers = new Map<string, number>()
+    private readonly yearSuffixes = new Map<string, string>()
+    private readonly ordered: CslItem[]
+
+    constructor(readonly style: CslStyle, items: CslItem[], citedIds: string[] = []) {
+        items.forEach(item => this.items.set(item.id, item))
+
+        const cited = [...new Set(citedIds)]
+        const known = cited.filter(id => this.items.has(id))
+        const initial = [...new Set([...known, ...this.items.keys()])].map(id => this.items.get(id)!)
+        initial.forEach((item, index) => this.numbers.set(item.id, index + 1))
+
+        const sort = firstChild(style.bibliography, 'sort')
+        this.ordered = sort ? this.sortItems(initial, sort, style.bibliography!) : initial
+        this.ordered.forEach((item, index) => this.numbers.set(item.id, index + 1))
+        // Keys without data still get a number after the known items
+        cited.filter(id => !this.items.has(id)).forEach((id, index) => this.numbers.set(id, this.ordered.length + index + 1))
+
+        if (style.disambiguateWithYearSuffix) this.assignYearSuffixes()
+    }
+
+    citationNumber(id: string): number | null {
+        return this.numbers.get(id) ?? null
+    }
+
+    hasItem(id: string): boolean {
+        return this.items.has(id)
+    }
+
+    /**
+     * The in-text citation of one item, or '' for an unknown id
+     */
+    citation(id: string, format: CslOutputFormat = 'html'): string {
+        const item = this.items.get(id)
+        if (!item) return ''
+        return this.renderLayout(item, this.style.citation)[format]
+    }
+
+    /**
+     * Every item formatted for the bibliography, in bibliography order
+     */
+    bibliography(): BibliographyEntry[] {
+        const context = this.style.bibliography ?? this.style.citation
+        return this.ordered.map(item => ({ id: item.id, ...this.renderLayout(item, context) }))
+    }
+
+    private context(item: CslItem, element: Element, sorting = false): RenderContext {
+        return {
+            item,
+            inherited: this.style.inheritedNameOptions(element),
+            citationNumber: this.numbers.get(item.id) ?? null,
+            yearSuffix: this.yearSuffixes.get(item.id) ?? '',
+            yearSuffixRendered: false,
+            sorting,
+            suppressed: new Set(),
+            variables: { called: 0, rendered: 0 }
+        }
+    }
+
+    private renderLayout(item: CslItem, element: Element): Piece {
+        const layout = firstChild(element, 'layout')
+        if (!layout) return EMPTY
+        const context = this.context(item, element)
+        const body = this.renderChildren(layout, context)
+        return this.format(body, layout)
+    }
+
+    private assignYearSuffixes() {
+        const groups = new Map<string, string[]>()
+        for (const item of this.ordered) {
+            const key = this.renderLayout(item, this.style.citation).text
+            groups.set(key, [...(groups.get(key) ?? []), item.id])
+        }
+        for (const ids of groups.values()) {
+            if (ids.length < 2) continue
+            ids.forEach((id, index) => this.yearSuffixes.set(id, String.fromCharCode(97 + (index % 26))))
+        }
+    }
+
+    private sortItems(items: CslItem[], sort: Element, context: Element): CslItem[] {
+        const keys = childElements(sort, 'key')
+        const values = new Map(items.map(item => [item.id, keys.map(key => this.sortValue(item, key, context))]))
+        return [...items].sort((a, b) => {
+            const aValues = values.get(a.id)!
+            const bValues = values.get(b.id)!
+            for (const [index, key] of keys.entries()) {
+                const aValue = aValues[index]
+                const bValue = bValues[index]
+                if (aValue === bValue) continue
+                // Items without a value go last either way
+                if (!aValue) return 1
+                if (!bValue) return -1
+                const order = aValue.localeCompare(bValue)
+                return key.getAttribute('sort') === 'descending' ? -order : order
+            }
+            return 0
+        })
+    }
+
+    private sortValue(item: CslItem, key: Element, element: Element): string {
+        const context = this.context(item, element, true)
+        const macro = key.getAttribute('macro')
+        if (macro) {
+            const definition = this.style.macro(macro)
+            return definition ? this.renderChildren(definition, context).text.toLowerCase() : ''
+        }
+        const variable = key.getAttribute('variable') || ''
+        if (NAME_VARIABLES.includes(variable)) {
+            const names = (item[variable] as CslName[] | undefined) ?? []
+            return names.map(name => name.literal || [name['non-dropping-particle'], name.family, name.given].filter(Boolean).join(' ')).join(' ').toLowerCase()
+        }
+        if (DATE_VARIABLES.includes(variable)) {
+            const parts = this.dateParts(item, variable)
+            return parts ? parts.map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0')).join('') : ''
+        }
+        if (variable === 'citation-number') {
+            return String(context.citationNumber ?? '').padStart(8, '0')
+        }
+        return this.variableValue(context, variable).toLowerCase()
+    }
+
+    private renderChildren(element: Element, context: RenderContext, delimiter = ''): Piece {
+        return join(this.renderEach(element, context), delimiter, this.style.punctuationInQuote)
+    }
+
+    // The children of the matching branch of a <choose> take the place of the
+    // <choose>, so the enclosing delimiter goes between them
+    private renderEach(element: Element, context: RenderContext): Piece[] {
+        return childElements(element).flatMap(child => {
+            if (child.localName !== 'choose') return [this.render(child, context)]
+            const branch = childElements(child).find(candidate =>
+                candidate.localName === 'else' || this.evaluate(candidate, context))
+            return branch ? this.renderEach(branch, context) : []
+        })
+    }
+
+    private render(element: Element, context: RenderContext): Piece {
+        switch (element.localName) {
+            case 'text':
+                return this.renderText(element, context)
+            case 'number':
+                return this.renderNumber(element, context)
+            case 'label':
+                return this.renderLabel(element, context, element.getAttribute('variable') || '')
+            case 'names':
+                return this.renderNames(element, context)
+            case 'date':
+                return this.renderDate(element, context)
+            case 'group':
+                return this.renderGroup(element, context)
+            default:
+                return EMPTY
+        }
+    }
+
+    private renderText(element: Element, context: RenderContext): Piece {
+        const variable = element.getAttribute('variable')
+        if (variable) {
+            if (context.suppressed.has(variable)) return EMPTY
+            context.variables.called++
+            if (variable === 'year-suffix') context.yearSuffixRendered = true
+            const value = this.variableValue(context, variable, element.getAttribute('form') || 'long')
+            if (!value) return EMPTY
+            context.variables.rendered++
+            return this.format(literal(value), element)
+        }
+
+        const macro = element.getAttribute('macro')
+        if (macro) {
+            const definition = this.style.macro(macro)
+            return definition ? this.format(this.renderChildren(definition, context), element) : EMPTY
+        }
+
+        const term = element.getAttribute('term')
+        if (term) {
+            const value = this.style.term(term, element.getAttribute('form') || 'long', element.getAttribute('plural') === 'true')
+            return this.format(literal(value), element)
+        }
+
+        return this.format(literal(element.getAttribute('value') || ''), element)
+    }
+
+    private renderNumber(element: Element, context: RenderContext): Piece {
+        const variable = element.getAttribute('variable') || ''
+        if (context.suppressed.has(variable)) return EMPTY
+        context.variables.called++
+        const value = this.variableValue(context, variable)
+        if (!value) return EMPTY
+        context.variables.rendered++
+
+        const number = Number(value)
+        let output = value
+        if (/^\d+$/.test(value.trim())) {
+            const form = element.getAttribute('form')
+            if (form === 'ordinal' || form === 'long-ordinal') output = toOrdinal(number)
+            else if (form === 'roman') output = toRoman(number)
+        }
+        return this.format(literal(output), element)
+    }
+
+    private renderLabel(element: Element, context: RenderContext, variable: string, count?: number): Piece {
+        if (!variable || variable === 'locator') return EMPTY
+        let plural: boolean
+        if (count !== undefined) {
+            plural = count > 1
+        } else {
+            const value = this.variableValue(context, variable)
+            if (!value) return EMPTY
+            plural = /\d\s*[-–,&]\s*\d/.test(value)
+        }
+        const pluralAttribute = element.getAttribute('plural')
+        if (pluralAttribute === 'always') plural = true
+        if (pluralAttribute === 'never') plural = false
+
+        const term = this.style.term(variable === 'page' ? 'page' : variable, element.getAttribute('form') || 'long', plural)
+        return this.format(literal(term), element)
+    }
+
+    private renderNames(
+        element: Element,
+        context: RenderContext,
+        inheritedParts?: { name: Element | null; etAl: Element | null; label: Element | null }
+    ): Piece {
+        const variables = (element.getAttribute('variable') || '').split(/\s+/).filter(Boolean)
+        const nameElement = firstChild(element, 'name') ?? inheritedParts?.name ?? null
+        const etAlElement = firstChild(element, 'et-al') ?? inheritedParts?.etAl ?? null
+        const labelElement = firstChild(element, 'label') ?? inheritedParts?.label ?? null
+        const labelFirst = !!labelElement && !!nameElement &&
+            childElements(element).indexOf(labelElement) >= 0 &&
+            childElements(element).indexOf(labelElement) < childElements(element).indexOf(nameElement)
+
+        const pieces: Piece[] = []
+        for (const variable of variables) {
+            if (context.suppressed.has(variable)) continue
+            context.variables.called++
+            const names = (context.item[variable] as CslName[] | undefined) ?? []
+            if (!names.length) continue
+            context.variables.rendered++
+
+            const list = this.renderNameList(names, nameElement, etAlElement, context)
+            if (!labelElement) {
+                pieces.push(list)
+                continue
+            }
+            const label = this.renderLabel(labelElement, context, variable, names.length)
+            pieces.push(labelFirst ? append(label, list) : append(list, label))
+        }
+
+        let output = join(pieces, element.getAttribute('delimiter') ?? context.inherited['names-delimiter'] ?? '', this.style.punctuationInQuote)
+
+        const substitute = firstChild(element, 'substitute')
+        if (!output.text && substitute) {
+            for (const child of childElements(substitute)) {
+                const piece = child.localName === 'names'
+                    ? this.renderNames(child, context, { name: nameElement, etAl: etAlElement, label: labelElement })
+                    : this.render(child, context)
+                if (!piece.text) continue
+                // Substituted variables are not repeated later in the entry
+                for (const variable of (child.getAttribute('variable') || '').split(/\s+/).filter(Boolean)) {
+                    context.suppressed.add(variable)
+                }
+                output = piece
+                break
+            }
+        }
+
+        return this.format(output, element)
+    }
+
+    private renderNameList(names: CslName[], nameElement: Element | null, etAlElement: Element | null, context: RenderContext): Piece {
+        const options: Record<string, string> = { ...context.inherited }
+        if (nameElement) {
+            Array.from(nameElement.attributes).forEach(attribute => { options[attribute.name] = attribute.value })
+        }
+        const delimiter = options.delimiter ?? ', '
+        const etAlMin = Number(options['et-al-min']) || 0
+        const etAlUseFirst = Number(options['et-al-use-first']) || 0
+        const truncated = !context.sorting && etAlMin > 0 && etAlUseFirst > 0 && names.length >= etAlMin
+        const shown = truncated ? names.slice(0, etAlUseFirst) : names
+
+        if (options.form === 'count') return literal(String(shown.length))
+
+        const inverted = shown.map((_, index) =>
+            context.sorting || options['name-as-sort-order'] === 'all' || (options['name-as-sort-order'] === 'first' && index === 0))
+        const rendered = shown.map((name, index) => this.renderName(name, options, inverted[index], nameElement))
+
+        const andTerm = truncated ? '' : options.and === 'symbol' ? '&' : options.and === 'text' ? this.style.term('and') : ''
+        let output = rendered[0]
+        for (let index = 1; index < rendered.length; index++) {
+            let separator = delimiter
+            if (index === rendered.length - 1 && andTerm) {
+                const precedes = options['delimiter-precedes-last'] || 'contextual'
+                const useDelimiter = precedes === 'always' ||
+                    (precedes === 'contextual' && rendered.length >= 3) ||
+                    (precedes === 'after-inverted-name' && inverted[index - 1])
+                separator = `${useDelimiter ? delimiter : ' '}${andTerm} `
+            }
+            output = append(append(output, literal(separator)), rendered[index])
+        }
+
+        if (truncated) {
+            const precedes = options['delimiter-precedes-et-al'] || 'contextual'
+            const useDelimiter = precedes === 'always' ||
+                (precedes === 'contextual' && shown.length >= 2) ||
+                (precedes === 'after-inverted-name' && inverted[shown.length - 1])
+            const term = this.style.term(etAlElement?.getAttribute('term') || 'et-al')
+            const etAl = etAlElement ? this.format(literal(term), etAlElement) : literal(term)
+            output = append(append(output, literal(useDelimiter ? delimiter : ' ')), etAl)
+        }
+
+        return nameElement ? this.format(output, nameElement) : output
+    }
+
+    private renderName(name: CslName, options: Record<string, string>, inverted: boolean, nameElement: Element | null): Piece {
+        if (name.literal) return literal(name.literal)
+
+        const parts = nameElement ? childElements(nameElement, 'name-part') : []
+        const partElement = (part: string) => parts.find(element => element.getAttribute('name') === part)
+        const formatPart = (text: string, part: string) => {
+            const element = partElement(part)
+            return element ? this.format(literal(text), element) : literal(text)
+        }
+
+        const familyText = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ')
+        const family = formatPart(familyText, 'family')
+        if (options.form === 'short' || !name.given) return family
+
+        const givenText = options['initialize-with'] !== undefined && options.initialize !== 'false'
+            ? initialize(name.given, options['initialize-with'])
+            : name.given
+        const given = formatPart(givenText, 'given')
+
+        return inverted
+            ? append(append(family, literal(options['sort-separator'] ?? ', ')), given)
+            : append(append(given, literal(' ')), family)
+    }
+
+    private renderDate(element: Element, context: RenderContext): Piece {
+        const variable = element.getAttribute('variable') || ''
+        if (context.suppressed.has(variable)) return EMPTY
+        context.variables.called++
+
+        const date = context.item[variable] as CslDate | undefined
+        if (date?.literal) {
+            context.variables.rendered++
+            return this.format(literal(date.literal), element)
+        }
+        const parts = this.dateParts(context.item, variable)
+        if (!parts) return EMPTY
+        context.variables.rendered++
+
+        const [year, month, day] = parts
+        const form = element.getAttribute('form')
+        let output: Piece
+        if (form) {
+            // Localized en-US date formats
+            const precision = element.getAttribute('date-parts') || 'year-month-day'
+            const withMonth = month && precision !== 'year'
+            const withDay = withMonth && day && precision === 'year-month-day'
+            const yearText = this.yearWithSuffix(String(year), context)
+            const text = form === 'numeric'
+                ? [withMonth ? month : '', withDay ? day : '', yearText].filter(Boolean).join('/')
+                : `${withMonth ? `${MONTHS[month - 1]} ` : ''}${withDay ? `${day}, ` : ''}${yearText}`
+            output = literal(text)
+        } else {
+            const rendered = childElements(element, 'date-part').map(part => {
+                const name = part.getAttribute('name')
+                const partForm = part.getAttribute('form')
+                let text = ''
+                if (name === 'year' && year) {
+                    text = this.yearWithSuffix(partForm === 'short' ? String(year).slice(-2) : String(year), context)
+                } else if (name === 'month' && month) {
+                    text = partForm === 'numeric' ? String(month)
+                        : partForm === 'numeric-leading-zeros' ? String(month).padStart(2, '0')
+                        : this.style.term(`month-${String(month).padStart(2, '0')}`, partForm === 'short' ? 'short' : 'long')
+                    if (part.getAttribute('strip-periods') === 'true') text = text.replace(/\./g, '')
+                } else if (name === 'day' && day) {
+                    text = partForm === 'numeric-leading-zeros' ? String(day).padStart(2, '0')
+                        : partForm === 'ordinal' ? toOrdinal(day)
+                        : String(day)
+                }
+                return text ? this.format(literal(text), part) : EMPTY
+            })
+            output = join(rendered, element.getAttribute('delimiter') || '', this.style.punctuationInQuote)
+        }
+        return this.format(output, element)
+    }
+
+    // The first rendered year carries the disambiguating suffix unless the style places it itself
+    private yearWithSuffix(year: string, context: RenderContext): string {
+        if (!context.yearSuffix || this.style.usesYearSuffix || context.yearSuffixRendered) return year
+        context.yearSuffixRendered = true
+        return year + context.yearSuffix
+    }
+
+    private renderGroup(element: Element, context: RenderContext): Piece {
+        const before = { ...context.variables }
+        const output = this.renderChildren(element, context, element.getAttribute('delimiter') || '')
+        const called = context.variables.called - before.called
+        const rendered = context.variables.rendered - before.rendered
+        // A group whose variables are all empty is left out, terms and all
+        if (called > 0 && rendered === 0) return EMPTY
+        return this.format(output, element)
+    }
+
+    private evaluate(condition: Element, context: RenderContext): boolean {
+        const results: boolean[] = []
+        for (const attribute of Array.from(condition.attributes)) {
+            const values = attribute.value.split(/\s+/).filter(Boolean)
+            switch (attribute.name) {
+                case 'type':
+                    results.push(...values.map(type => context.item.type === type))
+                    break
+                case 'variable':
+                    results.push(...values.map(variable => this.hasVariable(context, variable)))
+                    break
+                case 'is-numeric':
+                    results.push(...values.map(variable => isNumericValue(this.variableValue(context, variable))))
+                    break
+                case 'position':
+                    // Each citation is rendered on its own, so it is always a first cite
+                    results.push(...values.map(position => position === 'first'))
+                    break
+                case 'is-uncertain-date':
+                case 'locator':
+                case 'disambiguate':
+                    results.push(...values.map(() => false))
+                    break
+            }
+        }
+        switch (condition.getAttribute('match') || 'all') {
+            case 'any':
+                return results.some(Boolean)
+            case 'none':
+                return !results.some(Boolean)
+            default:
+                return results.length > 0 && results.every(Boolean)
+        }
+    }
+
+    private hasVariable(context: RenderContext, variable: string): boolean {
+        if (NAME_VARIABLES.includes(variable)) return ((context.item[variable] as CslName[] | undefined) ?? []).length > 0
+        if (DATE_VARIABLES.includes(variable)) {
+            return !!this.dateParts(context.item, variable) || !!(context.item[variable] as CslDate | undefined)?.literal
+        }
+        return !!this.variableValue(context, variable)
+    }
+
+    private dateParts(item: CslItem, variable: string): [number, number, number] | null {
+        const parts = (item[variable] as CslDate | undefined)?.['date-parts']?.[0]
+        const year = Number(parts?.[0])
+        if (!parts || !year) return null
+        return [year, Number(parts[1]) || 0, Number(parts[2]) || 0]
+    }
+
+    private variableValue(context: RenderContext, variable: string, form = 'long'): string {
+        if (variable === 'citation-number') return context.citationNumber ? String(context.citationNumber) : ''
+        if (variable === 'year-suffix') return context.yearSuffix
+        const value = (form === 'short' && context.item[`${variable}-short`]) || context.item[variable]
+        if (value === undefined || value === null || typeof value === 'object') return ''
+        const text = String(value).trim()
+        // Page ranges take an en dash
+        if (variable === 'page') {
+            return text.replace(/(\d)\s*-+\s*(\d)/g, `$1${this.style.term('page-range-delimiter')}$2`)
+        }
+        return text
+    }
+
+    // Formatting, quotes and affixes of an element; affixes stay unformatted
+    private format(piece: Piece, element: Element): Piece {
+        if (!piece.text) return EMPTY
+        let output = piece
+
+        const textCase = element.getAttribute('text-case')
+        if (textCase) output = mapText(output, (text, atStart) => applyTextCase(text, textCase, atStart))
+        if (element.getAttribute('strip-periods') === 'true') output = mapText(output, text => text.replace(/\./g, ''))
+
+        if (element.getAttribute('quotes') === 'true') {
+            const open = this.style.term('open-quote')
+            const close = this.style.term('close-quote')
+            output = { text: open + output.text + close, html: open + output.html + close }
+        }
+
+        const wrap = (tag: string, attributes = '') => {
+            output = { text: output.text, html: `<${tag}${attributes}>${output.html}</${tag}>` }
+        }
+        const fontStyle = element.getAttribute('font-style')
+        if (fontStyle === 'italic' || fontStyle === 'oblique') wrap('i')
+        else if (fontStyle === 'normal') wrap('span', ' style="font-style:normal;"')
+        if (element.getAttribute('font-weight') === 'bold') wrap('b')
+        if (element.getAttribute('font-variant') === 'small-caps') wrap('span', ' style="font-variant:small-caps;"')
+        if (element.getAttribute('text-decoration') === 'underline') wrap('u')
+        const verticalAlign = element.getAttribute('vertical-align')
+        if (verticalAlign === 'sup') wrap('sup')
+        else if (verticalAlign === 'sub') wrap('sub')
+
+        output = append(
+            append(literal(element.getAttribute('prefix') || ''), output, this.style.punctuationInQuote),
+            literal(element.getAttribute('suffix') || ''),
+            this.style.punctuationInQuote
+        )
+
+        const display = element.getAttribute('display')
+        if (display) {
+            output = {
+                text: display === 'left-margin' ? `${output.text} ` : output.text,
+                html: `<div class="csl-${display}">${output.html}</div>`
+            }
+        }
+        return output
+    }
+}
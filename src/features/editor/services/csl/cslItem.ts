@@ -0,0 +1,69 @@
+import type { CitationEntry } from '@/features/nota/types/nota'
+import type { CslItem, CslName } from './cslEngine'
+
+// Lower-case words before a family name belong to it ("van Gogh")
+const PARTICLE = /^(van|von|der|den|de|del|della|di|da|du|la|le|ten|ter|dos|das|bin|al)$/
+
+/**
+ * Split an author as stored on a citation ("Ada Lovelace", "Lovelace, Ada",
+ * "{World Health Organization}" or a CSL name object) into CSL name parts
+ */
+export function parseName(author: string | CslName): CslName {
+    if (typeof author !== 'string') return author
+
+    const name = author.trim()
+    const braced = name.match(/^\{(.+)\}$/)
+    if (braced) return { literal: braced[1] }
+
+    if (name.includes(',')) {
+        const [family, ...given] = name.split(',')
+        return { family: family.trim(), given: given.join(',').trim() || undefined }
+    }
+
+    const words = name.split(/\s+/).filter(Boolean)
+    if (words.length < 2) return { family: name }
+
+    let start = words.length - 1
+    while (start > 1 && PARTICLE.test(words[start - 1])) start--
+    const family = words.slice(start)
+    const particles = family.length > 1 ? family.slice(0, -1).join(' ') : undefined
+    return {
+        given: words.slice(0, start).join(' '),
+        family: family[family.length - 1],
+        ...(particles ? { 'non-dropping-particle': particles } : {})
+    }
+}
+
+// References do not record their type, so it is inferred from their fields
+function inferType(entry: CitationEntry): string {
+    if (entry.journal) return 'article-journal'
+    if (entry.publisher) return 'book'
+    if (entry.url && !entry.doi) return 'webpage'
+    return 'article'
+}
+
+/**
+ * A nota citation as a CSL-JSON item, identified by its citation key
+ */
+export function toCslItem(entry: CitationEntry): CslItem {
+    const year = String(entry.year ?? '').trim()
+    const authors = ((entry.authors as (string | CslName)[] | undefined) ?? [])
+        .filter(author => typeof author !== 'string' || author.trim())
+        .map(parseName)
+
+    return {
+        id: entry.key,
+        type: inferType(entry),
+        'citation-key': entry.key,
+        title: entry.title || undefined,
+        author: authors,
+        issued: /^\d{1,4}$/.test(year) ? { 'date-parts': [[Number(year)]] } : year ? { literal: year } : undefined,
+        'container-title': entry.journal || undefined,
+        volume: entry.volume || undefined,
+        issue: entry.number || undefined,
+        page: entry.pages || undefined,
+        publisher: entry.publisher || undefined,
+        DOI: entry.doi || undefined,
+        URL: entry.url || undefined
+    }
+}
@@ -0,0 +1,86 @@
+import { logger } from '@/services/logger'
+import { CslStyle } from './cslEngine'
+import apa from './styles/apa.csl?raw'
+import mla from './styles/mla.csl?raw'
+import chicago from './styles/chicago.csl?raw'
+import harvard from './styles/harvard.csl?raw'
+import ieee from './styles/ieee.csl?raw'
+import nature from './styles/nature.csl?raw'
+import acm from './styles/acm.csl?raw'
+import vancouver from './styles/vancouver.csl?raw'
+
+export interface CitationStyleOption {
+    id: string
+    label: string
+    numeric: boolean
+}
+
+// A CSL file added by the user; `id` is prefixed with `custom:`
+export interface CustomCitationStyle {
+    id: string
+    title: string
+    xml: string
+}
+
+export const BUILT_IN_STYLES: Record<string, { label: string; xml: string }> = {
+    apa: { label: 'APA', xml: apa },
+    mla: { label: 'MLA', xml: mla },
+    chicago: { label: 'Chicago (author-date)', xml: chicago },
+    harvard: { label: 'Harvard', xml: harvard },
+    ieee: { label: 'IEEE', xml: ieee },
+    nature: { label: 'Nature', xml: nature },
+    acm: { label: 'ACM', xml: acm },
+    vancouver: { label: 'Vancouver', xml: vancouver }
+}
+
+// Style of new bibliography blocks
+export const DEFAULT_CITATION_STYLE = 'apa'
+
+// Style of documents without a bibliography block, which were always numbered
+export const NUMERIC_CITATION_STYLE = 'ieee'
+
+const parsed = new Map<string, CslStyle>()
+
+const parse = (xml: string): CslStyle => {
+    let style = parsed.get(xml)
+    if (!style) {
+        style = CslStyle.parse(xml)
+        parsed.set(xml, style)
+    }
+    return style
+}
+
+/**
+ * The style for a bibliography `style` attribute. Custom styles are read from
+ * the CSL stored alongside the id; unknown ids and broken custom styles fall
+ * back to the default style.
+ */
+export function loadCitationStyle(id: string | null | undefined, customXml?: string | null): CslStyle {
+    if (customXml) {
+        try {
+            return parse(customXml)
+        } catch (error) {
+            logger.warn(`Could not use citation style ${id}, falling back to ${DEFAULT_CITATION_STYLE}:`, error)
+        }
+    }
+    const builtIn = BUILT_IN_STYLES[id || ''] ?? BUILT_IN_STYLES[DEFAULT_CITATION_STYLE]
+    return parse(builtIn.xml)
+}
+
+/**
+ * Validate a user-supplied CSL file; throws with a readable message when it
+ * cannot be used
+ */
+export function parseCustomStyle(xml: string): CustomCitationStyle {
+    const style = CslStyle.parse(xml)
+    const slug = (style.id.split('/').pop() || style.title).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+    return { id: `custom:${slug || crypto.randomUUID()}`, title: style.title, xml }
+}
+
+export function builtInStyleOptions(): CitationStyleOption[] {
+    return Object.entries(BUILT_IN_STYLES).map(([id, { label, xml }]) => ({
+        id,
+        label,
+        numeric: parse(xml).isNumeric
+    }))
+}
@@ -0,0 +1,3 @@
+export * from './cslEngine'
+export * from './cslItem'
+export * from './cslStyles'
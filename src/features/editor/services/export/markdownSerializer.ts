@@ -0,0 +1,333 @@
+// Serializes TipTap JSON to GitHub-flavoured Markdown. Text is written as-is:
+// the editor stores inline markdown and `$...$` math literally inside text nodes.
+// Custom blocks use the syntax `MarkdownParserService` reads back, so exported
+// markdown can be parsed into the same nodes again.
+
+import { theoremPreamble, type TheoremEnvironment } from '@/features/editor/services/theoremService'
+import { tableAggregateRow, tableDisplayRows } from '@/features/editor/services/tableFormulaService'
+import { CitationProcessor, loadCitationStyle, NUMERIC_CITATION_STYLE, toCslItem } from '@/features/editor/services/csl'
+import type { CitationEntry } from '@/features/nota/types/nota'
+
+export interface MarkdownOptions {
+    // The nota's theorem environments. When given, a document with theorem
+    // blocks starts with a pandoc front matter declaring them for LaTeX.
+    theoremEnvironments?: readonly TheoremEnvironment[]
+    // NotaConfig.crossRefNumbering; 'section' numbers theorems within sections
+    crossRefNumbering?: 'document' | 'section'
+    // The nota's references. When given, the bibliography block lists the
+    // cited ones, formatted in its style.
+    citations?: readonly CitationEntry[]
+}
+
+/**
+ * Serialize a whole document, ending with a single newline
+ */
+export function serializeMarkdown(doc: any, options: MarkdownOptions = {}): string {
+    let markdown = serializeBlocks(doc?.content)
+    if (!markdown) return ''
+    if (options.citations) {
+        const references = referenceList(doc, options.citations)
+        markdown = markdown.replace(/^(::: \{#refs[^}\n]*\})\n:::$/m, (_, open) => [open, ...references, ':::'].join('\n'))
+    }
+    return `${theoremFrontMatter(doc, options)}${markdown}\n`
+}
+
+/**
+ * The cited references of a document as list items, in the style of its
+ * bibliography block; keys without reference data are listed last
+ */
+function referenceList(doc: any, citations: readonly CitationEntry[]): string[] {
+    const citedKeys: string[] = []
+    let bibliography: any = null
+    const collect = (nodes: any[] = []) => nodes.forEach((node) => {
+        if (node?.type === 'citation' && node.attrs?.citationKey) citedKeys.push(node.attrs.citationKey)
+        if (node?.type === 'bibliography') bibliography ??= node
+        collect(node?.content)
+    })
+    collect(doc?.content)
+    if (citedKeys.length === 0) return []
+
+    const processor = new CitationProcessor(
+        loadCitationStyle(bibliography?.attrs?.style || NUMERIC_CITATION_STYLE, bibliography?.attrs?.styleXml),
+        citations.filter((citation) => citedKeys.includes(citation.key)).map(toCslItem),
+        citedKeys,
+    )
+    const missing = [...new Set(citedKeys)]
+        .filter((key) => !processor.hasItem(key))
+        .map((key) => `[${processor.citationNumber(key)}] ${key}`)
+    return [...processor.bibliography().map((entry) => entry.text), ...missing].map((text) => `- ${text}`)
+}
+
+/**
+ * `header-includes` front matter with the `\newtheorem` declarations of the
+ * environments the document uses, or '' when it has no theorem blocks
+ */
+export function theoremFrontMatter(doc: any, options: MarkdownOptions = {}): string {
+    if (!options.theoremEnvironments) return ''
+
+    const used = new Set<string>()
+    const collect = (nodes: any[] = []) => nodes.forEach((node) => {
+        if (node?.type === 'theorem') used.add(node.attrs?.type || 'theorem')
+        collect(node?.content)
+    })
+    collect(doc?.content)
+    if (used.size === 0) return ''
+
+    const preamble = theoremPreamble(options.theoremEnvironments, used, options.crossRefNumbering === 'section')
+    return ['---', 'header-includes: |', ...preamble.map((line) => `  ${line}`), '---', '', ''].join('\n')
+}
+
+/**
+ * Serialize a list of block nodes, separating blocks with a blank line
+ */
+export function serializeBlocks(nodes: any[] = []): string {
+    return nodes
+        .map((node) => serializeBlock(node))
+        .filter((block) => block !== '')
+        .join('\n\n')
+}
+
+/**
+ * Serialize a single block node without trailing newlines
+ */
+export function serializeBlock(node: any): string {
+    if (!node) return ''
+
+    switch (node.type) {
+        case 'paragraph':
+            return serializeInline(node.content)
+
+        case 'heading':
+            return `${'#'.repeat(node.attrs?.level || 1)} ${serializeInline(node.content)}`
+
+        case 'blockquote':
+            return prefixLines(serializeBlocks(node.content), '> ')
+
+        case 'bulletList':
+            return serializeList(node.content, () => '- ')
+
+        case 'orderedList': {
+            const start = node.attrs?.start ?? 1
+            return serializeList(node.content, (index) => `${start + index}. `)
+        }
+
+        case 'taskList':
+            return serializeList(
+                node.content,
+                (_, item) => `- [${item.attrs?.checked ? 'x' : ' '}] `,
+            )
+
+        case 'codeBlock':
+            return fence(node.attrs?.language || '', textContent(node))
+
+        case 'executableCodeBlock':
+            return fence(`{${node.attrs?.language || 'python'}}`, textContent(node))
+
+        case 'mermaid':
+            return fence('mermaid', node.attrs?.content || '')
+
+        case 'horizontalRule':
+            return '---'
+
+        case 'math':
+            return `$$\n${(node.attrs?.latex || '').trim()}\n$$`
+
+        case 'theorem':
+            return serializeTheorem(node)
+
+        case 'image':
+            return image(node.attrs?.alt, node.attrs?.src, node.attrs?.title)
+
+        // All images stay on one line so they are read back as a single subfigure
+        case 'subfigure':
+            return (node.attrs?.subfigures || [])
+                .map((subfigure: any) => image(subfigure.caption, subfigure.src))
+                .join(' ')
+
+        case 'youtube': {
+            const url = node.attrs?.url || (node.attrs?.videoId ? `https://www.youtube.com/watch?v=${node.attrs.videoId}` : '')
+            return url ? `![youtube](${url})` : ''
+        }
+
+        case 'table':
+            return serializeTable(node)
+
+        case 'notaTable':
+            return serializeNotaTable(node.attrs?.tableData)
+
+        case 'citation':
+            return node.attrs?.citationKey ? `[@${node.attrs.citationKey}]` : ''
+
+        // The LaTeX command the editor also reads as typed, so the label is kept
+        case 'ref': {
+            if (!node.attrs?.label) return node.attrs?.text || '??'
+            return `\\${node.attrs.form === 'number' ? 'eqref' : 'ref'}{${node.attrs.label}}`
+        }
+
+        case 'pageLink':
+            return `[${node.attrs?.title || 'Untitled'}](${node.attrs?.href || ''})`
+
+        // The link title marks the block form so it is not read back as an inline page link
+        case 'subNotaLink': {
+            const text = node.attrs?.displayText || node.attrs?.targetNotaTitle || 'Untitled Nota'
+            return `[${text}](/nota/${node.attrs?.targetNotaId || ''} "subnota")`
+        }
+
+        // Settings and node graphs are written as JSON the parser reads back;
+        // run outputs, caches and history are left out
+        case 'pipeline': {
+            const { id: _id, cache: _cache, runHistory: _runHistory, ...attrs } = node.attrs || {}
+            const nodes = (attrs.nodes || []).map((pipelineNode: any) => ({
+                ...withoutKeys(pipelineNode, ['selected', 'dragging']),
+                data: withoutKeys(pipelineNode.data || {}, PIPELINE_RUN_STATE),
+            }))
+            return jsonFence('pipeline', { ...attrs, nodes })
+        }
+
+        case 'confusionMatrix':
+            return jsonFence('confusion-matrix', node.attrs || {})
+
+        // A pandoc `refs` div, where pandoc and `serializeMarkdown` put the reference list
+        case 'bibliography': {
+            const attributes = (['title', 'style'] as const)
+                .filter((name) => node.attrs?.[name])
+                .map((name) => ` ${name}="${String(node.attrs[name]).replace(/"/g, '')}"`)
+            return `::: {#refs${attributes.join('')}}\n:::`
+        }
+
+        default:
+            // Unknown containers keep their text
+            if (Array.isArray(node.content)) {
+                return node.content.some((child: any) => child.type === 'text')
+                    ? serializeInline(node.content)
+                    : serializeBlocks(node.content)
+            }
+            return ''
+    }
+}
+
+// Node data that belongs to a run, or to a server connection and its token
+const PIPELINE_RUN_STATE = [
+    'output', 'status', 'skipReason', 'lastRetries', 'lastIterations', 'cached', 'executionTime',
+    'hasError', 'error', 'sessionId', 'serverConfig',
+]
+
+const withoutKeys = (object: Record<string, any>, keys: string[]) =>
+    Object.fromEntries(Object.entries(object).filter(([key]) => !keys.includes(key)))
+
+/**
+ * Serialize inline content, applying marks around each text node
+ */
+export function serializeInline(nodes: any[] = []): string {
+    return nodes
+        .map((node) => {
+            if (node.type === 'hardBreak') return '\\\n'
+            if (node.type !== 'text') return serializeBlock(node)
+            return applyMarks(node.text || '', node.marks || [])
+        })
+        .join('')
+}
+
+/**
+ * Wrap code in a backtick fence long enough not to clash with the code itself
+ */
+export function fence(info: string, code: string): string {
+    const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length))
+    const ticks = '`'.repeat(Math.max(3, longestRun + 1))
+    return `${ticks}${info}\n${code}\n${ticks}`
+}
+
+// Backticks are escaped so the value never needs a longer fence than the parser reads
+function jsonFence(info: string, value: unknown): string {
+    return fence(info, JSON.stringify(value, null, 2).replace(/`/g, '\\u0060'))
+}
+
+export function textContent(node: any): string {
+    if (!node) return ''
+    if (node.type === 'text') return node.text || ''
+    return (node.content || []).map(textContent).join('')
+}
+
+function applyMarks(text: string, marks: any[]): string {
+    if (!text) return text
+    const has = (type: string) => marks.find((mark) => mark.type === type)
+
+    let result = text
+    if (has('code')) result = `\`${result}\``
+    if (has('italic')) result = `*${result}*`
+    if (has('bold')) result = `**${result}**`
+    if (has('strike')) result = `~~${result}~~`
+
+    const link = has('link')
+    if (link) result = `[${result}](${link.attrs?.href || ''})`
+    return result
+}
+
+function serializeList(items: any[] = [], marker: (index: number, item: any) => string): string {
+    return items
+        .map((item, index) => {
+            const prefix = marker(index, item)
+            // Keep the item tight and indent continuation lines to line up with its text
+            const body = (item.content || [])
+                .map((child: any) => serializeBlock(child))
+                .filter((block: string) => block !== '')
+                .join('\n')
+            return prefix + body.replace(/\n(?=.)/g, `\n${' '.repeat(prefix.length)}`)
+        })
+        .join('\n')
+}
+
+function serializeTable(node: any): string {
+    const rows: string[][] = (node.content || []).map((row: any) =>
+        (row.content || []).map((cell: any) => serializeBlocks(cell.content)),
+    )
+    return gfmTable(rows)
+}
+
+// The cells show computed values and the last row the aggregates, so the table
+// reads the same anywhere. Column types, formulas and aggregates are written in
+// a comment before it, which MarkdownParserService reads back.
+function serializeNotaTable(tableData: any): string {
+    const columns: any[] = tableData?.columns || []
+    if (columns.length === 0) return ''
+
+    const table = { ...tableData, columns, rows: tableData.rows || [] }
+    const header = columns.map((column) => column.title || '')
+    const footer = tableAggregateRow(table)
+    const markdown = gfmTable([header, ...tableDisplayRows(table), ...(footer ? [footer] : [])])
+
+    const settings = columns.map(({ type, options, formula, aggregate }) => ({ type: type || 'text', options, formula, aggregate }))
+    if (settings.every((column) => column.type === 'text' && !column.options && !column.aggregate)) return markdown
+    // `--` cannot appear inside an HTML comment
+    return `<!-- nota-table ${JSON.stringify({ columns: settings }).replace(/--/g, '-\\u002d')} -->\n${markdown}`
+}
+
+function gfmTable(rows: string[][]): string {
+    if (rows.length === 0) return ''
+
+    const toRow = (cells: string[]) =>
+        `| ${cells.map((cell) => cell.replace(/\n+/g, ' ').replace(/\|/g, '\\|')).join(' | ')} |`
+    const [header, ...body] = rows
+    return [toRow(header), toRow(header.map(() => '---')), ...body.map(toRow)].join('\n')
+}
+
+function serializeTheorem(node: any): string {
+    const env = node.attrs?.type || 'theorem'
+    const title = node.attrs?.title ? `[${node.attrs.title}]` : ''
+    const parts = [`\\begin{${env}}${title}\n${(node.attrs?.content || '').trim()}\n\\end{${env}}`]
+    if (node.attrs?.proof) {
+        parts.push(`\\begin{proof}\n${node.attrs.proof.trim()}\n\\end{proof}`)
+    }
+    return parts.join('\n')
+}
+
+function image(alt = '', src = '', title = ''): string {
+    return `![${alt || ''}](${src || ''}${title ? ` "${title}"` : ''})`
+}
+
+function prefixLines(text: string, prefix: string): string {
+    return text
+        .split('\n')
+        .map((line) => (line ? `${prefix}${line}` : prefix.trimEnd()))
+        .join('\n')
+}
@@ -0,0 +1,183 @@
+import { nanoid } from 'nanoid'
+import type {
+    KernelConfig,
+    KernelOutput,
+    MimeBundle,
+    MultilineString,
+    NotebookCell,
+    NotebookDocument,
+    NotebookOutput,
+} from '@/features/jupyter/types/jupyter'
+import {
+    getTheoremEnvironment,
+    resolveTheoremEnvironments,
+    type TheoremEnvironment,
+} from '@/features/editor/services/theoremService'
+import { serializeBlock, textContent } from './markdownSerializer'
+
+export interface NotebookExportOptions {
+    title: string
+    content: any // Tiptap JSON
+    // NotaConfig.kernelPreferences, keyed by code block id
+    kernelPreferences?: Record<string, KernelConfig>
+    // NotaConfig.theoremEnvironments, for the labels of theorem blocks
+    theoremEnvironments?: TheoremEnvironment[]
+}
+
+/**
+ * Build an nbformat v4 notebook from a nota. Executable code blocks become
+ * code cells with their stored outputs, consecutive prose blocks are merged
+ * into markdown cells, and the most used kernel preference becomes the
+ * notebook kernelspec.
+ */
+export function buildNotebook(options: NotebookExportOptions): NotebookDocument {
+    const { title, content, kernelPreferences = {} } = options
+    const environments = resolveTheoremEnvironments(options.theoremEnvironments)
+    const nodes: any[] = content?.content || []
+    const cells: NotebookCell[] = []
+    let markdown: string[] = []
+
+    const flushMarkdown = () => {
+        if (markdown.length > 0) {
+            cells.push(markdownCell(markdown.join('\n\n')))
+            markdown = []
+        }
+    }
+
+    const startsWithTitle = nodes[0]?.type === 'heading' && nodes[0].attrs?.level === 1
+    if (title && !startsWithTitle) {
+        markdown.push(`# ${title}`)
+    }
+
+    for (const node of nodes) {
+        if (node.type === 'executableCodeBlock') {
+            flushMarkdown()
+            cells.push(codeCell(node))
+            continue
+        }
+
+        const text = node.type === 'theorem' ? serializeTheorem(node, environments) : serializeBlock(node)
+        if (text.trim()) {
+            markdown.push(text)
+        }
+    }
+    flushMarkdown()
+
+    const codeBlocks = nodes.filter((node) => node.type === 'executableCodeBlock')
+    const language = mostCommon(codeBlocks.map((node) => node.attrs?.language).filter(Boolean)) || 'python'
+    const kernelName =
+        mostCommon(codeBlocks.map((node) => kernelPreferences[node.attrs?.id]?.kernelName).filter(Boolean)) ||
+        mostCommon(Object.values(kernelPreferences).map((preference) => preference.kernelName)) ||
+        (language === 'python' ? 'python3' : null)
+
+    return {
+        nbformat: 4,
+        nbformat_minor: 5,
+        metadata: {
+            ...(kernelName
+                ? {
+                      kernelspec: {
+                          name: kernelName,
+                          display_name: kernelName === 'python3' ? 'Python 3' : kernelName,
+                          language,
+                      },
+                  }
+                : {}),
+            language_info: { name: language },
+            ...(title ? { title } : {}),
+        },
+        cells,
+    }
+}
+
+/**
+ * Convert an output as produced by live execution into nbformat
+ */
+export function toNotebookOutput(output: KernelOutput, executionCount: number | null = null): NotebookOutput {
+    switch (output.output_type) {
+        case 'stream':
+            return { output_type: 'stream', name: output.name, text: toMultiline(output.text) }
+        case 'display_data':
+            return { output_type: 'display_data', data: toNotebookBundle(output.data), metadata: output.metadata || {} }
+        case 'execute_result':
+            return {
+                output_type: 'execute_result',
+                data: toNotebookBundle(output.data),
+                metadata: output.metadata || {},
+                execution_count: output.execution_count ?? executionCount,
+            }
+        case 'error':
+            return { output_type: 'error', ename: output.ename, evalue: output.evalue, traceback: output.traceback }
+    }
+}
+
+function codeCell(node: any): NotebookCell {
+    const executionCount: number | null = node.attrs?.executionCount ?? null
+    const outputs: KernelOutput[] | null = node.attrs?.outputs
+
+    return {
+        cell_type: 'code',
+        id: toCellId(node.attrs?.id),
+        metadata: {},
+        execution_count: executionCount,
+        source: toMultiline(textContent(node)),
+        outputs: outputs
+            ? outputs.map((output) => toNotebookOutput(output, executionCount))
+            : legacyOutputs(node.attrs?.output),
+    }
+}
+
+function markdownCell(source: string): NotebookCell {
+    return { cell_type: 'markdown', id: toCellId(), metadata: {}, source: toMultiline(source) }
+}
+
+// Blocks saved before raw outputs were kept only have the rendered string
+function legacyOutputs(output?: string | null): NotebookOutput[] {
+    if (!output) return []
+    if (/<[a-z][\s\S]*>/i.test(output)) {
+        return [{ output_type: 'display_data', data: { 'text/html': toMultiline(output) }, metadata: {} }]
+    }
+    return [{ output_type: 'stream', name: 'stdout', text: toMultiline(output) }]
+}
+
+function serializeTheorem(node: any, environments: TheoremEnvironment[]): string {
+    const { label } = getTheoremEnvironment(node.attrs?.type || 'theorem', environments)
+    const number = node.attrs?.number ? ` ${node.attrs.number}` : ''
+    const title = node.attrs?.title ? ` (${node.attrs.title})` : ''
+
+    const parts = [`**${label}${number}${title}.** ${node.attrs?.content || ''}`.trim()]
+    if (node.attrs?.proof) {
+        parts.push(`*Proof.* ${node.attrs.proof} $\\blacksquare$`)
+    }
+    return parts.join('\n\n')
+}
+
+// Text values are split into lines like Jupyter writes them; JSON stays structured
+function toNotebookBundle(bundle: MimeBundle): Record<string, unknown> {
+    const data: Record<string, unknown> = {}
+    for (const [mimeType, value] of Object.entries(bundle)) {
+        data[mimeType] = typeof value === 'string' && !mimeType.endsWith('json') ? toMultiline(value) : value
+    }
+    return data
+}
+
+function toMultiline(text: string): MultilineString {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || []
+}
+
+// nbformat 4.5 cell ids must match [a-zA-Z0-9-_]{1,64}
+function toCellId(id?: string | null): string {
+    return id && /^[a-zA-Z0-9-_]{1,64}$/.test(id) ? id : nanoid()
+}
+
+function mostCommon(values: string[]): string | null {
+    const counts = new Map<string, number>()
+    for (const value of values) {
+        counts.set(value, (counts.get(value) || 0) + 1)
+    }
+    let best: string | null = null
+    for (const [value, count] of counts) {
+        if (best === null || count > counts.get(best)!) best = value
+    }
+    return best
+}
@@ -67,6 +67,7 @@ th {
   text-align: center;
   margin: 1rem 0;
   overflow-x: auto;
+  position: relative;
 }
 
 h1, h2, h3, h4, h5, h6 {
@@ -105,6 +106,33 @@ a:hover {
   color: #334155;
 }
 
+/* amsthm styles: plain has an italic body, remark an italic heading */
+.theorem[data-theorem-style="plain"] .theorem-content {
+  font-style: italic;
+}
+
+.theorem[data-theorem-style="remark"] .theorem-header {
+  font-style: italic;
+  font-weight: 500;
+}
+
+.equation-number {
+  position: absolute;
+  right: 0;
+  top: 50%;
+  transform: translateY(-50%);
+  color: #64748b;
+}
+
+.output-number {
+  font-size: 0.85em;
+  color: #64748b;
+  margin-top: 0.25rem;
+}
+
+.cross-ref-missing {
+  color: #dc2626;
+}
 
 .citation-reference {
   color: #007bff;
@@ -128,6 +156,16 @@ a:hover {
     margin-bottom: 0.5rem;
 }
 
+.bibliography-item .csl-left-margin {
+    float: left;
+    min-width: 2.5rem;
+    padding-right: 0.5rem;
+}
+
+.bibliography-item .csl-right-inline {
+    margin-left: 2.5rem;
+}
+
 .nota-data-table {
   border-collapse: collapse;
   width: 100%;
@@ -183,14 +221,26 @@ a:hover {
     text-align: center;
 }
 
-.mermaid-placeholder {
-    background: #f0f0f8;
-    border: 1px solid #d0d0e0;
-    padding: 1rem;
-    border-radius: 4px;
+.mermaid-diagram {
+    margin: 1.5rem 0;
     text-align: center;
 }
 
+.mermaid-diagram svg {
+    max-width: 100%;
+    height: auto;
+}
+
+.mermaid-diagram figcaption {
+    margin-top: 0.5rem;
+    font-size: 0.9em;
+    color: #64748b;
+}
+
+.mermaid-source {
+    text-align: left;
+}
+
 /* Syntax Highlighting Helper - simplified */
 .hljs-keyword { color: #d73a49; }
 .hljs-string { color: #032f62; }
@@ -4,18 +4,29 @@ import { generateHTML } from '@tiptap/html'
 import katex from 'katex'
 import { getEditorExtensions } from '@/features/editor/components/extensions'
 import { buildHtmlPage } from './export/templates/defaultTemplate'
+import { CitationProcessor, loadCitationStyle, NUMERIC_CITATION_STYLE, toCslItem } from './csl'
+import { renderMermaid, resolveMermaidTheme } from './mermaidService'
+import { tableAggregateRow, tableDisplayRows } from './tableFormulaService'
+import {
+    getTheoremEnvironment,
+    resolveTheoremEnvironments,
+    THEOREM_COLORS,
+    type TheoremEnvironment
+} from './theoremService'
 
 // --- Types ---
 export interface NotaExportContent {
     title: string
     content: any // Tiptap JSON
     citations?: any[] // CitationEntry[]
+    theoremEnvironments?: TheoremEnvironment[] // NotaConfig.theoremEnvironments
 }
 
 export interface NotaExportOptions {
     title: string
     content: any
     citations?: any[]
+    theoremEnvironments?: TheoremEnvironment[]
     rootNotaId?: string
     fetchNota?: (id: string) => Promise<NotaExportContent | null>
 }
@@ -23,7 +34,7 @@ export interface NotaExportOptions {
 interface ExportContext {
     zip: JSZip
     assetsFolder: JSZip | null
-    queue: { id: string | 'root', title: string, content: any, citations?: any[] }[]
+    queue: (NotaExportContent & { id: string | 'root' })[]
     processedIds: Set<string>
     fetchNota?: (id: string) => Promise<NotaExportContent | null>
     imgCounter: number // Global counter for images
@@ -31,7 +42,7 @@ interface ExportContext {
 
 // --- Main Export Function ---
 export const exportNotaToHtml = async (options: NotaExportOptions) => {
-    const { title, content, citations, rootNotaId, fetchNota } = options
+    const { title, content, citations, theoremEnvironments, rootNotaId, fetchNota } = options
     const zip = new JSZip()
     const assetsFolder = zip.folder('assets')
 
@@ -46,7 +57,7 @@ export const exportNotaToHtml = async (options: NotaExportOptions) => {
 
     // Initialize with root
     const rootId = rootNotaId || 'root'
-    context.queue.push({ id: rootId, title, content, citations })
+    context.queue.push({ id: rootId, title, content, citations, theoremEnvironments })
     context.processedIds.add(rootId)
 
     const extensions = getEditorExtensions()
@@ -65,9 +76,11 @@ export const exportNotaToHtml = async (options: NotaExportOptions) => {
         // 2. Process Content
         await processLinks(doc, isRoot, context)
         processAssets(doc, relativePathPrefix, context)
-        processCustomBlocks(doc)
+        await processDiagrams(doc)
+        const environments = resolveTheoremEnvironments(item.theoremEnvironments)
+        processCustomBlocks(doc, environments)
         processAssets(doc, relativePathPrefix, context)
-        processCustomBlocks(doc)
+        processCustomBlocks(doc, environments)
         processCitations(doc, item.citations || [])
         processInlineLatex(doc)
 
@@ -178,27 +191,76 @@ function processAssets(doc: Document, relativePrefix: string, ctx: ExportContext
     })
 }
 
-function processCustomBlocks(doc: Document) {
+// Mermaid diagrams are rendered to inline SVG so the page needs no script
+async function processDiagrams(doc: Document) {
+    for (const el of Array.from(doc.querySelectorAll('div[data-type="mermaid"]'))) {
+        const source = el.getAttribute('data-content') || ''
+        const title = el.getAttribute('data-title')
+        const figure = document.createElement('figure')
+        figure.className = 'mermaid-diagram'
+
+        const result = source.trim()
+            ? await renderMermaid(source, resolveMermaidTheme(el.getAttribute('data-theme'), false))
+            : null
+        if (result?.svg) {
+            figure.innerHTML = result.svg
+        } else {
+            // Broken or empty diagrams keep their source
+            const pre = document.createElement('pre')
+            pre.className = 'mermaid-source'
+            pre.textContent = source || 'Empty diagram'
+            figure.appendChild(pre)
+        }
+
+        if (title) {
+            const caption = document.createElement('figcaption')
+            caption.textContent = title
+            figure.appendChild(caption)
+        }
+        el.replaceWith(figure)
+    }
+}
+
+function processCustomBlocks(doc: Document, environments: readonly TheoremEnvironment[]) {
+    // Cross-reference targets, anchored before the blocks are replaced below
+    doc.querySelectorAll('[data-ref-label]').forEach(el => {
+        const id = `ref-${el.getAttribute('data-ref-label')}`
+        if (doc.getElementById(id)) return
+        const anchor = doc.createElement('span')
+        anchor.id = id
+        anchor.className = 'cross-ref-anchor'
+        el.before(anchor)
+    })
+
     // Math
     doc.querySelectorAll('div[data-type="math"]').forEach(div => {
         const latex = div.getAttribute('data-latex') || ''
         try { div.innerHTML = katex.renderToString(latex, { throwOnError: false }) } catch (e) { }
+        const number = div.getAttribute('data-ref-number')
+        if (number) {
+            const span = doc.createElement('span')
+            span.className = 'equation-number'
+            span.textContent = `(${number})`
+            div.appendChild(span)
+        }
     })
 
-    // Theorem
+    // Theorem, labelled and styled by its environment
     doc.querySelectorAll('div[data-type-theorem]').forEach(div => {
-        const title = div.getAttribute('data-title') || 'Theorem'
+        const title = div.getAttribute('data-title')
         const content = div.getAttribute('data-content') || ''
         const proof = div.getAttribute('data-proof') || ''
-        const type = div.getAttribute('data-theorem-type') || 'theorem'
+        const environment = getTheoremEnvironment(div.getAttribute('data-theorem-type') || 'theorem', environments)
         const number = div.getAttribute('data-number')
 
         const container = document.createElement('div')
         container.className = 'theorem'
+        container.setAttribute('data-theorem-style', environment.style)
+        container.style.borderLeftColor = THEOREM_COLORS[environment.color] ?? THEOREM_COLORS.primary
 
         const header = document.createElement('div')
         header.className = 'theorem-header'
-        header.textContent = `${type.charAt(0).toUpperCase() + type.slice(1)}${number ? ' ' + number : ''}: ${title}`
+        header.textContent = `${environment.label}${number ? ' ' + number : ''}${title ? ': ' + title : ''}`
         container.appendChild(header)
 
         const contentDiv = document.createElement('div')
@@ -237,20 +299,45 @@ function processCustomBlocks(doc: Document) {
                     const th = document.createElement('th'); th.textContent = col.title; tr.appendChild(th)
                 })
                 thead.appendChild(tr); table.appendChild(thead)
+                // Formula columns are exported as their computed values
                 const tbody = document.createElement('tbody')
-                data.rows.forEach((row: any) => {
+                tableDisplayRows(data).forEach(cells => {
                     const r = document.createElement('tr')
-                    data.columns.forEach((col: any) => {
-                        const td = document.createElement('td'); td.textContent = row.cells[col.id] || ''; r.appendChild(td)
+                    cells.forEach(cell => {
+                        const td = document.createElement('td'); td.textContent = cell; r.appendChild(td)
                     })
                     tbody.appendChild(r)
                 })
                 table.appendChild(tbody)
+                const footer = tableAggregateRow(data)
+                if (footer) {
+                    const tfoot = document.createElement('tfoot')
+                    const r = document.createElement('tr')
+                    footer.forEach(cell => {
+                        const td = document.createElement('td'); td.textContent = cell; r.appendChild(td)
+                    })
+                    tfoot.appendChild(r); table.appendChild(tfoot)
+                }
+                const number = div.getAttribute('data-ref-number')
+                if (number) {
+                    const caption = document.createElement('caption')
+                    caption.textContent = `Table ${number}`
+                    table.prepend(caption)
+                }
                 div.replaceWith(table)
             } catch (e) { }
         }
     })
 
+    // Labelled code outputs
+    doc.querySelectorAll('div[data-type="executableCodeBlock"][data-ref-number]').forEach(div => {
+        if (div.querySelector('.output-number')) return
+        const caption = document.createElement('div')
+        caption.className = 'output-number'
+        caption.textContent = `Output ${div.getAttribute('data-ref-number')}`
+        div.appendChild(caption)
+    })
+
     // DrawIO
     doc.querySelectorAll('.drawio-diagram').forEach(div => {
         div.innerHTML = '<div class="drawio-placeholder">Diagram (Interactive Only)</div>'
@@ -318,34 +405,35 @@ function processCustomBlocks(doc: Document) {
             div.replaceWith(iframe)
         }
     })
-
-    // Mermaid
-    doc.querySelectorAll('div[data-type="mermaid"]').forEach(el => {
-        // Styles handled by CSS class
-        el.innerHTML = '<div class="mermaid-placeholder">Mermaid Diagram (Interactive Only)</div>'
-    })
-
 }
 
 function processCitations(doc: Document, citations: any[]) {
     // map key -> citation data
     const citationMap = new Map(citations.map(c => [c.key, c]))
-    const usedCitations = new Map<string, number>()
-    let counter = 1
+    const bibliographyBlock = doc.querySelector('div[data-type="bibliography"]')
+
+    // Citations are formatted in the bibliography's style, numbered without one
+    const citedKeys = Array.from(doc.querySelectorAll('span[data-type="citation"]'))
+        .map(span => span.getAttribute('data-citation-key'))
+        .filter((key): key is string => !!key)
+    const processor = new CitationProcessor(
+        loadCitationStyle(
+            bibliographyBlock?.getAttribute('data-style') || NUMERIC_CITATION_STYLE,
+            bibliographyBlock?.getAttribute('data-style-xml')
+        ),
+        [...citationMap.values()].filter(c => citedKeys.includes(c.key)).map(toCslItem),
+        citedKeys
+    )
 
     // 1. Process inline citations
     doc.querySelectorAll('span[data-type="citation"]').forEach((span) => {
         const key = span.getAttribute('data-citation-key')
         if (key) {
-            let num = usedCitations.get(key)
-            if (!num) {
-                num = counter++
-                usedCitations.set(key, num)
-            }
+            const num = processor.citationNumber(key)!
 
             // Update Number and Text
             span.setAttribute('data-citation-number', num.toString())
-            span.textContent = `[${num}]`
+            span.innerHTML = processor.citation(key) || `[${num}]`
 
             // Embed Metadata for Modal
             const data = citationMap.get(key)
@@ -357,9 +445,8 @@ function processCitations(doc: Document, citations: any[]) {
     })
 
     // 2. Update Bibliography
-    const bibliographyBlock = doc.querySelector('div[data-type="bibliography"]')
     if (bibliographyBlock) {
-        if (usedCitations.size === 0) {
+        if (citedKeys.length === 0) {
             bibliographyBlock.remove()
             return
         }
@@ -367,32 +454,21 @@ function processCitations(doc: Document, citations: any[]) {
         const list = document.createElement('ul')
         list.className = 'bibliography-list'
 
-        // Sort by number
-        const sorted = Array.from(usedCitations.entries()).sort((a, b) => a[1] - b[1])
+        processor.bibliography().forEach(entry => {
+            const li = document.createElement('li')
+            li.className = 'bibliography-item'
+            li.id = `ref-${entry.id}`
+            li.innerHTML = entry.html
+            list.appendChild(li)
+        })
 
-        sorted.forEach(([key, num]) => {
-            const data = citationMap.get(key)
+        // Keys without reference data are listed after the formatted entries
+        const missing = [...new Set(citedKeys)].filter(key => !processor.hasItem(key))
+        missing.forEach(key => {
             const li = document.createElement('li')
             li.className = 'bibliography-item'
             li.id = `ref-${key}`
-
-            let text = `[${num}] ${key}`
-            if (data) {
-                // Formatting logic (simplified APA-ish)
-                const authors = data.authors?.map((a: any) => {
-                    if (typeof a === 'string') return a
-                    return `${a.family}, ${a.given}`
-                }).join(' & ') || 'Unknown Author'
-                const title = data.title || 'Untitled'
-                const year = data.year || 'n.d.'
-                text = `[${num}] ${authors} (${year}). ${title}.`
-                if (data.journal) text += ` ${data.journal}`
-                if (data.volume) text += `, ${data.volume}`
-                if (data.pages) text += `, ${data.pages}`
-                text += '.'
-            }
-
-            li.textContent = text
+            li.textContent = `[${processor.citationNumber(key)}] ${key}`
             list.appendChild(li)
         })
 
@@ -0,0 +1,135 @@
+import type { MermaidConfig } from 'mermaid'
+
+export type MermaidTheme = 'default' | 'neutral' | 'forest' | 'dark' | 'base'
+
+export const MERMAID_THEMES: { value: MermaidTheme; label: string }[] = [
+    { value: 'default', label: 'Match app' },
+    { value: 'neutral', label: 'Neutral' },
+    { value: 'forest', label: 'Forest' },
+    { value: 'dark', label: 'Dark' },
+    { value: 'base', label: 'Base' }
+]
+
+export const DEFAULT_MERMAID_DIAGRAM = `flowchart LR
+    A[Idea] --> B{Works?}
+    B -- Yes --> C[Ship it]
+    B -- No --> D[Debug]
+    D --> B`
+
+export interface MermaidSyntaxError {
+    message: string
+    // 1-based line of the source the parser stopped at, when it says
+    line: number | null
+}
+
+export type MermaidRenderResult =
+    | { svg: string; error: null }
+    | { svg: null; error: MermaidSyntaxError }
+
+/**
+ * The Mermaid theme to render with. "default" follows the app, so diagrams
+ * switch to the dark theme along with the rest of the page.
+ */
+export const resolveMermaidTheme = (theme: string | null | undefined, isDark: boolean): MermaidTheme => {
+    if (!theme || theme === 'default') return isDark ? 'dark' : 'default'
+    return MERMAID_THEMES.some(t => t.value === theme) ? (theme as MermaidTheme) : 'default'
+}
+
+/**
+ * Turn a Mermaid parse error into a message and line number
+ */
+export const toMermaidSyntaxError = (error: unknown): MermaidSyntaxError => {
+    const err = error as { message?: string; hash?: { loc?: { first_line?: number }; line?: number } }
+    const message = (err?.message || String(error)).trim()
+    const hashLine = err?.hash?.loc?.first_line ?? (typeof err?.hash?.line === 'number' ? err.hash.line + 1 : null)
+    const match = message.match(/on line (\d+)/i)
+    return {
+        message: message.split('\n').filter(Boolean)[0] || 'Invalid diagram',
+        line: hashLine ?? (match ? Number(match[1]) : null)
+    }
+}
+
+let mermaidModule: Promise<typeof import('mermaid').default> | null = null
+let queue: Promise<unknown> = Promise.resolve()
+let renderCount = 0
+
+const loadMermaid = () => {
+    if (!mermaidModule) {
+        mermaidModule = import('mermaid').then(module => module.default)
+    }
+    return mermaidModule
+}
+
+/**
+ * Render Mermaid source to SVG. Renders run one at a time because the theme
+ * is global Mermaid configuration.
+ * @param source Diagram definition
+ * @param theme Theme to render with, see `resolveMermaidTheme`
+ */
+export function renderMermaid(source: string, theme: MermaidTheme = 'default'): Promise<MermaidRenderResult> {
+    const run = async (): Promise<MermaidRenderResult> => {
+        const mermaid = await loadMermaid()
+        const config: MermaidConfig = {
+            startOnLoad: false,
+            securityLevel: 'strict',
+            theme,
+            // SVG text instead of HTML labels, so PNG export does not taint the canvas
+            htmlLabels: false,
+            flowchart: { htmlLabels: false }
+        }
+        mermaid.initialize(config)
+
+        const id = `nota-mermaid-${++renderCount}`
+        try {
+            await mermaid.parse(source)
+            const { svg } = await mermaid.render(id, source)
+            return { svg, error: null }
+        } catch (error) {
+            // A failed render leaves its scratch element behind
+            document.getElementById(`d${id}`)?.remove()
+            return { svg: null, error: toMermaidSyntaxError(error) }
+        }
+    }
+
+    const result = queue.then(run, run)
+    queue = result.catch(() => undefined)
+    return result
+}
+
+/**
+ * Rasterize an SVG diagram to a PNG
+ * @param svg SVG markup
+ * @param scale Pixel ratio of the image
+ */
+export async function svgToPng(svg: string, scale = 2): Promise<Blob> {
+    const parsed = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement
+    const viewBox = parsed.getAttribute('viewBox')?.split(/[\s,]+/).map(Number)
+    const width = viewBox?.[2] || parseFloat(parsed.getAttribute('width') || '') || 800
+    const height = viewBox?.[3] || parseFloat(parsed.getAttribute('height') || '') || 600
+    parsed.setAttribute('width', String(width))
+    parsed.setAttribute('height', String(height))
+
+    const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(parsed)], { type: 'image/svg+xml' }))
+    try {
+        const image = new Image()
+        await new Promise<void>((resolve, reject) => {
+            image.onload = () => resolve()
+            image.onerror = () => reject(new Error('Could not load the diagram image'))
+            image.src = url
+        })
+
+        const canvas = document.createElement('canvas')
+        canvas.width = Math.ceil(width * scale)
+        canvas.height = Math.ceil(height * scale)
+        const context = canvas.getContext('2d')
+        if (!context) throw new Error('Canvas is not available')
+        context.scale(scale, scale)
+        context.drawImage(image, 0, 0, width, height)
+
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create the PNG'))), 'image/png')
+        })
+    } finally {
+        URL.revokeObjectURL(url)
+    }
+}
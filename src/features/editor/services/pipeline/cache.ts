@@ -0,0 +1,135 @@
+import type { PipelineCacheEntry } from '@/features/editor/types/pipeline'
+import { pipelineGraph, type SchedulableEdge, type SchedulableNode } from './scheduler'
+import { pipelineVariableName } from './variables'
+
+/**
+ * Incremental re-execution. Every node gets a hash of its code, its kernel
+ * and the hashes of its upstream nodes, so editing a node changes the hash of
+ * everything downstream of it. A node is dirty when its hash no longer
+ * matches its cached run; dirty nodes and their descendants run, the others
+ * reuse their cached output and value.
+ */
+
+// Longest base64 pickle kept in a cache entry; nodes with larger values run again
+// when a reader needs them and the kernel no longer has them
+export const MAX_CACHED_VALUE_LENGTH = 512 * 1024
+
+// FNV-1a from two offsets, so two runs of 32 bits; only used to notice changes
+function hashText(text: string): string {
+    let low = 0x811c9dc5
+    let high = 0x050c5d1f
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i)
+        low = Math.imul(low ^ code, 0x01000193)
+        high = Math.imul(high ^ code, 0x01000193)
+    }
+    return (high >>> 0).toString(36) + (low >>> 0).toString(36)
+}
+
+const hasCode = (node: SchedulableNode) => !!node.data?.code?.trim()
+
+/**
+ * The hash of every node. `kernelOf` names the kernel a node runs on in a way
+ * that survives reloads, e.g. its kernel name rather than its session.
+ */
+export function pipelineNodeHashes<N extends SchedulableNode>(
+    nodes: N[],
+    edges: SchedulableEdge[],
+    kernelOf: (node: N) => string
+): Map<string, string> {
+    const { incoming, outgoing } = pipelineGraph(nodes, edges)
+    const byId = new Map(nodes.map(node => [node.id, node]))
+    const hashes = new Map<string, string>()
+    const visiting = new Set<string>()
+
+    const hashOf = (node: N): string => {
+        const known = hashes.get(node.id)
+        if (known) return known
+        // The scheduler reports cycles; here they only need to end
+        if (visiting.has(node.id)) return ''
+        visiting.add(node.id)
+
+        // Upstream nodes are identified by the variable they pass, not their order
+        const upstream = incoming.get(node.id)!
+            .map(edge => byId.get(edge.source)!)
+            .map(source => `${pipelineVariableName(source)}:${hashOf(source)}`)
+            .sort()
+        // Cached condition results are only valid for the same conditions
+        const conditions = outgoing.get(node.id)!
+            .map(edge => `${edge.target}:${edge.data?.condition?.trim() ?? ''}`)
+            .sort()
+        const hash = hashText(JSON.stringify({
+            code: node.data?.code ?? '',
+            kernel: kernelOf(node),
+            loopUntil: node.data?.loopUntil?.trim() ?? '',
+            maxIterations: node.data?.maxIterations ?? null,
+            upstream,
+            conditions
+        }))
+
+        visiting.delete(node.id)
+        hashes.set(node.id, hash)
+        return hash
+    }
+
+    nodes.forEach(hashOf)
+    return hashes
+}
+
+/**
+ * Nodes that must run: those with code whose hash differs from their cache
+ * entry, the `forced` ones, and every node downstream of them
+ */
+export function dirtyPipelineNodes<N extends SchedulableNode>(
+    nodes: N[],
+    edges: SchedulableEdge[],
+    hashes: Map<string, string>,
+    cache: Record<string, PipelineCacheEntry>,
+    forced: string[] = []
+): Set<string> {
+    const { outgoing } = pipelineGraph(nodes, edges)
+    const dirty = new Set<string>()
+
+    const mark = (id: string) => {
+        if (dirty.has(id)) return
+        dirty.add(id)
+        for (const { target } of outgoing.get(id)!) mark(target)
+    }
+
+    for (const node of nodes) {
+        const stale = hasCode(node) && cache[node.id]?.hash !== hashes.get(node.id)
+        if (stale || forced.includes(node.id)) mark(node.id)
+    }
+    return dirty
+}
+
+/**
+ * `dirty` plus the clean nodes a dirty node reads whose value cannot be
+ * restored: their cache entry has no pickle and, by `inKernel`, the variable
+ * is not defined where the reader runs, e.g. after a reload, on a new session
+ * or in isolated mode. These run again, and their own inputs are checked in turn.
+ */
+export function withUnrestorableInputs<N extends SchedulableNode>(
+    nodes: N[],
+    edges: SchedulableEdge[],
+    dirty: Set<string>,
+    cache: Record<string, PipelineCacheEntry>,
+    inKernel: (source: N, target: N) => boolean
+): Set<string> {
+    const { incoming } = pipelineGraph(nodes, edges)
+    const byId = new Map(nodes.map(node => [node.id, node]))
+    const result = new Set(dirty)
+    const queue = [...dirty]
+
+    while (queue.length > 0) {
+        const target = byId.get(queue.shift()!)
+        if (!target || !hasCode(target)) continue
+        for (const { source: id } of incoming.get(target.id)!) {
+            const source = byId.get(id)!
+            if (result.has(id) || !hasCode(source) || cache[id]?.pickled || inKernel(source, target)) continue
+            result.add(id)
+            queue.push(id)
+        }
+    }
+    return result
+}
@@ -0,0 +1,31 @@
+/**
+ * Edge and loop conditions: Python expressions evaluated in the kernel a
+ * node ran on, so they can read its variables, e.g. `accuracy > 0.9`
+ */
+
+const CONDITION_MARKER = '__bashnota_condition__'
+
+/**
+ * Why `expression` cannot be a condition, or '' when it can
+ */
+export function validateCondition(expression: string): string {
+    if (/[\r\n]/.test(expression)) return 'A condition is a single Python expression'
+    if (/^\s*(import|def|class|for|while|if|with|return)\b/.test(expression)) return 'Use an expression, not a statement'
+    return ''
+}
+
+/**
+ * Code printing whether `expression` holds between markers
+ */
+export function conditionCode(expression: string): string {
+    return `print(${JSON.stringify(CONDITION_MARKER)} + str(bool(${expression.trim()})) + ${JSON.stringify(CONDITION_MARKER)})`
+}
+
+/**
+ * The value printed by `conditionCode`
+ */
+export function parseConditionResult(output: string): boolean {
+    const match = output.match(new RegExp(`${CONDITION_MARKER}(True|False)${CONDITION_MARKER}`))
+    if (!match) throw new Error('The condition printed no result')
+    return match[1] === 'True'
+}
@@ -0,0 +1,356 @@
+import type { PipelineNodeData, PipelineSettings } from '@/features/editor/types/pipeline'
+
+export const DEFAULT_MAX_CONCURRENCY = 4
+
+// The kernel of every node in shared mode, and of nodes without their own in mixed mode
+export const SHARED_KERNEL = 'shared'
+
+export const MAX_RETRIES = 10
+export const DEFAULT_RETRY_DELAY = 1
+export const DEFAULT_MAX_ITERATIONS = 10
+export const MAX_ITERATIONS = 100
+
+export interface SchedulableNode {
+    id: string
+    data?: Partial<PipelineNodeData>
+}
+
+export interface SchedulableEdge {
+    id?: string
+    source: string
+    target: string
+    data?: { condition?: string }
+}
+
+/**
+ * How a node's run ended: `empty` nodes have no code and pass straight
+ * through; `cached` ones reuse their last run instead of running; `skipped`
+ * ones are downstream of an error with stopOnError on, or none of their
+ * incoming edges was followed
+ */
+export type PipelineNodeOutcome = 'completed' | 'error' | 'skipped' | 'empty' | 'cancelled' | 'cached'
+
+export interface PipelineNodeResult {
+    outcome: PipelineNodeOutcome
+    error?: unknown
+    // Why a skipped node did not run
+    reason?: string
+    // Failed runs that were run again
+    retries: number
+    // Runs of a "loop until" node, 1 otherwise
+    iterations: number
+    // Results of the conditions on its outgoing edges, by `pipelineEdgeKey`
+    conditions?: Record<string, boolean>
+}
+
+export interface PipelineRunResult {
+    nodes: Map<string, PipelineNodeResult>
+    // Whether each edge was followed, by `pipelineEdgeKey`
+    edges: Map<string, boolean>
+}
+
+export interface PipelineTask<N extends SchedulableNode> {
+    node: N
+    // Key of the kernel the node runs on; nodes on the same kernel never run at once
+    kernel: string
+    // Completed and cached upstream nodes whose values the node receives, in edge order
+    inputs: { node: N; kernel: string }[]
+    // Whether a downstream node runs on another kernel, so the value must be sent over
+    exportsValue: boolean
+}
+
+export interface PipelineRunOptions<N extends SchedulableNode>
+    extends Pick<PipelineSettings, 'kernelMode' | 'executionOrder' | 'stopOnError' | 'maxConcurrency'> {
+    // Runs a node; rejects when it fails
+    run: (task: PipelineTask<N>) => Promise<void>
+    // Evaluates an edge condition or loop condition in the kernel a node ran on
+    evaluate?: (node: N, kernel: string, expression: string) => Promise<boolean>
+    // Kernel a node brings along in mixed mode; it uses the shared one when unset
+    ownKernel?: (node: N) => string | undefined
+    // Condition results of a node's cached run when it can be reused instead
+    // of running, undefined when it must run
+    fromCache?: (node: N) => Record<string, boolean> | undefined
+    // Checked before starting each node; running nodes are left to finish
+    isCancelled?: () => boolean
+    // Waits between retries; a timer by default
+    sleep?: (ms: number) => Promise<void>
+    onStart?: (node: N) => void
+    onRetry?: (node: N, retry: number, error: unknown) => void
+    onIteration?: (node: N, iteration: number) => void
+    onEdge?: (edge: SchedulableEdge, taken: boolean) => void
+    onFinish?: (node: N, result: PipelineNodeResult) => void
+}
+
+const hasCode = (node: SchedulableNode) => !!node.data?.code?.trim()
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.floor(value)))
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+export const pipelineEdgeKey = (edge: SchedulableEdge) => edge.id ?? `${edge.source}->${edge.target}`
+
+/**
+ * Milliseconds to wait before a node's nth retry: its retry delay, doubled
+ * after every failed retry
+ */
+export const retryBackoff = (node: SchedulableNode, retry: number) =>
+    Math.max(0, node.data?.retryDelay ?? DEFAULT_RETRY_DELAY) * 1000 * 2 ** (retry - 1)
+
+/**
+ * Edges between known nodes, incoming and outgoing per node
+ */
+export function pipelineGraph(nodes: SchedulableNode[], edges: SchedulableEdge[]) {
+    const incoming = new Map(nodes.map(node => [node.id, [] as SchedulableEdge[]]))
+    const outgoing = new Map(nodes.map(node => [node.id, [] as SchedulableEdge[]]))
+    for (const edge of edges) {
+        const { source, target } = edge
+        if (source === target || !incoming.has(source) || !incoming.has(target)) continue
+        if (incoming.get(target)!.some(other => other.source === source)) continue
+        incoming.get(target)!.push(edge)
+        outgoing.get(source)!.push(edge)
+    }
+    return { incoming, outgoing }
+}
+
+/**
+ * Depth of every node below the roots, or throws when the edges form a cycle
+ */
+export function pipelineNodeDepths(nodes: SchedulableNode[], incoming: Map<string, SchedulableEdge[]>, outgoing: Map<string, SchedulableEdge[]>) {
+    const depth = new Map<string, number>()
+    const remaining = new Map(nodes.map(node => [node.id, incoming.get(node.id)!.length]))
+    let layer = nodes.filter(node => remaining.get(node.id) === 0).map(node => node.id)
+    for (let level = 0; layer.length > 0; level++) {
+        const next: string[] = []
+        for (const id of layer) {
+            depth.set(id, level)
+            for (const { target } of outgoing.get(id)!) {
+                remaining.set(target, remaining.get(target)! - 1)
+                if (remaining.get(target) === 0) next.push(target)
+            }
+        }
+        layer = next
+    }
+    const cyclic = nodes.filter(node => !depth.has(node.id))
+    if (cyclic.length > 0) {
+        const names = cyclic.map(node => `"${node.data?.title || node.id}"`).join(', ')
+        throw new Error(`The pipeline has a cycle through ${names}`)
+    }
+    return depth
+}
+
+/**
+ * The kernel key of a node under the pipeline's kernel mode
+ */
+export function pipelineKernelOf<N extends SchedulableNode>(
+    node: N,
+    kernelMode: PipelineSettings['kernelMode'],
+    ownKernel?: (node: N) => string | undefined
+): string {
+    if (kernelMode === 'isolated') return node.id
+    if (kernelMode === 'mixed') return ownKernel?.(node) ?? SHARED_KERNEL
+    return SHARED_KERNEL
+}
+
+/**
+ * Runs a pipeline as a DAG: a node starts once all its upstream nodes have
+ * finished, nodes on different kernels run side by side up to the
+ * concurrency limit, and an error with stopOnError skips only the failed
+ * node's descendants. The sequential and topological orders run one node at
+ * a time, in node order and by depth respectively.
+ *
+ * An edge with a condition is followed only when the condition holds in the
+ * source node's kernel after it ran, and a node runs only when at least one
+ * of its incoming edges was followed. Failed nodes are run again up to their
+ * retry count, and a node with "loop until" runs until its condition holds,
+ * at most its iteration limit.
+ *
+ * A node `fromCache` returns condition results for is not run; it settles at
+ * once and its edges follow the cached results.
+ */
+export async function runPipeline<N extends SchedulableNode>(
+    nodes: N[],
+    edges: SchedulableEdge[],
+    options: PipelineRunOptions<N>
+): Promise<PipelineRunResult> {
+    const { incoming, outgoing } = pipelineGraph(nodes, edges)
+    const depth = pipelineNodeDepths(nodes, incoming, outgoing)
+    const byId = new Map(nodes.map(node => [node.id, node]))
+    const index = new Map(nodes.map((node, i) => [node.id, i]))
+    const kernelOf = (node: N) => pipelineKernelOf(node, options.kernelMode, options.ownKernel)
+    const titleOf = (id: string) => `"${byId.get(id)!.data?.title || id}"`
+    const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)))
+
+    const priority = (id: string) =>
+        options.executionOrder === 'sequential' ? index.get(id)! : depth.get(id)! * nodes.length + index.get(id)!
+    const concurrency = options.executionOrder === 'parallel'
+        ? Math.max(1, Math.floor(options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY))
+        : 1
+
+    const results = new Map<string, PipelineNodeResult>()
+    const taken = new Map<string, boolean>()
+    const running = new Map<string, Promise<void>>()
+    const busyKernels = new Set<string>()
+
+    const follow = (edge: SchedulableEdge, isTaken: boolean) => {
+        taken.set(pipelineEdgeKey(edge), isTaken)
+        options.onEdge?.(edge, isTaken)
+    }
+
+    /**
+     * Records how a node ended and which of its edges are followed; edges
+     * with a condition were evaluated by the node's task or its cached run
+     */
+    const settle = (id: string, result: Omit<PipelineNodeResult, 'retries' | 'iterations'> & Partial<PipelineNodeResult>) => {
+        const full = { retries: 0, iterations: result.outcome === 'completed' ? 1 : 0, ...result }
+        results.set(id, full)
+        for (const edge of outgoing.get(id)!) {
+            const condition = edge.data?.condition?.trim()
+            if (full.outcome === 'completed' || full.outcome === 'cached') {
+                follow(edge, condition ? !!full.conditions?.[pipelineEdgeKey(edge)] : true)
+            } else if (full.outcome === 'empty') follow(edge, true)
+            else if (full.outcome === 'error') follow(edge, !options.stopOnError && !condition)
+            else follow(edge, false)
+        }
+        options.onFinish?.(byId.get(id)!, full)
+    }
+
+    const skipDescendants = (id: string, reason = `${titleOf(id)} failed`) => {
+        for (const { target } of outgoing.get(id)!) {
+            if (results.has(target) || running.has(target)) continue
+            settle(target, { outcome: 'skipped', reason })
+            skipDescendants(target, reason)
+        }
+    }
+
+    // Why none of a node's incoming edges was followed
+    const skipReason = (id: string) => {
+        const [edge] = incoming.get(id)!
+        const source = results.get(edge.source)!
+        const condition = edge.data?.condition?.trim()
+        if ((source.outcome === 'completed' || source.outcome === 'cached') && condition) return `Condition "${condition}" of ${titleOf(edge.source)} was false`
+        if (source.outcome === 'error') return `${titleOf(edge.source)} failed`
+        return `${titleOf(edge.source)} was skipped`
+    }
+
+    const evaluate = async (node: N, kernel: string, expression: string) => {
+        if (!options.evaluate) throw new Error('Conditions cannot be evaluated here')
+        try {
+            return await options.evaluate(node, kernel, expression)
+        } catch (error) {
+            throw new Error(`Condition "${expression}" failed: ${errorMessage(error)}`)
+        }
+    }
+
+    const start = (node: N) => {
+        const kernel = kernelOf(node)
+        const task: PipelineTask<N> = {
+            node,
+            kernel,
+            inputs: incoming.get(node.id)!
+                .filter(edge => taken.get(pipelineEdgeKey(edge)) && ['completed', 'cached'].includes(results.get(edge.source)!.outcome))
+                .map(edge => ({ node: byId.get(edge.source)!, kernel: kernelOf(byId.get(edge.source)!) })),
+            exportsValue: outgoing.get(node.id)!.some(({ target }) => hasCode(byId.get(target)!) && kernelOf(byId.get(target)!) !== kernel)
+        }
+        const counts = { retries: 0, iterations: 1 }
+        const conditions: Record<string, boolean> = {}
+
+        const runWithRetries = async () => {
+            const retries = clamp(node.data?.retries ?? 0, 0, MAX_RETRIES)
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    return await options.run(task)
+                } catch (error) {
+                    if (attempt >= retries || options.isCancelled?.()) throw error
+                    counts.retries++
+                    options.onRetry?.(node, attempt + 1, error)
+                    await sleep(retryBackoff(node, attempt + 1))
+                }
+            }
+        }
+
+        const runNode = async () => {
+            await runWithRetries()
+
+            const until = node.data?.loopUntil?.trim()
+            if (until) {
+                const limit = clamp(node.data?.maxIterations ?? DEFAULT_MAX_ITERATIONS, 1, MAX_ITERATIONS)
+                while (!(await evaluate(node, kernel, until))) {
+                    if (counts.iterations >= limit) {
+                        throw new Error(`"${until}" was still false after ${counts.iterations} iterations`)
+                    }
+                    if (options.isCancelled?.()) throw new Error('Cancelled')
+                    counts.iterations++
+                    options.onIteration?.(node, counts.iterations)
+                    await runWithRetries()
+                }
+            }
+
+            for (const edge of outgoing.get(node.id)!) {
+                const condition = edge.data?.condition?.trim()
+                if (condition) conditions[pipelineEdgeKey(edge)] = await evaluate(node, kernel, condition)
+            }
+        }
+
+        busyKernels.add(kernel)
+        options.onStart?.(node)
+        const promise = Promise.resolve()
+            .then(runNode)
+            .then(
+                () => settle(node.id, { outcome: 'completed', ...counts, conditions }),
+                error => {
+                    settle(node.id, { outcome: 'error', error, ...counts })
+                    if (options.stopOnError) skipDescendants(node.id)
+                }
+            )
+            .finally(() => {
+                busyKernels.delete(kernel)
+                running.delete(node.id)
+            })
+        running.set(node.id, promise)
+    }
+
+    while (results.size < nodes.length) {
+        if (options.isCancelled?.()) {
+            for (const node of nodes) {
+                if (!results.has(node.id) && !running.has(node.id)) settle(node.id, { outcome: 'cancelled' })
+            }
+            break
+        }
+
+        const ready = nodes
+            .filter(node => !results.has(node.id) && !running.has(node.id))
+            .filter(node => incoming.get(node.id)!.every(edge => results.has(edge.source)))
+            .sort((a, b) => priority(a.id) - priority(b.id))
+
+        // Nodes that will not run settle at once, which may make their children ready
+        const settled = ready.filter(node => {
+            const edgesIn = incoming.get(node.id)!
+            if (edgesIn.length > 0 && !edgesIn.some(edge => taken.get(pipelineEdgeKey(edge)))) {
+                settle(node.id, { outcome: 'skipped', reason: skipReason(node.id) })
+                return true
+            }
+            if (!hasCode(node)) {
+                settle(node.id, { outcome: 'empty' })
+                return true
+            }
+            const conditions = options.fromCache?.(node)
+            if (conditions) {
+                settle(node.id, { outcome: 'cached', conditions })
+                return true
+            }
+            return false
+        })
+        if (settled.length > 0) continue
+
+        for (const node of ready) {
+            if (running.size >= concurrency) break
+            if (!busyKernels.has(kernelOf(node))) start(node)
+        }
+
+        if (running.size === 0) break
+        await Promise.race(running.values())
+    }
+
+    await Promise.all(running.values())
+    return { nodes: results, edges: taken }
+}
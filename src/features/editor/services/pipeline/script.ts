@@ -0,0 +1,338 @@
+import {
+    DEFAULT_MAX_ITERATIONS,
+    DEFAULT_RETRY_DELAY,
+    MAX_ITERATIONS,
+    MAX_RETRIES,
+    pipelineGraph,
+    pipelineNodeDepths,
+    type SchedulableEdge,
+    type SchedulableNode
+} from './scheduler'
+import { pipelineVariableName } from './variables'
+
+/**
+ * Exports a pipeline block as a standalone Python script, so it runs without
+ * the browser or a Jupyter server. Every node with code becomes a function
+ * taking the values of its upstream nodes and returning its own, `main` calls
+ * them in dependency order, and `--step` runs a single node on the pickled
+ * results of its upstream nodes, which is what the exported Makefile does.
+ */
+
+export interface PipelineScriptSource {
+    title: string
+    nodes: SchedulableNode[]
+    edges: SchedulableEdge[]
+}
+
+interface ScriptStep {
+    node: SchedulableNode
+    // Unique name of the step, used for its function and its result file
+    name: string
+    hasCode: boolean
+    // Upstream steps with code, passed as arguments in edge order
+    inputs: string[]
+    // The variables the node's code reads those arguments as
+    parameters: string[]
+    // Every upstream step, and whether the connection has a condition
+    upstream: { source: string; conditional: boolean }[]
+    // Conditions of the outgoing connections, by target step
+    branches: [string, string][]
+}
+
+const INDENT = '    '
+
+const pythonString = (text: string) => JSON.stringify(text)
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.floor(value)))
+
+/**
+ * `name`, or `name_2`, `name_3`... when taken
+ */
+const uniqueName = (name: string, taken: Set<string>) => {
+    let unique = name
+    for (let i = 2; taken.has(unique); i++) unique = `${name}_${i}`
+    taken.add(unique)
+    return unique
+}
+
+// Python code one level deeper; tabs become spaces so indentation stays consistent
+const indent = (code: string, prefix = INDENT) =>
+    code
+        .replace(/^\t+/gm, tabs => INDENT.repeat(tabs.length))
+        .replace(/\s+$/, '')
+        .split('\n')
+        .map(line => (line.trim() ? prefix + line : ''))
+        .join('\n')
+
+/**
+ * The steps of a pipeline in topological order, by depth and then node order
+ * like the scheduler; throws when the edges form a cycle
+ */
+function scriptSteps(nodes: SchedulableNode[], edges: SchedulableEdge[]): ScriptStep[] {
+    const { incoming, outgoing } = pipelineGraph(nodes, edges)
+    const depth = pipelineNodeDepths(nodes, incoming, outgoing)
+    const order = nodes
+        .map((node, index) => ({ node, index }))
+        .sort((a, b) => depth.get(a.node.id)! - depth.get(b.node.id)! || a.index - b.index)
+        .map(({ node }) => node)
+
+    const byId = new Map(nodes.map(node => [node.id, node]))
+    const taken = new Set<string>()
+    const names = new Map(order.map(node => [node.id, uniqueName(pipelineVariableName(node), taken)]))
+    const hasCode = (id: string) => !!byId.get(id)!.data?.code?.trim()
+
+    return order.map(node => {
+        const sources = incoming.get(node.id)!.map(edge => edge.source)
+        const inputs = sources.filter(hasCode)
+        const parameterNames = new Set<string>()
+        return {
+            node,
+            name: names.get(node.id)!,
+            hasCode: hasCode(node.id),
+            inputs: inputs.map(source => names.get(source)!),
+            parameters: inputs.map(source => uniqueName(pipelineVariableName(byId.get(source)!), parameterNames)),
+            // Connections out of a node without code are always followed
+            upstream: incoming.get(node.id)!.map(edge => ({
+                source: names.get(edge.source)!,
+                conditional: hasCode(edge.source) && !!edge.data?.condition?.trim()
+            })),
+            branches: hasCode(node.id)
+                ? outgoing.get(node.id)!
+                    .filter(edge => edge.data?.condition?.trim())
+                    .map(edge => [names.get(edge.target)!, edge.data!.condition!.trim()] as [string, string])
+                : []
+        }
+    })
+}
+
+const SCRIPT_PRELUDE = `import argparse
+import contextlib
+import io
+import pickle
+import sys
+import time
+from pathlib import Path
+
+
+class _Tee(io.StringIO):
+    """Keeps what a step prints while still printing it"""
+
+    def write(self, text):
+        sys.__stdout__.write(text)
+        return super().write(text)
+
+
+def pipeline_step(output, branches=None, retries=0, retry_delay=1.0):
+    """
+    Turns a function returning its locals into a step returning its value, the
+    variable named \`output\` or what it printed when there is none, and which of
+    its conditional connections hold. A failing step is run again up to
+    \`retries\` times, waiting \`retry_delay\` seconds, doubled after each retry.
+    """
+
+    def decorate(function):
+        def run(*inputs):
+            for attempt in range(retries + 1):
+                printed = _Tee()
+                try:
+                    with contextlib.redirect_stdout(printed):
+                        namespace = function(*inputs)
+                    break
+                except Exception:
+                    if attempt == retries:
+                        raise
+                    time.sleep(retry_delay * 2 ** attempt)
+            value = namespace[output] if output in namespace else printed.getvalue()
+            held = {
+                target: bool(eval(condition, function.__globals__, namespace))
+                for target, condition in (branches or {}).items()
+            }
+            return value, held
+
+        run.__name__ = function.__name__
+        run.__doc__ = function.__doc__
+        return run
+
+    return decorate`
+
+function stepFunction(step: ScriptStep): string {
+    const data = step.node.data ?? {}
+    const options = [pythonString(pipelineVariableName(step.node))]
+    if (step.branches.length > 0) {
+        const branches = step.branches.map(([target, condition]) => `${pythonString(target)}: ${pythonString(condition)}`)
+        options.push(`branches={${branches.join(', ')}}`)
+    }
+    const retries = clamp(data.retries ?? 0, 0, MAX_RETRIES)
+    if (retries > 0) options.push(`retries=${retries}`, `retry_delay=${Math.max(0, data.retryDelay ?? DEFAULT_RETRY_DELAY)}`)
+
+    const lines = [
+        `@pipeline_step(${options.join(', ')})`,
+        `def step_${step.name}(${step.parameters.join(', ')}):`,
+        `${INDENT}${pythonString(data.title || step.name)}`
+    ]
+
+    const until = data.loopUntil?.trim()
+    if (until) {
+        // The loop keeps the step's variables between iterations, as the kernel does
+        const limit = clamp(data.maxIterations ?? DEFAULT_MAX_ITERATIONS, 1, MAX_ITERATIONS)
+        lines.push(
+            `${INDENT}for _iteration in range(${limit}):`,
+            indent(data.code ?? '', INDENT.repeat(2)),
+            `${INDENT.repeat(2)}if ${until}:`,
+            `${INDENT.repeat(3)}break`,
+            `${INDENT}else:`,
+            `${INDENT.repeat(2)}raise RuntimeError(${pythonString(`"${until}" was still false after ${limit} iterations`)})`
+        )
+    } else {
+        lines.push(indent(data.code ?? ''))
+    }
+    lines.push(`${INDENT}return locals()`)
+    return lines.join('\n')
+}
+
+function stepCall(step: ScriptStep): string {
+    const target = `values[${pythonString(step.name)}], branches[${pythonString(step.name)}]`
+    const call = step.hasCode
+        ? `step_${step.name}(${step.inputs.map(input => `values.get(${pythonString(input)})`).join(', ')})`
+        : 'None, {}'
+    if (step.upstream.length === 0) return `${INDENT}${target} = ${call}`
+    return [
+        `${INDENT}if reached(${pythonString(step.name)}, values, branches):`,
+        `${INDENT.repeat(2)}${target} = ${call}`
+    ].join('\n')
+}
+
+/**
+ * A Python script running the pipeline outside the browser
+ */
+export function buildPipelineScript(pipeline: PipelineScriptSource): string {
+    const steps = scriptSteps(pipeline.nodes, pipeline.edges)
+    const title = pipeline.title.trim() || 'Pipeline'
+    const fileName = pipelineScriptFileName(pipeline.title)
+
+    const upstream = steps.map(step => {
+        const connections = step.upstream.map(({ source, conditional }) => `(${pythonString(source)}, ${conditional ? 'True' : 'False'})`)
+        return `${INDENT}${pythonString(step.name)}: [${connections.join(', ')}],`
+    })
+    const functions = steps.map(step => {
+        if (!step.hasCode) return `${INDENT}${pythonString(step.name)}: (None, []),`
+        return `${INDENT}${pythonString(step.name)}: (step_${step.name}, [${step.inputs.map(pythonString).join(', ')}]),`
+    })
+
+    return [
+        '#!/usr/bin/env python3',
+        `"""${title.replace(/\\/g, '\\\\').replace(/"""/g, '\\"\\"\\"')}`,
+        '',
+        'Exported from a BashNota pipeline. Every block is a function taking the',
+        'values of its upstream blocks; main() runs them in dependency order. A block',
+        'runs when one of its connections is followed, and a connection with a',
+        'condition is followed only when the condition holds. An error stops the run.',
+        '',
+        `    python ${fileName}               run the whole pipeline`,
+        `    python ${fileName} --step NAME   run one step on the pickled results of its`,
+        `    ${' '.repeat(fileName.length + 24)}upstream steps in --out, as the Makefile does`,
+        '"""',
+        SCRIPT_PRELUDE,
+        '',
+        ...steps.filter(step => step.hasCode).flatMap(step => ['', stepFunction(step), '']),
+        '',
+        '# The upstream steps of every step, and whether their connection has a condition',
+        'UPSTREAM = {',
+        ...upstream,
+        '}',
+        '',
+        '# The function of every step and the steps whose values it takes',
+        'STEPS = {',
+        ...functions,
+        '}',
+        '',
+        '',
+        'def reached(name, values, branches):',
+        '    """Whether a step runs: it has no upstream steps, or one of its connections is followed"""',
+        '    upstream = UPSTREAM[name]',
+        '    return not upstream or any(',
+        '        source in values and (not conditional or branches[source].get(name, False))',
+        '        for source, conditional in upstream',
+        '    )',
+        '',
+        '',
+        'def main():',
+        '    values, branches = {}, {}',
+        ...steps.map(stepCall),
+        '    return values',
+        '',
+        '',
+        'def run_step(name, directory):',
+        '    """Runs one step on the results of its upstream steps in `directory` and saves its own there"""',
+        '    values, branches = {}, {}',
+        '    for source, _ in UPSTREAM[name]:',
+        '        with open(directory / f"{source}.pkl", "rb") as file:',
+        '            result = pickle.load(file)',
+        '        if result["ran"]:',
+        '            values[source], branches[source] = result["value"], result["branches"]',
+        '',
+        '    result = {"ran": False, "value": None, "branches": {}}',
+        '    if reached(name, values, branches):',
+        '        function, inputs = STEPS[name]',
+        '        value, held = function(*[values.get(input) for input in inputs]) if function else (None, {})',
+        '        result = {"ran": True, "value": value, "branches": held}',
+        '',
+        '    directory.mkdir(parents=True, exist_ok=True)',
+        '    with open(directory / f"{name}.pkl", "wb") as file:',
+        '        pickle.dump(result, file)',
+        '',
+        '',
+        'if __name__ == "__main__":',
+        '    parser = argparse.ArgumentParser(description=__doc__.splitlines()[0])',
+        '    parser.add_argument("--step", choices=list(STEPS), help="run a single step")',
+        '    parser.add_argument("--out", default="build", help="directory of the step results (default: build)")',
+        '    args = parser.parse_args()',
+        '    if args.step:',
+        '        run_step(args.step, Path(args.out))',
+        '    else:',
+        '        main()',
+        ''
+    ].join('\n')
+}
+
+/**
+ * A Makefile running every step of the script exported next to it as its own
+ * job; `make -j` runs independent steps side by side
+ */
+export function buildPipelineMakefile(pipeline: PipelineScriptSource, scriptName = pipelineScriptFileName(pipeline.title)): string {
+    const steps = scriptSteps(pipeline.nodes, pipeline.edges)
+    const result = (name: string) => `$(OUT)/${name}.pkl`
+    const downstream = new Set(steps.flatMap(step => step.upstream.map(({ source }) => source)))
+    const last = steps.filter(step => !downstream.has(step.name))
+
+    return [
+        `# ${pipeline.title.trim() || 'Pipeline'}, exported from BashNota`,
+        `# Every step saves its result in $(OUT); a step whose connections were not`,
+        `# followed saves an empty one, so its downstream steps can still be made.`,
+        '',
+        'PYTHON ?= python3',
+        `SCRIPT ?= ${scriptName}`,
+        'OUT ?= build',
+        '',
+        '.PHONY: all clean',
+        '',
+        `all: ${last.map(step => result(step.name)).join(' ')}`,
+        '',
+        ...steps.flatMap(step => [
+            `${result(step.name)}: $(SCRIPT)${step.upstream.map(({ source }) => ` ${result(source)}`).join('')}`,
+            `\t$(PYTHON) $(SCRIPT) --step ${step.name} --out $(OUT)`,
+            ''
+        ]),
+        'clean:',
+        '\trm -rf $(OUT)',
+        ''
+    ].join('\n')
+}
+
+/**
+ * The file name of a pipeline's script, e.g. "ML pipeline" -> ml_pipeline.py
+ */
+export function pipelineScriptFileName(title: string): string {
+    const name = title.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '')
+    return `${name || 'pipeline'}.py`
+}
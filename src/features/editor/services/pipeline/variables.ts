@@ -0,0 +1,120 @@
+import type { PipelineNodeData } from '@/features/editor/types/pipeline'
+
+/**
+ * Passing node outputs along pipeline edges. Every node publishes one Python
+ * variable, named after the node; downstream nodes get it injected before
+ * their code runs. Within a kernel the variable is already there. Across
+ * kernels it is pickled in the upstream kernel, printed between markers and
+ * unpickled in the downstream one.
+ */
+
+const VALUE_MARKER = '__bashnota_value__'
+
+const PYTHON_KEYWORDS = new Set([
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+    'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+    'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'
+])
+
+export const PYTHON_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// A node's value as seen by a downstream node
+export interface PipelineValue {
+    name: string
+    // Base64 pickle of the variable, when it was sent over from another kernel
+    pickled?: string
+    // Printed output of the upstream node, used when it defined no such variable
+    text: string
+}
+
+const toIdentifier = (text: string): string => {
+    const name = text.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '')
+    if (!name) return ''
+    const identifier = /^[0-9]/.test(name) ? `_${name}` : name
+    return PYTHON_KEYWORDS.has(identifier) ? `${identifier}_` : identifier
+}
+
+/**
+ * The variable a node publishes: its output name when valid, or its title as
+ * a Python identifier, e.g. "Load data" -> `load_data`
+ */
+export function pipelineVariableName(node: { id: string; data?: Partial<PipelineNodeData> }): string {
+    const outputName = node.data?.outputName?.trim()
+    if (outputName && !validateVariableName(outputName)) return outputName
+    return toIdentifier(node.data?.title || '') || toIdentifier(`node_${node.id}`)
+}
+
+/**
+ * Why `name` cannot be a node's output name, or '' when it can
+ */
+export function validateVariableName(name: string): string {
+    if (!name) return ''
+    if (!PYTHON_IDENTIFIER_PATTERN.test(name)) return 'Use letters, digits and underscores, not starting with a digit'
+    if (PYTHON_KEYWORDS.has(name)) return `"${name}" is a Python keyword`
+    return ''
+}
+
+/**
+ * Code printing the pickled value of `name` between markers; prints nothing
+ * when the variable is undefined, cannot be pickled or its base64 would be
+ * longer than `maxLength`. Pickling stops as soon as that length is passed.
+ */
+export function captureValueCode(name: string, maxLength?: number): string {
+    if (maxLength === undefined) {
+        return [
+            'import base64 as _bn_base64, pickle as _bn_pickle',
+            'try:',
+            `    _bn_value = _bn_base64.b64encode(_bn_pickle.dumps(${name})).decode()`,
+            'except Exception:',
+            '    _bn_value = ""',
+            'if _bn_value:',
+            `    print(${JSON.stringify(VALUE_MARKER)} + _bn_value + ${JSON.stringify(VALUE_MARKER)})`,
+            'del _bn_base64, _bn_pickle, _bn_value'
+        ].join('\n')
+    }
+
+    // Base64 turns every 3 bytes into 4 characters
+    const maxBytes = Math.floor(maxLength / 4) * 3
+    return [
+        'import base64 as _bn_base64, io as _bn_io, pickle as _bn_pickle',
+        'class _BnLimitedBuffer(_bn_io.BytesIO):',
+        '    def write(self, data):',
+        `        if self.tell() + len(data) > ${maxBytes}:`,
+        '            raise OverflowError("value too large")',
+        '        return super().write(data)',
+        '_bn_buffer = _BnLimitedBuffer()',
+        'try:',
+        `    _bn_pickle.dump(${name}, _bn_buffer)`,
+        '    _bn_value = _bn_base64.b64encode(_bn_buffer.getvalue()).decode()',
+        'except Exception:',
+        '    _bn_value = ""',
+        'if _bn_value:',
+        `    print(${JSON.stringify(VALUE_MARKER)} + _bn_value + ${JSON.stringify(VALUE_MARKER)})`,
+        'del _bn_base64, _bn_io, _bn_pickle, _BnLimitedBuffer, _bn_buffer, _bn_value'
+    ].join('\n')
+}
+
+/**
+ * The base64 pickle printed by `captureValueCode`, if any
+ */
+export function parseCapturedValue(output: string): string | undefined {
+    const match = output.match(new RegExp(`${VALUE_MARKER}([A-Za-z0-9+/=]+)${VALUE_MARKER}`))
+    return match?.[1]
+}
+
+/**
+ * Code defining the given upstream values as variables. Values from the same
+ * kernel are only defined when the upstream node did not define them itself.
+ */
+export function inputPreludeCode(values: PipelineValue[]): string {
+    if (values.length === 0) return ''
+    const lines: string[] = []
+    if (values.some(value => value.pickled)) lines.push('import base64 as _bn_base64, pickle as _bn_pickle')
+    for (const { name, pickled, text } of values) {
+        // JSON string literals are valid Python string literals
+        if (pickled) lines.push(`${name} = _bn_pickle.loads(_bn_base64.b64decode(${JSON.stringify(pickled)}))`)
+        else lines.push(`if ${JSON.stringify(name)} not in globals():`, `    ${name} = ${JSON.stringify(text)}`)
+    }
+    if (values.some(value => value.pickled)) lines.push('del _bn_base64, _bn_pickle')
+    return lines.join('\n')
+}
@@ -0,0 +1,648 @@
+import type { TableColumn, TableData } from '@/features/editor/components/blocks/table-block/TableExtension'
+
+/**
+ * Formula columns and footer aggregates of the table block. A formula is a
+ * spreadsheet-like expression evaluated once per row, e.g.
+ * `IF({Accuracy} > 0.9, "keep", "drop")` or `DATEDIFF({Start}, {End}, "days")`,
+ * where `{Title}` is the value of that row's cell in the column titled Title.
+ * Formulas are computed when the table is shown or exported; only the
+ * expression is stored, on the column.
+ */
+
+export type FormulaValue = number | string | boolean | Date | null
+
+export type TableAggregate = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'distinct'
+
+export const TABLE_AGGREGATES: { value: TableAggregate; label: string }[] = [
+    { value: 'sum', label: 'Sum' },
+    { value: 'avg', label: 'Average' },
+    { value: 'min', label: 'Min' },
+    { value: 'max', label: 'Max' },
+    { value: 'count', label: 'Count' },
+    { value: 'distinct', label: 'Distinct' }
+]
+
+// The value of a formula cell, or why it could not be computed
+export interface FormulaCell {
+    value: FormulaValue
+    error?: string
+}
+
+type FormulaNode =
+    | { type: 'literal'; value: FormulaValue }
+    | { type: 'column'; name: string }
+    | { type: 'unary'; operator: string; operand: FormulaNode }
+    | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+    | { type: 'call'; name: string; args: FormulaNode[] }
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'column'; value: string }
+    | { type: 'name'; value: string }
+    | { type: 'operator'; value: string }
+
+const DAY = 24 * 60 * 60 * 1000
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>', '(', ')', ',']
+
+// Binding power of binary operators; ^ binds right to left
+const PRECEDENCE: Record<string, number> = {
+    '=': 1, '==': 1, '!=': 1, '<>': 1, '<': 1, '<=': 1, '>': 1, '>=': 1,
+    '&': 2,
+    '+': 3, '-': 3,
+    '*': 4, '/': 4, '%': 4,
+    '^': 6
+}
+const UNARY_PRECEDENCE = 5
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = []
+    let i = 0
+    while (i < source.length) {
+        const char = source[i]
+        if (/\s/.test(char)) {
+            i++
+            continue
+        }
+
+        const number = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)
+        if (number) {
+            tokens.push({ type: 'number', value: Number(number[0]) })
+            i += number[0].length
+            continue
+        }
+
+        if (char === '"' || char === "'") {
+            let value = ''
+            let j = i + 1
+            for (; j < source.length && source[j] !== char; j++) {
+                value += source[j] === '\\' && j + 1 < source.length ? source[++j] : source[j]
+            }
+            if (j >= source.length) throw new Error('Unclosed string')
+            tokens.push({ type: 'string', value })
+            i = j + 1
+            continue
+        }
+
+        if (char === '{') {
+            const end = source.indexOf('}', i)
+            if (end === -1) throw new Error('Unclosed column reference, expected "}"')
+            tokens.push({ type: 'column', value: source.slice(i + 1, end).trim() })
+            i = end + 1
+            continue
+        }
+
+        const name = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)
+        if (name) {
+            tokens.push({ type: 'name', value: name[0] })
+            i += name[0].length
+            continue
+        }
+
+        const operator = OPERATORS.find(op => source.startsWith(op, i))
+        if (!operator) throw new Error(`Unexpected "${char}"`)
+        tokens.push({ type: 'operator', value: operator })
+        i += operator.length
+    }
+    return tokens
+}
+
+/**
+ * Parses a formula, or throws a message saying what is wrong with it
+ */
+function parseFormula(source: string): FormulaNode {
+    const tokens = tokenize(source)
+    let position = 0
+
+    const peek = () => tokens[position]
+    const isOperator = (value: string) => peek()?.type === 'operator' && peek()!.value === value
+    const expect = (value: string) => {
+        if (!isOperator(value)) throw new Error(peek() ? `Expected "${value}"` : `Expected "${value}" at the end`)
+        position++
+    }
+
+    const parsePrimary = (): FormulaNode => {
+        const token = tokens[position++]
+        if (!token) throw new Error('The formula ends too early')
+        switch (token.type) {
+            case 'number':
+            case 'string':
+                return { type: 'literal', value: token.value }
+            case 'column':
+                return { type: 'column', name: token.value }
+            case 'name': {
+                const name = token.value.toUpperCase()
+                if (!isOperator('(')) {
+                    if (name === 'TRUE' || name === 'FALSE') return { type: 'literal', value: name === 'TRUE' }
+                    throw new Error(`Unknown name "${token.value}"; write columns as {${token.value}}`)
+                }
+                position++
+                const args: FormulaNode[] = []
+                if (!isOperator(')')) {
+                    do {
+                        args.push(parseExpression(0))
+                    } while (isOperator(',') && ++position)
+                }
+                expect(')')
+                return { type: 'call', name, args }
+            }
+            case 'operator':
+                if (token.value === '(') {
+                    const inner = parseExpression(0)
+                    expect(')')
+                    return inner
+                }
+                if (token.value === '-' || token.value === '+') {
+                    return { type: 'unary', operator: token.value, operand: parseExpression(UNARY_PRECEDENCE) }
+                }
+                throw new Error(`Unexpected "${token.value}"`)
+        }
+    }
+
+    const parseExpression = (minPrecedence: number): FormulaNode => {
+        let left = parsePrimary()
+        for (;;) {
+            const token = peek()
+            if (token?.type !== 'operator' || !(token.value in PRECEDENCE)) return left
+            const precedence = PRECEDENCE[token.value]
+            if (precedence < minPrecedence || (precedence === minPrecedence && token.value !== '^')) return left
+            position++
+            left = { type: 'binary', operator: token.value, left, right: parseExpression(precedence) }
+        }
+    }
+
+    if (tokens.length === 0) throw new Error('The formula is empty')
+    const node = parseExpression(0)
+    if (position < tokens.length) {
+        const token = tokens[position]
+        throw new Error(`Unexpected "${token.type === 'column' ? `{${token.value}}` : token.value}"`)
+    }
+    return node
+}
+
+const isBlank = (value: FormulaValue) => value === null || value === ''
+
+const toNumber = (value: FormulaValue): number => {
+    if (value === null) return 0
+    if (typeof value === 'number') return value
+    if (typeof value === 'boolean') return value ? 1 : 0
+    if (value instanceof Date) throw new Error('Expected a number, got a date')
+    if (!value.trim()) return 0
+    const number = Number(value)
+    if (Number.isNaN(number)) throw new Error(`"${value}" is not a number`)
+    return number
+}
+
+// A date from text, or null. Date-only text such as 2024-03-01 is local
+// midnight, as the date functions work in local time; `new Date` reads it as UTC.
+const parseDate = (text: string): Date | null => {
+    const dateOnly = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    const date = dateOnly ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])) : new Date(text)
+    return Number.isNaN(date.getTime()) ? null : date
+}
+
+const toDate = (value: FormulaValue): Date => {
+    if (value instanceof Date) return value
+    if (typeof value === 'string' && value.trim()) {
+        const date = parseDate(value)
+        if (date) return date
+    }
+    throw new Error(`${value === null ? 'An empty cell' : `"${formatFormulaValue(value)}"`} is not a date`)
+}
+
+const toBoolean = (value: FormulaValue): boolean => {
+    if (typeof value === 'boolean') return value
+    if (typeof value === 'number') return value !== 0
+    return !isBlank(value)
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * A formula value as shown in a cell: dates as YYYY-MM-DD with the time when
+ * it is not midnight, numbers without floating point noise
+ */
+export function formatFormulaValue(value: FormulaValue): string {
+    if (value === null) return ''
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+    if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)))
+    if (value instanceof Date) {
+        const day = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+        return value.getHours() || value.getMinutes() ? `${day} ${pad(value.getHours())}:${pad(value.getMinutes())}` : day
+    }
+    return value
+}
+
+const toText = (value: FormulaValue) => formatFormulaValue(value)
+
+const finite = (value: number) => {
+    if (!Number.isFinite(value)) throw new Error(Number.isNaN(value) ? 'The result is not a number' : 'Division by zero')
+    return value
+}
+
+const addMonths = (date: Date, months: number) => {
+    const result = new Date(date)
+    const day = result.getDate()
+    result.setDate(1)
+    result.setMonth(result.getMonth() + months)
+    // The 31st plus a month is the end of a shorter month, not the start of the next
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate()
+    result.setDate(Math.min(day, lastDay))
+    return result
+}
+
+const DATE_UNITS: Record<string, number> = { minutes: 60 * 1000, hours: 60 * 60 * 1000, days: DAY, weeks: 7 * DAY }
+
+const dateUnit = (value: FormulaValue) => {
+    const unit = toText(value).toLowerCase().replace(/s?$/, 's')
+    if (!(unit in DATE_UNITS) && unit !== 'months' && unit !== 'years') {
+        throw new Error(`Unknown unit "${toText(value)}"; use minutes, hours, days, weeks, months or years`)
+    }
+    return unit
+}
+
+const compare = (left: FormulaValue, right: FormulaValue): number => {
+    if (left instanceof Date || right instanceof Date) return toDate(left).getTime() - toDate(right).getTime()
+    const numeric = (value: FormulaValue) => value === null || typeof value === 'number' || typeof value === 'boolean'
+    if (numeric(left) && numeric(right)) return toNumber(left) - toNumber(right)
+    return toText(left).localeCompare(toText(right), undefined, { sensitivity: 'accent' })
+}
+
+function binary(operator: string, left: FormulaValue, right: FormulaValue): FormulaValue {
+    switch (operator) {
+        case '+':
+            if (left instanceof Date) return new Date(left.getTime() + toNumber(right) * DAY)
+            if (right instanceof Date) return new Date(right.getTime() + toNumber(left) * DAY)
+            return finite(toNumber(left) + toNumber(right))
+        case '-':
+            if (left instanceof Date && right instanceof Date) return (left.getTime() - right.getTime()) / DAY
+            if (left instanceof Date) return new Date(left.getTime() - toNumber(right) * DAY)
+            return finite(toNumber(left) - toNumber(right))
+        case '*':
+            return finite(toNumber(left) * toNumber(right))
+        case '/':
+            return finite(toNumber(left) / toNumber(right))
+        case '%':
+            return finite(toNumber(left) % toNumber(right))
+        case '^':
+            return finite(toNumber(left) ** toNumber(right))
+        case '&':
+            return toText(left) + toText(right)
+        case '=':
+        case '==':
+            return compare(left, right) === 0
+        case '!=':
+        case '<>':
+            return compare(left, right) !== 0
+        case '<':
+            return compare(left, right) < 0
+        case '<=':
+            return compare(left, right) <= 0
+        case '>':
+            return compare(left, right) > 0
+        default:
+            return compare(left, right) >= 0
+    }
+}
+
+const arity = (name: string, args: unknown[], min: number, max = min) => {
+    if (args.length < min || args.length > max) {
+        const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`
+        throw new Error(`${name} takes ${expected} argument${min === 1 && max === 1 ? '' : 's'}`)
+    }
+}
+
+const numbersOf = (values: FormulaValue[]) => values.filter(value => !isBlank(value)).map(toNumber)
+
+// Functions whose arguments are all evaluated first
+const FUNCTIONS: Record<string, (args: FormulaValue[], name: string) => FormulaValue> = {
+    AND: args => args.every(toBoolean),
+    OR: args => args.some(toBoolean),
+    NOT: (args, name) => (arity(name, args, 1), !toBoolean(args[0])),
+    ISBLANK: (args, name) => (arity(name, args, 1), isBlank(args[0])),
+
+    ABS: (args, name) => (arity(name, args, 1), Math.abs(toNumber(args[0]))),
+    ROUND: (args, name) => {
+        arity(name, args, 1, 2)
+        const factor = 10 ** toNumber(args[1] ?? 0)
+        return Math.round(toNumber(args[0]) * factor) / factor
+    },
+    FLOOR: (args, name) => (arity(name, args, 1), Math.floor(toNumber(args[0]))),
+    CEIL: (args, name) => (arity(name, args, 1), Math.ceil(toNumber(args[0]))),
+    SQRT: (args, name) => (arity(name, args, 1), finite(Math.sqrt(toNumber(args[0])))),
+    POWER: (args, name) => (arity(name, args, 2), finite(toNumber(args[0]) ** toNumber(args[1]))),
+    MOD: (args, name) => (arity(name, args, 2), finite(toNumber(args[0]) % toNumber(args[1]))),
+    MIN: (args, name) => (arity(name, args, 1, Infinity), Math.min(...numbersOf(args))),
+    MAX: (args, name) => (arity(name, args, 1, Infinity), Math.max(...numbersOf(args))),
+
+    CONCAT: args => args.map(toText).join(''),
+    LEN: (args, name) => (arity(name, args, 1), toText(args[0]).length),
+    UPPER: (args, name) => (arity(name, args, 1), toText(args[0]).toUpperCase()),
+    LOWER: (args, name) => (arity(name, args, 1), toText(args[0]).toLowerCase()),
+    TRIM: (args, name) => (arity(name, args, 1), toText(args[0]).trim()),
+    LEFT: (args, name) => (arity(name, args, 1, 2), toText(args[0]).slice(0, toNumber(args[1] ?? 1))),
+    RIGHT: (args, name) => {
+        arity(name, args, 1, 2)
+        const count = toNumber(args[1] ?? 1)
+        return count > 0 ? toText(args[0]).slice(-count) : ''
+    },
+    MID: (args, name) => {
+        arity(name, args, 3)
+        const start = Math.max(1, toNumber(args[1]))
+        return toText(args[0]).slice(start - 1, start - 1 + toNumber(args[2]))
+    },
+    REPLACE: (args, name) => (arity(name, args, 3), toText(args[0]).split(toText(args[1])).join(toText(args[2]))),
+    CONTAINS: (args, name) => (arity(name, args, 2), toText(args[0]).toLowerCase().includes(toText(args[1]).toLowerCase())),
+    TEXT: (args, name) => (arity(name, args, 1), toText(args[0])),
+    VALUE: (args, name) => (arity(name, args, 1), toNumber(args[0])),
+
+    TODAY: (args, name) => {
+        arity(name, args, 0)
+        const now = new Date()
+        return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    },
+    NOW: (args, name) => (arity(name, args, 0), new Date()),
+    DATE: (args, name) => (arity(name, args, 3), new Date(toNumber(args[0]), toNumber(args[1]) - 1, toNumber(args[2]))),
+    YEAR: (args, name) => (arity(name, args, 1), toDate(args[0]).getFullYear()),
+    MONTH: (args, name) => (arity(name, args, 1), toDate(args[0]).getMonth() + 1),
+    DAY: (args, name) => (arity(name, args, 1), toDate(args[0]).getDate()),
+    // 1 for Monday to 7 for Sunday
+    WEEKDAY: (args, name) => (arity(name, args, 1), ((toDate(args[0]).getDay() + 6) % 7) + 1),
+    DATEADD: (args, name) => {
+        arity(name, args, 2, 3)
+        const date = toDate(args[0])
+        const amount = toNumber(args[1])
+        const unit = dateUnit(args[2] ?? 'days')
+        if (unit === 'months') return addMonths(date, amount)
+        if (unit === 'years') return addMonths(date, amount * 12)
+        return new Date(date.getTime() + amount * DATE_UNITS[unit])
+    },
+    // Whole units from the first date to the second
+    DATEDIFF: (args, name) => {
+        arity(name, args, 2, 3)
+        const start = toDate(args[0])
+        const end = toDate(args[1])
+        const unit = dateUnit(args[2] ?? 'days')
+        if (unit === 'months' || unit === 'years') {
+            let months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth()
+            if (months > 0 && addMonths(start, months) > end) months--
+            if (months < 0 && addMonths(start, months) < end) months++
+            return unit === 'years' ? Math.trunc(months / 12) : months
+        }
+        return Math.trunc((end.getTime() - start.getTime()) / DATE_UNITS[unit])
+    }
+}
+
+export const FORMULA_FUNCTIONS = ['IF', 'IFERROR', ...Object.keys(FUNCTIONS)]
+
+function evaluate(node: FormulaNode, column: (name: string) => FormulaValue): FormulaValue {
+    switch (node.type) {
+        case 'literal':
+            return node.value
+        case 'column':
+            return column(node.name)
+        case 'unary': {
+            const value = toNumber(evaluate(node.operand, column))
+            return node.operator === '-' ? -value : value
+        }
+        case 'binary':
+            return binary(node.operator, evaluate(node.left, column), evaluate(node.right, column))
+        case 'call': {
+            // IF and IFERROR only evaluate the branch they return
+            if (node.name === 'IF') {
+                arity('IF', node.args, 2, 3)
+                const [condition, then, otherwise] = node.args
+                if (toBoolean(evaluate(condition, column))) return evaluate(then, column)
+                return otherwise ? evaluate(otherwise, column) : null
+            }
+            if (node.name === 'IFERROR') {
+                arity('IFERROR', node.args, 2)
+                try {
+                    return evaluate(node.args[0], column)
+                } catch {
+                    return evaluate(node.args[1], column)
+                }
+            }
+            const implementation = FUNCTIONS[node.name]
+            if (!implementation) throw new Error(`Unknown function ${node.name}`)
+            return implementation(node.args.map(arg => evaluate(arg, column)), node.name)
+        }
+    }
+}
+
+const columnKey = (title: string) => title.trim().toLowerCase()
+
+/**
+ * Why `formula` cannot be used in a table with `columns`, or '' when it can
+ */
+export function validateFormula(formula: string, columns: Pick<TableColumn, 'title'>[]): string {
+    let node: FormulaNode
+    try {
+        node = parseFormula(formula)
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error)
+    }
+
+    const titles = new Set(columns.map(column => columnKey(column.title)))
+    const unknown: string[] = []
+    const visit = (current: FormulaNode) => {
+        if (current.type === 'column' && !titles.has(columnKey(current.name))) unknown.push(current.name)
+        if (current.type === 'call') {
+            if (current.name !== 'IF' && current.name !== 'IFERROR' && !FUNCTIONS[current.name]) unknown.push(`${current.name}()`)
+            current.args.forEach(visit)
+        }
+        if (current.type === 'unary') visit(current.operand)
+        if (current.type === 'binary') {
+            visit(current.left)
+            visit(current.right)
+        }
+    }
+    visit(node)
+    if (unknown.length === 0) return ''
+    const [first] = unknown
+    return first.endsWith('()') ? `Unknown function ${first.slice(0, -2)}` : `Unknown column {${first}}`
+}
+
+/**
+ * Why `title` cannot be the title of column `columnId`, or '' when it can.
+ * Formulas refer to columns by title, so no two columns may share one.
+ */
+export function validateColumnTitle(title: string, columns: Pick<TableColumn, 'id' | 'title'>[], columnId?: string): string {
+    if (!title.trim()) return 'The title cannot be empty'
+    const taken = columns.some(column => column.id !== columnId && columnKey(column.title) === columnKey(title))
+    return taken ? `There is already a column titled "${title.trim()}"` : ''
+}
+
+/**
+ * `title`, or the first of "title 2", "title 3", ... no column has yet
+ */
+export function uniqueColumnTitle(title: string, columns: Pick<TableColumn, 'title'>[]): string {
+    const titles = new Set(columns.map(column => columnKey(column.title)))
+    let candidate = title.trim()
+    for (let n = 2; titles.has(columnKey(candidate)); n++) candidate = `${title.trim()} ${n}`
+    return candidate
+}
+
+/**
+ * `formula` with its references to the column titled `oldTitle` renamed to
+ * `newTitle`; text in string literals is left alone
+ */
+export function renameColumnReferences(formula: string, oldTitle: string, newTitle: string): string {
+    let result = ''
+    let i = 0
+    while (i < formula.length) {
+        const char = formula[i]
+        const end = char === '{' ? formula.indexOf('}', i) : -1
+        if (char === '"' || char === "'") {
+            let j = i + 1
+            while (j < formula.length && formula[j] !== char) j += formula[j] === '\\' ? 2 : 1
+            result += formula.slice(i, j + 1)
+            i = j + 1
+        } else if (end !== -1) {
+            const name = formula.slice(i + 1, end)
+            result += columnKey(name) === columnKey(oldTitle) ? `{${newTitle}}` : formula.slice(i, end + 1)
+            i = end + 1
+        } else {
+            result += char
+            i++
+        }
+    }
+    return result
+}
+
+// A stored cell as a formula value, by column type
+const cellValue = (column: TableColumn, cell: unknown): FormulaValue => {
+    if (cell === undefined || cell === null || cell === '') return null
+    if (column.type === 'number') {
+        const number = Number(cell)
+        return Number.isNaN(number) ? String(cell) : number
+    }
+    if (column.type === 'date') {
+        return parseDate(String(cell)) ?? String(cell)
+    }
+    return typeof cell === 'number' || typeof cell === 'boolean' ? cell : String(cell)
+}
+
+/**
+ * The value of every formula cell, by row and column id. Formulas may refer
+ * to other formula columns; a cycle is an error in every cell on it.
+ */
+export function computeTableFormulas(tableData: TableData): Record<string, Record<string, FormulaCell>> {
+    const byTitle = new Map(tableData.columns.map(column => [columnKey(column.title), column]))
+    const parsed = new Map<string, FormulaNode | Error>()
+    for (const column of tableData.columns) {
+        if (column.type !== 'formula') continue
+        try {
+            parsed.set(column.id, parseFormula(column.formula || '""'))
+        } catch (error) {
+            parsed.set(column.id, error instanceof Error ? error : new Error(String(error)))
+        }
+    }
+
+    const result: Record<string, Record<string, FormulaCell>> = {}
+    for (const row of tableData.rows) {
+        const cells: Record<string, FormulaCell> = {}
+        const computing = new Set<string>()
+
+        const compute = (column: TableColumn): FormulaCell => {
+            if (cells[column.id]) return cells[column.id]
+            const node = parsed.get(column.id)!
+            if (node instanceof Error) return (cells[column.id] = { value: null, error: node.message })
+            if (computing.has(column.id)) throw new Error(`Circular reference through {${column.title}}`)
+
+            computing.add(column.id)
+            try {
+                cells[column.id] = { value: evaluate(node, columnValue) }
+            } catch (error) {
+                cells[column.id] = { value: null, error: error instanceof Error ? error.message : String(error) }
+            }
+            computing.delete(column.id)
+            return cells[column.id]
+        }
+
+        const columnValue = (name: string): FormulaValue => {
+            const column = byTitle.get(columnKey(name))
+            if (!column) throw new Error(`Unknown column {${name}}`)
+            if (column.type !== 'formula') return cellValue(column, row.cells?.[column.id])
+            const cell = compute(column)
+            if (cell.error) throw new Error(cell.error.startsWith('Circular') ? cell.error : `{${column.title}} has an error`)
+            return cell.value
+        }
+
+        for (const column of tableData.columns) {
+            if (column.type === 'formula') compute(column)
+        }
+        result[row.id] = cells
+    }
+    return result
+}
+
+/**
+ * Aggregates a column's values: sum and average of its numbers, min and max of
+ * its numbers or else its dates, and the number of non-empty and of distinct
+ * non-empty values
+ */
+export function computeAggregate(aggregate: TableAggregate, values: FormulaValue[]): FormulaValue {
+    const filled = values.filter(value => !isBlank(value))
+    if (aggregate === 'count') return filled.length
+    if (aggregate === 'distinct') return new Set(filled.map(toText)).size
+
+    const numbers = filled
+        .filter(value => !(value instanceof Date) && typeof value !== 'boolean')
+        .map(value => Number(value))
+        .filter(number => !Number.isNaN(number))
+    if (aggregate === 'sum') return numbers.reduce((sum, number) => sum + number, 0)
+    if (aggregate === 'avg') return numbers.length ? numbers.reduce((sum, number) => sum + number, 0) / numbers.length : null
+
+    if (numbers.length > 0) return aggregate === 'min' ? Math.min(...numbers) : Math.max(...numbers)
+    const times = filled.filter((value): value is Date => value instanceof Date).map(date => date.getTime())
+    if (times.length === 0) return null
+    return new Date(aggregate === 'min' ? Math.min(...times) : Math.max(...times))
+}
+
+/**
+ * The rows of a table as shown, with formula columns computed; stored cells
+ * are kept as they are and formula errors are written #ERROR
+ */
+export function tableDisplayRows(tableData: TableData): string[][] {
+    const formulas = computeTableFormulas(tableData)
+    return tableData.rows.map(row =>
+        tableData.columns.map(column => {
+            if (column.type !== 'formula') return String(row.cells?.[column.id] ?? '')
+            const cell = formulas[row.id][column.id]
+            return cell.error ? '#ERROR' : formatFormulaValue(cell.value)
+        })
+    )
+}
+
+/**
+ * The footer of a table, e.g. "Sum: 12" under each aggregated column and ''
+ * under the others, or null when no column is aggregated
+ */
+export function tableAggregateRow(tableData: TableData): string[] | null {
+    if (!tableData.columns.some(column => column.aggregate)) return null
+    const formulas = computeTableFormulas(tableData)
+    return tableData.columns.map(column => {
+        if (!column.aggregate) return ''
+        const values = tableData.rows.map(row =>
+            column.type === 'formula' ? formulas[row.id][column.id].value : cellValue(column, row.cells?.[column.id])
+        )
+        const label = TABLE_AGGREGATES.find(aggregate => aggregate.value === column.aggregate)?.label ?? column.aggregate
+        return `${label}: ${formatFormulaValue(computeAggregate(column.aggregate, values))}`
+    })
+}
+
+/**
+ * The value of each cell in a column as a formula value, for aggregating in
+ * the editor where the formula cells are already computed
+ */
+export function columnFormulaValues(
+    tableData: TableData,
+    column: TableColumn,
+    formulas: Record<string, Record<string, FormulaCell>>
+): FormulaValue[] {
+    return tableData.rows.map(row =>
+        column.type === 'formula' ? formulas[row.id]?.[column.id]?.value ?? null : cellValue(column, row.cells?.[column.id])
+    )
+}
@@ -0,0 +1,194 @@
+import type { Editor } from '@tiptap/core'
+
+// Heading and body style, as amsthm's \theoremstyle
+export type TheoremStyle = 'plain' | 'definition' | 'remark'
+
+export type TheoremColor =
+    | 'primary'
+    | 'blue'
+    | 'amber'
+    | 'emerald'
+    | 'violet'
+    | 'cyan'
+    | 'slate'
+    | 'rose'
+    | 'orange'
+    | 'teal'
+
+/**
+ * A theorem-like environment, declared like LaTeX's
+ * `\newtheorem{name}[counter]{label}`
+ */
+export interface TheoremEnvironment {
+    // LaTeX environment name and the block's type attribute, e.g. "conjecture"
+    name: string
+    // Heading before the number, e.g. "Conjecture"
+    label: string
+    style: TheoremStyle
+    color: TheoremColor
+    // Environment whose counter this one shares; numbered on its own when unset
+    counter?: string
+    // Suggested cross-reference label prefix, e.g. "conj:"
+    prefix: string
+}
+
+export const THEOREM_STYLES: { value: TheoremStyle; label: string; description: string }[] = [
+    { value: 'plain', label: 'Plain', description: 'Bold heading, italic body' },
+    { value: 'definition', label: 'Definition', description: 'Bold heading, upright body' },
+    { value: 'remark', label: 'Remark', description: 'Italic heading, upright body' }
+]
+
+// Accents for exported HTML; the editor uses the matching Tailwind colours
+export const THEOREM_COLORS: Record<TheoremColor, string> = {
+    primary: '#3b82f6',
+    blue: '#2563eb',
+    amber: '#f59e0b',
+    emerald: '#10b981',
+    violet: '#8b5cf6',
+    cyan: '#06b6d4',
+    slate: '#64748b',
+    rose: '#f43f5e',
+    orange: '#f97316',
+    teal: '#14b8a6'
+}
+
+export const BUILTIN_THEOREM_ENVIRONMENTS: readonly TheoremEnvironment[] = [
+    { name: 'theorem', label: 'Theorem', style: 'plain', color: 'primary', prefix: 'thm:' },
+    { name: 'lemma', label: 'Lemma', style: 'plain', color: 'blue', prefix: 'lem:' },
+    { name: 'proposition', label: 'Proposition', style: 'plain', color: 'amber', prefix: 'prop:' },
+    { name: 'corollary', label: 'Corollary', style: 'plain', color: 'emerald', prefix: 'cor:' },
+    { name: 'conjecture', label: 'Conjecture', style: 'plain', color: 'rose', prefix: 'conj:' },
+    { name: 'definition', label: 'Definition', style: 'definition', color: 'violet', prefix: 'def:' },
+    { name: 'example', label: 'Example', style: 'definition', color: 'cyan', prefix: 'ex:' },
+    { name: 'assumption', label: 'Assumption', style: 'definition', color: 'orange', prefix: 'asm:' },
+    { name: 'algorithm', label: 'Algorithm', style: 'definition', color: 'teal', prefix: 'alg:' },
+    { name: 'remark', label: 'Remark', style: 'remark', color: 'slate', prefix: 'rem:' }
+]
+
+export const THEOREM_NAME_PATTERN = /^[A-Za-z]+$/
+
+// Environments LaTeX, amsmath or amsthm already define, and the other cross-reference kinds
+const RESERVED_NAMES = new Set([
+    'proof', 'output', 'document', 'figure', 'table', 'tabular', 'equation', 'align', 'gather', 'multline',
+    'split', 'cases', 'matrix', 'array', 'itemize', 'enumerate', 'description', 'center',
+    'quote', 'quotation', 'verbatim', 'abstract', 'section', 'minipage'
+])
+
+const isBuiltin = (name: string) => BUILTIN_THEOREM_ENVIRONMENTS.some(env => env.name === name)
+
+/**
+ * The environments of a nota: the built-in ones, with the nota's
+ * definitions replacing built-ins of the same name and adding new ones
+ * after them
+ */
+export function resolveTheoremEnvironments(custom: TheoremEnvironment[] = []): TheoremEnvironment[] {
+    const byName = new Map(custom.map(env => [env.name, env]))
+    return [
+        ...BUILTIN_THEOREM_ENVIRONMENTS.map(env => ({ ...env, ...byName.get(env.name) })),
+        ...custom.filter(env => !isBuiltin(env.name))
+    ]
+}
+
+/**
+ * The definitions to store in a nota's config: every environment that is
+ * not a built-in left unchanged
+ */
+export function customTheoremEnvironments(environments: TheoremEnvironment[]): TheoremEnvironment[] {
+    return environments.filter(env => {
+        const builtin = BUILTIN_THEOREM_ENVIRONMENTS.find(b => b.name === env.name)
+        return !builtin || (Object.keys(env) as (keyof TheoremEnvironment)[]).some(key => (env[key] || undefined) !== builtin[key])
+    })
+}
+
+/**
+ * The environment of a theorem block's type. Blocks whose environment was
+ * removed keep their type and are shown as a plain environment of that name.
+ */
+export function getTheoremEnvironment(name: string, environments: readonly TheoremEnvironment[]): TheoremEnvironment {
+    return environments.find(env => env.name === name) ?? {
+        name,
+        label: name.charAt(0).toUpperCase() + name.slice(1),
+        style: 'plain',
+        color: 'primary',
+        prefix: 'thm:'
+    }
+}
+
+/**
+ * The environment whose counter numbers `name`, following shared counters
+ * to the one that counts on its own
+ */
+export function getTheoremCounter(name: string, environments: readonly TheoremEnvironment[]): string {
+    const seen = new Set<string>()
+    let current = name
+    while (!seen.has(current)) {
+        seen.add(current)
+        const counter = environments.find(env => env.name === current)?.counter
+        if (!counter || !environments.some(env => env.name === counter)) return current
+        current = counter
+    }
+    return current
+}
+
+/**
+ * Why `environment` cannot be defined next to `environments`, or '' when it can
+ */
+export function validateTheoremEnvironment(environment: TheoremEnvironment, environments: readonly TheoremEnvironment[]): string {
+    const { name, label, counter } = environment
+    if (!THEOREM_NAME_PATTERN.test(name)) return 'The name must be letters only, as in LaTeX'
+    if (RESERVED_NAMES.has(name)) return `"${name}" is already a LaTeX environment`
+    if (environments.some(env => env !== environment && env.name === name)) return `"${name}" is already defined`
+    if (!label.trim()) return 'The label cannot be empty'
+    if (counter) {
+        if (counter === name) return 'An environment cannot share its own counter'
+        const others = environments.filter(env => env.name !== name).concat(environment)
+        if (!others.some(env => env.name === counter)) return `There is no "${counter}" environment`
+        const seen = new Set<string>()
+        let current = others.find(env => env.name === counter)?.counter
+        while (current && !seen.has(current)) {
+            if (current === name) return 'Shared counters cannot go round in a circle'
+            seen.add(current)
+            current = others.find(env => env.name === current)?.counter
+        }
+    }
+    return ''
+}
+
+export const getTheoremEnvironments = (editor: Editor): readonly TheoremEnvironment[] =>
+    (editor.storage as any).theorem?.environments ?? BUILTIN_THEOREM_ENVIRONMENTS
+
+/**
+ * LaTeX declarations of the given environments with amsthm, counters before
+ * the environments sharing them. Environments reached through a shared
+ * counter are declared too.
+ * @param names Environments used by the document; all when omitted
+ * @param withinSections Restart counters in every section, as "2.1"
+ */
+export function theoremPreamble(
+    environments: readonly TheoremEnvironment[],
+    names?: Iterable<string>,
+    withinSections = false
+): string[] {
+    const lines = ['\\usepackage{amsthm}']
+    const declared = new Set<string>()
+    let style: TheoremStyle | null = null
+
+    const declare = (name: string) => {
+        if (declared.has(name)) return
+        declared.add(name)
+        const env = getTheoremEnvironment(name, environments)
+        const counter = env.counter && getTheoremCounter(name, environments) !== name ? env.counter : undefined
+        if (counter) declare(counter)
+
+        if (env.style !== style) {
+            style = env.style
+            lines.push(`\\theoremstyle{${style}}`)
+        }
+        const shared = counter ? `[${counter}]` : ''
+        const within = !counter && withinSections ? '[section]' : ''
+        lines.push(`\\newtheorem{${name}}${shared}{${env.label}}${within}`)
+    }
+
+    for (const name of names ?? environments.map(env => env.name)) declare(name)
+    return lines
+}
@@ -3,9 +3,33 @@ import { ref, computed } from 'vue'
 import { logger } from '@/services/logger'
 import { useNotaStore } from '@/features/nota/stores/nota'
 import type { CitationEntry } from '@/features/nota/types/nota'
+import { parseCustomStyle, type CustomCitationStyle } from '@/features/editor/services/csl'
+import { parseBibTeX } from '@/features/nota/services/referenceFormatService'
+import {
+  getBibFileModified,
+  getWorkspaceDirectory,
+  listBibFiles,
+  mergeLinkedBib,
+  readBibFile,
+  type BibMergeResult
+} from '@/features/nota/services/bibSyncService'
+
+const CUSTOM_STYLES_KEY = 'citation-styles'
+
+const loadCustomStyles = (): CustomCitationStyle[] => {
+  try {
+    const saved = localStorage.getItem(CUSTOM_STYLES_KEY)
+    return saved ? JSON.parse(saved) : []
+  } catch (error) {
+    logger.error('Failed to load citation styles:', error)
+    return []
+  }
+}
 
 export const useCitationStore = defineStore('citation', () => {
   const publicCitations = ref<CitationEntry[]>([])
+  // CSL styles the user added, available to every nota
+  const customStyles = ref<CustomCitationStyle[]>(loadCustomStyles())
 
   // Lazy getter for notaStore
   const getNotaStore = () => useNotaStore()
@@ -56,6 +80,72 @@ export const useCitationStore = defineStore('citation', () => {
     return true
   }
 
+  // References of every nota in the workspace, first one winning for repeated keys
+  const getWorkspaceCitations = () => {
+    const byKey = new Map<string, CitationEntry>()
+    for (const nota of getNotaStore().items) {
+      for (const citation of nota.citations || []) {
+        if (!byKey.has(citation.key)) byKey.set(citation.key, citation)
+      }
+    }
+    return [...byKey.values()]
+  }
+
+  let workspaceDirectory: FileSystemDirectoryHandle | null = null
+
+  const requireWorkspaceDirectory = async () => {
+    workspaceDirectory = workspaceDirectory ?? (await getWorkspaceDirectory())
+    if (!workspaceDirectory) {
+      throw new Error('Linking a .bib file needs filesystem storage with a selected folder')
+    }
+    return workspaceDirectory
+  }
+
+  const applyLinkedBib = async (notaId: string, fileName: string): Promise<BibMergeResult | null> => {
+    const nota = getNotaStore().getCurrentNota(notaId)
+    if (!nota) return null
+
+    const { text, lastModified } = await readBibFile(await requireWorkspaceDirectory(), fileName)
+    const snapshot = nota.linkedBib?.fileName === fileName ? nota.linkedBib.snapshot : null
+    const result = mergeLinkedBib(nota.citations || [], parseBibTeX(text), snapshot)
+
+    await getNotaStore().saveNota({
+      id: notaId,
+      citations: result.citations,
+      linkedBib: { fileName, lastModified, syncedAt: new Date().toISOString(), snapshot: result.snapshot }
+    })
+    return result
+  }
+
+  const listLinkableBibFiles = async () => listBibFiles(await requireWorkspaceDirectory())
+
+  // Link a .bib file in the workspace directory and pull its references in
+  const linkBibFile = (notaId: string, fileName: string) => applyLinkedBib(notaId, fileName)
+
+  // Stop syncing; references already pulled in stay in the nota
+  const unlinkBibFile = async (notaId: string) => {
+    await getNotaStore().saveNota({ id: notaId, linkedBib: undefined })
+  }
+
+  /**
+   * Pull changes from a nota's linked .bib file. Returns null when nothing
+   * was synced because the file has not changed since the last sync.
+   */
+  const syncLinkedBib = async (notaId: string, force = false): Promise<BibMergeResult | null> => {
+    const linkedBib = getNotaStore().getCurrentNota(notaId)?.linkedBib
+    if (!linkedBib) return null
+
+    if (!force) {
+      const lastModified = await getBibFileModified(await requireWorkspaceDirectory(), linkedBib.fileName)
+      if (lastModified === linkedBib.lastModified) return null
+    }
+    const result = await applyLinkedBib(notaId, linkedBib.fileName)
+    if (result?.conflicts.length) {
+      logger.warn(`Linked ${linkedBib.fileName} replaced ${result.conflicts.length} edited reference fields`)
+    }
+    return result
+  }
+
   // Set public citations
   const setPublicCitations = (citations: CitationEntry[]) => {
     publicCitations.value = citations
@@ -83,12 +173,41 @@ export const useCitationStore = defineStore('citation', () => {
     return nota?.citations?.find(citation => citation.key === key) || null
   })
 
+  const saveCustomStyles = () => {
+    try {
+      localStorage.setItem(CUSTOM_STYLES_KEY, JSON.stringify(customStyles.value))
+    } catch (error) {
+      logger.error('Failed to save citation styles:', error)
+    }
+  }
+
+  // Add a CSL style file; throws if it is not a usable style
+  const addCustomStyle = (xml: string): CustomCitationStyle => {
+    const style = parseCustomStyle(xml)
+    customStyles.value = [...customStyles.value.filter(s => s.id !== style.id), style]
+    saveCustomStyles()
+    return style
+  }
+
+  const removeCustomStyle = (id: string) => {
+    customStyles.value = customStyles.value.filter(s => s.id !== id)
+    saveCustomStyles()
+  }
+
   return {
+    customStyles,
+    addCustomStyle,
+    removeCustomStyle,
     addCitation,
     updateCitation,
     deleteCitation,
     getCitationsByNotaId,
     getCitationByKey,
+    getWorkspaceCitations,
+    listLinkableBibFiles,
+    linkBibFile,
+    unlinkBibFile,
+    syncLinkedBib,
     setPublicCitations
   }
 }) 
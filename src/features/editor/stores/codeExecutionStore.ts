@@ -3,7 +3,7 @@ import { ref, computed, reactive, readonly } from 'vue'
 import { CodeExecutionService } from '@/services/codeExecutionService'
 import { JupyterService } from '@/features/jupyter/services/jupyterService'
 import type { CodeCell, KernelSession } from '@/features/editor/types/codeExecution'
-import type { JupyterServer, KernelSpec, NotaConfig, SavedSession } from '@/features/jupyter/types/jupyter'
+import type { InputRequest, JupyterServer, KernelSpec, NotaConfig, SavedSession } from '@/features/jupyter/types/jupyter'
 import { useNotaStore } from '@/features/nota/stores/nota'
 import { useJupyterStore } from '@/features/jupyter/stores/jupyterStore'
 import { getURLWithoutProtocol } from '@/lib/utils'
@@ -43,6 +43,64 @@ export const useCodeExecutionStore = defineStore('codeExecution', () => {
     }
   }
   
+  // Runs in progress per session, so queued cells can be cancelled on interrupt/restart
+  const activeRuns = new Map<string, Set<AbortController>>()
+
+  const startRun = (sessionId: string) => {
+    const controller = new AbortController()
+    if (!activeRuns.has(sessionId)) {
+      activeRuns.set(sessionId, new Set())
+    }
+    activeRuns.get(sessionId)!.add(controller)
+    return controller
+  }
+
+  const finishRun = (sessionId: string, controller: AbortController) => {
+    activeRuns.get(sessionId)?.delete(controller)
+  }
+
+  const cancelQueuedRuns = (sessionId: string) => {
+    activeRuns.get(sessionId)?.forEach((controller) => controller.abort())
+    activeRuns.delete(sessionId)
+  }
+
+  // input() prompts waiting on the user, keyed by cell id
+  const pendingInputs = new Map<string, { resolve: (value: string) => void; reject: (error: Error) => void }>()
+
+  const requestInput = (cellId: string, request: InputRequest) =>
+    new Promise<string>((resolve, reject) => {
+      pendingInputs.get(cellId)?.reject(new Error('Superseded by a new input request'))
+      pendingInputs.set(cellId, { resolve, reject })
+      const cell = cells.value.get(cellId)
+      if (cell) {
+        cell.inputRequest = request
+        cells.value.set(cellId, { ...cell })
+      }
+    })
+
+  const takePendingInput = (cellId: string) => {
+    const pending = pendingInputs.get(cellId)
+    pendingInputs.delete(cellId)
+    const cell = cells.value.get(cellId)
+    if (cell?.inputRequest) {
+      cell.inputRequest = null
+      cells.value.set(cellId, { ...cell })
+    }
+    return pending
+  }
+
+  const cancelInput = (cellId: string, reason = 'Input cancelled') => {
+    takePendingInput(cellId)?.reject(new Error(reason))
+  }
+
+  const cancelSessionInputs = (sessionId: string) => {
+    for (const cellId of [...pendingInputs.keys()]) {
+      if (cells.value.get(cellId)?.sessionId === sessionId) {
+        cancelInput(cellId)
+      }
+    }
+  }
+
   // Dialog control for server selection
   const serverDialogState = reactive({
     isOpen: false,
@@ -698,6 +756,7 @@ export const useCodeExecutionStore = defineStore('codeExecution', () => {
     cell.hasError = false;
     cell.error = null;
     cell.output = '';
+    cell.inputRequest = null;
     cells.value.set(cellId, { ...cell });
 
     try {
@@ -727,26 +786,37 @@ export const useCodeExecutionStore = defineStore('codeExecution', () => {
       logger.log(`Executing code for cell ${cellId} with session ${session.id}, kernel ${session.kernelId}`);
       logger.log(`Code to execute: "${cell.code}"`);
       
-      const results = await executionService.executeNotebookBlocks(
-        cell.serverConfig,
-        session.kernelId,
-        [{ id: cellId, notebookId: session.id, code: cell.code }],
-        (blockId: string, output: string) => {
-          logger.log(`Streaming output for ${blockId}:`, output);
-          const updatedCell = cells.value.get(blockId);
-          if (updatedCell) {
-            updatedCell.output += output;
-            cells.value.set(blockId, { ...updatedCell });
-            logger.log(`Updated cell output to: "${updatedCell.output}"`);
-          }
-        },
-      );
+      const run = startRun(session.id);
+      let results;
+      try {
+        results = await executionService.executeNotebookBlocks(
+          cell.serverConfig,
+          session.kernelId,
+          [{ id: cellId, notebookId: session.id, code: cell.code }],
+          (blockId: string, output: string) => {
+            logger.log(`Streaming output for ${blockId}:`, output);
+            const updatedCell = cells.value.get(blockId);
+            if (updatedCell) {
+              updatedCell.output = output;
+              cells.value.set(blockId, { ...updatedCell });
+              logger.log(`Updated cell output to: "${updatedCell.output}"`);
+            }
+          },
+          run.signal,
+          requestInput,
+        );
+      } finally {
+        finishRun(session.id, run);
+        cancelInput(cellId);
+      }
 
       // Final output update
       const result = results[0];
       logger.log(`Final execution result:`, result);
       if (result) {
         cell.output = result.output;
+        cell.outputs = result.outputs;
+        cell.executionCount = result.executionCount;
         cell.hasError = result.hasError || false;
         logger.log(`Final cell state - output: "${cell.output}", hasError: ${cell.hasError}`);
       }
@@ -763,6 +833,7 @@ export const useCodeExecutionStore = defineStore('codeExecution', () => {
       cells.value.set(cellId, { ...cell });
     } finally {
       cell.isExecuting = false;
+      cell.inputRequest = null;
       cells.value.set(cellId, { ...cell });
     }
   }
@@ -811,7 +882,9 @@ export const useCodeExecutionStore = defineStore('codeExecution', () => {
           cells.value.set(cell.id, { ...cell })
         })
 
+        const run = startRun(sessionId)
         try {
+          // Cells still queued when the run is cancelled are simply left unexecuted
           const results = await executionService.executeNotebookBlocks(
             updatedSession.serverConfig,
             updatedSession.kernelId,
@@ -819,17 +892,21 @@ export const useCodeExecutionStore = defineStore('codeExecution', () => {
             (blockId: string, output: string) => {
               const cell = cells.value.get(blockId)
               if (cell) {
-                cell.output += output
+                cell.output = output
                 cells.value.set(blockId, { ...cell })
               }
             },
+            run.signal,
+            requestInput,
           )
 
           // Final output update
-          results.forEach((result: { id: string; output: string; hasError?: boolean }) => {
+          results.forEach((result) => {
             const cell = cells.value.get(result.id)
             if (cell) {
               cell.output = result.output
+              cell.outputs = result.outputs
+              cell.executionCount = result.executionCount
               cell.hasError = result.hasError || false
               cells.value.set(cell.id, { ...cell })
             }
@@ -842,7 +919,9 @@ export const useCodeExecutionStore = defineStore('codeExecution', () => {
             cells.value.set(cell.id, { ...cell })
           })
         } finally {
+          finishRun(sessionId, run)
           sessionCells.forEach((c) => {
+            cancelInput(c.id)
             const cell = cells.value.get(c.id)
             if (cell) {
               cell.isExecuting = false
@@ -856,7 +935,69 @@ export const useCodeExecutionStore = defineStore('codeExecution', () => {
     await Promise.all(executionPromises)
   }
 
+  // Interrupt the running cell of a session and cancel any cells queued behind it
+  async function interruptSession(sessionId: string) {
+    cancelQueuedRuns(sessionId)
+    cancelSessionInputs(sessionId)
+
+    const session = kernelSessions.value.get(sessionId)
+    if (!session?.kernelId || !session.serverConfig) {
+      logger.warn(`Cannot interrupt session ${sessionId}: no running kernel`)
+      return
+    }
+
+    await executionService.interruptKernel(session.serverConfig, session.kernelId)
+  }
+
+  // Restart the kernel of a session, dropping its state and cancelling queued cells
+  async function restartSession(sessionId: string) {
+    cancelQueuedRuns(sessionId)
+    cancelSessionInputs(sessionId)
+
+    const session = kernelSessions.value.get(sessionId)
+    if (!session?.kernelId || !session.serverConfig) {
+      logger.warn(`Cannot restart session ${sessionId}: no running kernel`)
+      return
+    }
+
+    await executionService.restartKernel(session.serverConfig, session.kernelId)
+  }
+
+  async function interruptCell(cellId: string) {
+    const sessionId = cells.value.get(cellId)?.sessionId
+    if (sessionId) {
+      await interruptSession(sessionId)
+    }
+  }
+
+  async function restartCellKernel(cellId: string) {
+    const sessionId = cells.value.get(cellId)?.sessionId
+    if (sessionId) {
+      await restartSession(sessionId)
+    }
+  }
+
+  // The variables of the kernel a cell runs on, or none while it is not connected
+  async function listCellVariables(cellId: string) {
+    const sessionId = cells.value.get(cellId)?.sessionId
+    const kernelId = sessionId ? kernelSessions.value.get(sessionId)?.kernelId : ''
+    return kernelId ? executionService.listVariables(kernelId) : []
+  }
+
+  // Answer the input() prompt a cell is waiting on
+  function submitInput(cellId: string, value: string) {
+    const pending = takePendingInput(cellId)
+    if (!pending) {
+      logger.warn(`Cell ${cellId} is not waiting for input`)
+      return
+    }
+    pending.resolve(value)
+  }
+
   async function cleanup() {
+    activeRuns.forEach((_, sessionId) => cancelQueuedRuns(sessionId))
+    pendingInputs.forEach((_, cellId) => cancelInput(cellId))
+
     // Clean up all kernel sessions
     for (const session of kernelSessions.value.values()) {
       if (session.kernelId && session.serverConfig) {
@@ -883,6 +1024,12 @@ export const useCodeExecutionStore = defineStore('codeExecution', () => {
     addCell,
     executeCell,
     executeAll,
+    interruptSession,
+    restartSession,
+    interruptCell,
+    restartCellKernel,
+    listCellVariables,
+    submitInput,
     cleanup,
     createSession,
     deleteSession,
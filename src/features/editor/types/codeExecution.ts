@@ -1,4 +1,4 @@
-import type { JupyterServer } from '@/features/jupyter/types/jupyter'
+import type { InputRequest, JupyterServer, KernelOutput } from '@/features/jupyter/types/jupyter'
 
 export interface CodeCell {
   id: string
@@ -7,6 +7,11 @@ export interface CodeCell {
   kernelName: string
   sessionId: string
   output: string
+  // Raw outputs with their full MIME bundles, kept for export
+  outputs?: KernelOutput[]
+  executionCount?: number | null
+  // Set while the kernel is waiting for input() on this cell
+  inputRequest?: InputRequest | null
   isExecuting: boolean
   hasError: boolean
   error: Error | null
@@ -34,25 +39,8 @@ export interface ExecutionResult {
   id: string
   hasError?: boolean
   output: string
-}
-
-export interface JupyterMessage {
-  header: {
-    msg_id: string
-    username: string
-    session: string
-    msg_type: string
-    version: string
-  }
-  parent_header: Record<string, any>
-  metadata: Record<string, any>
-  content: Record<string, any>
-  channel: string
-}
-
-export interface MessageStatus {
-  done: boolean
-  output: string
+  outputs?: KernelOutput[]
+  executionCount?: number | null
 }
 
 export interface SessionManager {
@@ -2,8 +2,23 @@ export interface PipelineNodeData {
   id: string
   title?: string
   code?: string
+  // Variable the node's value is passed to downstream nodes as; defaults to the title as an identifier
+  outputName?: string
   output?: any
-  status?: 'idle' | 'running' | 'completed' | 'error' | 'queued'
+  status?: 'idle' | 'running' | 'completed' | 'error' | 'queued' | 'skipped'
+  // Why the node was skipped in the last run
+  skipReason?: string
+  // Times a failed run is run again, waiting retryDelay seconds, doubled after each retry
+  retries?: number
+  retryDelay?: number
+  // Python expression the node is run again until it holds, at most maxIterations times
+  loopUntil?: string
+  maxIterations?: number
+  // Retries and iterations of the last run
+  lastRetries?: number
+  lastIterations?: number
+  // Whether the last run reused the node's cached output instead of running it
+  cached?: boolean
   executionTime?: number
   kernelName?: string
   serverID?: string
@@ -33,7 +48,10 @@ export interface PipelineEdge {
   animated?: boolean
   style?: Record<string, any>
   markerEnd?: any
+  label?: string
+  class?: string
   data?: {
+    // Python expression evaluated in the source node's kernel; the edge is followed only when it holds
     condition?: string
     label?: string
   }
@@ -50,16 +68,67 @@ export interface PipelineExecutionSummary {
   executed: number
   skipped: number
   errors: number
+  // Nodes whose cached output was reused
+  cached?: number
   startTime?: number
   endTime?: number
 }
 
+export interface PipelineRunNodeRecord {
+  nodeId: string
+  title: string
+  outcome: 'completed' | 'error' | 'skipped' | 'empty' | 'cancelled' | 'cached'
+  error?: string
+  reason?: string
+  retries: number
+  iterations: number
+}
+
+export interface PipelineRunEdgeRecord {
+  edgeId: string
+  source: string
+  target: string
+  condition?: string
+  taken: boolean
+}
+
+// One run of a pipeline, kept in the block's run history
+export interface PipelineRunRecord {
+  id: string
+  startTime: number
+  endTime: number
+  // Nodes in the order they finished
+  nodes: PipelineRunNodeRecord[]
+  edges: PipelineRunEdgeRecord[]
+}
+
+// The last successful run of a node, reused while its hash is unchanged
+export interface PipelineCacheEntry {
+  // Hash of the node's code, kernel and upstream hashes, see `pipelineNodeHashes`
+  hash: string
+  output: string | null
+  executionTime?: number
+  // Base64 pickle of the node's variable, when small enough to keep
+  pickled?: string
+  // Jupyter kernel the node's variable was defined in; while that kernel lives,
+  // nodes on it can read the variable without a pickle
+  kernelId?: string
+  // Results of the conditions on its outgoing edges, by edge key
+  conditions?: Record<string, boolean>
+  iterations?: number
+  timestamp: number
+}
+
 export interface PipelineSettings {
   kernelMode: 'shared' | 'isolated' | 'mixed'
   sharedKernelName?: string
   executionOrder: 'topological' | 'sequential' | 'parallel'
   stopOnError: boolean
   autoSave: boolean
+  // Most nodes running at once in parallel order
+  maxConcurrency?: number
+  // Reuse the outputs of nodes whose code, kernel and inputs did not change
+  useCache?: boolean
 }
 
 export interface PipelineNodeState {
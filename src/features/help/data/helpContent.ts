@@ -214,7 +214,7 @@ $$
 
 ## Mermaid Diagrams
 
-Create flowcharts and diagrams with Mermaid syntax.
+Create flowcharts and diagrams with Mermaid syntax. Type \`/mermaid\` or press \`Ctrl+Shift+Alt+D\`, then edit the source on the left while the preview updates on the right. Syntax errors show the line they occur on. Use the download button to save a diagram as SVG or PNG.
 
 \`\`\`mermaid
 graph TD
@@ -884,10 +884,13 @@ Press **Ctrl+K** and type:
 
 Go to Settings > Keyboard Shortcuts to:
 - View all shortcuts
-- Customize existing shortcuts
-- Create new shortcuts
+- Rebind any command, including chords such as **Ctrl+X Ctrl+F**
+- See conflicts and combinations the browser reserves
+- Switch to the Emacs-style chord preset
 - Reset to defaults
-- Export/import shortcut configurations
+- Export/import your keymap as JSON
+
+Shortcuts apply where they make sense: editor shortcuts only while typing in a nota, code block shortcuts only inside a code cell, and global ones everywhere.
 
 ## Tips
 
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import axios from 'axios'
+import { JupyterService } from '../jupyterService'
+import type { JupyterServer } from '@/features/jupyter/types/jupyter'
+
+vi.mock('axios', () => ({
+  default: {
+    post: vi.fn(),
+    delete: vi.fn(),
+    isAxiosError: vi.fn(() => false),
+  },
+  AxiosError: class {},
+}))
+
+vi.mock('@/services/logger', () => ({
+  logger: { log: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}))
+
+class FakeSocket {
+  static instances: FakeSocket[] = []
+  sent: any[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((event: { data: string }) => void) | null = null
+  onerror: ((error: unknown) => void) | null = null
+  onclose: (() => void) | null = null
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this)
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close() {
+    this.onclose?.()
+  }
+
+  reply(parentId: string, msgType: string, content: Record<string, any> = {}) {
+    this.onmessage?.({
+      data: JSON.stringify({
+        msg_type: msgType,
+        header: { msg_type: msgType },
+        parent_header: { msg_id: parentId },
+        content,
+      }),
+    })
+  }
+
+  // Answer the last execute request with its stdout
+  finish(text: string) {
+    const parentId = this.sent[this.sent.length - 1].header.msg_id
+    this.reply(parentId, 'stream', { name: 'stdout', text })
+    this.reply(parentId, 'execute_reply', { status: 'ok', execution_count: this.sent.length })
+    this.reply(parentId, 'status', { execution_state: 'idle' })
+  }
+}
+
+const server: JupyterServer = { ip: 'localhost', port: '8888', token: '' }
+
+// Lets the kernel start and the socket open before the test answers
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('JupyterService', () => {
+  beforeEach(() => {
+    FakeSocket.instances = []
+    vi.stubGlobal('WebSocket', FakeSocket)
+    vi.mocked(axios.post).mockResolvedValue({ data: { id: 'kernel-1' } })
+    vi.mocked(axios.delete).mockResolvedValue({})
+  })
+
+  afterEach(() => {
+    new JupyterService().disposeAllKernelConnections()
+    vi.unstubAllGlobals()
+    vi.clearAllMocks()
+  })
+
+  it('runs successive executeCode calls on one kernel that stays alive', async () => {
+    const service = new JupyterService()
+
+    const first = service.executeCode(server, 'python3', 'x = 41')
+    await settle()
+    const socket = FakeSocket.instances[0]
+    socket.onopen?.()
+    await settle()
+    socket.finish('')
+    await first
+
+    // A second service instance shares the connection, as callers create their own
+    const second = new JupyterService().executeCode(server, 'python3', 'print(x + 1)')
+    await settle()
+    socket.finish('42\n')
+    const result = await second
+
+    expect(result.content.stdout).toBe('42\n')
+    expect(axios.post).toHaveBeenCalledTimes(1)
+    expect(FakeSocket.instances).toHaveLength(1)
+    expect(socket.url).toContain('/api/kernels/kernel-1/channels')
+    expect(axios.delete).not.toHaveBeenCalled()
+  })
+
+  it('shuts the kernel down only when asked', async () => {
+    const service = new JupyterService()
+    const run = service.executeCode(server, 'python3', 'x = 1')
+    await settle()
+    FakeSocket.instances[0].onopen?.()
+    await settle()
+    FakeSocket.instances[0].finish('')
+    await run
+
+    await service.shutdownKernelConnection(server, 'python3')
+    expect(axios.delete).toHaveBeenCalledWith(expect.stringContaining('/kernels/kernel-1'))
+  })
+})
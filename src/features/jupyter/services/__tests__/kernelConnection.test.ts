@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { KernelConnection } from '../kernelConnection'
+
+class FakeSocket {
+  static instances: FakeSocket[] = []
+  sent: any[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((event: { data: string }) => void) | null = null
+  onerror: ((error: unknown) => void) | null = null
+  onclose: (() => void) | null = null
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this)
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close() {
+    this.onclose?.()
+  }
+
+  open() {
+    this.onopen?.()
+  }
+
+  reply(parentId: string, msgType: string, content: Record<string, any> = {}) {
+    this.onmessage?.({
+      data: JSON.stringify({ msg_type: msgType, parent_header: { msg_id: parentId }, content }),
+    })
+  }
+
+  finish(parentId: string) {
+    this.reply(parentId, 'execute_reply', { status: 'ok' })
+    this.reply(parentId, 'status', { execution_state: 'idle' })
+  }
+}
+
+const createConnection = (options = {}) =>
+  new KernelConnection('ws://localhost:8888/api/kernels/k1/channels', 'k1', {
+    createSocket: (url) => new FakeSocket(url) as unknown as WebSocket,
+    ...options,
+  })
+
+describe('KernelConnection', () => {
+  beforeEach(() => {
+    FakeSocket.instances = []
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('multiplexes execute requests over a single socket', async () => {
+    const connection = createConnection()
+    const first = connection.execute('a = 1')
+    const second = connection.execute('print(a)')
+
+    expect(FakeSocket.instances).toHaveLength(1)
+    const socket = FakeSocket.instances[0]
+    expect(socket.url).toContain(`session_id=${connection.sessionId}`)
+
+    socket.open()
+    expect(socket.sent).toHaveLength(2)
+    const [firstId, secondId] = socket.sent.map((msg) => msg.header.msg_id)
+
+    socket.reply(secondId, 'stream', { name: 'stdout', text: '1\n' })
+    socket.finish(secondId)
+    socket.finish(firstId)
+
+    const secondMessages = await second
+    expect(secondMessages.map((msg) => msg.msg_type)).toEqual(['stream', 'execute_reply', 'status'])
+    expect(await first).toHaveLength(2)
+  })
+
+  it('waits for both the reply and the idle status', async () => {
+    const connection = createConnection()
+    const result = connection.execute('x')
+    const socket = FakeSocket.instances[0]
+    socket.open()
+    const msgId = socket.sent[0].header.msg_id
+
+    let settled = false
+    result.then(() => (settled = true))
+
+    socket.reply(msgId, 'status', { execution_state: 'idle' })
+    await Promise.resolve()
+    expect(settled).toBe(false)
+
+    socket.reply(msgId, 'execute_reply', { status: 'ok' })
+    await result
+    expect(settled).toBe(true)
+  })
+
+  it('reconnects with the same session id and keeps in-flight requests', async () => {
+    const connection = createConnection({ reconnectDelay: 100 })
+    const result = connection.execute('long_running()')
+    const socket = FakeSocket.instances[0]
+    socket.open()
+    const msgId = socket.sent[0].header.msg_id
+
+    socket.close()
+    expect(connection.status).toBe('reconnecting')
+
+    vi.advanceTimersByTime(100)
+    expect(FakeSocket.instances).toHaveLength(2)
+    const replacement = FakeSocket.instances[1]
+    expect(replacement.url).toBe(socket.url)
+
+    replacement.open()
+    expect(replacement.sent).toHaveLength(0)
+    replacement.finish(msgId)
+
+    expect(await result).toHaveLength(2)
+    expect(connection.status).toBe('connected')
+  })
+
+  it('rejects pending requests once reconnect attempts are exhausted', async () => {
+    const connection = createConnection({ maxReconnectAttempts: 1, reconnectDelay: 10 })
+    const result = connection.execute('x')
+    FakeSocket.instances[0].open()
+    FakeSocket.instances[0].close()
+
+    vi.advanceTimersByTime(10)
+    FakeSocket.instances[1].close()
+
+    await expect(result).rejects.toThrow('Kernel connection lost')
+    expect(connection.isDisposed).toBe(true)
+  })
+
+  it('cancels pending requests without closing the socket', async () => {
+    const connection = createConnection()
+    const result = connection.execute('while True: pass')
+    FakeSocket.instances[0].open()
+    expect(connection.hasPendingRequests).toBe(true)
+
+    connection.cancelPending('Kernel restarted')
+
+    await expect(result).rejects.toThrow('Kernel restarted')
+    expect(connection.hasPendingRequests).toBe(false)
+    expect(connection.status).toBe('connected')
+  })
+
+  it('answers input requests on the stdin channel', async () => {
+    const connection = createConnection()
+    const onInputRequest = vi.fn().mockResolvedValue('Ada')
+    const result = connection.execute('name = input("Name: ")', { onInputRequest })
+    const socket = FakeSocket.instances[0]
+    socket.open()
+    const execute = socket.sent[0]
+    expect(execute.content.allow_stdin).toBe(true)
+
+    socket.onmessage?.({
+      data: JSON.stringify({
+        msg_type: 'input_request',
+        header: { msg_id: 'input-1', msg_type: 'input_request' },
+        parent_header: { msg_id: execute.header.msg_id },
+        content: { prompt: 'Name: ', password: false },
+        channel: 'stdin',
+      }),
+    })
+    await vi.waitFor(() => expect(socket.sent).toHaveLength(2))
+
+    expect(onInputRequest).toHaveBeenCalledWith({ prompt: 'Name: ', password: false })
+    const reply = socket.sent[1]
+    expect(reply.channel).toBe('stdin')
+    expect(reply.msg_type).toBe('input_reply')
+    expect(reply.content).toEqual({ value: 'Ada' })
+    expect(reply.parent_header.msg_id).toBe('input-1')
+
+    socket.finish(execute.header.msg_id)
+    await result
+  })
+
+  it('keeps stdin disabled without an input handler', () => {
+    const connection = createConnection()
+    connection.execute('x')
+    FakeSocket.instances[0].open()
+    expect(FakeSocket.instances[0].sent[0].content.allow_stdin).toBe(false)
+  })
+
+  it('keeps internal requests out of the history', () => {
+    const connection = createConnection()
+    connection.execute('x')
+    connection.execute('list_variables()', { storeHistory: false })
+    FakeSocket.instances[0].open()
+    expect(FakeSocket.instances[0].sent.map((msg) => msg.content.store_history)).toEqual([true, false])
+  })
+
+  it('rejects pending requests when disposed', async () => {
+    const connection = createConnection()
+    const result = connection.execute('x')
+    FakeSocket.instances[0].open()
+
+    connection.dispose()
+
+    await expect(result).rejects.toThrow('Kernel connection closed')
+    await expect(connection.execute('y')).rejects.toThrow('disposed')
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { renderMimeBundle, selectMimeType, joinText } from '../mimeRenderer'
+
+describe('mimeRenderer', () => {
+  describe('selectMimeType', () => {
+    it('prefers the richest representation', () => {
+      expect(selectMimeType({ 'text/plain': '<DataFrame>', 'text/html': '<table></table>' })).toBe(
+        'text/html',
+      )
+      expect(
+        selectMimeType({
+          'text/plain': 'Figure',
+          'text/html': '<div></div>',
+          'application/vnd.plotly.v1+json': { data: [] },
+        }),
+      ).toBe('application/vnd.plotly.v1+json')
+      expect(selectMimeType({ 'image/png': 'abc', 'image/svg+xml': '<svg></svg>' })).toBe(
+        'image/svg+xml',
+      )
+    })
+
+    it('returns null for unsupported bundles', () => {
+      expect(selectMimeType({ 'application/x-custom': 1 })).toBeNull()
+    })
+  })
+
+  describe('renderMimeBundle', () => {
+    it('renders only one representation per bundle', () => {
+      const html = renderMimeBundle({ 'text/plain': 'repr', 'text/html': '<b>rich</b>' })
+      expect(html).toBe('<b>rich</b>\n')
+    })
+
+    it('renders images as data URLs with their own MIME type', () => {
+      expect(renderMimeBundle({ 'image/jpeg': 'AAAA\n' })).toBe(
+        '<img src="data:image/jpeg;base64,AAAA" />\n',
+      )
+    })
+
+    it('renders markdown and latex', () => {
+      expect(renderMimeBundle({ 'text/markdown': '# Title' })).toContain('<h1>Title</h1>')
+      expect(renderMimeBundle({ 'text/latex': '$$x^2$$' })).toContain('class="katex')
+    })
+
+    it('pretty prints JSON with escaping', () => {
+      const html = renderMimeBundle({ 'application/json': { tag: '<b>' } })
+      expect(html).toContain('<pre class="json-output">')
+      expect(html).toContain('&lt;b&gt;')
+    })
+
+    it('embeds plotly and vega-lite specs in scripts', () => {
+      const plotly = renderMimeBundle({
+        'application/vnd.plotly.v1+json': { data: [{ y: [1, 2] }], layout: { title: '</script>' } },
+      })
+      expect(plotly).toContain('Plotly.newPlot(')
+      expect(plotly).toContain('"y":[1,2]')
+      expect(plotly).not.toContain('"</script>"')
+
+      const vega = renderMimeBundle({ 'application/vnd.vegalite.v5+json': { mark: 'bar' } })
+      expect(vega).toContain('vegaEmbed(')
+      expect(vega).toContain('"mark":"bar"')
+    })
+  })
+
+  it('joins multiline nbformat strings', () => {
+    expect(joinText(['a\n', 'b'])).toBe('a\nb')
+    expect(joinText(undefined)).toBe('')
+  })
+})
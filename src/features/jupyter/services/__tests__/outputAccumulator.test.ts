@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { OutputAccumulator, applyCarriageReturns } from '../outputAccumulator'
+
+const msg = (msgType: string, content: Record<string, any>) => ({
+  msg_type: msgType,
+  parent_header: { msg_id: 'parent' },
+  content,
+})
+
+describe('OutputAccumulator', () => {
+  it('merges consecutive stream chunks with the same name', () => {
+    const accumulator = new OutputAccumulator()
+    accumulator.handle(msg('stream', { name: 'stdout', text: 'epoch 1\n' }))
+    accumulator.handle(msg('stream', { name: 'stdout', text: 'epoch 2\n' }))
+    accumulator.handle(msg('stream', { name: 'stderr', text: 'warning\n' }))
+
+    expect(accumulator.outputs).toEqual([
+      { output_type: 'stream', name: 'stdout', text: 'epoch 1\nepoch 2\n' },
+      { output_type: 'stream', name: 'stderr', text: 'warning\n' },
+    ])
+    expect(accumulator.toString()).toBe('epoch 1\nepoch 2\nwarning\n')
+  })
+
+  it('collapses carriage-return progress updates', () => {
+    const accumulator = new OutputAccumulator()
+    accumulator.handle(msg('stream', { name: 'stderr', text: ' 10%\r' }))
+    accumulator.handle(msg('stream', { name: 'stderr', text: ' 50%\r' }))
+    accumulator.handle(msg('stream', { name: 'stderr', text: '100%\n' }))
+
+    expect(accumulator.toString()).toBe('100%\n')
+    expect(applyCarriageReturns('a\rb\nc')).toBe('b\nc')
+  })
+
+  it('replaces display outputs on update_display_data', () => {
+    const accumulator = new OutputAccumulator()
+    accumulator.handle(
+      msg('display_data', { data: { 'text/plain': 'step 1' }, transient: { display_id: 'bar' } }),
+    )
+    const changed = accumulator.handle(
+      msg('update_display_data', { data: { 'text/plain': 'step 2' }, transient: { display_id: 'bar' } }),
+    )
+
+    expect(changed).toBe(true)
+    expect(accumulator.outputs).toHaveLength(1)
+    expect(accumulator.toString()).toBe('step 2\n')
+    expect(accumulator.handle(msg('update_display_data', { data: {}, transient: { display_id: 'x' } }))).toBe(false)
+  })
+
+  it('clears output immediately or on the next output when waiting', () => {
+    const accumulator = new OutputAccumulator()
+    accumulator.handle(msg('stream', { name: 'stdout', text: 'old' }))
+
+    expect(accumulator.handle(msg('clear_output', { wait: true }))).toBe(false)
+    expect(accumulator.toString()).toBe('old')
+
+    accumulator.handle(msg('stream', { name: 'stdout', text: 'new' }))
+    expect(accumulator.toString()).toBe('new')
+
+    accumulator.handle(msg('clear_output', { wait: false }))
+    expect(accumulator.outputs).toEqual([])
+  })
+
+  it('echoes answered input prompts into stdout, masking passwords', () => {
+    const accumulator = new OutputAccumulator()
+    accumulator.handle(msg('stream', { name: 'stdout', text: 'Login\n' }))
+    accumulator.recordInput({ prompt: 'User: ', password: false }, 'ada')
+    accumulator.recordInput({ prompt: 'Password: ', password: true }, 'secret')
+
+    expect(accumulator.toString()).toBe('Login\nUser: ada\nPassword: ········\n')
+  })
+
+  it('records errors and the execution count', () => {
+    const accumulator = new OutputAccumulator()
+    accumulator.handle(msg('execute_input', { execution_count: 3 }))
+    accumulator.handle(msg('error', { ename: 'ValueError', evalue: 'bad', traceback: ['line 1'] }))
+
+    expect(accumulator.executionCount).toBe(3)
+    expect(accumulator.hasError).toBe(true)
+    expect(accumulator.toString()).toBe('Error: ValueError\nbad\nline 1')
+  })
+})
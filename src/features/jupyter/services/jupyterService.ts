@@ -3,15 +3,20 @@ import type {
   JupyterServer, 
   ExecutionResult, 
   KernelSpec, 
-  WSMessage,
   ManagedJupyterServer,
   JupyterFile,
   JupyterDirectory,
   JupyterKernel,
-  JupyterSession
+  JupyterSession,
+  KernelOutput
 } from '@\/features\/jupyter\/types\/jupyter'
-import { v4 as uuidv4 } from 'uuid'
 import { logger } from '@/services/logger'
+import { KernelConnection } from '@/features/jupyter/services/kernelConnection'
+import { OutputAccumulator } from '@/features/jupyter/services/outputAccumulator'
+
+// Kernel connections are shared by every JupyterService instance so that
+// kernel state survives across callers
+const kernelConnections = new Map<string, Promise<KernelConnection>>()
 
 export class JupyterService {
   private servers: Map<string, ManagedJupyterServer> = new Map()
@@ -377,90 +382,100 @@ export class JupyterService {
       baseUrl = server.ip.replace(/^http(s?):\/\//, '')
     }
     
-    return `${protocol}://${baseUrl}:${server.port}/api/kernels/${kernelId}/channels`
+    const url = `${protocol}://${baseUrl}:${server.port}/api/kernels/${kernelId}/channels`
+    return server.token ? `${url}?token=${server.token}` : url
   }
 
-  async executeCode(
-    server: JupyterServer,
-    kernelName: string,
-    code: string,
-  ): Promise<ExecutionResult> {
-    try {
-      // Create a new kernel
+  private getConnectionKey(server: JupyterServer, kernelName: string): string {
+    return `${server.ip}:${server.port}:${kernelName}`
+  }
+
+  /**
+   * Get the long-lived kernel connection for a server and kernel name,
+   * starting a kernel and opening its socket on first use
+   */
+  async getKernelConnection(server: JupyterServer, kernelName: string): Promise<KernelConnection> {
+    const key = this.getConnectionKey(server, kernelName)
+
+    const existing = kernelConnections.get(key)
+    if (existing) {
+      const connection = await existing
+      if (!connection.isDisposed) return connection
+      kernelConnections.delete(key)
+    }
+
+    const opening = (async () => {
       const kernelResponse = await axios.post(this.getUrlWithToken(server, '/kernels'), {
         name: kernelName,
       })
+      const connection = new KernelConnection(
+        this.getWebSocketUrl(server, kernelResponse.data.id),
+        kernelResponse.data.id,
+      )
+      connection.connect()
+      return connection
+    })()
 
-      const kernelId = kernelResponse.data.id
-
-      try {
-        // Connect to WebSocket
-        const ws = new WebSocket(this.getWebSocketUrl(server, kernelId))
-        const msgId = uuidv4()
-
-        // Wait for execution results
-        const result = await new Promise<ExecutionResult>((resolve, reject) => {
-          const messages: WSMessage[] = []
-
-          ws.onopen = () => {
-            // Send execute request
-            ws.send(
-              JSON.stringify({
-                header: {
-                  msg_id: msgId,
-                  username: 'bashnota',
-                  session: uuidv4(),
-                  msg_type: 'execute_request',
-                  version: '5.2',
-                },
-                parent_header: {},
-                metadata: {},
-                content: {
-                  code,
-                  silent: false,
-                  store_history: true,
-                  user_expressions: {},
-                  allow_stdin: false,
-                },
-                channel: 'shell',
-              }),
-            )
-          }
+    kernelConnections.set(key, opening)
+    try {
+      return await opening
+    } catch (error) {
+      kernelConnections.delete(key)
+      this.handleError(error, 'Failed to start kernel')
+    }
+  }
 
-          ws.onmessage = (event) => {
-            const msg = JSON.parse(event.data)
-            if (msg.parent_header.msg_id === msgId) {
-              messages.push(msg)
-
-              // Check if execution is complete
-              if (msg.msg_type === 'status' && msg.content.execution_state === 'idle') {
-                ws.close()
-                resolve(this.processMessages(messages))
-              }
-              // Check for errors
-              else if (msg.msg_type === 'error') {
-                ws.close()
-                resolve(this.processMessages(messages))
-              }
-            }
-          }
+  /**
+   * Close the kernel connection for a server and kernel name and shut the kernel down
+   */
+  async shutdownKernelConnection(server: JupyterServer, kernelName: string): Promise<void> {
+    const key = this.getConnectionKey(server, kernelName)
+    const opening = kernelConnections.get(key)
+    if (!opening) return
 
-          ws.onerror = (error) => {
-            reject(new Error('WebSocket error: ' + error))
-          }
+    kernelConnections.delete(key)
+    const connection = await opening.catch(() => null)
+    if (!connection) return
 
-          // Set timeout
-          setTimeout(() => {
-            ws.close()
-            resolve(this.processMessages(messages))
-          }, 10000)
-        })
-
-        return result
-      } finally {
-        // Clean up the kernel
-        await this.deleteKernel(server, kernelId)
-      }
+    connection.dispose()
+    await this.deleteKernel(server, connection.kernelId)
+  }
+
+  /**
+   * Close every open kernel connection, e.g. when leaving the app
+   */
+  disposeAllKernelConnections(): void {
+    for (const opening of kernelConnections.values()) {
+      opening.then((connection) => connection.dispose()).catch(() => {})
+    }
+    kernelConnections.clear()
+  }
+
+  /**
+   * Execute code on a persistent kernel. Variables defined by earlier calls
+   * with the same server and kernel name remain available.
+   *
+   * `onOutput` is called with the current list of outputs every time the
+   * kernel streams, displays, updates or clears output, so long-running
+   * cells can be rendered while they run.
+   */
+  async executeCode(
+    server: JupyterServer,
+    kernelName: string,
+    code: string,
+    onOutput?: (outputs: KernelOutput[]) => void,
+  ): Promise<ExecutionResult> {
+    try {
+      const connection = await this.getKernelConnection(server, kernelName)
+      const accumulator = new OutputAccumulator()
+      await connection.execute(code, {
+        onMessage: (msg) => {
+          if (accumulator.handle(msg)) {
+            onOutput?.(accumulator.outputs)
+          }
+        },
+      })
+      return this.processOutputs(accumulator)
     } catch (error) {
       logger.error('Execute code error:', error)
       throw error
@@ -475,40 +490,34 @@ export class JupyterService {
     }
   }
 
-  private processMessages(messages: WSMessage[]): ExecutionResult {
+  private processOutputs(accumulator: OutputAccumulator): ExecutionResult {
     const result: ExecutionResult = {
       content: {
-        execution_count: 0,
+        execution_count: accumulator.executionCount ?? 0,
         data: {},
         stdout: '',
         stderr: '',
       },
     }
 
-    for (const msg of messages) {
-      switch (msg.msg_type) {
-        case 'execute_input':
-          result.content.execution_count = msg.content.execution_count || 0
-          break
+    for (const output of accumulator.outputs) {
+      switch (output.output_type) {
         case 'stream':
-          if (msg.content.name === 'stdout') {
-            result.content.stdout += msg.content.text || ''
-          } else if (msg.content.name === 'stderr') {
-            result.content.stderr += msg.content.text || ''
+          if (output.name === 'stdout') {
+            result.content.stdout += output.text
+          } else {
+            result.content.stderr += output.text
           }
           break
         case 'execute_result':
         case 'display_data':
-          result.content.data = { ...result.content.data, ...msg.content.data }
-          if (msg.content.execution_count !== undefined) {
-            result.content.execution_count = msg.content.execution_count
-          }
+          result.content.data = { ...result.content.data, ...output.data }
           break
         case 'error':
           result.content.error = {
-            ename: msg.content.ename || '',
-            evalue: msg.content.evalue || '',
-            traceback: msg.content.traceback || [],
+            ename: output.ename,
+            evalue: output.evalue,
+            traceback: output.traceback,
           }
           break
       }
@@ -0,0 +1,294 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { InputRequest, WSMessage } from '@/features/jupyter/types/jupyter'
+import { logger } from '@/services/logger'
+
+export type KernelConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected'
+
+export interface KernelConnectionOptions {
+  /** Number of reconnect attempts after an unexpected socket close */
+  maxReconnectAttempts?: number
+  /** Base delay in ms, doubled on every consecutive attempt */
+  reconnectDelay?: number
+  /** Socket factory, mainly useful for tests */
+  createSocket?: (url: string) => WebSocket
+}
+
+export interface ExecuteOptions {
+  /** Called with every message that belongs to the request as soon as it arrives */
+  onMessage?: (msg: WSMessage) => void
+  /**
+   * Answers `input()` and `getpass()` prompts. Stdin is only enabled for the
+   * request when this is provided; rejecting leaves the prompt unanswered.
+   */
+  onInputRequest?: (request: InputRequest) => Promise<string>
+  /** False for internal requests that should not show up in the history or execution count */
+  storeHistory?: boolean
+}
+
+interface PendingRequest {
+  message: WSMessage
+  sent: boolean
+  messages: WSMessage[]
+  replied: boolean
+  idle: boolean
+  onMessage?: (msg: WSMessage) => void
+  onInputRequest?: (request: InputRequest) => Promise<string>
+  resolve: (messages: WSMessage[]) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * A long-lived WebSocket connection to a single Jupyter kernel.
+ *
+ * Execute requests are multiplexed over one socket and routed back by
+ * `parent_header.msg_id`. When the socket drops unexpectedly the connection
+ * reconnects with the same session id, so the server replays any buffered
+ * replies for requests that were in flight.
+ */
+export class KernelConnection {
+  readonly kernelId: string
+  readonly sessionId = uuidv4()
+  status: KernelConnectionStatus = 'disconnected'
+
+  private socket: WebSocket | null = null
+  private pending = new Map<string, PendingRequest>()
+  private reconnectAttempts = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private disposed = false
+  private readonly maxReconnectAttempts: number
+  private readonly reconnectDelay: number
+  private readonly createSocket: (url: string) => WebSocket
+
+  constructor(
+    private readonly url: string,
+    kernelId: string,
+    options: KernelConnectionOptions = {},
+  ) {
+    this.kernelId = kernelId
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 5
+    this.reconnectDelay = options.reconnectDelay ?? 500
+    this.createSocket = options.createSocket ?? ((socketUrl) => new WebSocket(socketUrl))
+  }
+
+  get isDisposed(): boolean {
+    return this.disposed
+  }
+
+  /**
+   * Open the socket if it is not already open or opening
+   */
+  connect(): void {
+    if (this.disposed) {
+      throw new Error('Kernel connection has been disposed')
+    }
+    if (this.socket && this.status !== 'disconnected') return
+
+    this.status = this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting'
+    const separator = this.url.includes('?') ? '&' : '?'
+    const socket = this.createSocket(`${this.url}${separator}session_id=${this.sessionId}`)
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.status = 'connected'
+      this.reconnectAttempts = 0
+      this.flush()
+    }
+
+    socket.onmessage = (event: MessageEvent) => {
+      this.handleMessage(JSON.parse(event.data))
+    }
+
+    socket.onerror = (error) => {
+      logger.warn(`Kernel ${this.kernelId} socket error:`, error)
+    }
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.status = 'disconnected'
+      if (!this.disposed) {
+        this.scheduleReconnect()
+      }
+    }
+  }
+
+  /**
+   * Send an execute request and resolve with every message that belongs to it
+   * once the kernel has replied and gone back to idle
+   */
+  execute(code: string, options: ExecuteOptions = {}): Promise<WSMessage[]> {
+    if (this.disposed) {
+      return Promise.reject(new Error('Kernel connection has been disposed'))
+    }
+
+    const message = this.createMessage('execute_request', {
+      code,
+      silent: false,
+      store_history: options.storeHistory ?? true,
+      user_expressions: {},
+      allow_stdin: !!options.onInputRequest,
+    })
+
+    return new Promise<WSMessage[]>((resolve, reject) => {
+      const request: PendingRequest = {
+        message,
+        sent: false,
+        messages: [],
+        replied: false,
+        idle: false,
+        onMessage: options.onMessage,
+        onInputRequest: options.onInputRequest,
+        resolve,
+        reject,
+      }
+      this.pending.set(message.header!.msg_id, request)
+
+      this.connect()
+      this.flush()
+    })
+  }
+
+  /**
+   * Reject every request that is still waiting for a reply, e.g. after a
+   * kernel restart when those replies will never arrive
+   */
+  cancelPending(reason = 'Execution cancelled'): void {
+    this.rejectAll(new Error(reason))
+  }
+
+  get hasPendingRequests(): boolean {
+    return this.pending.size > 0
+  }
+
+  /**
+   * Close the socket for good and reject anything still in flight
+   */
+  dispose(): void {
+    if (this.disposed) return
+    this.disposed = true
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    this.rejectAll(new Error('Kernel connection closed'))
+    const socket = this.socket
+    this.socket = null
+    this.status = 'disconnected'
+    socket?.close()
+  }
+
+  private createMessage(
+    msgType: string,
+    content: WSMessage['content'],
+    channel = 'shell',
+  ): WSMessage {
+    return {
+      header: {
+        msg_id: uuidv4(),
+        username: 'bashnota',
+        session: this.sessionId,
+        msg_type: msgType,
+        version: '5.2',
+      },
+      parent_header: {},
+      metadata: {},
+      content,
+      channel,
+      msg_type: msgType,
+    }
+  }
+
+  private flush(): void {
+    if (!this.socket || this.status !== 'connected') return
+    for (const request of this.pending.values()) {
+      if (!request.sent) {
+        this.socket.send(JSON.stringify(request.message))
+        request.sent = true
+      }
+    }
+  }
+
+  private handleMessage(msg: WSMessage): void {
+    const parentId = msg.parent_header?.msg_id
+    if (!parentId) return
+
+    const request = this.pending.get(parentId)
+    if (!request) return
+
+    const msgType = msg.msg_type || msg.header?.msg_type
+    request.messages.push(msg)
+    request.onMessage?.(msg)
+
+    if (msgType === 'input_request') {
+      this.answerInput(request, msg)
+    } else if (msgType === 'execute_reply') {
+      request.replied = true
+    } else if (msgType === 'status' && msg.content.execution_state === 'idle') {
+      request.idle = true
+    }
+
+    if (request.replied && request.idle) {
+      this.settle(parentId)
+    }
+  }
+
+  /**
+   * Ask the caller for a value and send it back on the stdin channel
+   */
+  private answerInput(request: PendingRequest, msg: WSMessage): void {
+    if (!request.onInputRequest) {
+      logger.warn(`Kernel ${this.kernelId} requested input but stdin is not enabled`)
+      return
+    }
+
+    request
+      .onInputRequest({ prompt: msg.content.prompt ?? '', password: !!msg.content.password })
+      .then((value) => {
+        if (!this.socket || this.status !== 'connected') {
+          logger.warn(`Kernel ${this.kernelId} socket is not open, dropping input reply`)
+          return
+        }
+        const reply = this.createMessage('input_reply', { value }, 'stdin')
+        reply.parent_header = msg.header ?? {}
+        this.socket.send(JSON.stringify(reply))
+      })
+      .catch((error) => {
+        logger.log(`Input request on kernel ${this.kernelId} was not answered:`, error)
+      })
+  }
+
+  private settle(msgId: string): void {
+    const request = this.pending.get(msgId)
+    if (!request) return
+    this.pending.delete(msgId)
+    request.resolve(request.messages)
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      logger.error(`Kernel ${this.kernelId} connection lost after ${this.reconnectAttempts} attempts`)
+      this.disposed = true
+      this.rejectAll(new Error('Kernel connection lost'))
+      return
+    }
+
+    const delay = this.reconnectDelay * 2 ** this.reconnectAttempts
+    this.reconnectAttempts++
+    this.status = 'reconnecting'
+    logger.warn(`Kernel ${this.kernelId} socket closed, reconnecting in ${delay}ms`)
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (!this.disposed) {
+        this.connect()
+      }
+    }, delay)
+  }
+
+  private rejectAll(error: Error): void {
+    for (const request of this.pending.values()) {
+      request.reject(error)
+    }
+    this.pending.clear()
+  }
+}
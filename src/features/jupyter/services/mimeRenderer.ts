@@ -0,0 +1,114 @@
+import { marked } from 'marked'
+import katex from 'katex'
+import { v4 as uuidv4 } from 'uuid'
+import type { MimeBundle } from '@/features/jupyter/types/jupyter'
+
+const PLOTLY_CDN = 'https://cdn.plot.ly/plotly-2.35.2.min.js'
+const VEGA_CDNS = [
+  'https://cdn.jsdelivr.net/npm/vega@5',
+  'https://cdn.jsdelivr.net/npm/vega-lite@5',
+  'https://cdn.jsdelivr.net/npm/vega-embed@6',
+]
+
+/**
+ * MIME types in the order they are preferred when a bundle carries several
+ * representations of the same value, richest first (same idea as JupyterLab)
+ */
+export const MIME_PRIORITY = [
+  'application/vnd.plotly.v1+json',
+  'application/vnd.vegalite.v5+json',
+  'application/vnd.vegalite.v4+json',
+  'text/html',
+  'image/svg+xml',
+  'image/png',
+  'image/jpeg',
+  'text/markdown',
+  'text/latex',
+  'application/json',
+  'text/plain',
+] as const
+
+/**
+ * Pick the MIME type to render for a bundle, or null if none is supported
+ */
+export function selectMimeType(bundle: MimeBundle): string | null {
+  return MIME_PRIORITY.find((mimeType) => bundle[mimeType] !== undefined) ?? null
+}
+
+/**
+ * Render the preferred representation of a bundle to an HTML string
+ */
+export function renderMimeBundle(bundle: MimeBundle): string {
+  const mimeType = selectMimeType(bundle)
+  if (!mimeType) return ''
+
+  const value = bundle[mimeType]
+
+  switch (mimeType) {
+    case 'application/vnd.plotly.v1+json':
+      return renderPlotly(value as MimeBundle['application/vnd.plotly.v1+json'])
+    case 'application/vnd.vegalite.v5+json':
+    case 'application/vnd.vegalite.v4+json':
+      return renderVegaLite(value as Record<string, any>)
+    case 'text/html':
+      return `${joinText(value)}\n`
+    case 'image/svg+xml':
+      return `${joinText(value)}\n`
+    case 'image/png':
+    case 'image/jpeg':
+      return `<img src="data:${mimeType};base64,${joinText(value).trim()}" />\n`
+    case 'text/markdown':
+      return `<div class="markdown-output">${marked.parse(joinText(value), { async: false }) as string}</div>\n`
+    case 'text/latex':
+      return `${renderLatex(joinText(value))}\n`
+    case 'application/json':
+      return `<pre class="json-output">${escapeHtml(JSON.stringify(value, null, 2))}</pre>\n`
+    default:
+      return `${joinText(value)}\n`
+  }
+}
+
+/**
+ * nbformat allows multiline strings to be stored as arrays of lines
+ */
+export function joinText(value: unknown): string {
+  if (Array.isArray(value)) return value.join('')
+  return typeof value === 'string' ? value : String(value ?? '')
+}
+
+function renderLatex(source: string): string {
+  const trimmed = source.trim()
+  const displayMatch = trimmed.match(/^\$\$([\s\S]*)\$\$$/) || trimmed.match(/^\\\[([\s\S]*)\\\]$/)
+  const inlineMatch = trimmed.match(/^\$([\s\S]*)\$$/)
+  const expression = displayMatch?.[1] ?? inlineMatch?.[1] ?? trimmed
+
+  return katex.renderToString(expression, {
+    displayMode: !inlineMatch || !!displayMatch,
+    throwOnError: false,
+  })
+}
+
+function renderPlotly(figure: MimeBundle['application/vnd.plotly.v1+json'] = {}): string {
+  const id = `plotly-${uuidv4()}`
+  return `<div id="${id}" class="plotly-graph-div"></div>
+<script src="${PLOTLY_CDN}"></script>
+<script>Plotly.newPlot(${JSON.stringify(id)}, ${toScriptJson(figure.data ?? [])}, ${toScriptJson(figure.layout ?? {})}, ${toScriptJson({ responsive: true, ...(figure.config ?? {}) })})</script>
+`
+}
+
+function renderVegaLite(spec: Record<string, any>): string {
+  const id = `vega-${uuidv4()}`
+  return `<div id="${id}" class="vega-embed-output"></div>
+${VEGA_CDNS.map((src) => `<script src="${src}"></script>`).join('\n')}
+<script>vegaEmbed(${JSON.stringify(`#${id}`)}, ${toScriptJson(spec)}, { actions: false })</script>
+`
+}
+
+// JSON that is safe to inline inside a <script> element
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c')
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
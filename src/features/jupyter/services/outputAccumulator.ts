@@ -0,0 +1,161 @@
+import type { InputRequest, KernelOutput, MimeBundle, WSMessage } from '@/features/jupyter/types/jupyter'
+import { renderMimeBundle } from '@/features/jupyter/services/mimeRenderer'
+
+/**
+ * Builds the list of outputs for a single execution from iopub messages as
+ * they arrive, applying `clear_output` and `update_display_data` the same way
+ * JupyterLab does. Consecutive stream chunks with the same name are merged so
+ * progress output does not explode into thousands of entries.
+ */
+export class OutputAccumulator {
+  outputs: KernelOutput[] = []
+  executionCount: number | null = null
+
+  private clearPending = false
+
+  /**
+   * Apply a message and report whether the visible output changed
+   */
+  handle(msg: WSMessage): boolean {
+    const msgType = msg.msg_type || msg.header?.msg_type
+    const content = msg.content
+
+    switch (msgType) {
+      case 'execute_input':
+        this.executionCount = content.execution_count ?? this.executionCount
+        return false
+
+      case 'stream':
+        this.flushPendingClear()
+        this.appendStream(content.name === 'stderr' ? 'stderr' : 'stdout', content.text || '')
+        return true
+
+      case 'execute_result':
+      case 'display_data':
+        this.flushPendingClear()
+        if (content.execution_count !== undefined) {
+          this.executionCount = content.execution_count
+        }
+        this.outputs.push({
+          output_type: msgType,
+          data: content.data || {},
+          metadata: content.metadata || {},
+          ...(msgType === 'execute_result' ? { execution_count: content.execution_count } : {}),
+          ...(content.transient?.display_id ? { display_id: content.transient.display_id } : {}),
+        })
+        return true
+
+      case 'update_display_data':
+        return this.updateDisplay(content.transient?.display_id, content.data, content.metadata)
+
+      case 'clear_output':
+        if (content.wait) {
+          this.clearPending = true
+          return false
+        }
+        this.outputs = []
+        return true
+
+      case 'error':
+        this.flushPendingClear()
+        this.outputs.push({
+          output_type: 'error',
+          ename: content.ename || '',
+          evalue: content.evalue || '',
+          traceback: content.traceback || [],
+        })
+        return true
+
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Echo an answered stdin prompt into stdout like the notebook does,
+   * masking the value when it was a password
+   */
+  recordInput(request: InputRequest, value: string): void {
+    this.flushPendingClear()
+    this.appendStream('stdout', `${request.prompt}${request.password ? '········' : value}\n`)
+  }
+
+  get hasError(): boolean {
+    return this.outputs.some((output) => output.output_type === 'error')
+  }
+
+  /**
+   * Render the outputs into the string format stored on code cells
+   */
+  toString(): string {
+    return renderOutputs(this.outputs)
+  }
+
+  private appendStream(name: 'stdout' | 'stderr', text: string) {
+    const last = this.outputs[this.outputs.length - 1]
+    if (last?.output_type === 'stream' && last.name === name) {
+      last.text = applyCarriageReturns(last.text + text)
+    } else {
+      this.outputs.push({ output_type: 'stream', name, text: applyCarriageReturns(text) })
+    }
+  }
+
+  private updateDisplay(
+    displayId: string | undefined,
+    data: MimeBundle = {},
+    metadata: Record<string, any> = {},
+  ): boolean {
+    if (!displayId) return false
+    let updated = false
+    for (const output of this.outputs) {
+      if (
+        (output.output_type === 'display_data' || output.output_type === 'execute_result') &&
+        output.display_id === displayId
+      ) {
+        output.data = data
+        output.metadata = metadata
+        updated = true
+      }
+    }
+    return updated
+  }
+
+  private flushPendingClear() {
+    if (this.clearPending) {
+      this.outputs = []
+      this.clearPending = false
+    }
+  }
+}
+
+/**
+ * Collapse `\r` overwrites so tqdm-style progress bars show their latest state
+ */
+export function applyCarriageReturns(text: string): string {
+  if (!text.includes('\r')) return text
+  return text
+    .split('\n')
+    .map((line) => {
+      const segments = line.split('\r')
+      const visible = [...segments].reverse().find((segment) => segment !== '') ?? ''
+      // A trailing \r means the next chunk overwrites this line, so keep it for the next merge
+      return segments[segments.length - 1] === '' && segments.length > 1 ? `${visible}\r` : visible
+    })
+    .join('\n')
+}
+
+export function renderOutput(output: KernelOutput): string {
+  switch (output.output_type) {
+    case 'stream':
+      return output.text
+    case 'display_data':
+    case 'execute_result':
+      return renderMimeBundle(output.data)
+    case 'error':
+      return `Error: ${output.ename}\n${output.evalue}\n${output.traceback.join('\n')}`
+  }
+}
+
+export function renderOutputs(outputs: KernelOutput[]): string {
+  return outputs.map(renderOutput).join('')
+}
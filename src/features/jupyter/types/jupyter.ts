@@ -1,3 +1,5 @@
+import type { TheoremEnvironment } from '@/features/editor/services/theoremService'
+
 export interface JupyterServer {
   ip: string
   port: string
@@ -28,14 +30,26 @@ export interface JupyterDirectory {
   files: JupyterFile[]
 }
 
+// A Jupyter MIME bundle. Only the types BashNota knows how to render are
+// listed; anything else is kept as-is so it survives a round trip.
+export interface MimeBundle {
+  'text/plain'?: string
+  'text/html'?: string
+  'text/markdown'?: string
+  'text/latex'?: string
+  'image/png'?: string
+  'image/jpeg'?: string
+  'image/svg+xml'?: string
+  'application/json'?: unknown
+  'application/vnd.plotly.v1+json'?: { data?: unknown[]; layout?: Record<string, any>; config?: Record<string, any> }
+  'application/vnd.vegalite.v5+json'?: Record<string, any>
+  [mimeType: string]: unknown
+}
+
 export interface ExecutionResult {
   content: {
     execution_count: number
-    data?: {
-      'text/plain'?: string
-      'text/html'?: string
-      'image/png'?: string
-    }
+    data?: MimeBundle
     stdout?: string
     stderr?: string
     error?: {
@@ -46,6 +60,94 @@ export interface ExecutionResult {
   }
 }
 
+// A single cell output in nbformat shape, built up from kernel iopub messages
+export type KernelOutput =
+  | {
+      output_type: 'stream'
+      name: 'stdout' | 'stderr'
+      text: string
+    }
+  | {
+      output_type: 'display_data' | 'execute_result'
+      data: MimeBundle
+      metadata?: Record<string, any>
+      execution_count?: number
+      display_id?: string
+    }
+  | {
+      output_type: 'error'
+      ename: string
+      evalue: string
+      traceback: string[]
+    }
+
+// nbformat v4 notebook as stored in .ipynb files. Multiline strings may be
+// stored either as a single string or as an array of lines.
+export type MultilineString = string | string[]
+
+export type NotebookOutput =
+  | {
+      output_type: 'stream'
+      name: 'stdout' | 'stderr'
+      text: MultilineString
+    }
+  | {
+      output_type: 'display_data' | 'execute_result'
+      // Like MimeBundle, but text values may be split into lines
+      data: Record<string, unknown>
+      metadata?: Record<string, any>
+      execution_count?: number | null
+    }
+  | {
+      output_type: 'error'
+      ename: string
+      evalue: string
+      traceback: string[]
+    }
+
+export interface NotebookCell {
+  cell_type: 'markdown' | 'code' | 'raw'
+  id?: string
+  source: MultilineString
+  metadata: Record<string, any>
+  attachments?: Record<string, Record<string, unknown>>
+  outputs?: NotebookOutput[]
+  execution_count?: number | null
+}
+
+export interface NotebookDocument {
+  nbformat: number
+  nbformat_minor: number
+  metadata: {
+    kernelspec?: {
+      name: string
+      display_name: string
+      language?: string
+    }
+    language_info?: {
+      name: string
+      [key: string]: any
+    }
+    title?: string
+    [key: string]: any
+  }
+  cells: NotebookCell[]
+}
+
+// A prompt sent by the kernel on the stdin channel when code calls input() or getpass()
+export interface InputRequest {
+  prompt: string
+  password: boolean
+}
+
+// A variable in a kernel's namespace, as listed for code completion
+export interface KernelVariable {
+  name: string
+  type: string
+  shape?: string
+  columns?: string[] // For data frames
+}
+
 export interface KernelConfig {
   blockId: string
   kernelName: string
@@ -72,6 +174,10 @@ export interface NotaConfig {
   // New properties for shared session feature
   sharedSessionMode?: boolean
   sharedSessionId?: string | null
+  // Number theorems, figures, tables and equations through the document or within sections
+  crossRefNumbering?: 'document' | 'section'
+  // Theorem environments defined in this nota, replacing or adding to the built-in ones
+  theoremEnvironments?: TheoremEnvironment[]
 }
 
 export interface KernelSpec {
@@ -122,12 +228,7 @@ export interface WSMessage {
   content: {
     execution_count?: number
     execution_state?: string
-    data?: {
-      'text/plain'?: string
-      'text/html'?: string
-      'image/png'?: string
-      [key: string]: any
-    }
+    data?: MimeBundle
     name?: string
     text?: string
     ename?: string
@@ -138,6 +239,9 @@ export interface WSMessage {
     store_history?: boolean
     user_expressions?: Record<string, any>
     allow_stdin?: boolean
+    prompt?: string
+    password?: boolean
+    value?: string
     [key: string]: any
   }
   channel?: string
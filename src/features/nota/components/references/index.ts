@@ -4,6 +4,8 @@ export { default as ReferenceDialog } from './ReferenceDialog.vue'
 export { default as ReferenceEditDialog } from './ReferenceEditDialog.vue'
 export { default as EmptyReferencesState } from './EmptyReferencesState.vue'
 export { default as ReferencesPreviewTable } from './ReferencesPreviewTable.vue'
+export { default as ReferencesExportMenu } from './ReferencesExportMenu.vue'
+export { default as LinkedBibPanel } from './LinkedBibPanel.vue'
 
 // Composables
 export { useReferencesSearch } from '@/features/nota/composables/useReferencesSearch'
@@ -12,6 +14,7 @@ export { useReferenceForm } from '@/features/nota/composables/useReferenceForm'
 export { useBibTexParser } from '@/features/nota/composables/useBibTexParser'
 export { useBatchBibTexParser } from '@/features/nota/composables/useBatchBibTexParser'
 export { useReferenceBatchDialog } from '@/features/nota/composables/useReferenceBatchDialog'
+export { useLinkedBibSync } from '@/features/nota/composables/useLinkedBibSync'
 
 // Services
 export { referenceValidationService } from '@/features/nota/services/referenceValidationService'
@@ -23,4 +26,5 @@ export type { UseReferenceFormReturn, FormData, ValidationErrors } from '@/featu
 export type { UseBibTexParserReturn, ParsedBibTexData } from '@/features/nota/composables/useBibTexParser'
 export type { UseBatchBibTexParserReturn, ParsedBibTexEntry } from '@/features/nota/composables/useBatchBibTexParser'
 export type { UseReferenceBatchDialogReturn } from '@/features/nota/composables/useReferenceBatchDialog'
+export type { UseLinkedBibSyncReturn } from '@/features/nota/composables/useLinkedBibSync'
 export type { ValidationResult } from '@/features/nota/services/referenceValidationService' 
\ No newline at end of file
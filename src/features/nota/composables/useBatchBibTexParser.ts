@@ -1,4 +1,9 @@
 import { ref, computed, type Ref } from 'vue'
+import {
+  authorDisplayName,
+  parseBibTeXEntries,
+  type BibTeXEntry
+} from '@/features/nota/services/referenceFormatService'
 
 export interface ParsedBibTexEntry {
   id: string
@@ -45,12 +50,8 @@ export function useBatchBibTexParser(): UseBatchBibTexParserReturn {
   // Generate unique ID for entries
   const generateId = () => `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
-  // Detect BibTeX entry type
-  const detectEntryType = (entry: string): string => {
-    const typeMatch = entry.match(/@(\w+){/)
-    if (!typeMatch) return 'unknown'
-    
-    const type = typeMatch[1].toLowerCase()
+  // Readable name of a BibTeX entry type
+  const entryTypeLabel = (type: string): string => {
     switch (type) {
       case 'article':
         return 'Journal Article'
@@ -72,62 +73,23 @@ export function useBatchBibTexParser(): UseBatchBibTexParserReturn {
     }
   }
 
-  // Parse a single BibTeX entry
-  const parseSingleEntry = (bibTexString: string): Omit<ParsedBibTexEntry, 'id' | 'isSelected' | 'validationStatus'> => {
-    // Clean the entry
-    const cleanEntry = bibTexString.trim()
-    
-    // Extract key
-    const keyMatch = cleanEntry.match(/@\w+{([^,]+),/)
-    
-    // Extract fields using more robust regex patterns
-    const extractField = (fieldName: string): string => {
-      // Handle both quoted and braced values
-      const patterns = [
-        new RegExp(`${fieldName}\\s*=\\s*"([^"]*)"`, 'i'),
-        new RegExp(`${fieldName}\\s*=\\s*{([^}]*)}`, 'i'),
-        new RegExp(`${fieldName}\\s*=\\s*([^,\\n}]+)`, 'i')
-      ]
-      
-      for (const pattern of patterns) {
-        const match = cleanEntry.match(pattern)
-        if (match && match[1]) {
-          return match[1].trim()
-        }
-      }
-      return ''
-    }
-
-    // Parse authors and convert to comma-separated string
-    const authorsField = extractField('author')
-    const authors = authorsField
-      ? authorsField.split(' and ')
-          .map(author => author.trim())
-          .filter(author => author.length > 0)
-          .join(', ')
-      : ''
-
-    // Validate required fields
-    const key = keyMatch ? keyMatch[1].trim() : ''
-    const title = extractField('title')
-    const year = extractField('year')
-    
-    const isValid = !!(key && title && authors && year && /^\d{4}$/.test(year))
-
+  // A parsed entry as shown in the preview; authors are comma-separated
+  const toParsedEntry = ({ type, reference }: BibTeXEntry): Omit<ParsedBibTexEntry, 'id' | 'isSelected' | 'validationStatus'> => {
+    const authors = reference.authors.map(authorDisplayName).join(', ')
     return {
-      key,
-      title,
+      key: reference.key,
+      title: reference.title,
       authors,
-      year,
-      journal: extractField('journal'),
-      volume: extractField('volume'),
-      number: extractField('number'),
-      pages: extractField('pages'),
-      publisher: extractField('publisher'),
-      url: extractField('url'),
-      doi: extractField('doi'),
-      type: detectEntryType(cleanEntry),
-      isValid
+      year: reference.year,
+      journal: reference.journal ?? '',
+      volume: reference.volume ?? '',
+      number: reference.number ?? '',
+      pages: reference.pages ?? '',
+      publisher: reference.publisher ?? '',
+      url: reference.url ?? '',
+      doi: reference.doi ?? '',
+      type: entryTypeLabel(type),
+      isValid: !!(reference.key && reference.title && authors && /^\d{4}$/.test(reference.year))
     }
   }
 
@@ -142,14 +104,9 @@ export function useBatchBibTexParser(): UseBatchBibTexParserReturn {
     parseError.value = ''
 
     try {
-      // Split entries by @entry_type{ pattern
-      const entryPattern = /(?=@\w+\s*{)/g
-      const rawEntries = bibtexInput.value
-        .split(entryPattern)
-        .filter(entry => entry.trim())
-        .filter(entry => entry.includes('@'))
+      const bibEntries = parseBibTeXEntries(bibtexInput.value)
 
-      if (rawEntries.length === 0) {
+      if (bibEntries.length === 0) {
         parseError.value = 'No valid BibTeX entries found'
         return
       }
@@ -157,28 +114,21 @@ export function useBatchBibTexParser(): UseBatchBibTexParserReturn {
       const newEntries: ParsedBibTexEntry[] = []
       const existingKeys = new Set(parsedEntries.value.map(e => e.key))
 
-      for (const rawEntry of rawEntries) {
-        try {
-          const parsed = parseSingleEntry(rawEntry)
-          
-          // Check for duplicate keys
-          if (existingKeys.has(parsed.key) || newEntries.some(e => e.key === parsed.key)) {
-            continue // Skip duplicates
-          }
+      for (const bibEntry of bibEntries) {
+        const parsed = toParsedEntry(bibEntry)
 
-          const entry: ParsedBibTexEntry = {
-            id: generateId(),
-            ...parsed,
-            isSelected: true, // Auto-select new entries
-            validationStatus: 'pending'
-          }
-
-          newEntries.push(entry)
-          existingKeys.add(parsed.key)
-        } catch (entryError) {
-          console.warn('Failed to parse entry:', entryError)
-          // Continue with other entries
+        // Check for duplicate keys
+        if (existingKeys.has(parsed.key)) {
+          continue // Skip duplicates
         }
+
+        newEntries.push({
+          id: generateId(),
+          ...parsed,
+          isSelected: true, // Auto-select new entries
+          validationStatus: 'pending'
+        })
+        existingKeys.add(parsed.key)
       }
 
       if (newEntries.length === 0) {
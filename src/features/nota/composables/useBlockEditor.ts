@@ -284,9 +284,12 @@ export function useBlockEditor(notaId: string) {
 
             case 'executableCodeBlock':
               blockData.type = 'executableCodeBlock'
+              blockData.cellId = node.attrs?.id
               blockData.language = node.attrs?.language || 'text'
               blockData.content = node.content?.[0]?.text || ''
               blockData.output = node.attrs?.output
+              blockData.outputs = node.attrs?.outputs
+              blockData.executionCount = node.attrs?.executionCount
               blockData.sessionId = node.attrs?.sessionId
               blockData.isExecuting = node.attrs?.isExecuting || false
               blockData.executionTime = node.attrs?.executionTime
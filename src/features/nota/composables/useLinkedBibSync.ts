@@ -0,0 +1,111 @@
+import { ref, computed, watch, onUnmounted, type Ref, type ComputedRef } from 'vue'
+import { useCitationStore } from '@/features/editor/stores/citationStore'
+import { useNotaStore } from '@/features/nota/stores/nota'
+import type { LinkedBibFile } from '@/features/nota/types/nota'
+import type { BibMergeResult } from '@/features/nota/services/bibSyncService'
+import { logger } from '@/services/logger'
+
+// Same interval as the .nota file watcher
+const POLL_INTERVAL = 2000
+
+export interface UseLinkedBibSyncReturn {
+  linkedBib: ComputedRef<LinkedBibFile | undefined>
+  bibFiles: Ref<string[]>
+  isSyncing: Ref<boolean>
+  syncError: Ref<string>
+  lastResult: Ref<BibMergeResult | null>
+  loadBibFiles: () => Promise<void>
+  link: (fileName: string) => Promise<void>
+  unlink: () => Promise<void>
+  syncNow: () => Promise<void>
+  dismissResult: () => void
+}
+
+/**
+ * Keep a nota's references in sync with its linked .bib file while mounted,
+ * by polling the file's modification time
+ */
+export function useLinkedBibSync(notaId: () => string): UseLinkedBibSyncReturn {
+  const citationStore = useCitationStore()
+  const notaStore = useNotaStore()
+
+  const bibFiles = ref<string[]>([])
+  const isSyncing = ref(false)
+  const syncError = ref('')
+  const lastResult = ref<BibMergeResult | null>(null)
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  const linkedBib = computed(() => notaStore.getCurrentNota(notaId())?.linkedBib)
+
+  const run = async (sync: () => Promise<BibMergeResult | null>) => {
+    if (isSyncing.value) return
+    isSyncing.value = true
+    try {
+      const result = await sync()
+      if (result) lastResult.value = result
+      syncError.value = ''
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      // Polling would otherwise log the same failure every few seconds
+      if (message !== syncError.value) logger.error('Failed to sync linked .bib file:', error)
+      syncError.value = message
+    } finally {
+      isSyncing.value = false
+    }
+  }
+
+  const loadBibFiles = async () => {
+    try {
+      bibFiles.value = await citationStore.listLinkableBibFiles()
+      syncError.value = ''
+    } catch (error) {
+      bibFiles.value = []
+      syncError.value = error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  const link = (fileName: string) => run(() => citationStore.linkBibFile(notaId(), fileName))
+
+  const unlink = async () => {
+    await citationStore.unlinkBibFile(notaId())
+    lastResult.value = null
+    syncError.value = ''
+  }
+
+  const syncNow = () => run(() => citationStore.syncLinkedBib(notaId(), true))
+
+  const dismissResult = () => {
+    lastResult.value = null
+  }
+
+  const stopPolling = () => {
+    if (timer) {
+      clearInterval(timer)
+      timer = null
+    }
+  }
+
+  watch(
+    () => linkedBib.value?.fileName,
+    fileName => {
+      stopPolling()
+      if (fileName) timer = setInterval(() => run(() => citationStore.syncLinkedBib(notaId())), POLL_INTERVAL)
+    },
+    { immediate: true }
+  )
+
+  onUnmounted(stopPolling)
+
+  return {
+    linkedBib,
+    bibFiles,
+    isSyncing,
+    syncError,
+    lastResult,
+    loadBibFiles,
+    link,
+    unlink,
+    syncNow,
+    dismissResult
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { mergeLinkedBib } from '../bibSyncService'
+import type { ReferenceData } from '../referenceFormatService'
+import type { CitationEntry } from '@/features/nota/types/nota'
+
+const reference = (key: string, fields: Partial<ReferenceData> = {}): ReferenceData => ({
+  key,
+  title: `Title of ${key}`,
+  authors: ['Ada Lovelace'],
+  year: '2020',
+  ...fields,
+})
+
+const citation = (key: string, fields: Partial<ReferenceData> = {}): CitationEntry => ({
+  ...reference(key, fields),
+  id: `id-${key}`,
+  createdAt: '2024-01-01T00:00:00.000Z',
+})
+
+describe('bibSyncService', () => {
+  it('adds, updates and removes references to follow the linked file', () => {
+    const snapshot = { a: reference('a'), b: reference('b'), c: reference('c') }
+    const result = mergeLinkedBib(
+      [citation('a'), citation('b'), citation('c'), citation('local')],
+      [reference('a'), reference('b', { year: '2021' }), reference('d')],
+      snapshot,
+    )
+
+    expect(result.added).toEqual(['d'])
+    expect(result.updated).toEqual(['b'])
+    expect(result.removed).toEqual(['c'])
+    expect(result.conflicts).toEqual([])
+    expect(result.citations.map((c) => c.key)).toEqual(['a', 'b', 'local', 'd'])
+    // Entries keep their identity when updated
+    expect(result.citations[1]).toMatchObject({ id: 'id-b', year: '2021' })
+    expect(Object.keys(result.snapshot)).toEqual(['a', 'b', 'd'])
+  })
+
+  it('lets the linked file win over local edits and reports them', () => {
+    const result = mergeLinkedBib(
+      [citation('a', { title: 'Edited locally', journal: 'Local journal' })],
+      [reference('a', { title: 'Changed in Zotero' })],
+      { a: reference('a') },
+    )
+
+    expect(result.citations[0]).toMatchObject({ title: 'Changed in Zotero', journal: undefined })
+    expect(result.conflicts).toEqual([
+      { key: 'a', field: 'title', local: 'Edited locally', linked: 'Changed in Zotero' },
+      { key: 'a', field: 'journal', local: 'Local journal', linked: '' },
+    ])
+  })
+
+  it('treats differing values as conflicts on the first sync', () => {
+    const result = mergeLinkedBib(
+      [citation('a', { authors: ['A. Lovelace'] }), citation('b', { doi: '' })],
+      [reference('a'), reference('b', { doi: '10.1/x' })],
+      null,
+    )
+
+    expect(result.updated).toEqual(['a', 'b'])
+    expect(result.conflicts).toEqual([{ key: 'a', field: 'authors', local: 'A. Lovelace', linked: 'Ada Lovelace' }])
+    expect(result.citations[1].doi).toBe('10.1/x')
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { convertNotebook, isNotebook, validateNotebook } from '../notebookImportService'
+import type { NotebookDocument } from '@/features/jupyter/types/jupyter'
+
+const notebook: NotebookDocument = {
+  nbformat: 4,
+  nbformat_minor: 5,
+  metadata: {
+    kernelspec: { name: 'python3', display_name: 'Python 3', language: 'python' },
+    language_info: { name: 'python' },
+  },
+  cells: [
+    {
+      cell_type: 'markdown',
+      metadata: {},
+      source: ['# Linear regression\n', '\n', 'We fit $y = ax + b$.'],
+    },
+    {
+      cell_type: 'code',
+      metadata: {},
+      execution_count: 3,
+      source: ['import numpy as np\n', 'print(np.pi)'],
+      outputs: [
+        { output_type: 'stream', name: 'stdout', text: ['3.14159\n'] },
+        {
+          output_type: 'execute_result',
+          execution_count: 3,
+          metadata: {},
+          data: { 'text/plain': ['<Figure>'], 'image/png': 'iVBORw0KGgo=\n' },
+        },
+      ],
+    },
+    { cell_type: 'raw', metadata: {}, source: '%%raw text' },
+    { cell_type: 'markdown', metadata: {}, source: '   ' },
+  ],
+}
+
+describe('notebookImportService', () => {
+  it('recognizes and validates nbformat v4 notebooks', () => {
+    expect(isNotebook(notebook)).toBe(true)
+    expect(isNotebook({ nota: {}, subnotas: [] })).toBe(false)
+    expect(() => validateNotebook({ ...notebook, nbformat: 3 })).toThrow('nbformat 4')
+    expect(() => validateNotebook({ cells: 'nope' })).toThrow('Invalid notebook format')
+  })
+
+  it('converts markdown cells through the markdown parser', () => {
+    const { title, content } = convertNotebook(notebook, 'regression.ipynb')
+
+    expect(title).toBe('Linear regression')
+    expect(content.content[0]).toMatchObject({
+      type: 'heading',
+      attrs: { level: 1 },
+      content: [{ type: 'text', text: 'Linear regression' }],
+    })
+    expect(content.content[1].type).toBe('paragraph')
+  })
+
+  it('keeps saved outputs on executable code blocks', () => {
+    const { content } = convertNotebook(notebook)
+    const codeBlock = content.content.find((node) => node.type === 'executableCodeBlock')
+
+    expect(codeBlock.content).toEqual([{ type: 'text', text: 'import numpy as np\nprint(np.pi)' }])
+    expect(codeBlock.attrs.language).toBe('python')
+    expect(codeBlock.attrs.executionCount).toBe(3)
+    expect(codeBlock.attrs.outputs).toEqual([
+      { output_type: 'stream', name: 'stdout', text: '3.14159\n' },
+      {
+        output_type: 'execute_result',
+        execution_count: 3,
+        metadata: {},
+        data: { 'text/plain': '<Figure>', 'image/png': 'iVBORw0KGgo=\n' },
+      },
+    ])
+    expect(codeBlock.attrs.output).toBe(
+      '3.14159\n<img src="data:image/png;base64,iVBORw0KGgo=" />\n',
+    )
+  })
+
+  it('records the kernelspec for every code block', () => {
+    const { content, kernelPreferences } = convertNotebook(notebook)
+    const codeBlock = content.content.find((node) => node.type === 'executableCodeBlock')
+    const id = codeBlock.attrs.id
+
+    expect(id).toBeTruthy()
+    expect(kernelPreferences[id]).toMatchObject({ blockId: id, kernelName: 'python3' })
+  })
+
+  it('keeps raw cells as text and skips empty cells', () => {
+    const { content } = convertNotebook(notebook)
+    const last = content.content[content.content.length - 1]
+
+    expect(last).toEqual({ type: 'paragraph', content: [{ type: 'text', text: '%%raw text' }] })
+  })
+
+  it('falls back to the file name for the title', () => {
+    const { title } = convertNotebook({ ...notebook, cells: [] }, 'analysis.ipynb')
+    expect(title).toBe('analysis')
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import {
+  authorDisplayName,
+  parseBibTeX,
+  parseBibTeXEntries,
+  toBibTeX,
+  toCslJson,
+  toRIS,
+  type ReferenceData,
+} from '../referenceFormatService'
+
+const lovelace: ReferenceData = {
+  key: 'lovelace1843',
+  title: 'Notes on the Analytical Engine & its uses',
+  authors: ['Ada Lovelace', 'Charles Babbage'],
+  year: '1843',
+  journal: 'Scientific Memoirs',
+  volume: '3',
+  pages: '666-731',
+  doi: '10.1000/ae_1843',
+}
+
+const who: ReferenceData = {
+  key: 'who2020',
+  title: 'World health statistics',
+  authors: ['{World Health Organization}'],
+  year: '2020',
+  publisher: 'WHO Press',
+}
+
+describe('referenceFormatService', () => {
+  it('writes BibTeX that reads back to the same references', () => {
+    const bib = toBibTeX([lovelace, who])
+    expect(bib).toContain('@article{lovelace1843,')
+    expect(bib).toContain('author = {Ada Lovelace and Charles Babbage}')
+    expect(bib).toContain('title = {Notes on the Analytical Engine \\& its uses}')
+    expect(bib).toContain('pages = {666--731}')
+    expect(bib).toContain('doi = {10.1000/ae_1843}')
+    expect(bib).toContain('@book{who2020,')
+    expect(parseBibTeX(bib)).toEqual([
+      { ...lovelace, number: undefined, publisher: undefined, url: undefined },
+      { ...who, journal: undefined, volume: undefined, number: undefined, pages: undefined, url: undefined, doi: undefined },
+    ])
+  })
+
+  it('parses Zotero and BibLaTeX exports', () => {
+    const [entry, second] = parseBibTeX(`
+@comment{jabref-meta: databaseType:bibtex;}
+@inproceedings{smith_deep_2021,
+  title = {{DNA} folding with {\\{}nested{\\}} braces},
+  author = {Smith, Jane and van der Berg, Piet and {Open Science Collaboration}},
+  date = {2021-03-04},
+  journaltitle = "Proceedings of {ICML}",
+  issue = 4,
+  pages = {10--20},
+  month = mar,
+  url = {https://example.org/a_b},
+}
+@misc{second, title = {Second}, year = 1999}
+`)
+    expect(entry).toMatchObject({
+      key: 'smith_deep_2021',
+      title: 'DNA folding with {nested} braces',
+      authors: ['Smith, Jane', 'van der Berg, Piet', '{Open Science Collaboration}'],
+      year: '2021',
+      journal: 'Proceedings of ICML',
+      number: '4',
+      pages: '10-20',
+      url: 'https://example.org/a_b',
+    })
+    expect(second).toMatchObject({ key: 'second', title: 'Second', year: '1999', authors: [] })
+  })
+
+  it('keeps entry types and names authors without commas', () => {
+    const entries = parseBibTeXEntries('@Book{b, title = {B}}\n@article{a, title = {A}}')
+    expect(entries.map(entry => [entry.type, entry.reference.key])).toEqual([
+      ['book', 'b'],
+      ['article', 'a'],
+    ])
+
+    expect(authorDisplayName('van der Berg, Piet')).toBe('Piet van der Berg')
+    expect(authorDisplayName('Ada Lovelace')).toBe('Ada Lovelace')
+    expect(authorDisplayName('{Open Science Collaboration}')).toBe('Open Science Collaboration')
+  })
+
+  it('writes RIS with family names first and split page ranges', () => {
+    expect(toRIS([lovelace])).toBe(
+      [
+        'TY  - JOUR',
+        'ID  - lovelace1843',
+        'AU  - Lovelace, Ada',
+        'AU  - Babbage, Charles',
+        'TI  - Notes on the Analytical Engine & its uses',
+        'PY  - 1843',
+        'JO  - Scientific Memoirs',
+        'VL  - 3',
+        'SP  - 666',
+        'EP  - 731',
+        'DO  - 10.1000/ae_1843',
+        'ER  - ',
+      ].join('\n') + '\n',
+    )
+  })
+
+  it('writes CSL-JSON once per citation key', () => {
+    const items = JSON.parse(toCslJson([lovelace, { ...lovelace, title: 'Duplicate' }, who]))
+    expect(items).toHaveLength(2)
+    expect(items[0]).toMatchObject({
+      id: 'lovelace1843',
+      type: 'article-journal',
+      author: [
+        { given: 'Ada', family: 'Lovelace' },
+        { given: 'Charles', family: 'Babbage' },
+      ],
+      issued: { 'date-parts': [[1843]] },
+      page: '666-731',
+    })
+    expect(items[1].author).toEqual([{ literal: 'World Health Organization' }])
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  SearchIndexService,
+  buildSnippet,
+  parseSearchQuery,
+  tokenize,
+} from '../searchIndexService'
+import type { Nota } from '@/features/nota/types/nota'
+
+const { getAllBlocksForNota } = vi.hoisted(() => ({ getAllBlocksForNota: vi.fn() }))
+vi.mock('@/db', () => ({ db: { getAllBlocksForNota } }))
+
+const nota = (id: string, title: string, tags: string[] = [], updatedAt = '2024-03-01T00:00:00Z'): Nota => ({
+  id,
+  title,
+  tags,
+  parentId: null,
+  createdAt: updatedAt,
+  updatedAt,
+})
+
+const block = (notaId: string, type: string, fields: Record<string, any>) =>
+  ({ notaId, type, order: 0, version: 1, createdAt: new Date(), updatedAt: new Date(), ...fields }) as any
+
+const notas = [
+  nota('etl', 'ETL pipeline', ['data']),
+  nota('paper', 'Paper draft', ['writing'], '2023-06-01T00:00:00Z'),
+  nota('parquet', 'Parquet notes', ['data']),
+]
+
+describe('searchIndexService', () => {
+  let index: SearchIndexService
+
+  beforeEach(async () => {
+    index = new SearchIndexService(false)
+    await index.indexBlock('executableCodeBlock:1', block('etl', 'executableCodeBlock', {
+      language: 'python',
+      content: "import pandas as pd\ndf = pd.read_parquet('events.parquet')",
+    }))
+    await index.indexBlock('text:2', block('paper', 'text', { content: 'We load the data from a CSV file.' }))
+    await index.indexBlock('text:3', block('parquet', 'text', { content: 'Columnar storage formats.' }))
+    await index.indexBlock('executableCodeBlock:4', block('paper', 'executableCodeBlock', {
+      language: 'r',
+      content: 'data <- read.csv("events.csv")',
+    }))
+  })
+
+  it('tokenizes identifiers into their parts', () => {
+    expect(tokenize('df = pd.read_parquet(loadEvents)')).toEqual([
+      'df', 'pd', 'read_parquet', 'read', 'parquet', 'loadevents', 'load', 'events',
+    ])
+  })
+
+  it('parses filters, phrases and date ranges', () => {
+    const query = parseSearchQuery('"read csv" tag:Data type:code lang:Python date:2024-01-01..2024-02-01')
+
+    expect(query.phrases).toEqual(['read csv'])
+    expect(query.terms).toEqual(['read', 'csv'])
+    expect(query.tags).toEqual(['data'])
+    expect(query.types).toEqual(['executableCodeBlock', 'code'])
+    expect(query.languages).toEqual(['python'])
+    expect(query.after?.toISOString()).toBe('2024-01-01T00:00:00.000Z')
+    expect(query.before?.toISOString()).toBe('2024-02-01T23:59:59.999Z')
+  })
+
+  it('finds code inside blocks and ranks content and title matches', () => {
+    const results = index.search('parquet', notas)
+
+    // Title matches are boosted above content matches
+    expect(results.map((result) => result.nota.id)).toEqual(['parquet', 'etl'])
+    expect(results[0].matches).toEqual([])
+    expect(results[0].titleHighlights).toEqual([[0, 7]])
+    expect(results[1].matches[0]).toMatchObject({ blockId: 'executableCodeBlock:1', language: 'python' })
+  })
+
+  it('matches prefixes and applies block and nota filters', () => {
+    expect(index.search('read', notas).map((result) => result.nota.id)).toEqual(['etl', 'paper'])
+    expect(index.search('read lang:r', notas).map((result) => result.nota.id)).toEqual(['paper'])
+    expect(index.search('events tag:data', notas).map((result) => result.nota.id)).toEqual(['etl'])
+    expect(index.search('data before:2023-12-31', notas).map((result) => result.nota.id)).toEqual(['paper'])
+    expect(index.search('type:code', notas)).toHaveLength(2)
+  })
+
+  it('keeps the index up to date when blocks change', async () => {
+    await index.indexBlock('text:3', block('parquet', 'text', { content: 'Row oriented storage.' }))
+    expect(index.search('columnar', notas)).toEqual([])
+
+    await index.removeNota('etl')
+    expect(index.search('pandas', notas)).toEqual([])
+    expect(index.size).toBe(3)
+  })
+
+  it('indexes stored blocks of notas it has not seen yet', async () => {
+    getAllBlocksForNota.mockResolvedValueOnce([
+      block('fresh', 'heading', { id: 7, content: 'Quarterly metrics', level: 2 }),
+    ])
+
+    await index.ensureIndexed(['fresh'])
+    await index.ensureIndexed(['fresh'])
+
+    expect(getAllBlocksForNota).toHaveBeenCalledTimes(1)
+    expect(index.search('quarterly', [nota('fresh', 'Untitled')])[0].matches[0].blockId).toBe('heading:7')
+  })
+
+  it('highlights every match inside the snippet window', () => {
+    const text = `${'filler '.repeat(30)}load the parquet file and parquet again`
+    const snippet = buildSnippet(text, parseSearchQuery('parquet'))
+
+    expect(snippet.text.startsWith('…')).toBe(true)
+    expect(snippet.highlights).toHaveLength(2)
+    for (const [start, end] of snippet.highlights) {
+      expect(snippet.text.slice(start, end)).toBe('parquet')
+    }
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { cherryPickBlock, diffDocuments, diffLines, diffWords } from '../versionDiffService'
+
+const paragraph = (text: string) => ({ type: 'paragraph', content: [{ type: 'text', text }] })
+const heading = (text: string) => ({ type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text }] })
+const code = (id: string, text: string) => ({
+  type: 'executableCodeBlock',
+  attrs: { id, language: 'python' },
+  content: [{ type: 'text', text }],
+})
+const doc = (...content: any[]) => ({ type: 'doc', content })
+
+describe('versionDiffService', () => {
+  it('diffs words and keeps whitespace intact', () => {
+    expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+      { op: 'equal', text: 'the ' },
+      { op: 'delete', text: 'quick' },
+      { op: 'insert', text: 'slow' },
+      { op: 'equal', text: ' fox' },
+    ])
+  })
+
+  it('diffs code line by line', () => {
+    expect(diffLines('a = 1\nb = 2\nprint(a)', 'a = 1\nb = 3\nprint(a)')).toEqual([
+      { op: 'equal', text: 'a = 1' },
+      { op: 'delete', text: 'b = 2' },
+      { op: 'insert', text: 'b = 3' },
+      { op: 'equal', text: 'print(a)' },
+    ])
+  })
+
+  it('reports added, removed, changed and unchanged blocks', () => {
+    const oldDoc = doc(
+      heading('Results'),
+      paragraph('The model reaches high accuracy on the test set.'),
+      paragraph('This paragraph was dropped.'),
+      code('cell-1', 'x = 1\nprint(x)'),
+    )
+    const newDoc = doc(
+      heading('Results'),
+      paragraph('The model reaches very high accuracy on the test set.'),
+      code('cell-1', 'x = 2\nprint(x)'),
+      paragraph('A new closing remark.'),
+    )
+
+    const diffs = diffDocuments(oldDoc, newDoc)
+    expect(diffs.map((diff) => [diff.change, diff.type])).toEqual([
+      ['unchanged', 'heading'],
+      ['removed', 'paragraph'],
+      ['changed', 'paragraph'],
+      ['changed', 'executableCodeBlock'],
+      ['added', 'paragraph'],
+    ])
+
+    expect(diffs[2].granularity).toBe('word')
+    expect(diffs[2].segments).toContainEqual({ op: 'insert', text: 'very ' })
+    expect(diffs[3].granularity).toBe('line')
+    expect(diffs[3].segments).toContainEqual({ op: 'delete', text: 'x = 1' })
+  })
+
+  it('compares blocks without a text serialization on their attributes', () => {
+    const widget = (attrs: any) => ({ type: 'widget', attrs })
+    const oldDoc = doc(widget({ kind: 'slider', range: [0, 10] }), widget({ kind: 'toggle', on: false }))
+    const newDoc = doc(widget({ range: [0, 10], kind: 'slider' }), widget({ kind: 'toggle', on: true }))
+
+    const diffs = diffDocuments(oldDoc, newDoc)
+    expect(diffs.map((diff) => diff.change)).toEqual(['unchanged', 'changed'])
+    expect(diffs[1].segments).toContainEqual({ op: 'insert', text: 'true' })
+  })
+
+  it('cherry-picks single blocks from the old version', () => {
+    const oldDoc = doc(paragraph('Intro'), paragraph('Old discussion'), code('c', 'x = 1'))
+    const current = doc(paragraph('Intro'), code('c', 'x = 2'), paragraph('A new summary'))
+    const diffs = diffDocuments(oldDoc, current)
+
+    const restoreIndex = diffs.findIndex((diff) => diff.change === 'removed')
+    expect(cherryPickBlock(current, diffs, restoreIndex).content.map((node: any) => node.type)).toEqual([
+      'paragraph',
+      'paragraph',
+      'executableCodeBlock',
+      'paragraph',
+    ])
+
+    const changedIndex = diffs.findIndex((diff) => diff.change === 'changed')
+    const reverted = cherryPickBlock(current, diffs, changedIndex)
+    expect(reverted.content[1].content[0].text).toBe('x = 1')
+    // The document the diffs were computed against is left untouched
+    expect(current.content[1].content[0].text).toBe('x = 2')
+
+    const addedIndex = diffs.findIndex((diff) => diff.change === 'added')
+    expect(cherryPickBlock(current, diffs, addedIndex).content).toHaveLength(2)
+
+    const unchangedIndex = diffs.findIndex((diff) => diff.change === 'unchanged')
+    expect(() => cherryPickBlock(current, diffs, unchangedIndex)).toThrow()
+  })
+})
@@ -0,0 +1,140 @@
+import type { CitationEntry } from '@/features/nota/types/nota'
+import { FileSystemBackend } from '@/services/fileSystemBackend'
+import {
+  REFERENCE_FIELDS,
+  referenceFieldValue,
+  type ReferenceData,
+  type ReferenceField,
+} from './referenceFormatService'
+
+/**
+ * A field that was edited in the nota and changed differently in the linked
+ * file. The file is the source of truth, so `linked` is what the nota now has
+ * and `local` is the edit that was replaced.
+ */
+export interface BibConflict {
+  key: string
+  field: ReferenceField
+  local: string
+  linked: string
+}
+
+export interface BibMergeResult {
+  citations: CitationEntry[]
+  added: string[]
+  updated: string[]
+  removed: string[]
+  conflicts: BibConflict[]
+  // The linked file's references, to compare against at the next sync
+  snapshot: Record<string, ReferenceData>
+}
+
+export interface BibFileContent {
+  text: string
+  lastModified: number
+}
+
+const setField = (citation: CitationEntry, field: ReferenceField, source: ReferenceData) => {
+  if (field === 'authors') {
+    citation.authors = [...(source.authors ?? [])]
+  } else if (field === 'title' || field === 'year') {
+    citation[field] = source[field] ?? ''
+  } else {
+    citation[field] = source[field]
+  }
+}
+
+/**
+ * Merge the references of a linked .bib file into a nota's citations. The
+ * file always wins: a field edited in the nota is only reported as a conflict
+ * when the file no longer agrees with it, compared with the file as it was at
+ * the last sync (`snapshot`). References dropped from the file since then are
+ * removed; references that were only ever added in the nota are kept.
+ */
+export function mergeLinkedBib(
+  citations: CitationEntry[],
+  linked: ReferenceData[],
+  snapshot: Record<string, ReferenceData> | null | undefined,
+): BibMergeResult {
+  const result: BibMergeResult = { citations: [], added: [], updated: [], removed: [], conflicts: [], snapshot: {} }
+  for (const reference of linked) {
+    if (reference.key && !result.snapshot[reference.key]) result.snapshot[reference.key] = reference
+  }
+
+  for (const citation of citations) {
+    const reference = result.snapshot[citation.key]
+    if (!reference) {
+      if (snapshot?.[citation.key]) result.removed.push(citation.key)
+      else result.citations.push(citation)
+      continue
+    }
+
+    const base = snapshot?.[citation.key]
+    const merged: CitationEntry = { ...citation, authors: [...(citation.authors ?? [])] }
+    let changed = false
+    for (const field of REFERENCE_FIELDS) {
+      const local = referenceFieldValue(citation, field)
+      const value = referenceFieldValue(reference, field)
+      if (local === value) continue
+
+      // Without a snapshot, anything already in the nota counts as a local edit
+      const edited = base ? local !== referenceFieldValue(base, field) : local !== ''
+      if (edited) result.conflicts.push({ key: citation.key, field, local, linked: value })
+      setField(merged, field, reference)
+      changed = true
+    }
+    if (changed) result.updated.push(citation.key)
+    result.citations.push(changed ? merged : citation)
+  }
+
+  const existing = new Set(citations.map(citation => citation.key))
+  for (const reference of Object.values(result.snapshot)) {
+    if (existing.has(reference.key)) continue
+    result.citations.push({ ...reference, authors: [...reference.authors], id: crypto.randomUUID(), createdAt: new Date() })
+    result.added.push(reference.key)
+  }
+
+  return result
+}
+
+/**
+ * The directory notas are stored in, when filesystem storage is set up
+ */
+export async function getWorkspaceDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  if (!(await FileSystemBackend.hasPersistedHandle())) return null
+  const backend = new FileSystemBackend()
+  await backend.initialize()
+  return backend.getDirectoryHandle()
+}
+
+// entries() is missing from some FileSystemDirectoryHandle type definitions
+interface ListableDirectoryHandle {
+  entries(): AsyncIterable<[string, FileSystemHandle]>
+}
+
+/**
+ * Names of the .bib files at the top of the workspace directory
+ */
+export async function listBibFiles(directory: FileSystemDirectoryHandle): Promise<string[]> {
+  const names: string[] = []
+  const listable = directory as unknown as ListableDirectoryHandle
+  for await (const [name, entry] of listable.entries()) {
+    if (entry.kind === 'file' && name.toLowerCase().endsWith('.bib')) names.push(name)
+  }
+  return names.sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Read a linked file. Links are read-only: the file is never written, so a
+ * reference manager exporting to it stays in charge of its contents.
+ */
+export async function readBibFile(directory: FileSystemDirectoryHandle, fileName: string): Promise<BibFileContent> {
+  const handle = await directory.getFileHandle(fileName)
+  const file = await handle.getFile()
+  return { text: await file.text(), lastModified: file.lastModified }
+}
+
+export async function getBibFileModified(directory: FileSystemDirectoryHandle, fileName: string): Promise<number> {
+  const handle = await directory.getFileHandle(fileName)
+  return (await handle.getFile()).lastModified
+}
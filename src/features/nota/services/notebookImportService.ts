@@ -0,0 +1,181 @@
+import { nanoid } from 'nanoid'
+import { markdownParserService } from '@/features/editor/services/MarkdownParserService'
+import { joinText } from '@/features/jupyter/services/mimeRenderer'
+import { renderOutputs } from '@/features/jupyter/services/outputAccumulator'
+import type {
+  KernelConfig,
+  KernelOutput,
+  MimeBundle,
+  NotebookCell,
+  NotebookDocument,
+  NotebookOutput,
+} from '@/features/jupyter/types/jupyter'
+
+export interface NotebookImportResult {
+  title: string
+  content: { type: 'doc'; content: any[] }
+  // Keyed by the id of each imported code block
+  kernelPreferences: Record<string, KernelConfig>
+}
+
+/**
+ * Check whether parsed JSON looks like a Jupyter notebook
+ */
+export function isNotebook(data: unknown): boolean {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as any).nbformat === 'number' &&
+    Array.isArray((data as any).cells)
+  )
+}
+
+/**
+ * Validate parsed JSON as an nbformat v4 notebook
+ */
+export function validateNotebook(data: unknown): NotebookDocument {
+  if (!isNotebook(data)) {
+    throw new Error('Invalid notebook format: no cells found')
+  }
+  const notebook = data as NotebookDocument
+  if (notebook.nbformat !== 4) {
+    throw new Error(`Unsupported notebook format version ${notebook.nbformat}, expected nbformat 4`)
+  }
+  return { ...notebook, metadata: notebook.metadata || {} }
+}
+
+/**
+ * Convert a notebook into TipTap content for `blockStore.importTiptapContent`.
+ * Markdown cells go through the markdown parser, code cells become executable
+ * code blocks that keep their saved outputs, and the notebook kernelspec is
+ * returned as a kernel preference for every code block.
+ */
+export function convertNotebook(notebook: NotebookDocument, fileName = ''): NotebookImportResult {
+  const language = getNotebookLanguage(notebook)
+  const content = notebook.cells.flatMap((cell) => convertCell(cell, language))
+
+  const kernelName = notebook.metadata.kernelspec?.name
+  const lastUsed = new Date().toISOString()
+  const kernelPreferences: Record<string, KernelConfig> = {}
+
+  for (const node of content) {
+    if (node.type !== 'executableCodeBlock') continue
+    // Code blocks need an id to be executable and to be keyed in the nota config
+    const id = node.attrs?.id || nanoid()
+    node.attrs = { ...node.attrs, id }
+    if (kernelName) {
+      kernelPreferences[id] = { blockId: id, kernelName, serverId: '', lastUsed }
+    }
+  }
+
+  return {
+    title: getNotebookTitle(notebook, fileName),
+    content: { type: 'doc', content },
+    kernelPreferences,
+  }
+}
+
+/**
+ * Convert a saved nbformat output into the shape produced by live execution
+ */
+export function toKernelOutput(output: NotebookOutput): KernelOutput {
+  switch (output.output_type) {
+    case 'stream':
+      return { output_type: 'stream', name: output.name, text: joinText(output.text) }
+    case 'display_data':
+    case 'execute_result':
+      return {
+        output_type: output.output_type,
+        data: normalizeMimeBundle(output.data || {}),
+        metadata: output.metadata || {},
+        ...(output.output_type === 'execute_result' && output.execution_count != null
+          ? { execution_count: output.execution_count }
+          : {}),
+      }
+    case 'error':
+      return {
+        output_type: 'error',
+        ename: output.ename || '',
+        evalue: output.evalue || '',
+        traceback: output.traceback || [],
+      }
+  }
+}
+
+function convertCell(cell: NotebookCell, language: string): any[] {
+  const source = joinText(cell.source)
+
+  switch (cell.cell_type) {
+    case 'markdown': {
+      if (!source.trim()) return []
+      const markdown = resolveAttachments(source, cell.attachments)
+      const { blocks } = markdownParserService.parseMarkdown(markdown)
+      return markdownParserService.convertToTiptap(blocks)
+    }
+
+    case 'code': {
+      const outputs = (cell.outputs || []).map(toKernelOutput)
+      const output = renderOutputs(outputs)
+      return [
+        {
+          type: 'executableCodeBlock',
+          attrs: {
+            language,
+            output: output || null,
+            outputs: outputs.length > 0 ? outputs : null,
+            executionCount: cell.execution_count ?? null,
+          },
+          ...(source ? { content: [{ type: 'text', text: source }] } : {}),
+        },
+      ]
+    }
+
+    default:
+      // Raw cells are kept verbatim as plain text
+      return source.trim() ? [{ type: 'paragraph', content: [{ type: 'text', text: source }] }] : []
+  }
+}
+
+// Inline `attachment:` image references as data URLs
+function resolveAttachments(
+  source: string,
+  attachments?: Record<string, Record<string, unknown>>,
+): string {
+  if (!attachments) return source
+  return source.replace(/attachment:([^\s)"']+)/g, (match, name: string) => {
+    const bundle = attachments[name]
+    const mimeType = bundle && Object.keys(bundle).find((type) => type.startsWith('image/'))
+    return mimeType ? `data:${mimeType};base64,${joinText(bundle[mimeType]).trim()}` : match
+  })
+}
+
+// nbformat splits text values into lines; JSON values are stored as objects
+function normalizeMimeBundle(bundle: Record<string, unknown>): MimeBundle {
+  const normalized: MimeBundle = {}
+  for (const [mimeType, value] of Object.entries(bundle)) {
+    normalized[mimeType] = isJsonMimeType(mimeType) ? value : joinText(value)
+  }
+  return normalized
+}
+
+function isJsonMimeType(mimeType: string): boolean {
+  return mimeType === 'application/json' || mimeType.endsWith('+json')
+}
+
+function getNotebookLanguage(notebook: NotebookDocument): string {
+  const language =
+    notebook.metadata.language_info?.name || notebook.metadata.kernelspec?.language || 'python'
+  return language.toLowerCase().replace(/^python\d*$/, 'python')
+}
+
+function getNotebookTitle(notebook: NotebookDocument, fileName: string): string {
+  if (notebook.metadata.title) return notebook.metadata.title
+
+  for (const cell of notebook.cells) {
+    if (cell.cell_type !== 'markdown') continue
+    const heading = joinText(cell.source).match(/^#\s+(.+)$/m)
+    if (heading) return heading[1].trim()
+  }
+
+  return fileName.replace(/\.ipynb$/i, '') || 'Imported Notebook'
+}
@@ -0,0 +1,297 @@
+import type { CitationEntry } from '@/features/nota/types/nota'
+import { parseName, toCslItem, type CslName } from '@/features/editor/services/csl'
+
+export type ReferenceFormat = 'bibtex' | 'ris' | 'csl-json'
+
+// A reference as it appears in a reference file, before it is added to a nota
+export type ReferenceData = Omit<CitationEntry, 'id' | 'createdAt'>
+
+export const REFERENCE_FORMATS: Record<ReferenceFormat, { label: string; extension: string; mimeType: string }> = {
+  bibtex: { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  ris: { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  'csl-json': { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' },
+}
+
+// Fields that make up a reference, in the order they are written
+export const REFERENCE_FIELDS = [
+  'title',
+  'authors',
+  'year',
+  'journal',
+  'volume',
+  'number',
+  'pages',
+  'publisher',
+  'url',
+  'doi',
+] as const
+
+export type ReferenceField = (typeof REFERENCE_FIELDS)[number]
+
+const BIBTEX_TYPES: Record<string, string> = {
+  'article-journal': 'article',
+  book: 'book',
+  webpage: 'misc',
+  article: 'misc',
+}
+
+const RIS_TYPES: Record<string, string> = {
+  'article-journal': 'JOUR',
+  book: 'BOOK',
+  webpage: 'ELEC',
+  article: 'GEN',
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+/**
+ * The value of a reference field as a string, for comparing and writing
+ */
+export function referenceFieldValue(reference: Partial<ReferenceData>, field: ReferenceField): string {
+  if (field === 'authors') {
+    return (reference.authors ?? []).map(author => author.trim()).filter(Boolean).join(' and ')
+  }
+  return String(reference[field] ?? '').trim()
+}
+
+// Keep references with the same key once, the first one winning
+const uniqueByKey = <T extends ReferenceData>(references: T[]): T[] => {
+  const seen = new Set<string>()
+  return references.filter(reference => {
+    if (!reference.key || seen.has(reference.key)) return false
+    seen.add(reference.key)
+    return true
+  })
+}
+
+const escapeBibTeX = (value: string) => value.replace(/([&%$#_])/g, '\\$1')
+
+const unescapeBibTeX = (value: string) => value.replace(/\\([&%$#_{}])/g, '$1')
+
+/**
+ * References as a BibTeX file. Entry types are inferred the same way as for
+ * citation styles, since references do not record one.
+ */
+export function toBibTeX(references: ReferenceData[]): string {
+  return uniqueByKey(references)
+    .map(reference => {
+      const type = BIBTEX_TYPES[toCslItem(reference as CitationEntry).type] ?? 'misc'
+      const fields = REFERENCE_FIELDS.map(field => {
+        const value = referenceFieldValue(reference, field)
+        if (!value) return null
+        const name = field === 'authors' ? 'author' : field
+        // URLs and DOIs are verbatim in BibTeX
+        const written = field === 'url' || field === 'doi' ? value : escapeBibTeX(value)
+        return `  ${name} = {${field === 'pages' ? written.replace(/\s*[-–]+\s*/g, '--') : written}}`
+      }).filter(Boolean)
+      return `@${type}{${reference.key},\n${fields.join(',\n')}\n}`
+    })
+    .join('\n\n')
+    .concat(references.length ? '\n' : '')
+}
+
+// RIS wants "Family, Given"
+const risAuthor = (author: string): string => {
+  const name: CslName = parseName(author)
+  if (name.literal) return name.literal
+  const family = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ')
+  return name.given ? `${family}, ${name.given}` : family
+}
+
+/**
+ * References as an RIS file
+ */
+export function toRIS(references: ReferenceData[]): string {
+  return uniqueByKey(references)
+    .map(reference => {
+      const type = RIS_TYPES[toCslItem(reference as CitationEntry).type] ?? 'GEN'
+      const [startPage, endPage] = (reference.pages ?? '').split(/\s*[-–]+\s*/)
+      const lines: Array<[string, string | undefined]> = [
+        ['TY', type],
+        ['ID', reference.key],
+        ...(reference.authors ?? []).filter(author => author.trim()).map(author => ['AU', risAuthor(author)] as [string, string]),
+        ['TI', reference.title],
+        ['PY', reference.year],
+        ['JO', reference.journal],
+        ['VL', reference.volume],
+        ['IS', reference.number],
+        ['SP', startPage],
+        ['EP', endPage],
+        ['PB', reference.publisher],
+        ['DO', reference.doi],
+        ['UR', reference.url],
+      ]
+      return lines
+        .filter(([, value]) => value && value.trim())
+        .map(([tag, value]) => `${tag}  - ${value!.trim()}`)
+        .concat('ER  - ')
+        .join('\n')
+    })
+    .join('\n\n')
+    .concat(references.length ? '\n' : '')
+}
+
+/**
+ * References as a CSL-JSON array, the format read by Zotero, Pandoc and
+ * citeproc
+ */
+export function toCslJson(references: ReferenceData[]): string {
+  return JSON.stringify(
+    uniqueByKey(references).map(reference => toCslItem(reference as CitationEntry)),
+    null,
+    2,
+  )
+}
+
+export function formatReferences(references: ReferenceData[], format: ReferenceFormat): string {
+  switch (format) {
+    case 'bibtex':
+      return toBibTeX(references)
+    case 'ris':
+      return toRIS(references)
+    case 'csl-json':
+      return toCslJson(references)
+  }
+}
+
+// Read a braced or quoted value starting at `start`; returns the raw value and the index after it
+const readDelimited = (text: string, start: number): [string, number] => {
+  const open = text[start]
+  const close = open === '{' ? '}' : '"'
+  let depth = 0
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i]
+    if (char === '\\') {
+      i++
+    } else if (char === '{') {
+      depth++
+    } else if (char === '}' && depth > 0) {
+      depth--
+    } else if (char === close && depth === 0) {
+      return [text.slice(start + 1, i), i + 1]
+    }
+  }
+  throw new Error(`Unterminated value starting with ${open}`)
+}
+
+// Split on a word at brace depth 0, as in "A and {B and C}"
+const splitTopLevel = (value: string, separator: RegExp): string[] => {
+  const parts: string[] = []
+  let depth = 0
+  let last = 0
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '{') depth++
+    else if (value[i] === '}') depth--
+    else if (depth === 0) {
+      const match = value.slice(i).match(separator)
+      if (match && match.index === 0) {
+        parts.push(value.slice(last, i))
+        i += match[0].length - 1
+        last = i + 1
+      }
+    }
+  }
+  parts.push(value.slice(last))
+  return parts.map(part => part.trim()).filter(Boolean)
+}
+
+// Drop case-protecting braces and LaTeX escapes
+const cleanValue = (value: string): string =>
+  unescapeBibTeX(value.replace(/(?<!\\)[{}]/g, '')).replace(/\s+/g, ' ').trim()
+
+// Authors keep braces around a whole name, which marks an institution
+const cleanAuthor = (author: string): string =>
+  /^\{[^{}]*\}$/.test(author) ? `{${cleanValue(author)}}` : cleanValue(author)
+
+// A parsed BibTeX entry and its lowercase entry type, e.g. "article"
+export interface BibTeXEntry {
+  type: string
+  reference: ReferenceData
+}
+
+/**
+ * Parse a BibTeX or BibLaTeX file, such as one exported by Zotero, into
+ * references. Entries without a key are skipped, as are @string, @preamble and
+ * @comment blocks.
+ */
+export function parseBibTeX(text: string): ReferenceData[] {
+  return parseBibTeXEntries(text).map(entry => entry.reference)
+}
+
+/**
+ * As `parseBibTeX`, keeping the type of each entry
+ */
+export function parseBibTeXEntries(text: string): BibTeXEntry[] {
+  const entries: BibTeXEntry[] = []
+  const entryStart = /@(\w+)\s*[{(]/g
+  let match: RegExpExecArray | null
+
+  while ((match = entryStart.exec(text))) {
+    const type = match[1].toLowerCase()
+    let i = entryStart.lastIndex
+    if (['string', 'preamble', 'comment'].includes(type)) continue
+
+    const keyEnd = text.indexOf(',', i)
+    if (keyEnd < 0) break
+    const key = text.slice(i, keyEnd).trim()
+    i = keyEnd + 1
+
+    const fields: Record<string, string> = {}
+    while (i < text.length) {
+      const field = /\s*([\w-]+)\s*=\s*/y
+      field.lastIndex = i
+      const name = field.exec(text)
+      if (!name) break
+      i = field.lastIndex
+
+      let value: string
+      if (text[i] === '{' || text[i] === '"') {
+        ;[value, i] = readDelimited(text, i)
+      } else {
+        const bare = /[^,}\s]+/y
+        bare.lastIndex = i
+        value = bare.exec(text)?.[0] ?? ''
+        i = bare.lastIndex || i
+        const month = MONTHS.indexOf(value.toLowerCase())
+        if (month >= 0) value = String(month + 1)
+      }
+      fields[name[1].toLowerCase()] = value
+
+      const separator = /\s*,?/y
+      separator.lastIndex = i
+      separator.exec(text)
+      i = separator.lastIndex
+    }
+    entryStart.lastIndex = i
+
+    if (!key || key.includes('=')) continue
+    const year = fields.year ? cleanValue(fields.year) : (fields.date?.match(/\d{4}/)?.[0] ?? '')
+    entries.push({
+      type,
+      reference: {
+        key,
+        title: cleanValue(fields.title ?? ''),
+        authors: splitTopLevel(fields.author ?? '', /\s+and\s+/).map(cleanAuthor),
+        year,
+        journal: cleanValue(fields.journal ?? fields.journaltitle ?? '') || undefined,
+        volume: cleanValue(fields.volume ?? '') || undefined,
+        number: cleanValue(fields.number ?? fields.issue ?? '') || undefined,
+        pages: cleanValue(fields.pages ?? '').replace(/\s*-{2,}\s*/g, '-') || undefined,
+        publisher: cleanValue(fields.publisher ?? '') || undefined,
+        url: fields.url?.trim() || undefined,
+        doi: fields.doi?.trim() || undefined,
+      },
+    })
+  }
+
+  return entries
+}
+
+/**
+ * An author as "Given Family", or an institution's name, so that lists of
+ * authors can be joined with commas
+ */
+export function authorDisplayName(author: string): string {
+  const name = parseName(author)
+  return name.literal ?? [name.given, name['non-dropping-particle'], name.family].filter(Boolean).join(' ')
+}
@@ -0,0 +1,559 @@
+import Dexie, { type Table } from 'dexie'
+import { db } from '@/db'
+import { logger } from '@/services/logger'
+import type { Block } from '@/features/nota/types/blocks'
+import type { Nota } from '@/features/nota/types/nota'
+
+/**
+ * One indexed block, keyed by the block store composite id (`type:id`)
+ */
+export interface SearchDocument {
+  id: string
+  notaId: string
+  type: string
+  language?: string
+  text: string
+  termFrequencies: Record<string, number>
+  length: number
+  updatedAt: Date
+}
+
+export interface SearchQuery {
+  terms: string[]
+  phrases: string[]
+  tags: string[]
+  types: string[]
+  languages: string[]
+  after: Date | null
+  before: Date | null
+}
+
+export interface SearchSnippet {
+  text: string
+  // [start, end) offsets into `text`
+  highlights: Array<[number, number]>
+}
+
+export interface SearchMatch {
+  blockId: string
+  type: string
+  language?: string
+  score: number
+  snippet: SearchSnippet
+}
+
+export interface SearchResult {
+  nota: Nota
+  score: number
+  titleHighlights: Array<[number, number]>
+  matches: SearchMatch[]
+}
+
+// The index lives in its own database so the versioned notaDB schema stays untouched
+class SearchIndexDB extends Dexie {
+  documents!: Table<SearchDocument, string>
+  indexedNotas!: Table<{ id: string; indexedAt: Date }, string>
+
+  constructor() {
+    super('notaSearchIndex')
+    this.version(1).stores({
+      documents: 'id, notaId',
+      indexedNotas: 'id',
+    })
+  }
+}
+
+// `type:` filter aliases; anything else is matched against the block type directly
+const TYPE_ALIASES: Record<string, string[]> = {
+  code: ['executableCodeBlock', 'code'],
+  table: ['table', 'notaTable'],
+  diagram: ['mermaid', 'drawio'],
+  image: ['image', 'subfigure'],
+  figure: ['image', 'subfigure'],
+}
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+// Weight of a term that only matches as a prefix (e.g. "parq" for "parquet")
+const PREFIX_WEIGHT = 0.6
+const TITLE_BOOST = 3
+const SNIPPET_BEFORE = 60
+const SNIPPET_LENGTH = 180
+
+/**
+ * Split text into lowercase search terms. Identifiers are also indexed by
+ * their snake_case and camelCase parts, so `read_parquet` matches "parquet".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = []
+  for (const word of text.match(/[\p{L}\p{N}_]+/gu) || []) {
+    const lower = word.toLowerCase()
+    terms.push(lower)
+
+    const parts = word
+      .split('_')
+      .flatMap((part) => part.split(/(?<=[\p{Ll}\p{N}])(?=\p{Lu})/u))
+      .filter(Boolean)
+    if (parts.length > 1) {
+      terms.push(...parts.map((part) => part.toLowerCase()))
+    }
+  }
+  return terms
+}
+
+/**
+ * Parse a search string into terms, quoted phrases and filters:
+ * `tag:ml`, `type:code`, `lang:python`, `after:2024-01-01`, `before:2024-06-30`
+ * and `date:2024-01-01..2024-06-30`.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = {
+    terms: [],
+    phrases: [],
+    tags: [],
+    types: [],
+    languages: [],
+    after: null,
+    before: null,
+  }
+
+  const rest = input.replace(/"([^"]+)"/g, (_, phrase: string) => {
+    query.phrases.push(phrase.toLowerCase())
+    query.terms.push(...tokenize(phrase))
+    return ' '
+  })
+
+  for (const word of rest.split(/\s+/).filter(Boolean)) {
+    const filter = word.match(/^(tag|type|lang|language|after|before|date):(.+)$/i)
+    if (!filter) {
+      query.terms.push(...tokenize(word))
+      continue
+    }
+
+    const [, key, value] = filter
+    switch (key.toLowerCase()) {
+      case 'tag':
+        query.tags.push(value.replace(/^#/, '').toLowerCase())
+        break
+      case 'type':
+        query.types.push(...(TYPE_ALIASES[value.toLowerCase()] || [value]))
+        break
+      case 'lang':
+      case 'language':
+        query.languages.push(value.toLowerCase())
+        break
+      case 'after':
+        query.after = parseDate(value)
+        break
+      case 'before':
+        query.before = parseDate(value, true)
+        break
+      case 'date': {
+        const [from, to] = value.split('..')
+        query.after = from ? parseDate(from) : null
+        query.before = parseDate(to ?? from, true)
+        break
+      }
+    }
+  }
+
+  query.terms = [...new Set(query.terms)]
+  return query
+}
+
+/**
+ * Plain text of a stored block, as used for indexing and snippets
+ */
+export function getBlockText(block: Block): string {
+  const b = block as any
+  switch (block.type) {
+    case 'text':
+      return typeof b.content === 'string' ? b.content : collectText(b.content)
+    case 'heading':
+    case 'quote':
+    case 'code':
+    case 'executableCodeBlock':
+    case 'mermaid':
+      return b.content || ''
+    case 'math':
+      return b.latex || ''
+    case 'table':
+      return [b.caption, ...(b.headers || []), ...(b.rows || []).flat()].filter(Boolean).join(' ')
+    case 'list':
+      return (b.items || []).join('\n')
+    case 'image':
+      return [b.alt, b.caption].filter(Boolean).join(' ')
+    case 'subfigure':
+      return (b.images || []).map((image: any) => image.caption || image.alt || '').join(' ')
+    case 'youtube':
+      return b.title || ''
+    case 'citation':
+      return b.citationKey || ''
+    case 'theorem':
+      return [b.title, b.content, b.proof].filter(Boolean).join('\n')
+    case 'aiGeneration':
+      return [b.prompt, b.generatedContent].filter(Boolean).join('\n')
+    case 'pipeline':
+      return [b.title, b.description, ...(b.nodes || []).map((node: any) => node.label)]
+        .filter(Boolean)
+        .join('\n')
+    case 'notaTable': {
+      const data = b.tableData || {}
+      return [
+        data.name,
+        ...(data.columns || []).map((column: any) => column.title),
+        ...(data.rows || []).flatMap((row: any) => Object.values(row.cells || {})),
+      ]
+        .filter((value) => value !== null && value !== undefined && value !== '')
+        .join(' ')
+    }
+    case 'confusionMatrix':
+      return b.title || ''
+    case 'subNotaLink':
+      return b.displayText || b.targetNotaTitle || ''
+    default:
+      return ''
+  }
+}
+
+/**
+ * Build the index entry for a block, or null when it has no searchable text
+ */
+export function createSearchDocument(id: string, block: Block): SearchDocument | null {
+  const text = getBlockText(block).trim()
+  if (!text) return null
+
+  const terms = tokenize(text)
+  // No prototype, so terms like "constructor" are plain keys
+  const termFrequencies: Record<string, number> = Object.create(null)
+  for (const term of terms) {
+    termFrequencies[term] = (termFrequencies[term] || 0) + 1
+  }
+
+  return {
+    id,
+    notaId: block.notaId,
+    type: block.type,
+    language: (block as any).language?.toLowerCase(),
+    text,
+    termFrequencies,
+    length: terms.length,
+    updatedAt: block.updatedAt ? new Date(block.updatedAt) : new Date(),
+  }
+}
+
+/**
+ * Cut a window of text around the first query match and mark every match in it
+ */
+export function buildSnippet(text: string, query: SearchQuery): SearchSnippet {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  const highlights = findHighlights(flat, query)
+
+  const first = highlights[0]?.[0] ?? 0
+  const start = first > SNIPPET_BEFORE ? flat.lastIndexOf(' ', first - SNIPPET_BEFORE) + 1 : 0
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH)
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < flat.length ? '…' : ''
+
+  return {
+    text: prefix + flat.slice(start, end) + suffix,
+    highlights: highlights
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from - start + prefix.length, to - start + prefix.length]),
+  }
+}
+
+/**
+ * Offsets of query terms (at the start of a word) and phrases in `text`
+ */
+export function findHighlights(text: string, query: SearchQuery): Array<[number, number]> {
+  const patterns = [
+    ...query.phrases.map(escapeRegExp),
+    ...query.terms.map((term) => `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}`),
+  ]
+  if (patterns.length === 0) return []
+
+  const ranges: Array<[number, number]> = []
+  for (const match of text.matchAll(new RegExp(patterns.join('|'), 'giu'))) {
+    if (match[0]) ranges.push([match.index!, match.index! + match[0].length])
+  }
+
+  // Merge overlapping ranges so the UI can render them in order
+  ranges.sort((a, b) => a[0] - b[0])
+  const merged: Array<[number, number]> = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+  return merged
+}
+
+/**
+ * Persistent inverted index over the content of every block. Documents are
+ * stored in IndexedDB and mirrored in memory with their postings, so queries
+ * run synchronously while typing.
+ */
+export class SearchIndexService {
+  private store: SearchIndexDB | null = null
+  private documents = new Map<string, SearchDocument>()
+  private postings = new Map<string, Set<string>>()
+  private indexedNotas = new Set<string>()
+  private totalLength = 0
+  private loading: Promise<void> | null = null
+
+  constructor(private persist = true) {}
+
+  /**
+   * Load the stored index into memory (once)
+   */
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load()
+    }
+    return this.loading
+  }
+
+  /**
+   * Index every nota that has not been indexed yet, e.g. notas created before
+   * the index existed or imported by another tab
+   */
+  async ensureIndexed(notaIds: string[]): Promise<void> {
+    await this.initialize()
+    for (const notaId of notaIds) {
+      if (this.indexedNotas.has(notaId)) continue
+      try {
+        const blocks = await db.getAllBlocksForNota(notaId)
+        for (const block of blocks) {
+          await this.indexBlock(`${block.type}:${String(block.id)}`, block)
+        }
+        this.indexedNotas.add(notaId)
+        await this.store?.indexedNotas.put({ id: notaId, indexedAt: new Date() })
+      } catch (error) {
+        logger.error(`Failed to index nota ${notaId}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Add or replace a block in the index
+   */
+  async indexBlock(id: string, block: Block): Promise<void> {
+    // Wait for the stored index so it cannot overwrite newer entries
+    await this.initialize()
+    const document = createSearchDocument(id, block)
+    if (!document) {
+      await this.removeBlock(id)
+      return
+    }
+
+    this.addToMemory(document)
+    try {
+      await this.store?.documents.put(document)
+    } catch (error) {
+      logger.error('Failed to persist search document:', error)
+    }
+  }
+
+  async removeBlock(id: string): Promise<void> {
+    await this.initialize()
+    if (!this.documents.has(id)) return
+    this.removeFromMemory(id)
+    try {
+      await this.store?.documents.delete(id)
+    } catch (error) {
+      logger.error('Failed to remove search document:', error)
+    }
+  }
+
+  async removeNota(notaId: string): Promise<void> {
+    await this.initialize()
+    for (const document of [...this.documents.values()]) {
+      if (document.notaId === notaId) this.removeFromMemory(document.id)
+    }
+    this.indexedNotas.delete(notaId)
+    try {
+      await this.store?.documents.where('notaId').equals(notaId).delete()
+      await this.store?.indexedNotas.delete(notaId)
+    } catch (error) {
+      logger.error('Failed to remove nota from search index:', error)
+    }
+  }
+
+  /**
+   * Rank notas for a search string. Blocks are scored with BM25 and each
+   * nota is ranked by its best block, plus a boost for title matches.
+   */
+  search(input: string, notas: Nota[], limit = 50): SearchResult[] {
+    const query = parseSearchQuery(input)
+    const hasText = query.terms.length > 0 || query.phrases.length > 0
+    const hasBlockFilters = query.types.length > 0 || query.languages.length > 0
+    const candidates = notas.filter((nota) => matchesNotaFilters(nota, query))
+    const notaById = new Map(candidates.map((nota) => [nota.id, nota]))
+
+    const matchesByNota = new Map<string, SearchMatch[]>()
+    if (hasText || hasBlockFilters) {
+      for (const [id, score] of this.scoreDocuments(query)) {
+        const document = this.documents.get(id)!
+        if (!notaById.has(document.notaId) || !matchesBlockFilters(document, query)) continue
+        if (!query.phrases.every((phrase) => document.text.toLowerCase().includes(phrase))) continue
+
+        const matches = matchesByNota.get(document.notaId) || []
+        matches.push({
+          blockId: id,
+          type: document.type,
+          language: document.language,
+          score,
+          snippet: buildSnippet(document.text, query),
+        })
+        matchesByNota.set(document.notaId, matches)
+      }
+    }
+
+    const results: SearchResult[] = []
+    for (const nota of candidates) {
+      const matches = (matchesByNota.get(nota.id) || []).sort((a, b) => b.score - a.score)
+      const titleHighlights = hasText ? findHighlights(nota.title, query) : []
+      if (hasBlockFilters && matches.length === 0) continue
+      if (hasText && matches.length === 0 && titleHighlights.length === 0) continue
+
+      const titleTerms = new Set(tokenize(nota.title))
+      const titleScore = query.terms.filter((term) => titleTerms.has(term)).length * TITLE_BOOST
+      const blockScore = matches.reduce((total, match, index) => total + (index === 0 ? match.score : match.score * 0.1), 0)
+
+      results.push({ nota, score: titleScore + blockScore, titleHighlights, matches })
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || toTime(b.nota.updatedAt) - toTime(a.nota.updatedAt))
+      .slice(0, limit)
+  }
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  private async load(): Promise<void> {
+    if (!this.persist) return
+    try {
+      this.store = new SearchIndexDB()
+      const [documents, indexedNotas] = await Promise.all([
+        this.store.documents.toArray(),
+        this.store.indexedNotas.toArray(),
+      ])
+      documents.forEach((document) => this.addToMemory(document))
+      indexedNotas.forEach((entry) => this.indexedNotas.add(entry.id))
+      logger.info(`Loaded search index with ${documents.length} blocks`)
+    } catch (error) {
+      // Fall back to an in-memory index that is rebuilt each session
+      logger.error('Failed to load search index:', error)
+      this.store = null
+    }
+  }
+
+  private scoreDocuments(query: SearchQuery): Map<string, number> {
+    const scores = new Map<string, number>()
+
+    if (query.terms.length === 0) {
+      // Filter-only queries (e.g. `type:code lang:python`) list every block
+      for (const id of this.documents.keys()) scores.set(id, 0)
+      return scores
+    }
+
+    const count = this.documents.size
+    const averageLength = count > 0 ? this.totalLength / count : 1
+
+    for (const term of query.terms) {
+      for (const [indexed, ids] of this.postings) {
+        if (!indexed.startsWith(term)) continue
+        const weight = indexed === term ? 1 : PREFIX_WEIGHT
+        const idf = Math.log(1 + (count - ids.size + 0.5) / (ids.size + 0.5))
+
+        for (const id of ids) {
+          const document = this.documents.get(id)!
+          const frequency = document.termFrequencies[indexed]
+          const normalized = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * document.length) / averageLength))
+          scores.set(id, (scores.get(id) || 0) + weight * idf * normalized)
+        }
+      }
+    }
+    return scores
+  }
+
+  private addToMemory(document: SearchDocument) {
+    this.removeFromMemory(document.id)
+    this.documents.set(document.id, document)
+    this.totalLength += document.length
+    for (const term of Object.keys(document.termFrequencies)) {
+      let ids = this.postings.get(term)
+      if (!ids) {
+        ids = new Set()
+        this.postings.set(term, ids)
+      }
+      ids.add(document.id)
+    }
+  }
+
+  private removeFromMemory(id: string) {
+    const document = this.documents.get(id)
+    if (!document) return
+    this.documents.delete(id)
+    this.totalLength -= document.length
+    for (const term of Object.keys(document.termFrequencies)) {
+      const ids = this.postings.get(term)
+      ids?.delete(id)
+      if (ids?.size === 0) this.postings.delete(term)
+    }
+  }
+}
+
+function matchesNotaFilters(nota: Nota, query: SearchQuery): boolean {
+  const tags = (nota.tags || []).map((tag) => tag.toLowerCase())
+  if (!query.tags.every((tag) => tags.includes(tag))) return false
+
+  const updated = toTime(nota.updatedAt)
+  if (query.after && updated < query.after.getTime()) return false
+  if (query.before && updated > query.before.getTime()) return false
+  return true
+}
+
+function matchesBlockFilters(document: SearchDocument, query: SearchQuery): boolean {
+  if (query.types.length > 0 && !query.types.includes(document.type)) return false
+  if (query.languages.length > 0 && !query.languages.includes(document.language || '')) return false
+  return true
+}
+
+// `before:` includes the whole day it names
+function parseDate(value: string, endOfDay = false): Date | null {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999)
+  }
+  return date
+}
+
+// Text of inline TipTap JSON, for text blocks stored with their marks
+function collectText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (Array.isArray(value)) return value.map(collectText).join('')
+  if (value && typeof value === 'object') {
+    const node = value as { text?: string; content?: unknown }
+    return node.text ?? collectText(node.content)
+  }
+  return ''
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function toTime(value: Date | string | undefined): number {
+  return value ? new Date(value).getTime() : 0
+}
+
+export const searchIndexService = new SearchIndexService()
@@ -0,0 +1,300 @@
+import { serializeBlock, textContent } from '@/features/editor/services/export/markdownSerializer'
+
+export type DiffOp = 'equal' | 'insert' | 'delete'
+
+export interface DiffSegment {
+  op: DiffOp
+  text: string
+}
+
+export type BlockChange = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface BlockDiff {
+  change: BlockChange
+  type: string
+  // Positions in the old and new documents' top-level content
+  oldIndex: number | null
+  newIndex: number | null
+  oldNode?: any
+  newNode?: any
+  // Words for prose, one segment per line for code
+  granularity: 'word' | 'line'
+  segments: DiffSegment[]
+}
+
+// Blocks compared line by line
+const LINE_DIFF_TYPES = new Set(['executableCodeBlock', 'codeBlock', 'mermaid'])
+// Above this many cells in the LCS table the diff falls back to replace-all
+const MAX_DIFF_CELLS = 250_000
+// Minimum word overlap for a removed and an added block to count as one changed block
+const CHANGED_SIMILARITY = 0.3
+
+/**
+ * Compare two TipTap documents block by block. Identical blocks are aligned
+ * first; remaining removed and added blocks of the same type that still share
+ * enough words are reported as changed, with a word or line level diff.
+ */
+export function diffDocuments(oldDoc: any, newDoc: any): BlockDiff[] {
+  const oldNodes: any[] = oldDoc?.content || []
+  const newNodes: any[] = newDoc?.content || []
+  const oldKeys = oldNodes.map(blockKey)
+  const newKeys = newNodes.map(blockKey)
+
+  const result: BlockDiff[] = []
+  let removed: number[] = []
+  let added: number[] = []
+
+  const flush = () => {
+    result.push(...pairBlocks(oldNodes, newNodes, removed, added))
+    removed = []
+    added = []
+  }
+
+  for (const step of diffSequences(oldKeys, newKeys)) {
+    if (step.op === 'delete') {
+      removed.push(step.oldIndex!)
+    } else if (step.op === 'insert') {
+      added.push(step.newIndex!)
+    } else {
+      flush()
+      const node = newNodes[step.newIndex!]
+      result.push({
+        change: 'unchanged',
+        type: node.type,
+        oldIndex: step.oldIndex!,
+        newIndex: step.newIndex!,
+        oldNode: oldNodes[step.oldIndex!],
+        newNode: node,
+        granularity: granularityOf(node.type),
+        segments: [{ op: 'equal', text: blockText(node) }],
+      })
+    }
+  }
+  flush()
+
+  return result
+}
+
+/**
+ * Word-level diff; whitespace and punctuation are kept as their own tokens
+ */
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const tokenize = (text: string) => text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) || []
+  const oldTokens = tokenize(oldText)
+  const newTokens = tokenize(newText)
+
+  const segments: DiffSegment[] = []
+  for (const step of diffSequences(oldTokens, newTokens)) {
+    const text = step.op === 'insert' ? newTokens[step.newIndex!] : oldTokens[step.oldIndex!]
+    const last = segments[segments.length - 1]
+    if (last && last.op === step.op) {
+      last.text += text
+    } else {
+      segments.push({ op: step.op, text })
+    }
+  }
+  return segments
+}
+
+/**
+ * Line-level diff with one segment per line
+ */
+export function diffLines(oldText: string, newText: string): DiffSegment[] {
+  const oldLines = oldText.split('\n')
+  const newLines = newText.split('\n')
+  return diffSequences(oldLines, newLines).map((step) => ({
+    op: step.op,
+    text: step.op === 'insert' ? newLines[step.newIndex!] : oldLines[step.oldIndex!],
+  }))
+}
+
+/**
+ * Take the old version of a single block into `currentDoc`, which must be the
+ * document the diffs were computed against. Removed blocks are re-inserted
+ * after their nearest surviving predecessor, changed blocks are replaced and
+ * added blocks are dropped.
+ */
+export function cherryPickBlock(currentDoc: any, diffs: BlockDiff[], index: number): any {
+  const diff = diffs[index]
+  const content = [...(currentDoc?.content || [])]
+
+  switch (diff?.change) {
+    case 'changed':
+      content[diff.newIndex!] = clone(diff.oldNode)
+      break
+    case 'added':
+      content.splice(diff.newIndex!, 1)
+      break
+    case 'removed': {
+      const previous = diffs
+        .slice(0, index)
+        .reverse()
+        .find((entry) => entry.newIndex !== null)
+      content.splice(previous ? previous.newIndex! + 1 : 0, 0, clone(diff.oldNode))
+      break
+    }
+    default:
+      throw new Error('Only added, removed or changed blocks can be cherry-picked')
+  }
+
+  return { ...currentDoc, type: currentDoc?.type || 'doc', content }
+}
+
+/**
+ * Readable text of a block, used for comparison and display. Blocks without a
+ * text serialization fall back to their attributes as stable JSON, so edits to
+ * them still register.
+ */
+export function blockText(node: any): string {
+  const text = LINE_DIFF_TYPES.has(node?.type) ? textContent(node) || node.attrs?.content || '' : serializeBlock(node)
+  return text || (node?.attrs ? stableJson(node.attrs) : '')
+}
+
+function pairBlocks(oldNodes: any[], newNodes: any[], removed: number[], added: number[]): BlockDiff[] {
+  const pairs = new Map<number, number>()
+  const taken = new Set<number>()
+
+  for (const oldIndex of removed) {
+    const oldNode = oldNodes[oldIndex]
+    const match = added.find((newIndex) => {
+      if (taken.has(newIndex)) return false
+      const newNode = newNodes[newIndex]
+      if (newNode.type !== oldNode.type) return false
+      // Code cells keep their id across edits
+      if (oldNode.attrs?.id && oldNode.attrs.id === newNode.attrs?.id) return true
+      return similarity(blockText(oldNode), blockText(newNode)) >= CHANGED_SIMILARITY
+    })
+    if (match !== undefined) {
+      pairs.set(match, oldIndex)
+      taken.add(match)
+    }
+  }
+
+  const paired = new Set(pairs.values())
+  const diffs: BlockDiff[] = removed
+    .filter((oldIndex) => !paired.has(oldIndex))
+    .map((oldIndex) => {
+      const node = oldNodes[oldIndex]
+      return {
+        change: 'removed' as const,
+        type: node.type,
+        oldIndex,
+        newIndex: null,
+        oldNode: node,
+        granularity: granularityOf(node.type),
+        segments: [{ op: 'delete' as const, text: blockText(node) }],
+      }
+    })
+
+  for (const newIndex of added) {
+    const newNode = newNodes[newIndex]
+    const oldIndex = pairs.get(newIndex)
+    if (oldIndex === undefined) {
+      diffs.push({
+        change: 'added',
+        type: newNode.type,
+        oldIndex: null,
+        newIndex,
+        newNode,
+        granularity: granularityOf(newNode.type),
+        segments: [{ op: 'insert', text: blockText(newNode) }],
+      })
+      continue
+    }
+
+    const oldNode = oldNodes[oldIndex]
+    const granularity = granularityOf(newNode.type)
+    const oldText = blockText(oldNode)
+    const newText = blockText(newNode)
+    diffs.push({
+      change: 'changed',
+      type: newNode.type,
+      oldIndex,
+      newIndex,
+      oldNode,
+      newNode,
+      granularity,
+      segments: granularity === 'line' ? diffLines(oldText, newText) : diffWords(oldText, newText),
+    })
+  }
+
+  return diffs
+}
+
+interface DiffStep {
+  op: DiffOp
+  oldIndex?: number
+  newIndex?: number
+}
+
+// Longest common subsequence edit script
+function diffSequences(oldItems: string[], newItems: string[]): DiffStep[] {
+  const n = oldItems.length
+  const m = newItems.length
+
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...oldItems.map((_, oldIndex) => ({ op: 'delete' as const, oldIndex })),
+      ...newItems.map((_, newIndex) => ({ op: 'insert' as const, newIndex })),
+    ]
+  }
+
+  // lengths[i][j] = LCS of oldItems[i..] and newItems[j..]
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldItems[i] === newItems[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const steps: DiffStep[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (oldItems[i] === newItems[j]) {
+      steps.push({ op: 'equal', oldIndex: i++, newIndex: j++ })
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      steps.push({ op: 'delete', oldIndex: i++ })
+    } else {
+      steps.push({ op: 'insert', newIndex: j++ })
+    }
+  }
+  while (i < n) steps.push({ op: 'delete', oldIndex: i++ })
+  while (j < m) steps.push({ op: 'insert', newIndex: j++ })
+  return steps
+}
+
+function blockKey(node: any): string {
+  return `${node?.type}\u0000${blockText(node)}`
+}
+
+function granularityOf(type: string): 'word' | 'line' {
+  return LINE_DIFF_TYPES.has(type) ? 'line' : 'word'
+}
+
+// Jaccard similarity of the word sets
+function similarity(a: string, b: string): number {
+  const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [])
+  const setA = words(a)
+  const setB = words(b)
+  if (setA.size === 0 && setB.size === 0) return 1
+
+  let shared = 0
+  for (const word of setA) if (setB.has(word)) shared++
+  return shared / (setA.size + setB.size - shared)
+}
+
+// JSON with object keys sorted, so equal attributes always give equal text
+function stableJson(value: any): string {
+  return JSON.stringify(value, (_key, entry) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(Object.keys(entry).sort().map((key) => [key, entry[key]]))
+      : entry,
+  )
+}
+
+// Plain JSON copy; nodes may be reactive proxies, which structuredClone rejects
+function clone(node: any): any {
+  return JSON.parse(JSON.stringify(node))
+}
@@ -5,6 +5,8 @@ import { logger } from '@/services/logger'
 import type { Block, NotaBlockStructure } from '@/features/nota/types/blocks'
 import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/constants/app'
 import type { HeadingBlock } from '@/features/nota/types/blocks'
+import { searchIndexService } from '@/features/nota/services/searchIndexService'
+import { embeddingIndexService } from '@/features/ai/services/embeddingIndexService'
 
 // Helper utilities for globally unique block identifiers
 function toCompositeId(block: { id: any; type: string }): string {
@@ -169,6 +171,7 @@ export const useBlockStore = defineStore('blocks', {
 
         // Add to memory with composite key
         this.blocks.set(compositeId, savedBlock)
+        searchIndexService.indexBlock(compositeId, savedBlock)
 
         // Update block structure (only metadata, not full blocks)
         const structure = this.blockStructures.get(block.notaId)
@@ -231,6 +234,7 @@ export const useBlockStore = defineStore('blocks', {
 
         // Save to database (uses per-table numeric id)
         await db.saveBlock(updatedBlock)
+        searchIndexService.indexBlock(compositeId, updatedBlock)
         if (structure) {
           await this.saveBlockStructure(structure)
         }
@@ -267,6 +271,7 @@ export const useBlockStore = defineStore('blocks', {
 
         // Remove from database using per-table id
         await db.deleteBlock(String(block.id), block.type)
+        searchIndexService.removeBlock(compositeId)
         if (structure) {
           await this.saveBlockStructure(structure)
         }
@@ -456,6 +461,8 @@ export const useBlockStore = defineStore('blocks', {
 
         await db.deleteAllBlocksForNota(notaId)
         await db.blockStructures.delete(notaId)
+        searchIndexService.removeNota(notaId)
+        embeddingIndexService.removeNota(notaId)
 
         logger.info('Cleared blocks for nota:', notaId)
       } catch (error) {
@@ -705,8 +712,11 @@ export const useBlockStore = defineStore('blocks', {
           return {
             type: 'executableCodeBlock',
             attrs: {
+              id: (block as any).cellId,
               language: (block as any).language || 'text',
               output: (block as any).output,
+              outputs: (block as any).outputs,
+              executionCount: (block as any).executionCount,
               sessionId: (block as any).sessionId,
               isExecuting: (block as any).isExecuting || false,
               executionTime: (block as any).executionTime,
@@ -841,9 +851,12 @@ export const useBlockStore = defineStore('blocks', {
                 break
               case 'executableCodeBlock':
                 blockData.type = 'executableCodeBlock'
+                blockData.cellId = node.attrs?.id
                 blockData.language = node.attrs?.language || 'text'
                 blockData.content = node.content?.[0]?.text || ''
                 blockData.output = node.attrs?.output
+                blockData.outputs = node.attrs?.outputs
+                blockData.executionCount = node.attrs?.executionCount
                 blockData.sessionId = node.attrs?.sessionId
                 blockData.isExecuting = node.attrs?.isExecuting || false
                 blockData.executionTime = node.attrs?.executionTime
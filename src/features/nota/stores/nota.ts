@@ -7,6 +7,7 @@ import { toast } from 'vue-sonner'
 import { useAuthStore } from '@/features/auth/stores/auth'
 import { fetchAPI } from '@/services/axios'
 import { processNotaContent } from '@/features/nota/services/publishNotaUtilities'
+import { convertNotebook, isNotebook, validateNotebook } from '@/features/nota/services/notebookImportService'
 import { statisticsService } from '@/features/bashhub/services/statisticsService'
 import { logger } from '@/services/logger'
 import { FILE_EXTENSIONS, ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/constants/app'
@@ -495,6 +496,11 @@ export const useNotaStore = defineStore('nota', {
             }
             
             const importedData = JSON.parse(text)
+
+            // Jupyter notebooks are converted into a single new nota
+            if (file.name.toLowerCase().endsWith(FILE_EXTENSIONS.ipynb) || isNotebook(importedData)) {
+              return resolve([await this.importNotebook(importedData, file.name)])
+            }
             
             // Handle new .nota format with main nota and subnotas
             let rawNotasToImport: any[] = []
@@ -634,6 +640,27 @@ export const useNotaStore = defineStore('nota', {
       })
     },
 
+    /**
+     * Create a nota from a parsed .ipynb file and record its kernelspec as the
+     * kernel preference of every imported code block
+     */
+    async importNotebook(data: unknown, fileName: string): Promise<Nota> {
+      const notebook = validateNotebook(data)
+      const { title, content, kernelPreferences } = convertNotebook(notebook, fileName)
+
+      const nota = await this.createItem(title)
+      const blockStore = useBlockStore()
+      await blockStore.importTiptapContent(nota.id, content)
+
+      if (Object.keys(kernelPreferences).length > 0) {
+        await this.updateNotaConfig(nota.id, (config) => {
+          config.kernelPreferences = { ...config.kernelPreferences, ...kernelPreferences }
+        })
+      }
+
+      return nota
+    },
+
     async exportAllNotas(): Promise<void> {
       if (this.items.length === 0) {
         toast('No notas to export.')
@@ -658,6 +685,7 @@ export const useNotaStore = defineStore('nota', {
     async saveNotaVersion(version: {
       id: string
       nota: Nota
+      content?: any
       versionName: string
       createdAt: Date
     }) {
@@ -665,10 +693,13 @@ export const useNotaStore = defineStore('nota', {
         const nota = this.getCurrentNota(version.id)
         if (!nota) throw new Error('Nota not found')
 
+        // Snapshots must not carry the version list, or every version nests all earlier ones
+        const { versions: _versions, ...snapshot } = version.nota
         const notaVersion: NotaVersion = {
           id: nanoid(),
           notaId: version.id,
-          nota: version.nota,
+          nota: snapshot as Nota,
+          ...(version.content ? { content: JSON.parse(JSON.stringify(version.content)) } : {}),
           versionName: version.versionName,
           createdAt:
             version.createdAt instanceof Date ? version.createdAt.toISOString() : version.createdAt,
@@ -707,14 +738,15 @@ export const useNotaStore = defineStore('nota', {
         const version = nota.versions.find((v) => v.id === versionId)
         if (!version) throw new Error('Version not found')
 
-        // Restore the entire nota from the version
-        const restoredNota = version.nota
+        // Restore the entire nota from the version, keeping the current version list
+        const { versions: _versions, ...restoredNota } = version.nota
         restoredNota.updatedAt = new Date()
         
         // Update the current nota with the restored version
         await this.saveNota(restoredNota)
 
-        return true
+        // Content is applied by the editor so it goes through the normal block sync
+        return version.content ?? null
       } catch (error) {
         logger.error('Failed to restore version:', error)
         throw error
@@ -1,4 +1,5 @@
 import type { Mark } from '@tiptap/core'
+import type { KernelOutput } from '@/features/jupyter/types/jupyter'
 
 /**
  * Base interface for all blocks
@@ -182,7 +183,11 @@ export interface ExecutableCodeBlock extends BaseBlock {
   type: 'executableCodeBlock'
   language: string
   content: string
+  // The editor node id, which keys execution cells and kernel preferences
+  cellId?: string
   output?: any
+  outputs?: KernelOutput[] | null
+  executionCount?: number | null
   sessionId?: string
   isExecuting?: boolean
   executionTime?: number
@@ -218,7 +223,8 @@ export interface TheoremBlock extends BaseBlock {
   title: string
   content: string
   proof?: string
-  theoremType?: 'theorem' | 'lemma' | 'corollary' | 'proposition'
+  // Name of a built-in or nota-defined theorem environment
+  theoremType?: string
   number?: string
   tags?: string[]
 }
@@ -18,12 +18,15 @@ export interface Nota {
   isPublished?: boolean
   publishedAt?: string | null
   citations?: CitationEntry[]
+  // A .bib file in the workspace directory whose references are synced into `citations`
+  linkedBib?: LinkedBibFile
 }
 
 export interface NotaVersion {
   id: string
   notaId: string
   nota: Nota // Store the full nota object instead of just content
+  content?: any // Tiptap JSON snapshot; missing on versions saved before content was kept
   versionName: string
   createdAt: Date | string
 }
@@ -93,6 +96,15 @@ export interface CitationEntry {
   createdAt: Date | string
 }
 
+export interface LinkedBibFile {
+  fileName: string
+  // Modification time of the file when it was last synced
+  lastModified: number
+  syncedAt: string
+  // References as they were in the file at the last sync, keyed by citation key
+  snapshot: Record<string, Omit<CitationEntry, 'id' | 'createdAt'>>
+}
+
 // Comment interfaces for public notas
 export interface Comment {
   id: string
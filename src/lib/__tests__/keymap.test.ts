@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import {
+  eventToStroke,
+  findConflicts,
+  formatShortcut,
+  getShortcutWarning,
+  normalizeShortcut,
+} from '../keymap'
+
+const keydown = (init: KeyboardEventInit) => new KeyboardEvent('keydown', init)
+
+describe('lib/keymap', () => {
+  it('normalizes modifier order, aliases and chords', () => {
+    expect(normalizeShortcut('shift+ctrl+k')).toBe('Ctrl+Shift+K')
+    expect(normalizeShortcut('Cmd+Option+ArrowUp')).toBe('Ctrl+Alt+Up')
+    expect(normalizeShortcut('  ctrl+x   ctrl+s ')).toBe('Ctrl+X Ctrl+S')
+    expect(normalizeShortcut('Ctrl+Shift')).toBeNull()
+    expect(normalizeShortcut('Ctrl+A+B')).toBeNull()
+    expect(normalizeShortcut('')).toBeNull()
+  })
+
+  it('reads strokes from key events by physical key', () => {
+    expect(eventToStroke(keydown({ key: 'Í', code: 'KeyI', ctrlKey: true, shiftKey: true, altKey: true }), false))
+      .toBe('Ctrl+Shift+Alt+I')
+    expect(eventToStroke(keydown({ key: '?', code: 'Slash', shiftKey: true }), false)).toBe('Shift+/')
+    expect(eventToStroke(keydown({ key: 'Enter', code: 'Enter', ctrlKey: true }), false)).toBe('Ctrl+Enter')
+    expect(eventToStroke(keydown({ key: 'Control', code: 'ControlLeft', ctrlKey: true }), false)).toBeNull()
+    // Cmd is the primary modifier on macOS
+    expect(eventToStroke(keydown({ key: 'k', code: 'KeyK', metaKey: true }), true)).toBe('Ctrl+K')
+    expect(formatShortcut('Ctrl+Shift+K', true)).toBe('⌘+⇧+K')
+  })
+
+  it('warns about browser and typing keys', () => {
+    expect(getShortcutWarning('Ctrl+W')?.level).toBe('reserved')
+    expect(getShortcutWarning('ctrl+n ctrl+s')?.level).toBe('reserved')
+    expect(getShortcutWarning('Ctrl+P')?.level).toBe('browser')
+    expect(getShortcutWarning('Shift+A')?.level).toBe('typing')
+    expect(getShortcutWarning('Ctrl+Shift+Alt+P')).toBeNull()
+    expect(getShortcutWarning('F2')).toBeNull()
+  })
+
+  it('finds conflicts in overlapping scopes and chord prefixes', () => {
+    const conflicts = findConflicts([
+      { id: 'subfigures', key: 'Ctrl+Shift+Alt+F', scope: 'editor' },
+      { id: 'fullscreen', key: 'Ctrl+Shift+Alt+F', scope: 'code' },
+      { id: 'italic', key: 'Ctrl+I', scope: 'editor' },
+      { id: 'image', key: 'ctrl+i', scope: 'global' },
+      { id: 'prefix', key: 'Ctrl+X', scope: 'code' },
+      { id: 'chord', key: 'Ctrl+X Ctrl+F', scope: 'global' },
+      { id: 'unbound', key: '', scope: 'global' },
+    ])
+
+    expect(conflicts.has('subfigures')).toBe(false)
+    expect(conflicts.has('fullscreen')).toBe(false)
+    expect(conflicts.get('italic')).toEqual(['image'])
+    expect(conflicts.get('chord')).toEqual(['prefix'])
+    expect(conflicts.has('unbound')).toBe(false)
+  })
+})
@@ -0,0 +1,297 @@
+/**
+ * Keyboard shortcut strings, e.g. "Ctrl+Shift+Alt+C" or the chord "Ctrl+X Ctrl+S".
+ *
+ * A shortcut is one or more strokes separated by spaces. Each stroke is a set of
+ * modifiers in the order Ctrl, Shift, Alt, Meta followed by a single key. "Ctrl"
+ * stands for Cmd on macOS, so the same keymap works on every platform.
+ */
+
+export type ShortcutScope = 'global' | 'editor' | 'code'
+
+export interface ShortcutBinding {
+  id: string
+  key: string
+  scope: ShortcutScope
+}
+
+export interface ShortcutWarning {
+  level: 'reserved' | 'browser' | 'typing'
+  message: string
+}
+
+export const IS_MAC = typeof navigator !== 'undefined' && /mac|iphone|ipad/i.test(navigator.platform)
+
+const MODIFIERS = ['Ctrl', 'Shift', 'Alt', 'Meta'] as const
+type Modifier = (typeof MODIFIERS)[number]
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  mod: 'Ctrl',
+  shift: 'Shift',
+  alt: 'Alt',
+  option: 'Alt',
+  opt: 'Alt',
+  '⌥': 'Alt',
+  '⇧': 'Shift',
+  // Cmd fills the Ctrl slot on macOS, and the Control key the Meta slot
+  cmd: 'Ctrl',
+  command: 'Ctrl',
+  '⌘': 'Ctrl',
+  meta: 'Meta',
+  super: 'Meta',
+  win: 'Meta',
+  '⌃': 'Meta',
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space',
+  space: 'Space',
+  spacebar: 'Space',
+  esc: 'Esc',
+  escape: 'Esc',
+  enter: 'Enter',
+  return: 'Enter',
+  tab: 'Tab',
+  backspace: 'Backspace',
+  delete: 'Delete',
+  del: 'Delete',
+  insert: 'Insert',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  up: 'Up',
+  down: 'Down',
+  left: 'Left',
+  right: 'Right',
+  arrowup: 'Up',
+  arrowdown: 'Down',
+  arrowleft: 'Left',
+  arrowright: 'Right',
+  '↑': 'Up',
+  '↓': 'Down',
+  '←': 'Left',
+  '→': 'Right',
+}
+
+// Punctuation keys by physical position, so Shift or Alt do not change the key name
+const CODE_KEYS: Record<string, string> = {
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+}
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'AltGraph', 'Meta', 'OS', 'CapsLock', 'Fn']
+
+const TYPING_KEYS = ['Space', 'Enter', 'Tab', 'Backspace', 'Delete']
+
+// Browsers handle these before the page sees them, so they can never be bound
+const RESERVED_STROKES = [
+  'Ctrl+N',
+  'Ctrl+Shift+N',
+  'Ctrl+T',
+  'Ctrl+Shift+T',
+  'Ctrl+W',
+  'Ctrl+Shift+W',
+  'Ctrl+Tab',
+  'Ctrl+Shift+Tab',
+  'Ctrl+Q',
+  'Alt+F4',
+]
+
+// These reach the page but replace a browser action people rely on
+const BROWSER_STROKES = [
+  'Ctrl+P',
+  'Ctrl+S',
+  'Ctrl+F',
+  'Ctrl+R',
+  'Ctrl+L',
+  'Ctrl+D',
+  'Ctrl+H',
+  'Ctrl+J',
+  'Ctrl+Shift+I',
+  'Ctrl+Shift+J',
+  'F5',
+  'F12',
+]
+
+const normalizeKey = (key: string): string | null => {
+  const alias = KEY_ALIASES[key.toLowerCase()]
+  if (alias) return alias
+  if (/^f([1-9]|1[0-9]|2[0-4])$/i.test(key)) return key.toUpperCase()
+  if (key.length === 1) return key.toUpperCase()
+  return null
+}
+
+/**
+ * Normalize a single stroke such as "shift+ctrl+k" to "Ctrl+Shift+K"
+ * @returns The canonical stroke, or null when it is not a valid stroke
+ */
+export function normalizeStroke(stroke: string): string | null {
+  const parts = stroke.split('+').map(part => part.trim())
+  if (parts.some(part => !part)) return null
+
+  const modifiers = new Set<Modifier>()
+  let key: string | null = null
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()]
+    if (modifier) {
+      modifiers.add(modifier)
+      continue
+    }
+    // Exactly one non-modifier key per stroke
+    if (key) return null
+    key = normalizeKey(part)
+    if (!key) return null
+  }
+  if (!key) return null
+
+  return [...MODIFIERS.filter(modifier => modifiers.has(modifier)), key].join('+')
+}
+
+/**
+ * Normalize a shortcut, including chords like "ctrl+x ctrl+s"
+ * @returns The canonical shortcut, or null when any stroke is invalid
+ */
+export function normalizeShortcut(shortcut: string): string | null {
+  const strokes = shortcut.trim().split(/\s+/).filter(Boolean)
+  if (strokes.length === 0) return null
+
+  const normalized = strokes.map(normalizeStroke)
+  if (normalized.some(stroke => !stroke)) return null
+  return normalized.join(' ')
+}
+
+/**
+ * Split a shortcut into its strokes
+ */
+export function parseShortcut(shortcut: string): string[] {
+  const normalized = normalizeShortcut(shortcut)
+  return normalized ? normalized.split(' ') : []
+}
+
+/**
+ * The stroke a keydown event produces, or null for a lone modifier key.
+ * On macOS Cmd is reported as "Ctrl" and the Control key as "Meta".
+ */
+export function eventToStroke(event: KeyboardEvent, isMac = IS_MAC): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null
+
+  let key: string | null = null
+  const code = event.code || ''
+  const letter = code.match(/^Key([A-Z])$/)
+  const digit = code.match(/^(?:Digit|Numpad)(\d)$/)
+  if (letter) key = letter[1]
+  else if (digit) key = digit[1]
+  else if (CODE_KEYS[code]) key = CODE_KEYS[code]
+  else if (event.key) key = normalizeKey(event.key) ?? event.key
+  if (!key) return null
+
+  const ctrl = isMac ? event.metaKey : event.ctrlKey
+  const meta = isMac ? event.ctrlKey : event.metaKey
+  return [
+    ctrl && 'Ctrl',
+    event.shiftKey && 'Shift',
+    event.altKey && 'Alt',
+    meta && 'Meta',
+    key,
+  ].filter(Boolean).join('+')
+}
+
+/**
+ * Whether a stroke would type text, i.e. it has no Ctrl, Alt or Meta
+ * and is not a function or navigation key
+ */
+export function isTypingStroke(stroke: string): boolean {
+  const parts = stroke.split('+')
+  const key = parts[parts.length - 1]
+  if (parts.some(part => part === 'Ctrl' || part === 'Alt' || part === 'Meta')) return false
+  return key.length === 1 || TYPING_KEYS.includes(key)
+}
+
+/**
+ * The keys of each stroke for display, with macOS symbols on a Mac
+ */
+export function shortcutParts(shortcut: string, isMac = IS_MAC): string[][] {
+  const symbols: Record<string, string> = isMac
+    ? { Ctrl: '⌘', Shift: '⇧', Alt: '⌥', Meta: '⌃' }
+    : { Meta: 'Win' }
+  return parseShortcut(shortcut).map(stroke => stroke.split('+').map(part => symbols[part] ?? part))
+}
+
+/**
+ * A shortcut as display text, e.g. "Ctrl+Shift+K" or "⌘+⇧+K"
+ */
+export function formatShortcut(shortcut: string, isMac = IS_MAC): string {
+  return shortcutParts(shortcut, isMac).map(stroke => stroke.join('+')).join(' ')
+}
+
+/**
+ * Explain why a shortcut may not work. Only the first stroke of a chord is
+ * checked because later strokes are never seen by the browser first.
+ */
+export function getShortcutWarning(shortcut: string): ShortcutWarning | null {
+  const [first] = parseShortcut(shortcut)
+  if (!first) return null
+
+  if (RESERVED_STROKES.includes(first)) {
+    return { level: 'reserved', message: `${first} is reserved by the browser and cannot be used` }
+  }
+  if (BROWSER_STROKES.includes(first)) {
+    return { level: 'browser', message: `${first} replaces a browser shortcut` }
+  }
+  if (isTypingStroke(first)) {
+    return { level: 'typing', message: 'Shortcuts without Ctrl or Alt do nothing while typing in a text field' }
+  }
+  return null
+}
+
+/**
+ * Global shortcuts are active everywhere, the other scopes only where focus is
+ */
+export function scopesOverlap(a: ShortcutScope, b: ShortcutScope): boolean {
+  return a === b || a === 'global' || b === 'global'
+}
+
+const isPrefix = (prefix: string[], strokes: string[]) =>
+  prefix.length <= strokes.length && prefix.every((stroke, index) => strokes[index] === stroke)
+
+/**
+ * Find bindings that cannot both work: the same shortcut in overlapping scopes,
+ * or a shortcut that is the start of another's chord.
+ * @returns The ids each binding conflicts with, for bindings that have conflicts
+ */
+export function findConflicts(bindings: ShortcutBinding[]): Map<string, string[]> {
+  const conflicts = new Map<string, string[]>()
+  const parsed = bindings
+    .map(binding => ({ ...binding, strokes: parseShortcut(binding.key) }))
+    .filter(binding => binding.strokes.length > 0)
+
+  const add = (id: string, other: string) => {
+    const list = conflicts.get(id) ?? []
+    list.push(other)
+    conflicts.set(id, list)
+  }
+
+  for (let i = 0; i < parsed.length; i++) {
+    for (let j = i + 1; j < parsed.length; j++) {
+      const a = parsed[i]
+      const b = parsed[j]
+      if (!scopesOverlap(a.scope, b.scope)) continue
+      if (isPrefix(a.strokes, b.strokes) || isPrefix(b.strokes, a.strokes)) {
+        add(a.id, b.id)
+        add(b.id, a.id)
+      }
+    }
+  }
+  return conflicts
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { CodeExecutionService } from '../codeExecutionService'
+import type { JupyterServer } from '@/features/jupyter/types/jupyter'
+
+class FakeSocket {
+  static instances: FakeSocket[] = []
+  sent: any[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((event: { data: string }) => void) | null = null
+  onerror: ((error: unknown) => void) | null = null
+  onclose: (() => void) | null = null
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this)
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close() {
+    this.onclose?.()
+  }
+
+  reply(parentId: string, msgType: string, content: Record<string, any> = {}) {
+    this.onmessage?.({
+      data: JSON.stringify({
+        msg_type: msgType,
+        header: { msg_type: msgType },
+        parent_header: { msg_id: parentId },
+        content,
+      }),
+    })
+  }
+
+  finish(parentId: string) {
+    this.reply(parentId, 'execute_reply', { status: 'ok' })
+    this.reply(parentId, 'status', { execution_state: 'idle' })
+  }
+
+  // The id of the last execute request sent
+  get lastId(): string {
+    return this.sent[this.sent.length - 1].header.msg_id
+  }
+}
+
+const server: JupyterServer = { ip: 'localhost', port: '8888', token: '' }
+
+describe('CodeExecutionService', () => {
+  beforeEach(() => {
+    FakeSocket.instances = []
+    vi.stubGlobal('WebSocket', FakeSocket)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('lists variables over the connection cells run on', async () => {
+    const service = new CodeExecutionService()
+    const run = service.executeCode(server, 'k1', 'df = load()')
+    const socket = FakeSocket.instances[0]
+    socket.onopen?.()
+    socket.finish(socket.lastId)
+    await run
+
+    const listing = service.listVariables('k1')
+    expect(FakeSocket.instances).toHaveLength(1)
+    const request = socket.sent[socket.sent.length - 1]
+    expect(request.content.store_history).toBe(false)
+    socket.reply(socket.lastId, 'stream', {
+      name: 'stdout',
+      text: '[{"name": "df", "type": "DataFrame", "shape": "(3, 2)", "columns": ["a", "b"]}]\n',
+    })
+    socket.finish(socket.lastId)
+
+    expect(await listing).toEqual([{ name: 'df', type: 'DataFrame', shape: '(3, 2)', columns: ['a', 'b'] }])
+  })
+
+  it('lists nothing for kernels without a connection or while a cell runs', async () => {
+    const service = new CodeExecutionService()
+    expect(await service.listVariables('k1')).toEqual([])
+
+    service.executeCode(server, 'k1', 'import time; time.sleep(60)')
+    expect(await service.listVariables('k1')).toEqual([])
+    expect(FakeSocket.instances[0].sent).toHaveLength(0)
+  })
+})
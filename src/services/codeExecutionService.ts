@@ -1,13 +1,36 @@
-import type {
-  CodeBlock,
-  ExecutionResult,
-  JupyterMessage,
-  MessageStatus,
-} from '@/features/editor/types/codeExecution'
-import type { JupyterServer } from '@/features/jupyter/types/jupyter'
+import type { CodeBlock, ExecutionResult } from '@/features/editor/types/codeExecution'
+import type { InputRequest, JupyterServer, KernelVariable } from '@/features/jupyter/types/jupyter'
+import { KernelConnection } from '@/features/jupyter/services/kernelConnection'
+import { OutputAccumulator } from '@/features/jupyter/services/outputAccumulator'
 import { logger } from '@/services/logger'
 
+// Prints the user namespace of an IPython kernel as JSON. Everything it
+// defines starts with an underscore and is removed again.
+const LIST_VARIABLES_CODE = `
+def _bashnota_variables():
+    import json
+    hidden = {'In', 'Out', 'exit', 'quit', 'get_ipython'}
+    result = []
+    for name, value in list(globals().items()):
+        if name.startswith('_') or name in hidden:
+            continue
+        entry = {'name': name, 'type': type(value).__name__}
+        try:
+            if not isinstance(value, type) and hasattr(value, 'shape'):
+                entry['shape'] = str(value.shape)
+            if not isinstance(value, type) and hasattr(value, 'columns'):
+                entry['columns'] = [str(column) for column in list(value.columns)[:20]]
+        except Exception:
+            pass
+        result.append(entry)
+    print(json.dumps(result[:200]))
+_bashnota_variables()
+del _bashnota_variables
+`
+
 export class CodeExecutionService {
+  private connections = new Map<string, KernelConnection>()
+
   private getBaseUrl(server: JupyterServer): string {
     const protocol = server.ip.startsWith('http') ? '' : 'http://'
     return `${protocol}${server.ip}:${server.port}`
@@ -35,27 +58,21 @@ export class CodeExecutionService {
     return url
   }
 
-  private createExecuteRequestMessage(code: string): JupyterMessage {
-    const msgId = `msg-${Date.now()}-${Math.random()}`
-    return {
-      header: {
-        msg_id: msgId,
-        username: 'bashbook',
-        session: msgId,
-        msg_type: 'execute_request',
-        version: '5.0',
-      },
-      parent_header: {},
-      metadata: {},
-      content: {
-        code,
-        silent: false,
-        store_history: true,
-        user_expressions: {},
-        allow_stdin: false,
-      },
-      channel: 'shell',
+  /**
+   * Get the open connection for a kernel, creating it on first use
+   */
+  private getConnection(serverConfig: JupyterServer, kernelId: string): KernelConnection {
+    let connection = this.connections.get(kernelId)
+    if (!connection || connection.isDisposed) {
+      connection = new KernelConnection(this.getWebSocketUrl(serverConfig, kernelId), kernelId)
+      this.connections.set(kernelId, connection)
     }
+    return connection
+  }
+
+  private closeConnection(kernelId: string) {
+    this.connections.get(kernelId)?.dispose()
+    this.connections.delete(kernelId)
   }
 
   async createKernel(serverConfig: JupyterServer, kernelName: string): Promise<string> {
@@ -94,6 +111,7 @@ export class CodeExecutionService {
   }
 
   async deleteKernel(serverConfig: JupyterServer, kernelId: string): Promise<void> {
+    this.closeConnection(kernelId)
     const response = await fetch(this.getUrlWithToken(serverConfig, `/api/kernels/${kernelId}`), {
       method: 'DELETE',
     })
@@ -103,6 +121,64 @@ export class CodeExecutionService {
     }
   }
 
+  /**
+   * Interrupt whatever the kernel is running. Queued execute requests are
+   * aborted by the kernel itself.
+   */
+  async interruptKernel(serverConfig: JupyterServer, kernelId: string): Promise<void> {
+    const response = await fetch(
+      this.getUrlWithToken(serverConfig, `/api/kernels/${kernelId}/interrupt`),
+      { method: 'POST' },
+    )
+
+    if (!response.ok) {
+      throw new Error(`Failed to interrupt kernel: ${response.statusText}`)
+    }
+  }
+
+  /**
+   * Restart the kernel, dropping all of its state. Requests still waiting on
+   * the old process are rejected since their replies will never arrive.
+   */
+  async restartKernel(serverConfig: JupyterServer, kernelId: string): Promise<void> {
+    this.connections.get(kernelId)?.cancelPending('Kernel restarted')
+
+    const response = await fetch(
+      this.getUrlWithToken(serverConfig, `/api/kernels/${kernelId}/restart`),
+      { method: 'POST' },
+    )
+
+    if (!response.ok) {
+      throw new Error(`Failed to restart kernel: ${response.statusText}`)
+    }
+  }
+
+  /**
+   * List the variables of a running Python kernel. Returns an empty list when
+   * there is no open connection or the kernel is busy, so callers never
+   * connect to a kernel or wait behind a long-running cell.
+   */
+  async listVariables(kernelId: string): Promise<KernelVariable[]> {
+    const connection = this.connections.get(kernelId)
+    if (!connection || connection.isDisposed || connection.hasPendingRequests) return []
+
+    try {
+      const accumulator = new OutputAccumulator()
+      await connection.execute(LIST_VARIABLES_CODE, {
+        storeHistory: false,
+        onMessage: (msg) => accumulator.handle(msg),
+      })
+      const stdout = accumulator.outputs
+        .map((output) => (output.output_type === 'stream' && output.name === 'stdout' ? output.text : ''))
+        .join('')
+        .trim()
+      return stdout ? JSON.parse(stdout.split('\n').pop()!) : []
+    } catch (error) {
+      logger.warn('Failed to list kernel variables:', error)
+      return []
+    }
+  }
+
   async listKernels(serverConfig: JupyterServer): Promise<Array<{ id: string; name: string }>> {
     const response = await fetch(this.getUrlWithToken(serverConfig, '/api/kernels'), {
       method: 'GET',
@@ -115,110 +191,57 @@ export class CodeExecutionService {
     return response.json()
   }
 
-  executeNotebookBlocks(
+  /**
+   * Run blocks one after another on a kernel. `onOutput` receives the full
+   * rendered output of a block every time it changes, so callers should
+   * replace rather than append. Aborting `signal` stops before the next
+   * block, so only blocks that actually ran have a result. Stdin is only
+   * enabled when `onInputRequest` is given; answered prompts are echoed into
+   * the block output.
+   */
+  async executeNotebookBlocks(
     serverConfig: JupyterServer,
     kernelId: string,
     codeBlocks: CodeBlock[],
     onOutput?: (blockId: string, output: string) => void,
+    signal?: AbortSignal,
+    onInputRequest?: (blockId: string, request: InputRequest) => Promise<string>,
   ): Promise<ExecutionResult[]> {
-    return new Promise((resolve, reject) => {
-      const results: Map<string, string> = new Map()
-      const ws = new WebSocket(this.getWebSocketUrl(serverConfig, kernelId))
-      let currentBlockIndex = 0
-      const messageStatus = new Map<string, MessageStatus>()
-
-      ws.onopen = () => {
-        if (codeBlocks.length > 0) {
-          const message = this.createExecuteRequestMessage(codeBlocks[currentBlockIndex].code)
-          messageStatus.set(message.header.msg_id, { done: false, output: '' })
-          ws.send(JSON.stringify(message))
-        }
-      }
-
-      ws.onmessage = (event) => {
-        const msg = JSON.parse(event.data)
-        const msgType = msg.header?.msg_type
-        const parentMsgId = msg.parent_header?.msg_id
-
-        if (!parentMsgId || !messageStatus.has(parentMsgId)) return
-
-        const status = messageStatus.get(parentMsgId)!
-        const content = msg.content
-        let newOutput = ''
-
-        switch (msgType) {
-          case 'stream':
-            newOutput = content.text || ''
-            status.output += newOutput
-            break
-
-          case 'execute_result':
-          case 'display_data':
-            if (content.data['text/plain']) {
-              newOutput += content.data['text/plain'] + '\n'
-            }
-            if (content.data['text/html']) {
-              newOutput += content.data['text/html'] + '\n'
-            }
-            if (content.data['image/png']) {
-              newOutput += `<img src="data:image/png;base64,${content.data['image/png']}" />\n`
-            }
-            status.output += newOutput
-            break
-
-          case 'error':
-            newOutput += `Error: ${content.ename}\n${content.evalue}\n${content.traceback.join('\n')}`
-            status.output += newOutput
-            codeBlocks[currentBlockIndex].hasError = true
-            break
-
-          case 'status':
-            if (content.execution_state === 'idle' && !status.done) {
-              status.done = true
-              results.set(codeBlocks[currentBlockIndex].id, status.output)
-
-              currentBlockIndex++
-              if (currentBlockIndex < codeBlocks.length) {
-                const nextMessage = this.createExecuteRequestMessage(
-                  codeBlocks[currentBlockIndex].code,
-                )
-                messageStatus.set(nextMessage.header.msg_id, {
-                  done: false,
-                  output: '',
-                })
-                ws.send(JSON.stringify(nextMessage))
-              } else {
-                ws.close()
-                resolve(
-                  codeBlocks.map((block) => ({
-                    id: block.id,
-                    hasError: block.hasError,
-                    output: results.get(block.id) || '',
-                  })),
-                )
-              }
-            }
-            break
-        }
-
-        // Stream output if callback is provided
-        if (newOutput && onOutput) {
-          onOutput(codeBlocks[currentBlockIndex].id, newOutput)
-        }
-        messageStatus.set(parentMsgId, status)
-      }
-
-      ws.onerror = (error) => {
-        logger.error('WebSocket error:', error)
-        reject(new Error('WebSocket error'))
-      }
+    const connection = this.getConnection(serverConfig, kernelId)
+    const results: ExecutionResult[] = []
+
+    for (const block of codeBlocks) {
+      if (signal?.aborted) break
+
+      const accumulator = new OutputAccumulator()
+
+      await connection.execute(block.code, {
+        onMessage: (msg) => {
+          if (accumulator.handle(msg)) {
+            onOutput?.(block.id, accumulator.toString())
+          }
+        },
+        onInputRequest:
+          onInputRequest &&
+          (async (request) => {
+            const value = await onInputRequest(block.id, request)
+            accumulator.recordInput(request, value)
+            onOutput?.(block.id, accumulator.toString())
+            return value
+          }),
+      })
+
+      block.hasError = accumulator.hasError
+      results.push({
+        id: block.id,
+        hasError: accumulator.hasError,
+        output: accumulator.toString(),
+        outputs: accumulator.outputs,
+        executionCount: accumulator.executionCount,
+      })
+    }
 
-      ws.onclose = () => {
-        if (currentBlockIndex < codeBlocks.length) {
-          reject(new Error('WebSocket closed before execution completed'))
-        }
-      }
-    })
+    return results
   }
 
   async executeCode(
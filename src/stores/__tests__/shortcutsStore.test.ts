@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useShortcutsStore } from '../shortcutsStore'
+
+describe('shortcutsStore', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('has no conflicting defaults in any preset', () => {
+    const store = useShortcutsStore()
+    expect([...store.conflicts.keys()]).toEqual([])
+    expect(store.keyFor('italic-text')).toBe('Ctrl+I')
+
+    store.setPreset('emacs')
+    expect([...store.conflicts.keys()]).toEqual([])
+    expect(store.keyFor('run-code-block')).toBe('Ctrl+C Ctrl+C')
+  })
+
+  it('rebinds, reports conflicts and resets', () => {
+    const store = useShortcutsStore()
+
+    expect(store.updateShortcut('insert-table', 'ctrl+shift+alt+c')).toBe(true)
+    expect(store.keyFor('insert-table')).toBe('Ctrl+Shift+Alt+C')
+    expect(store.conflicts.get('insert-code')).toEqual(['insert-table'])
+
+    // Reserved and invalid keys are refused
+    expect(store.updateShortcut('insert-table', 'Ctrl+W')).toBe(false)
+    expect(store.updateShortcut('insert-table', 'Ctrl+')).toBe(false)
+
+    store.resetToDefaults(['blocks'])
+    expect(store.keyFor('insert-table')).toBe('Ctrl+Shift+Alt+T')
+    expect(store.conflicts.size).toBe(0)
+  })
+
+  it('round-trips a keymap through JSON export and import', () => {
+    const store = useShortcutsStore()
+    store.setPreset('emacs')
+    store.updateShortcut('command-palette', 'Ctrl+K')
+    store.updateShortcut('new-nota', '')
+    const json = store.exportKeymap()
+
+    setActivePinia(createPinia())
+    const other = useShortcutsStore()
+    const result = other.importKeymap(json.replace('"bindings": {', '"bindings": {\n    "no-such-command": "Ctrl+Q",'))
+
+    expect(result).toEqual({ applied: 2, ignored: ['no-such-command'] })
+    expect(other.preset).toBe('emacs')
+    expect(other.keyFor('command-palette')).toBe('Ctrl+K')
+    expect(other.keyFor('new-nota')).toBe('')
+    expect(() => other.importKeymap('{"version": 2, "bindings": {}}')).toThrow('Unsupported keymap version')
+  })
+
+  it('migrates customized shortcuts from the old storage format', () => {
+    localStorage.setItem('shortcuts', JSON.stringify({
+      generalShortcuts: [
+        { id: 'italic-text', key: 'Ctrl+Shift+Alt+I' },
+        { id: 'new-nota', key: 'Ctrl+Alt+N' },
+      ],
+      blockShortcuts: [{ id: 'insert-image', key: 'Ctrl+Shift+Alt+I' }],
+    }))
+
+    const store = useShortcutsStore()
+    store.loadShortcuts()
+
+    expect(store.overrides).toEqual({ 'new-nota': 'Ctrl+Alt+N' })
+    expect(store.keyFor('italic-text')).toBe('Ctrl+I')
+    expect(localStorage.getItem('shortcuts')).toBeNull()
+    expect(JSON.parse(localStorage.getItem('keymap')!).overrides).toEqual({ 'new-nota': 'Ctrl+Alt+N' })
+  })
+})
@@ -1,127 +1,290 @@
 import { defineStore } from 'pinia'
 import { logger } from '@/services/logger'
+import {
+  findConflicts,
+  getShortcutWarning,
+  normalizeShortcut,
+  type ShortcutScope,
+} from '@/lib/keymap'
 
-// Define a type for shortcuts
-interface Shortcut {
-  id?: string;
-  key: string;
-  description: string;
-  category?: string;
+export type ShortcutCategory = 'general' | 'navigation' | 'editor' | 'blocks' | 'code' | 'ai'
+export type KeymapPreset = 'default' | 'emacs'
+
+// A command that can be bound to a key
+export interface ShortcutCommand {
+  id: string
+  description: string
+  category: ShortcutCategory
+  // Where the shortcut is active: everywhere, in the nota editor or in code cells
+  scope: ShortcutScope
+  key: string
+}
+
+export interface Shortcut extends ShortcutCommand {
+  // The key the current preset assigns, before user overrides
+  defaultKey: string
+  isCustom: boolean
+}
+
+export interface KeymapImportResult {
+  applied: number
+  ignored: string[]
 }
 
-// Define default shortcuts
-const defaultGeneralShortcuts: Shortcut[] = [
-  { id: 'global-search', key: 'Ctrl+Shift+Alt+Space', description: 'Open global search' },
-  { id: 'new-nota', key: 'Ctrl+Shift+Alt+N', description: 'Create new nota' },
-  { id: 'focus-editor', key: 'Ctrl+Shift+Alt+E', description: 'Focus editor' },
-  { id: 'commands-menu', key: 'Ctrl+Shift+Alt+/', description: 'Open commands menu (in editor)' },
-  { id: 'bold-text', key: 'Ctrl+Shift+Alt+B', description: 'Bold text (in editor)' },
-  { id: 'italic-text', key: 'Ctrl+Shift+Alt+I', description: 'Italic text (in editor)' },
-  { id: 'escape', key: 'Esc', description: 'Close dialogs / Cancel editing' },
-  { id: 'ai-generation', key: 'Ctrl+Shift+Alt+G', description: 'AI text generation' },
-  { id: 'favorites-sidebar', key: 'Ctrl+Shift+Alt+V', description: 'Toggle favorites sidebar' },
-  { id: 'favorites-search', key: 'Ctrl+Shift+Alt+P', description: 'Search in favorites' },
+const STORAGE_KEY = 'keymap'
+const LEGACY_STORAGE_KEY = 'shortcuts'
+const KEYMAP_VERSION = 1
+
+export const SHORTCUT_CATEGORIES: { id: ShortcutCategory; title: string }[] = [
+  { id: 'general', title: 'General' },
+  { id: 'navigation', title: 'Navigation' },
+  { id: 'editor', title: 'Text Editing' },
+  { id: 'blocks', title: 'Insert Blocks' },
+  { id: 'code', title: 'Code Blocks' },
+  { id: 'ai', title: 'AI' },
+]
+
+export const SHORTCUT_COMMANDS: ShortcutCommand[] = [
+  { id: 'command-palette', key: 'Ctrl+K', description: 'Open command palette', category: 'general', scope: 'global' },
+  { id: 'global-search', key: 'Ctrl+Shift+Alt+Space', description: 'Search notas', category: 'general', scope: 'global' },
+  { id: 'new-nota', key: 'Ctrl+Shift+Alt+N', description: 'Create new nota', category: 'general', scope: 'global' },
+  { id: 'show-shortcuts', key: 'Shift+/', description: 'Show keyboard shortcuts', category: 'general', scope: 'global' },
+
+  { id: 'view-all-notas', key: 'Ctrl+Shift+Alt+1', description: 'Show all notas', category: 'navigation', scope: 'global' },
+  { id: 'view-favorite-notas', key: 'Ctrl+Shift+Alt+2', description: 'Show favorite notas', category: 'navigation', scope: 'global' },
+  { id: 'view-recent-notas', key: 'Ctrl+Shift+Alt+3', description: 'Show recent notas', category: 'navigation', scope: 'global' },
+  { id: 'focus-editor', key: 'Ctrl+Shift+Alt+E', description: 'Focus editor', category: 'navigation', scope: 'global' },
+  { id: 'toggle-subnotas-sidebar', key: 'Ctrl+Shift+Alt+S', description: 'Toggle sub-notas sidebar', category: 'navigation', scope: 'global' },
+  { id: 'favorites-sidebar', key: 'Ctrl+Shift+Alt+V', description: 'Toggle favorite blocks sidebar', category: 'navigation', scope: 'global' },
+  { id: 'favorites-search', key: 'Ctrl+Shift+Alt+P', description: 'Search favorite blocks', category: 'navigation', scope: 'global' },
+
+  { id: 'commands-menu', key: 'Ctrl+Shift+Alt+/', description: 'Open commands menu', category: 'editor', scope: 'editor' },
+  { id: 'bold-text', key: 'Ctrl+B', description: 'Bold text', category: 'editor', scope: 'editor' },
+  { id: 'italic-text', key: 'Ctrl+I', description: 'Italic text', category: 'editor', scope: 'editor' },
+
+  { id: 'insert-code', key: 'Ctrl+Shift+Alt+C', description: 'Insert code block', category: 'blocks', scope: 'editor' },
+  { id: 'insert-table', key: 'Ctrl+Shift+Alt+T', description: 'Insert table', category: 'blocks', scope: 'editor' },
+  { id: 'insert-math', key: 'Ctrl+Shift+Alt+M', description: 'Insert math block', category: 'blocks', scope: 'editor' },
+  { id: 'insert-mermaid', key: 'Ctrl+Shift+Alt+D', description: 'Insert Mermaid diagram', category: 'blocks', scope: 'editor' },
+  { id: 'insert-youtube', key: 'Ctrl+Shift+Alt+Y', description: 'Insert YouTube video', category: 'blocks', scope: 'editor' },
+  { id: 'insert-subfigures', key: 'Ctrl+Shift+Alt+F', description: 'Insert subfigures', category: 'blocks', scope: 'editor' },
+  { id: 'insert-hr', key: 'Ctrl+Shift+Alt+H', description: 'Insert horizontal rule', category: 'blocks', scope: 'editor' },
+  { id: 'insert-blockquote', key: 'Ctrl+Shift+Alt+Q', description: 'Insert blockquote', category: 'blocks', scope: 'editor' },
+  { id: 'insert-tasklist', key: 'Ctrl+Shift+Alt+K', description: 'Insert task list', category: 'blocks', scope: 'editor' },
+  { id: 'insert-drawio', key: 'Ctrl+Shift+Alt+G', description: 'Insert Draw.io diagram', category: 'blocks', scope: 'editor' },
+  { id: 'insert-notatable', key: 'Ctrl+Shift+Alt+B', description: 'Insert nota table', category: 'blocks', scope: 'editor' },
+  { id: 'insert-text-block', key: 'Ctrl+Shift+Alt+X', description: 'Append text block', category: 'blocks', scope: 'editor' },
+
+  { id: 'run-code-block', key: 'Ctrl+Shift+Alt+Enter', description: 'Run code block', category: 'code', scope: 'code' },
+  { id: 'toggle-code-fullscreen', key: 'Ctrl+Shift+Alt+F', description: 'Toggle code block full screen', category: 'code', scope: 'code' },
+
+  { id: 'toggle-ai-sidebar', key: 'Ctrl+Shift+Alt+J', description: 'Toggle AI assistant', category: 'ai', scope: 'global' },
 ]
 
-const defaultBlockShortcuts: Shortcut[] = [
-  { id: 'insert-code', key: 'Ctrl+Shift+Alt+C', description: 'Insert code block' },
-  { id: 'insert-table', key: 'Ctrl+Shift+Alt+T', description: 'Insert table' },
-  { id: 'insert-image', key: 'Ctrl+Shift+Alt+I', description: 'Insert image' },
-  { id: 'insert-math', key: 'Ctrl+Shift+Alt+M', description: 'Insert math block' },
-  { id: 'insert-mermaid', key: 'Ctrl+Shift+Alt+D', description: 'Insert Mermaid diagram' },
-  { id: 'insert-youtube', key: 'Ctrl+Shift+Alt+Y', description: 'Insert YouTube video' },
-  { id: 'insert-subfigures', key: 'Ctrl+Shift+Alt+F', description: 'Insert subfigures' },
-  { id: 'insert-hr', key: 'Ctrl+Shift+Alt+H', description: 'Insert horizontal rule' },
-  { id: 'insert-blockquote', key: 'Ctrl+Shift+Alt+Q', description: 'Insert blockquote' },
-  { id: 'insert-tasklist', key: 'Ctrl+Shift+Alt+K', description: 'Insert task list' },
-  { id: 'insert-drawio', key: 'Ctrl+Shift+Alt+G', description: 'Insert Draw.io diagram' },
-  { id: 'insert-notatable', key: 'Ctrl+Shift+Alt+B', description: 'Insert nota table' },
-  { id: 'insert-ai-block', key: 'Ctrl+Shift+Alt+A', description: 'Insert inline AI generation block' },
+/**
+ * Emacs-style chords: Ctrl+X starts app and navigation commands,
+ * Ctrl+C starts editor and code commands. Commands not listed keep
+ * their default key.
+ */
+const EMACS_PRESET: Record<string, string> = {
+  'command-palette': 'Alt+X',
+  'global-search': 'Ctrl+X Ctrl+F',
+  'new-nota': 'Ctrl+X Ctrl+N',
+  'show-shortcuts': 'Ctrl+X Shift+/',
+  'view-all-notas': 'Ctrl+X 1',
+  'view-favorite-notas': 'Ctrl+X 2',
+  'view-recent-notas': 'Ctrl+X 3',
+  'focus-editor': 'Ctrl+X O',
+  'toggle-subnotas-sidebar': 'Ctrl+X S',
+  'favorites-sidebar': 'Ctrl+X V',
+  'favorites-search': 'Ctrl+X P',
+  'commands-menu': 'Ctrl+C /',
+  'insert-code': 'Ctrl+C C',
+  'insert-table': 'Ctrl+C T',
+  'insert-math': 'Ctrl+C M',
+  'insert-mermaid': 'Ctrl+C D',
+  'insert-youtube': 'Ctrl+C Y',
+  'insert-subfigures': 'Ctrl+C F',
+  'insert-hr': 'Ctrl+C H',
+  'insert-blockquote': 'Ctrl+C Q',
+  'insert-tasklist': 'Ctrl+C K',
+  'insert-drawio': 'Ctrl+C G',
+  'insert-notatable': 'Ctrl+C B',
+  'insert-text-block': 'Ctrl+C X',
+  'run-code-block': 'Ctrl+C Ctrl+C',
+  'toggle-code-fullscreen': 'Ctrl+C F',
+  'toggle-ai-sidebar': 'Ctrl+X A',
+}
+
+export const KEYMAP_PRESETS: { id: KeymapPreset; label: string; bindings: Record<string, string> }[] = [
+  { id: 'default', label: 'Default', bindings: {} },
+  { id: 'emacs', label: 'Emacs (chords)', bindings: EMACS_PRESET },
 ]
 
+// Old defaults that changed, so saved copies of them are not taken as customizations
+const LEGACY_DEFAULTS: Record<string, string> = {
+  'bold-text': 'Ctrl+Shift+Alt+B',
+  'italic-text': 'Ctrl+Shift+Alt+I',
+}
+
+const presetKey = (preset: KeymapPreset, command: ShortcutCommand) =>
+  KEYMAP_PRESETS.find(p => p.id === preset)?.bindings[command.id] ?? command.key
+
 export const useShortcutsStore = defineStore('shortcuts', {
   state: () => ({
-    generalShortcuts: [...defaultGeneralShortcuts],
-    blockShortcuts: [...defaultBlockShortcuts],
+    preset: 'default' as KeymapPreset,
+    // Command id to key. An empty key leaves the command unbound.
+    overrides: {} as Record<string, string>,
+    isLoaded: false,
   }),
-  
+
   getters: {
-    shortcuts: (state) => {
-      return [...state.generalShortcuts, ...state.blockShortcuts]
-    }
+    shortcuts: (state): Shortcut[] => {
+      return SHORTCUT_COMMANDS.map(command => {
+        const defaultKey = presetKey(state.preset, command)
+        const isCustom = command.id in state.overrides
+        return {
+          ...command,
+          key: isCustom ? state.overrides[command.id] : defaultKey,
+          defaultKey,
+          isCustom,
+        }
+      })
+    },
+
+    conflicts(): Map<string, string[]> {
+      return findConflicts(this.shortcuts)
+    },
+
+    keyFor() {
+      return (id: string) => this.shortcuts.find(s => s.id === id)?.key ?? ''
+    },
   },
-  
+
   actions: {
-    updateShortcut(id: string, updatedShortcut: Shortcut) {
-      // Find if the shortcut is in general or block shortcuts
-      const generalIndex = this.generalShortcuts.findIndex(s => s.id === id)
-      if (generalIndex !== -1) {
-        this.generalShortcuts[generalIndex] = { ...this.generalShortcuts[generalIndex], ...updatedShortcut }
-        this.saveShortcuts()
-        return
-      }
-      
-      const blockIndex = this.blockShortcuts.findIndex(s => s.id === id)
-      if (blockIndex !== -1) {
-        this.blockShortcuts[blockIndex] = { ...this.blockShortcuts[blockIndex], ...updatedShortcut }
-        this.saveShortcuts()
+    /**
+     * Bind a command to a key. An empty key unbinds it.
+     * @returns false when the key is not a valid shortcut or is reserved by the browser
+     */
+    updateShortcut(id: string, key: string): boolean {
+      const command = SHORTCUT_COMMANDS.find(c => c.id === id)
+      if (!command) return false
+
+      const normalized = key.trim() ? normalizeShortcut(key) : ''
+      if (normalized === null || getShortcutWarning(normalized)?.level === 'reserved') return false
+
+      if (normalized === presetKey(this.preset, command)) {
+        delete this.overrides[id]
+      } else {
+        this.overrides[id] = normalized
       }
+      this.saveShortcuts()
+      return true
     },
-    
+
     resetShortcut(id: string) {
-      // Find the default shortcut by id
-      const defaultGeneral = defaultGeneralShortcuts.find(s => s.id === id)
-      if (defaultGeneral) {
-        const index = this.generalShortcuts.findIndex(s => s.id === id)
-        if (index !== -1) {
-          this.generalShortcuts[index] = { ...defaultGeneral }
-          this.saveShortcuts()
-          return
-        }
-      }
-      
-      const defaultBlock = defaultBlockShortcuts.find(s => s.id === id)
-      if (defaultBlock) {
-        const index = this.blockShortcuts.findIndex(s => s.id === id)
-        if (index !== -1) {
-          this.blockShortcuts[index] = { ...defaultBlock }
-          this.saveShortcuts()
+      delete this.overrides[id]
+      this.saveShortcuts()
+    },
+
+    /**
+     * Drop user overrides, for all commands or only the given categories
+     */
+    resetToDefaults(categories?: ShortcutCategory[]) {
+      if (!categories) {
+        this.overrides = {}
+      } else {
+        for (const command of SHORTCUT_COMMANDS) {
+          if (categories.includes(command.category)) delete this.overrides[command.id]
         }
       }
+      this.saveShortcuts()
     },
 
-    resetToDefaults() {
-      this.generalShortcuts = [...defaultGeneralShortcuts]
-      this.blockShortcuts = [...defaultBlockShortcuts]
+    setPreset(preset: KeymapPreset) {
+      if (!KEYMAP_PRESETS.some(p => p.id === preset)) return
+      this.preset = preset
       this.saveShortcuts()
     },
-    
+
+    exportKeymap(): string {
+      return JSON.stringify({ version: KEYMAP_VERSION, preset: this.preset, bindings: this.overrides }, null, 2)
+    },
+
+    /**
+     * Replace the keymap with an exported one. Unknown commands and
+     * invalid or reserved keys are skipped and reported.
+     */
+    importKeymap(json: string): KeymapImportResult {
+      let data: any
+      try {
+        data = JSON.parse(json)
+      } catch {
+        throw new Error('The keymap file is not valid JSON')
+      }
+      if (!data || typeof data !== 'object' || typeof data.bindings !== 'object' || data.bindings === null) {
+        throw new Error('The file does not contain a keymap')
+      }
+      if (data.version !== KEYMAP_VERSION) {
+        throw new Error(`Unsupported keymap version: ${data.version}`)
+      }
+
+      const overrides: Record<string, string> = {}
+      const ignored: string[] = []
+      for (const [id, key] of Object.entries(data.bindings)) {
+        const normalized = key === '' ? '' : typeof key === 'string' ? normalizeShortcut(key) : null
+        const valid = SHORTCUT_COMMANDS.some(c => c.id === id) &&
+          normalized !== null &&
+          getShortcutWarning(normalized)?.level !== 'reserved'
+        if (valid) overrides[id] = normalized as string
+        else ignored.push(id)
+      }
+
+      this.preset = KEYMAP_PRESETS.some(p => p.id === data.preset) ? data.preset : 'default'
+      this.overrides = overrides
+      this.saveShortcuts()
+      return { applied: Object.keys(overrides).length, ignored }
+    },
+
     saveShortcuts() {
-      localStorage.setItem('shortcuts', JSON.stringify({
-        generalShortcuts: this.generalShortcuts,
-        blockShortcuts: this.blockShortcuts
-      }))
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ preset: this.preset, overrides: this.overrides }))
     },
-    
+
     loadShortcuts() {
-      const savedShortcuts = localStorage.getItem('shortcuts')
-      if (savedShortcuts) {
+      this.isLoaded = true
+      const saved = localStorage.getItem(STORAGE_KEY)
+      if (saved) {
         try {
-          const parsed = JSON.parse(savedShortcuts)
-          if (parsed.generalShortcuts) this.generalShortcuts = parsed.generalShortcuts
-          if (parsed.blockShortcuts) this.blockShortcuts = parsed.blockShortcuts
+          const parsed = JSON.parse(saved)
+          if (KEYMAP_PRESETS.some(p => p.id === parsed.preset)) this.preset = parsed.preset
+          if (parsed.overrides && typeof parsed.overrides === 'object') this.overrides = parsed.overrides
         } catch (e) {
-          logger.error('Failed to parse saved shortcuts', e)
+          logger.error('Failed to parse saved keymap', e)
         }
+        return
       }
-    }
-  }
-})
-
-
-
-
-
-
-
+      this.migrateLegacyShortcuts()
+    },
 
+    // Shortcuts used to be saved as full lists under another key
+    migrateLegacyShortcuts() {
+      const saved = localStorage.getItem(LEGACY_STORAGE_KEY)
+      if (!saved) return
+      try {
+        const parsed = JSON.parse(saved)
+        const entries = [...(parsed.generalShortcuts ?? []), ...(parsed.blockShortcuts ?? [])]
+        for (const entry of entries) {
+          const command = SHORTCUT_COMMANDS.find(c => c.id === entry?.id)
+          const key = typeof entry?.key === 'string' ? normalizeShortcut(entry.key) : null
+          if (!command || !key) continue
+          if (key === command.key || key === LEGACY_DEFAULTS[command.id]) continue
+          this.overrides[command.id] = key
+        }
+        this.saveShortcuts()
+        localStorage.removeItem(LEGACY_STORAGE_KEY)
+      } catch (e) {
+        logger.error('Failed to migrate saved shortcuts', e)
+      }
+    },
+  },
+})